@@ -0,0 +1,195 @@
+import React, { useState, useEffect } from 'react';
+import ReactDOM from 'react-dom';
+import { X, RotateCcw } from 'lucide-react';
+import { useEditorStore } from '../store/editorStore';
+import { useToolbarStore } from '../store/toolbarStore';
+import { AutosaveVersion, listAutosaveVersions, wasPreviousSessionUnclean } from '../utils/project-storage';
+
+export const AutosaveVersionsModal: React.FC = () => {
+  const activeDocumentId = useEditorStore(state => state.documents.activeDocumentId);
+  const { isAutosaveVersionsOpen, setAutosaveVersionsOpen } = useToolbarStore();
+  const [versions, setVersions] = useState<AutosaveVersion[]>([]);
+  const [isRecovery, setIsRecovery] = useState(false);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+
+  // Offer the autosave versions right away when the last session ended unexpectedly
+  useEffect(() => {
+    if (!wasPreviousSessionUnclean()) return;
+    listAutosaveVersions(useEditorStore.getState().documents.activeDocumentId)
+      .then(found => {
+        if (found.length > 0) {
+          setIsRecovery(true);
+          setAutosaveVersionsOpen(true);
+        }
+      })
+      .catch(error => console.warn('Failed to list autosave versions:', error));
+  }, [setAutosaveVersionsOpen]);
+
+  useEffect(() => {
+    if (!isAutosaveVersionsOpen) return;
+    let cancelled = false;
+    listAutosaveVersions(activeDocumentId)
+      .then(found => {
+        if (!cancelled) setVersions(found);
+      })
+      .catch(error => {
+        console.warn('Failed to list autosave versions:', error);
+        if (!cancelled) setVersions([]);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [isAutosaveVersionsOpen, activeDocumentId]);
+
+  const handleClose = () => {
+    setAutosaveVersionsOpen(false);
+    setIsRecovery(false);
+  };
+
+  // Handle escape key
+  useEffect(() => {
+    if (!isAutosaveVersionsOpen) return;
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        setAutosaveVersionsOpen(false);
+        setIsRecovery(false);
+      }
+    };
+    document.addEventListener('keydown', handleEscape);
+    return () => document.removeEventListener('keydown', handleEscape);
+  }, [isAutosaveVersionsOpen, setAutosaveVersionsOpen]);
+
+  const handleRestore = async (versionId: string) => {
+    setRestoringId(versionId);
+    const restored = await useEditorStore.getState().restoreAutosaveVersion(versionId);
+    setRestoringId(null);
+    if (restored) {
+      handleClose();
+    } else {
+      alert('This autosave version could not be restored.');
+    }
+  };
+
+  if (!isAutosaveVersionsOpen) return null;
+
+  const modalContent = (
+    <div
+      className="autosave-versions-modal"
+      onClick={(e) => {
+        if (e.target === e.currentTarget) handleClose();
+      }}
+      style={{
+        position: 'fixed',
+        top: 0,
+        left: 0,
+        right: 0,
+        bottom: 0,
+        backgroundColor: 'rgba(0, 0, 0, 0.5)',
+        zIndex: 10001,
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        padding: '20px'
+      }}
+    >
+      <div
+        style={{
+          backgroundColor: 'white',
+          borderRadius: '8px',
+          border: '1px solid #000',
+          width: '90%',
+          maxWidth: '420px',
+          maxHeight: '70%',
+          display: 'flex',
+          flexDirection: 'column',
+          boxShadow: '0 4px 12px rgba(0, 0, 0, 0.15)'
+        }}
+      >
+        {/* Header */}
+        <div style={{
+          padding: '16px 20px',
+          borderBottom: '1px solid #e5e5e5',
+          display: 'flex',
+          justifyContent: 'space-between',
+          alignItems: 'center'
+        }}>
+          <h3 style={{ margin: 0, fontSize: '18px', fontWeight: '600', color: '#000' }}>
+            {isRecovery ? 'Recover unsaved work' : 'Autosave Versions'}
+            {isRecovery && (
+              <div style={{ fontSize: '12px', fontWeight: '400', color: '#666', marginTop: '4px' }}>
+                The editor did not close properly last time. Restore a recent version or keep the current document.
+              </div>
+            )}
+          </h3>
+          <button
+            onClick={handleClose}
+            style={{
+              background: 'none',
+              border: 'none',
+              cursor: 'pointer',
+              padding: '4px',
+              borderRadius: '4px'
+            }}
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        {/* Versions, newest first */}
+        <div style={{ flex: 1, overflow: 'auto', padding: '8px 0' }}>
+          {versions.length === 0 ? (
+            <div style={{ padding: '20px', fontSize: '13px', color: '#666', textAlign: 'center' }}>
+              No autosave versions for this document yet.
+            </div>
+          ) : (
+            versions.map(version => (
+              <div
+                key={version.id}
+                style={{
+                  display: 'flex',
+                  alignItems: 'center',
+                  justifyContent: 'space-between',
+                  gap: '12px',
+                  padding: '8px 20px',
+                  fontSize: '13px',
+                  borderBottom: '1px solid #f3f4f6'
+                }}
+              >
+                <div>
+                  <div style={{ color: '#1f2937' }}>{new Date(version.timestamp).toLocaleString()}</div>
+                  <div style={{ fontSize: '11px', color: '#9ca3af' }}>{version.documentName}</div>
+                </div>
+                <button
+                  onClick={() => handleRestore(version.id)}
+                  disabled={restoringId !== null}
+                  style={{
+                    display: 'flex',
+                    alignItems: 'center',
+                    gap: '4px',
+                    padding: '4px 10px',
+                    fontSize: '12px',
+                    border: '1px solid #d1d5db',
+                    borderRadius: '4px',
+                    background: 'white',
+                    color: '#374151',
+                    cursor: restoringId !== null ? 'default' : 'pointer',
+                    opacity: restoringId !== null && restoringId !== version.id ? 0.5 : 1
+                  }}
+                >
+                  <RotateCcw size={12} />
+                  {restoringId === version.id ? 'Restoring…' : 'Restore'}
+                </button>
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  );
+
+  // Find the SVG container for the portal
+  const svgContainer = document.querySelector('.svg-editor') as HTMLElement;
+  const portalContainer = svgContainer || document.body;
+
+  return ReactDOM.createPortal(modalContent, portalContainer);
+};
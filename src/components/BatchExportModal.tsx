@@ -0,0 +1,251 @@
+import React, { useState, useEffect } from 'react';
+import ReactDOM from 'react-dom';
+import { X, FolderArchive } from 'lucide-react';
+import { useEditorStore } from '../store/editorStore';
+import { useToolbarStore } from '../store/toolbarStore';
+import {
+  BatchExportSource,
+  DEFAULT_BATCH_NAME_TEMPLATE,
+  getBatchExportItems,
+  getBatchFileNames,
+  createBatchExportZip,
+  downloadZipFile
+} from '../utils/batch-export';
+
+const DEFAULT_PADDING = 0;
+
+const labelStyle: React.CSSProperties = {
+  fontSize: '12px',
+  fontWeight: 600,
+  color: '#374151',
+  marginBottom: '6px'
+};
+
+const rowStyle: React.CSSProperties = {
+  display: 'flex',
+  alignItems: 'center',
+  gap: '8px',
+  flexWrap: 'wrap',
+  marginBottom: '14px',
+  fontSize: '12px',
+  color: '#374151'
+};
+
+const inputStyle: React.CSSProperties = {
+  width: '80px',
+  padding: '4px 6px',
+  fontSize: '12px',
+  border: '1px solid #d1d5db',
+  borderRadius: '4px'
+};
+
+const optionButtonStyle = (active: boolean): React.CSSProperties => ({
+  padding: '4px 10px',
+  fontSize: '12px',
+  border: active ? '1px solid #374151' : '1px solid #d1d5db',
+  borderRadius: '4px',
+  background: active ? '#f3f4f6' : 'white',
+  fontWeight: active ? 600 : 400,
+  color: '#374151',
+  cursor: 'pointer'
+});
+
+export const BatchExportModal: React.FC = () => {
+  const { isBatchExportOpen, setBatchExportOpen } = useToolbarStore();
+  const groups = useEditorStore(state => state.groups);
+  const symbols = useEditorStore(state => state.symbols);
+  const documents = useEditorStore(state => state.documents);
+
+  const [source, setSource] = useState<BatchExportSource>('groups');
+  const [padding, setPadding] = useState(String(DEFAULT_PADDING));
+  const [nameTemplate, setNameTemplate] = useState(DEFAULT_BATCH_NAME_TEMPLATE);
+
+  // Symbols are the only option in documents without groups
+  useEffect(() => {
+    if (!isBatchExportOpen) return;
+    const { groups: currentGroups, symbols: currentSymbols } = useEditorStore.getState();
+    setSource(currentGroups.length === 0 && currentSymbols.length > 0 ? 'symbols' : 'groups');
+  }, [isBatchExportOpen]);
+
+  // Handle escape key
+  useEffect(() => {
+    if (!isBatchExportOpen) return;
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') setBatchExportOpen(false);
+    };
+    document.addEventListener('keydown', handleEscape);
+    return () => document.removeEventListener('keydown', handleEscape);
+  }, [isBatchExportOpen, setBatchExportOpen]);
+
+  if (!isBatchExportOpen) return null;
+
+  const items = getBatchExportItems(useEditorStore.getState(), source);
+  const fileNames = getBatchFileNames(items, nameTemplate);
+  const paddingValue = Math.max(0, parseFloat(padding) || 0);
+
+  const handleExport = () => {
+    const zip = createBatchExportZip(useEditorStore.getState(), { source, padding: paddingValue, nameTemplate });
+    if (!zip) {
+      alert(`There are no ${source} to export.`);
+      return;
+    }
+    const documentName = documents.tabs.find(tab => tab.id === documents.activeDocumentId)?.name || 'drawing';
+    downloadZipFile(zip, `${documentName.replace(/[^a-zA-Z0-9-_]/g, '_')}_${source}.zip`);
+    setBatchExportOpen(false);
+  };
+
+  const modalContent = (
+    <div
+      className="batch-export-modal"
+      onClick={(e) => {
+        if (e.target === e.currentTarget) setBatchExportOpen(false);
+      }}
+      style={{
+        position: 'fixed',
+        top: 0,
+        left: 0,
+        right: 0,
+        bottom: 0,
+        backgroundColor: 'rgba(0, 0, 0, 0.5)',
+        zIndex: 10001,
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        padding: '20px'
+      }}
+    >
+      <div
+        style={{
+          backgroundColor: 'white',
+          borderRadius: '8px',
+          border: '1px solid #000',
+          width: '90%',
+          maxWidth: '420px',
+          maxHeight: '90%',
+          overflow: 'auto',
+          boxShadow: '0 4px 12px rgba(0, 0, 0, 0.15)'
+        }}
+      >
+        {/* Header */}
+        <div style={{
+          padding: '16px 20px',
+          borderBottom: '1px solid #e5e5e5',
+          display: 'flex',
+          justifyContent: 'space-between',
+          alignItems: 'center'
+        }}>
+          <h3 style={{ margin: 0, fontSize: '18px', fontWeight: '600', color: '#000' }}>Batch Export</h3>
+          <button
+            onClick={() => setBatchExportOpen(false)}
+            style={{
+              background: 'none',
+              border: 'none',
+              cursor: 'pointer',
+              padding: '4px',
+              borderRadius: '4px'
+            }}
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        <div style={{ padding: '16px 20px' }}>
+          <div style={labelStyle}>Export each</div>
+          <div style={rowStyle}>
+            <button
+              style={{ ...optionButtonStyle(source === 'groups'), opacity: groups.length > 0 ? 1 : 0.5 }}
+              onClick={() => setSource('groups')}
+              disabled={groups.length === 0}
+            >
+              Top-level group
+            </button>
+            <button
+              style={{ ...optionButtonStyle(source === 'symbols'), opacity: symbols.length > 0 ? 1 : 0.5 }}
+              onClick={() => setSource('symbols')}
+              disabled={symbols.length === 0}
+            >
+              Symbol
+            </button>
+          </div>
+
+          <div style={labelStyle}>Padding</div>
+          <div style={rowStyle}>
+            <input
+              type="number"
+              min={0}
+              value={padding}
+              onChange={(e) => setPadding(e.target.value)}
+              style={inputStyle}
+            />
+            <span style={{ color: '#9ca3af' }}>Space around each item's bounds</span>
+          </div>
+
+          <div style={labelStyle}>File names</div>
+          <div style={rowStyle}>
+            <input
+              type="text"
+              value={nameTemplate}
+              placeholder={DEFAULT_BATCH_NAME_TEMPLATE}
+              onChange={(e) => setNameTemplate(e.target.value)}
+              style={{ ...inputStyle, flex: 1 }}
+            />
+            <span style={{ color: '#9ca3af', width: '100%' }}>
+              Use {'{name}'}, {'{id}'} and {'{index}'}
+            </span>
+          </div>
+
+          {/* Preview of the files in the zip */}
+          <div style={{
+            maxHeight: '140px',
+            overflow: 'auto',
+            marginBottom: '14px',
+            border: '1px solid #f3f4f6',
+            borderRadius: '4px',
+            fontSize: '11px',
+            color: '#6b7280'
+          }}>
+            {fileNames.length === 0 ? (
+              <div style={{ padding: '8px', textAlign: 'center' }}>Nothing to export</div>
+            ) : (
+              fileNames.map((fileName, index) => (
+                <div key={items[index].id} style={{ padding: '4px 8px', borderBottom: '1px solid #f3f4f6' }}>
+                  {fileName}
+                </div>
+              ))
+            )}
+          </div>
+
+          <button
+            onClick={handleExport}
+            disabled={items.length === 0}
+            style={{
+              display: 'flex',
+              alignItems: 'center',
+              justifyContent: 'center',
+              gap: '8px',
+              width: '100%',
+              padding: '8px',
+              fontSize: '13px',
+              fontWeight: 500,
+              background: '#28a745',
+              color: 'white',
+              border: 'none',
+              borderRadius: '4px',
+              cursor: items.length === 0 ? 'default' : 'pointer',
+              opacity: items.length === 0 ? 0.6 : 1
+            }}
+          >
+            <FolderArchive size={16} />
+            Download {items.length} {items.length === 1 ? 'file' : 'files'} as zip
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+
+  // Find the SVG container for the portal
+  const svgContainer = document.querySelector('.svg-editor') as HTMLElement;
+  const portalContainer = svgContainer || document.body;
+
+  return ReactDOM.createPortal(modalContent, portalContainer);
+};
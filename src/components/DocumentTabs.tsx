@@ -0,0 +1,140 @@
+import React, { useState } from 'react';
+import { Plus, X } from 'lucide-react';
+import { useEditorStore } from '../store/editorStore';
+import { useMobileDetection } from '../hooks/useMobileDetection';
+
+export const DocumentTabs: React.FC = () => {
+  const { isMobile, isTablet } = useMobileDetection();
+  const isMobileDevice = isMobile || isTablet;
+  const documents = useEditorStore(state => state.documents);
+  const { createDocument, switchDocument, renameDocument, closeDocument } = useEditorStore.getState();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState('');
+
+  const startRename = (documentId: string, name: string) => {
+    setEditingId(documentId);
+    setEditingName(name);
+  };
+
+  const finishRename = () => {
+    if (editingId) {
+      renameDocument(editingId, editingName);
+    }
+    setEditingId(null);
+  };
+
+  const barStyle: React.CSSProperties = {
+    position: 'fixed',
+    top: 'env(safe-area-inset-top, 8px)',
+    left: '50%',
+    transform: 'translateX(-50%)',
+    zIndex: 9998,
+    display: 'flex',
+    alignItems: 'stretch',
+    maxWidth: '90vw',
+    overflowX: 'auto',
+    background: 'white',
+    boxShadow: '0 4px 6px -1px rgba(0, 0, 0, 0.1), 0 2px 4px -1px rgba(0, 0, 0, 0.06)',
+    scrollbarWidth: 'none',
+    userSelect: 'none',
+    touchAction: 'manipulation'
+  };
+
+  const tabHeight = isMobileDevice ? '28px' : '32px';
+
+  return (
+    <div className="document-tabs" style={barStyle}>
+      {documents.tabs.map(tab => {
+        const isActive = tab.id === documents.activeDocumentId;
+        return (
+          <div
+            key={tab.id}
+            title={tab.name}
+            onPointerDown={() => switchDocument(tab.id)}
+            onDoubleClick={() => startRename(tab.id, tab.name)}
+            style={{
+              display: 'flex',
+              alignItems: 'center',
+              gap: '4px',
+              height: tabHeight,
+              padding: '0 4px 0 10px',
+              fontSize: '12px',
+              cursor: 'pointer',
+              whiteSpace: 'nowrap',
+              color: isActive ? '#1f2937' : '#6b7280',
+              fontWeight: isActive ? 600 : 400,
+              background: isActive ? '#f3f4f6' : 'white',
+              borderBottom: isActive ? '2px solid #374151' : '2px solid transparent'
+            }}
+          >
+            {editingId === tab.id ? (
+              <input
+                autoFocus
+                value={editingName}
+                onChange={(e) => setEditingName(e.target.value)}
+                onBlur={finishRename}
+                onKeyDown={(e) => {
+                  e.stopPropagation();
+                  if (e.key === 'Enter') finishRename();
+                  if (e.key === 'Escape') setEditingId(null);
+                }}
+                onPointerDown={(e) => e.stopPropagation()}
+                style={{
+                  width: '100px',
+                  fontSize: '12px',
+                  padding: '1px 4px',
+                  border: '1px solid #d1d5db',
+                  borderRadius: '3px'
+                }}
+              />
+            ) : (
+              <span style={{ maxWidth: '140px', overflow: 'hidden', textOverflow: 'ellipsis' }}>
+                {tab.name}
+              </span>
+            )}
+            <button
+              aria-label={`Close ${tab.name}`}
+              onPointerDown={(e) => {
+                e.stopPropagation();
+                if (confirm(`Close "${tab.name}"? Its contents will be discarded.`)) {
+                  closeDocument(tab.id);
+                }
+              }}
+              style={{
+                display: 'flex',
+                alignItems: 'center',
+                justifyContent: 'center',
+                padding: '2px',
+                border: 'none',
+                background: 'none',
+                color: '#9ca3af',
+                cursor: 'pointer'
+              }}
+            >
+              <X size={12} />
+            </button>
+          </div>
+        );
+      })}
+      <button
+        aria-label="New document"
+        title="New document"
+        onPointerDown={() => createDocument()}
+        style={{
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'center',
+          width: tabHeight,
+          height: tabHeight,
+          border: 'none',
+          background: 'white',
+          color: '#374151',
+          cursor: 'pointer',
+          flexShrink: 0
+        }}
+      >
+        <Plus size={14} />
+      </button>
+    </div>
+  );
+};
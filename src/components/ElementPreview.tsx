@@ -1,5 +1,7 @@
 import React from 'react';
 import { useEditorStore } from '../store/editorStore';
+import { subPathToString } from '../utils/path-utils';
+import { getPathTransformAttribute } from '../utils/path-transform-utils';
 
 interface ElementPreviewProps {
   elementId: string;
@@ -60,26 +62,14 @@ export const ElementPreview: React.FC<ElementPreviewProps> = ({
       switch (child.type) {
         case 'path':
           const pathData = child.subPaths?.map((subPath: any) => 
-            subPath.commands?.map((cmd: any) => {
-              switch (cmd.command) {
-                case 'M':
-                  return `M ${cmd.x || 0} ${cmd.y || 0}`;
-                case 'L':
-                  return `L ${cmd.x || 0} ${cmd.y || 0}`;
-                case 'C':
-                  return `C ${cmd.x1 || 0} ${cmd.y1 || 0} ${cmd.x2 || 0} ${cmd.y2 || 0} ${cmd.x || 0} ${cmd.y || 0}`;
-                case 'Z':
-                  return 'Z';
-                default:
-                  return '';
-              }
-            }).join(' ')
+            subPathToString(subPath)
           ).join(' ') || 'M 0 0';
 
           return (
             <path
               key={`${child.id}-${index}`}
               d={pathData}
+              transform={getPathTransformAttribute(child)}
               fill={child.style?.fill || '#000'}
               stroke={child.style?.stroke || 'none'}
               strokeWidth={child.style?.strokeWidth || 0}
@@ -1,5 +1,5 @@
 import React, { useRef } from 'react';
-import { ArrowDownUp, Trash2, Upload, Download } from 'lucide-react';
+import { ArrowDownUp, Trash2, Upload, Download, History, Save, FolderOpen, ImageDown, FolderArchive, DraftingCompass } from 'lucide-react';
 import { ToolbarSubmenu, SubmenuItem } from './ToolbarSubmenu';
 import { useToolbarStore } from '../store/toolbarStore';
 import { useEditorStore } from '../store/editorStore';
@@ -8,12 +8,25 @@ import { parseCompleteSVG } from '../utils/svg-parser';
 import { generateId } from '../utils/id-utils';
 import { useMobileDetection } from '../hooks/useMobileDetection';
 import { CONFIG } from '../config/constants';
+import { stickyManager } from '../plugins/sticky-guidelines/StickyManager';
+import { formatHandlerRegistry } from '../core/FormatHandlerRegistry';
+import {
+  createProjectFile,
+  serializeProjectFile,
+  parseProjectFile,
+  getProjectFileName,
+  PROJECT_FILE_EXTENSION
+} from '../utils/project-file';
 
 export const FileActionsButton: React.FC = () => {
   const { isMobile } = useMobileDetection();
   const { 
     isFileActionsSubmenuOpen, 
-    setFileActionsSubmenuOpen 
+    setFileActionsSubmenuOpen,
+    setAutosaveVersionsOpen,
+    setRasterExportOpen,
+    setBatchExportOpen,
+    setFormatExportOpen
   } = useToolbarStore();
   
   const { 
@@ -57,6 +70,7 @@ export const FileActionsButton: React.FC = () => {
   } = useEditorStore();
 
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const projectInputRef = useRef<HTMLInputElement>(null);
 
   // Clear All functionality - matches SVGEditor.tsx
   const handleClearAll = () => {
@@ -72,6 +86,26 @@ export const FileActionsButton: React.FC = () => {
     setFileActionsSubmenuOpen(false);
   };
 
+  const handleExportImage = () => {
+    setRasterExportOpen(true);
+    setFileActionsSubmenuOpen(false);
+  };
+
+  const handleBatchExport = () => {
+    setBatchExportOpen(true);
+    setFileActionsSubmenuOpen(false);
+  };
+
+  const handleFormatExport = () => {
+    setFormatExportOpen(true);
+    setFileActionsSubmenuOpen(false);
+  };
+
+  const handleAutosaveVersions = () => {
+    setAutosaveVersionsOpen(true);
+    setFileActionsSubmenuOpen(false);
+  };
+
   // Upload functionality - matches SVGEditor.tsx
   const handleUpload = () => {
     fileInputRef.current?.click();
@@ -183,15 +217,22 @@ export const FileActionsButton: React.FC = () => {
         replaceGroups(newGroups);
       }
 
-      // Import animations
+      // Import animations, which get new IDs
+      const animationIdMapping: Record<string, string> = {};
       if (newAnimations.length > 0) {
-        newAnimations.forEach(animation => addAnimation(animation));
+        newAnimations.forEach(animation => {
+          animationIdMapping[animation.id] = addAnimation(animation);
+        });
       }
 
-      // Create animation chains if they exist
+      // Create animation chains if they exist, pointing at the new animation IDs
       if (newAnimationChains && newAnimationChains.length > 0) {
         newAnimationChains.forEach(chain => {
-          createAnimationChain(chain.animations, chain.delay);
+          createAnimationChain(chain.name, chain.animations.map((chainAnim: any) => ({
+            ...chainAnim,
+            animationId: animationIdMapping[chainAnim.animationId] || chainAnim.animationId,
+            dependsOn: chainAnim.dependsOn ? animationIdMapping[chainAnim.dependsOn] || chainAnim.dependsOn : chainAnim.dependsOn
+          })));
         });
       }
 
@@ -209,10 +250,37 @@ export const FileActionsButton: React.FC = () => {
     }
   };
 
+  // Paths from CAD and plotter files are added to the current drawing
+  const handleFormatImport = async (file: File) => {
+    const { formatCanvasUnit, formatFileUnit } = useToolbarStore.getState();
+    const result = await formatHandlerRegistry.importFromFile(file, {
+      canvasUnit: formatCanvasUnit,
+      fileUnit: formatFileUnit
+    });
+    if (!result.success) {
+      alert(`Could not import ${file.name}:\n${result.errors.join('\n')}`);
+      return;
+    }
+
+    const state = useEditorStore.getState();
+    state.pushToHistory(`Import ${file.name}`);
+    replacePaths([...state.paths, ...result.paths]);
+    if (result.warnings.length > 0) {
+      alert(`Imported with warnings:\n${result.warnings.join('\n')}`);
+    }
+  };
+
   const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file) return;
 
+    // Other formats go through their registered handler
+    if (formatHandlerRegistry.getHandlerForFile(file.name)) {
+      await handleFormatImport(file);
+      event.target.value = '';
+      return;
+    }
+
     // Validate file type
     if (file.type !== 'image/svg+xml' && !file.name.toLowerCase().endsWith('.svg')) {
       alert('Please select a valid SVG file.');
@@ -273,6 +341,54 @@ export const FileActionsButton: React.FC = () => {
     setFileActionsSubmenuOpen(false);
   };
 
+  // Save the active document as a native project file, keeping editor-only data
+  const handleSaveProject = () => {
+    const state = useEditorStore.getState();
+    const tab = state.documents.tabs.find(item => item.id === state.documents.activeDocumentId);
+    const name = tab?.name ?? 'Untitled';
+    const project = createProjectFile(state, name, stickyManager.getConfig());
+
+    const blob = new Blob([serializeProjectFile(project)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = getProjectFileName(name);
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+
+    setFileActionsSubmenuOpen(false);
+  };
+
+  const handleOpenProject = () => {
+    projectInputRef.current?.click();
+    setFileActionsSubmenuOpen(false);
+  };
+
+  const handleProjectFileOpen = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    try {
+      const { project, errors } = parseProjectFile(await file.text());
+      if (!project) {
+        alert(`Could not open the project:\n${errors.join('\n')}`);
+      } else {
+        useEditorStore.getState().openProjectDocument(project);
+        if (project.editor.guides) {
+          stickyManager.updateConfig(project.editor.guides);
+        }
+      }
+    } catch (error) {
+      console.error('Error reading project file:', error);
+      alert('Error reading the file.');
+    }
+
+    // Clear the input so the same file can be selected again
+    event.target.value = '';
+  };
+
   // Check if download should be disabled
   const hasContent = paths.length > 0 || texts.length > 0 || groups.length > 0 || images.length > 0;
 
@@ -332,6 +448,39 @@ export const FileActionsButton: React.FC = () => {
           onClick={handleDownload}
           disabled={!hasContent}
         />
+        <SubmenuItem
+          icon={<ImageDown size={iconSize} strokeWidth={strokeWidth} />}
+          label="Export Image"
+          onClick={handleExportImage}
+          disabled={!hasContent}
+        />
+        <SubmenuItem
+          icon={<FolderArchive size={iconSize} strokeWidth={strokeWidth} />}
+          label="Batch Export"
+          onClick={handleBatchExport}
+          disabled={groups.length === 0 && symbols.length === 0}
+        />
+        <SubmenuItem
+          icon={<DraftingCompass size={iconSize} strokeWidth={strokeWidth} />}
+          label="CAD / Plotter Export"
+          onClick={handleFormatExport}
+          disabled={paths.length === 0}
+        />
+        <SubmenuItem
+          icon={<FolderOpen size={iconSize} strokeWidth={strokeWidth} />}
+          label="Open Project"
+          onClick={handleOpenProject}
+        />
+        <SubmenuItem
+          icon={<Save size={iconSize} strokeWidth={strokeWidth} />}
+          label="Save Project"
+          onClick={handleSaveProject}
+        />
+        <SubmenuItem
+          icon={<History size={iconSize} strokeWidth={strokeWidth} />}
+          label="Autosave Versions"
+          onClick={handleAutosaveVersions}
+        />
         <SubmenuItem
           icon={<Trash2 size={iconSize} strokeWidth={strokeWidth} />}
           label="Clear All"
@@ -343,10 +492,17 @@ export const FileActionsButton: React.FC = () => {
       <input
         ref={fileInputRef}
         type="file"
-        accept=".svg"
+        accept={['.svg', ...formatHandlerRegistry.getImportExtensions()].join(',')}
         style={{ display: 'none' }}
         onChange={handleFileUpload}
       />
+      <input
+        ref={projectInputRef}
+        type="file"
+        accept={`${PROJECT_FILE_EXTENSION},application/json`}
+        style={{ display: 'none' }}
+        onChange={handleProjectFileOpen}
+      />
     </>
   );
 };
\ No newline at end of file
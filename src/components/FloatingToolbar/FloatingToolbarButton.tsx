@@ -6,6 +6,7 @@ import { createLinearGradient, createRadialGradient, createGradientStop } from '
 import { useEditorStore } from '../../store/editorStore';
 import { parseColorWithOpacity } from '../../utils/color-utils';
 import { CONFIG } from '../../config/constants';
+import { runInHistoryTransaction } from '../../store/atomicOperations';
 
 interface FloatingToolbarButtonProps {
   action: ToolbarAction;
@@ -94,10 +95,10 @@ export const FloatingToolbarButton: React.FC<FloatingToolbarButtonProps> = ({
 
     switch (action.type) {
       case 'button':
-        action.action?.(e);
+        runInHistoryTransaction(action.label, () => action.action?.(e));
         break;
       case 'toggle':
-        action.toggle?.onToggle();
+        runInHistoryTransaction(action.label, () => action.toggle?.onToggle());
         break;
       case 'dropdown':
         if (onSubmenuToggle) {
@@ -175,7 +176,7 @@ export const FloatingToolbarButton: React.FC<FloatingToolbarButtonProps> = ({
               key={option.id} 
               option={option} 
               onSelect={() => {
-                option.action();
+                runInHistoryTransaction(`${action.label}: ${option.label}`, () => option.action());
                 setShowDropdown(false);
                 // Also close via external handler if provided
                 if (onSubmenuToggle) {
@@ -0,0 +1,235 @@
+import React, { useState, useEffect } from 'react';
+import ReactDOM from 'react-dom';
+import { X, Download } from 'lucide-react';
+import { useEditorStore } from '../store/editorStore';
+import { useToolbarStore } from '../store/toolbarStore';
+import { formatHandlerRegistry } from '../core/FormatHandlerRegistry';
+import {
+  DEFAULT_EXPORT_TOLERANCE,
+  applyGroupTransforms,
+  DRAWING_UNIT_LABELS,
+  DrawingUnit
+} from '../utils/format-geometry-utils';
+
+const DRAWING_UNITS = Object.keys(DRAWING_UNIT_LABELS) as DrawingUnit[];
+
+const labelStyle: React.CSSProperties = {
+  fontSize: '12px',
+  fontWeight: 600,
+  color: '#374151',
+  marginBottom: '6px'
+};
+
+const rowStyle: React.CSSProperties = {
+  display: 'flex',
+  alignItems: 'center',
+  gap: '8px',
+  flexWrap: 'wrap',
+  marginBottom: '14px',
+  fontSize: '12px',
+  color: '#374151'
+};
+
+const inputStyle: React.CSSProperties = {
+  width: '80px',
+  padding: '4px 6px',
+  fontSize: '12px',
+  border: '1px solid #d1d5db',
+  borderRadius: '4px'
+};
+
+const optionButtonStyle = (active: boolean): React.CSSProperties => ({
+  padding: '4px 10px',
+  fontSize: '12px',
+  border: active ? '1px solid #374151' : '1px solid #d1d5db',
+  borderRadius: '4px',
+  background: active ? '#f3f4f6' : 'white',
+  fontWeight: active ? 600 : 400,
+  color: '#374151',
+  cursor: 'pointer'
+});
+
+export const FormatExportModal: React.FC = () => {
+  const { isFormatExportOpen, setFormatExportOpen, formatCanvasUnit: canvasUnit, formatFileUnit, setFormatUnits } = useToolbarStore();
+  const paths = useEditorStore(state => state.paths);
+  const groups = useEditorStore(state => state.groups);
+  const documents = useEditorStore(state => state.documents);
+
+  const handlers = formatHandlerRegistry.getExportHandlers();
+  const [formatId, setFormatId] = useState(handlers[0]?.id ?? '');
+  const [tolerance, setTolerance] = useState(String(DEFAULT_EXPORT_TOLERANCE));
+
+  // Handle escape key
+  useEffect(() => {
+    if (!isFormatExportOpen) return;
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') setFormatExportOpen(false);
+    };
+    document.addEventListener('keydown', handleEscape);
+    return () => document.removeEventListener('keydown', handleEscape);
+  }, [isFormatExportOpen, setFormatExportOpen]);
+
+  if (!isFormatExportOpen) return null;
+
+  const handler = formatHandlerRegistry.getHandler(formatId) ?? handlers[0];
+  const fileUnits = handler?.fileUnits ?? [];
+  const fileUnit = fileUnits.includes(formatFileUnit) ? formatFileUnit : fileUnits[0];
+  const toleranceValue = parseFloat(tolerance) > 0 ? parseFloat(tolerance) : DEFAULT_EXPORT_TOLERANCE;
+
+  const handleExport = () => {
+    if (!handler?.exportPaths) return;
+    const content = handler.exportPaths(applyGroupTransforms(paths, groups), { canvasUnit, fileUnit, tolerance: toleranceValue });
+
+    const documentName = documents.tabs.find(tab => tab.id === documents.activeDocumentId)?.name || 'drawing';
+    const blob = new Blob([content], { type: handler.mimeType });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${documentName.replace(/[^a-zA-Z0-9-_]/g, '_')}${handler.extensions[0]}`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+
+    setFormatExportOpen(false);
+  };
+
+  const modalContent = (
+    <div
+      className="format-export-modal"
+      onClick={(e) => {
+        if (e.target === e.currentTarget) setFormatExportOpen(false);
+      }}
+      style={{
+        position: 'fixed',
+        top: 0,
+        left: 0,
+        right: 0,
+        bottom: 0,
+        backgroundColor: 'rgba(0, 0, 0, 0.5)',
+        zIndex: 10001,
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        padding: '20px'
+      }}
+    >
+      <div
+        style={{
+          backgroundColor: 'white',
+          borderRadius: '8px',
+          border: '1px solid #000',
+          width: '90%',
+          maxWidth: '420px',
+          maxHeight: '90%',
+          overflow: 'auto',
+          boxShadow: '0 4px 12px rgba(0, 0, 0, 0.15)'
+        }}
+      >
+        {/* Header */}
+        <div style={{
+          padding: '16px 20px',
+          borderBottom: '1px solid #e5e5e5',
+          display: 'flex',
+          justifyContent: 'space-between',
+          alignItems: 'center'
+        }}>
+          <h3 style={{ margin: 0, fontSize: '18px', fontWeight: '600', color: '#000' }}>CAD / Plotter Export</h3>
+          <button
+            onClick={() => setFormatExportOpen(false)}
+            style={{
+              background: 'none',
+              border: 'none',
+              cursor: 'pointer',
+              padding: '4px',
+              borderRadius: '4px'
+            }}
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        <div style={{ padding: '16px 20px' }}>
+          <div style={labelStyle}>Format</div>
+          <div style={rowStyle}>
+            {handlers.map(item => (
+              <button
+                key={item.id}
+                style={optionButtonStyle(item.id === handler?.id)}
+                onClick={() => setFormatId(item.id)}
+              >
+                {item.name}
+              </button>
+            ))}
+          </div>
+
+          <div style={labelStyle}>One canvas unit is</div>
+          <div style={rowStyle}>
+            {DRAWING_UNITS.map(unit => (
+              <button key={unit} style={optionButtonStyle(unit === canvasUnit)} onClick={() => setFormatUnits({ formatCanvasUnit: unit })}>
+                {DRAWING_UNIT_LABELS[unit]}
+              </button>
+            ))}
+            <span style={{ color: '#9ca3af' }}>Imported files are scaled with the same units</span>
+          </div>
+
+          {fileUnits.length > 0 && (
+            <>
+              <div style={labelStyle}>File units</div>
+              <div style={rowStyle}>
+                {fileUnits.map(unit => (
+                  <button key={unit} style={optionButtonStyle(unit === fileUnit)} onClick={() => setFormatUnits({ formatFileUnit: unit })}>
+                    {DRAWING_UNIT_LABELS[unit]}
+                  </button>
+                ))}
+              </div>
+            </>
+          )}
+
+          <div style={labelStyle}>Curve tolerance</div>
+          <div style={rowStyle}>
+            <input
+              type="number"
+              min={0}
+              step="any"
+              value={tolerance}
+              onChange={(e) => setTolerance(e.target.value)}
+              style={inputStyle}
+            />
+            <span style={{ color: '#9ca3af' }}>Curves are flattened into lines within this distance</span>
+          </div>
+
+          <button
+            onClick={handleExport}
+            disabled={paths.length === 0 || !handler}
+            style={{
+              display: 'flex',
+              alignItems: 'center',
+              justifyContent: 'center',
+              gap: '8px',
+              width: '100%',
+              padding: '8px',
+              fontSize: '13px',
+              fontWeight: 500,
+              background: '#28a745',
+              color: 'white',
+              border: 'none',
+              borderRadius: '4px',
+              cursor: paths.length === 0 ? 'default' : 'pointer',
+              opacity: paths.length === 0 ? 0.6 : 1
+            }}
+          >
+            <Download size={16} />
+            Download {paths.length} {paths.length === 1 ? 'path' : 'paths'} as {handler?.name}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+
+  // Find the SVG container for the portal
+  const svgContainer = document.querySelector('.svg-editor') as HTMLElement;
+  const portalContainer = svgContainer || document.body;
+
+  return ReactDOM.createPortal(modalContent, portalContainer);
+};
@@ -1,25 +1,30 @@
 import React, { useState, useEffect } from 'react';
 import ReactDOM from 'react-dom';
 import { X, Copy, Eye, ChevronLeft, ChevronRight } from 'lucide-react';
-import { EditorState } from '../types';
+import { HistorySnapshot } from '../types';
 import { cleanStateForHistory, safeClone } from '../utils/history-utils';
 
 interface HistoryModalProps {
-  historyStates: EditorState[];
+  historyStates: HistorySnapshot[];
+  historyLabels: (string | undefined)[];
   currentStateIndex: number;
   selectedStateIndex: number;
+  onJumpToState: (index: number) => void;
   onClose: () => void;
   isVisible: boolean;
 }
 
 export const HistoryModal: React.FC<HistoryModalProps> = ({
   historyStates,
+  historyLabels,
   currentStateIndex,
-  selectedStateIndex,
+  selectedStateIndex: initialStateIndex,
+  onJumpToState,
   onClose,
   isVisible
 }) => {
-  const [activeTab, setActiveTab] = useState<'current' | 'diff'>('current');
+  const [activeTab, setActiveTab] = useState<'current' | 'diff' | 'steps'>('current');
+  const [selectedStateIndex, setSelectedStateIndex] = useState(initialStateIndex);
   const [copyStatus, setCopyStatus] = useState<'idle' | 'success'>('idle');
   const [backdropClickEnabled, setBackdropClickEnabled] = useState(false);
 
@@ -48,6 +53,10 @@ export const HistoryModal: React.FC<HistoryModalProps> = ({
     }
   }, [isVisible, onClose]);
 
+  useEffect(() => {
+    setSelectedStateIndex(initialStateIndex);
+  }, [initialStateIndex]);
+
   // Get the selected state and the previous state for diff
   const selectedState = historyStates[selectedStateIndex];
   const previousState = selectedStateIndex > 0 ? historyStates[selectedStateIndex - 1] : null;
@@ -88,7 +97,7 @@ export const HistoryModal: React.FC<HistoryModalProps> = ({
   };
 
   // Calculate diff between current and previous state
-  const calculateDiff = (current: EditorState, previous: EditorState | null) => {
+  const calculateDiff = (current: HistorySnapshot, previous: HistorySnapshot | null) => {
     if (!previous) return { added: [], removed: [], modified: [] };
     
     // Clean both states before comparison to avoid function properties
@@ -228,6 +237,7 @@ export const HistoryModal: React.FC<HistoryModalProps> = ({
               color: '#000'
             }}>
               History State #{selectedStateIndex + 1}
+              {historyLabels[selectedStateIndex] && ` · ${historyLabels[selectedStateIndex]}`}
               {selectedStateIndex === currentStateIndex && (
                 <span style={{ 
                   marginLeft: '8px',
@@ -313,6 +323,21 @@ export const HistoryModal: React.FC<HistoryModalProps> = ({
                 Changes from Previous
               </button>
             )}
+            <button
+              onClick={() => setActiveTab('steps')}
+              style={{
+                padding: '12px 20px',
+                border: 'none',
+                backgroundColor: activeTab === 'steps' ? '#f8f9fa' : 'transparent',
+                borderBottom: activeTab === 'steps' ? '2px solid #3b82f6' : '2px solid transparent',
+                cursor: 'pointer',
+                fontSize: '14px',
+                fontWeight: activeTab === 'steps' ? '600' : '400',
+                color: activeTab === 'steps' ? '#3b82f6' : '#666'
+              }}
+            >
+              All Steps
+            </button>
           </div>
 
           {/* Content */}
@@ -322,7 +347,70 @@ export const HistoryModal: React.FC<HistoryModalProps> = ({
             display: 'flex',
             flexDirection: 'column'
           }}>
-            {activeTab === 'current' ? (
+            {activeTab === 'steps' ? (
+              <div style={{
+                flex: 1,
+                overflow: 'auto',
+                padding: '8px 0'
+              }}>
+                {/* Steps Tab: newest first, click to inspect, Jump to restore */}
+                {historyStates.map((_, index) => index).reverse().map(index => (
+                  <div
+                    key={index}
+                    onClick={() => {
+                      setSelectedStateIndex(index);
+                      setActiveTab('current');
+                    }}
+                    style={{
+                      display: 'flex',
+                      alignItems: 'center',
+                      justifyContent: 'space-between',
+                      padding: '8px 20px',
+                      cursor: 'pointer',
+                      fontSize: '13px',
+                      backgroundColor: index === selectedStateIndex ? '#f3f4f6' : 'transparent'
+                    }}
+                  >
+                    <span style={{
+                      color: index === currentStateIndex ? '#1f2937' : '#4b5563',
+                      fontWeight: index === currentStateIndex ? '600' : '400'
+                    }}>
+                      #{index + 1} {historyLabels[index] ?? (index === 0 ? 'Start' : 'Edit')}
+                    </span>
+                    {index === currentStateIndex ? (
+                      <span style={{
+                        fontSize: '10px',
+                        backgroundColor: '#3b82f6',
+                        color: 'white',
+                        padding: '1px 6px',
+                        borderRadius: '8px'
+                      }}>
+                        CURRENT
+                      </span>
+                    ) : (
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          onJumpToState(index);
+                          setSelectedStateIndex(index);
+                        }}
+                        style={{
+                          padding: '4px 8px',
+                          border: '1px solid #d1d5db',
+                          borderRadius: '4px',
+                          backgroundColor: 'white',
+                          color: '#374151',
+                          fontSize: '11px',
+                          cursor: 'pointer'
+                        }}
+                      >
+                        Jump here
+                      </button>
+                    )}
+                  </div>
+                ))}
+              </div>
+            ) : activeTab === 'current' ? (
               <>
                 {/* Current State Tab */}
                 <div style={{
@@ -0,0 +1,345 @@
+import React, { useState, useEffect } from 'react';
+import ReactDOM from 'react-dom';
+import { X, ImageDown } from 'lucide-react';
+import { useEditorStore } from '../store/editorStore';
+import { useToolbarStore } from '../store/toolbarStore';
+import {
+  RasterFormat,
+  RasterExportScope,
+  generateScopeSVGCode,
+  hasExportableSelection,
+  getRasterSize,
+  rasterizeSVG,
+  downloadRasterFile,
+  getRasterFileExtension
+} from '../utils/raster-export';
+
+type ScopeType = RasterExportScope['type'];
+type SizeMode = 'scale' | 'pixels';
+
+const SCALE_FACTORS = [1, 2, 3];
+
+const labelStyle: React.CSSProperties = {
+  fontSize: '12px',
+  fontWeight: 600,
+  color: '#374151',
+  marginBottom: '6px'
+};
+
+const rowStyle: React.CSSProperties = {
+  display: 'flex',
+  alignItems: 'center',
+  gap: '8px',
+  flexWrap: 'wrap',
+  marginBottom: '14px',
+  fontSize: '12px',
+  color: '#374151'
+};
+
+const inputStyle: React.CSSProperties = {
+  width: '80px',
+  padding: '4px 6px',
+  fontSize: '12px',
+  border: '1px solid #d1d5db',
+  borderRadius: '4px'
+};
+
+const optionButtonStyle = (active: boolean): React.CSSProperties => ({
+  padding: '4px 10px',
+  fontSize: '12px',
+  border: active ? '1px solid #374151' : '1px solid #d1d5db',
+  borderRadius: '4px',
+  background: active ? '#f3f4f6' : 'white',
+  fontWeight: active ? 600 : 400,
+  color: '#374151',
+  cursor: 'pointer'
+});
+
+export const RasterExportModal: React.FC = () => {
+  const { isRasterExportOpen, setRasterExportOpen } = useToolbarStore();
+  const groups = useEditorStore(state => state.groups);
+  const selection = useEditorStore(state => state.selection);
+
+  const [scopeType, setScopeType] = useState<ScopeType>('document');
+  const [groupId, setGroupId] = useState('');
+  const [format, setFormat] = useState<RasterFormat>('png');
+  const [sizeMode, setSizeMode] = useState<SizeMode>('scale');
+  const [scale, setScale] = useState(2);
+  const [pixelWidth, setPixelWidth] = useState('');
+  const [pixelHeight, setPixelHeight] = useState('');
+  const [transparent, setTransparent] = useState(true);
+  const [background, setBackground] = useState('#ffffff');
+  const [quality, setQuality] = useState(0.92);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const hasSelection = hasExportableSelection(selection);
+
+  // Start from what the user is working on when the dialog opens
+  useEffect(() => {
+    if (!isRasterExportOpen) return;
+    const { selection: current } = useEditorStore.getState();
+    if (current.selectedGroups.length === 1) {
+      setScopeType('group');
+      setGroupId(current.selectedGroups[0]);
+    } else {
+      setScopeType(hasExportableSelection(current) ? 'selection' : 'document');
+    }
+  }, [isRasterExportOpen]);
+
+  // Handle escape key
+  useEffect(() => {
+    if (!isRasterExportOpen) return;
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') setRasterExportOpen(false);
+    };
+    document.addEventListener('keydown', handleEscape);
+    return () => document.removeEventListener('keydown', handleEscape);
+  }, [isRasterExportOpen, setRasterExportOpen]);
+
+  if (!isRasterExportOpen) return null;
+
+  const selectedGroupId = groupId || groups[0]?.id;
+  const scope: RasterExportScope = scopeType === 'group' ? { type: 'group', groupId: selectedGroupId } : { type: scopeType };
+
+  const sizeOptions = sizeMode === 'scale'
+    ? { scale }
+    : { width: parseInt(pixelWidth, 10) || undefined, height: parseInt(pixelHeight, 10) || undefined };
+
+  // Preview of the output size
+  const svgContent = generateScopeSVGCode(useEditorStore.getState(), scope);
+  const outputSize = getRasterSize(svgContent, sizeOptions);
+  const allowsTransparency = format !== 'jpeg';
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const blob = await rasterizeSVG(svgContent, {
+        format,
+        ...sizeOptions,
+        background: transparent && allowsTransparency ? null : background,
+        quality: format === 'png' ? undefined : quality
+      });
+      const group = scopeType === 'group' ? groups.find(item => item.id === selectedGroupId) : undefined;
+      const name = (group?.name || (scopeType === 'selection' ? 'selection' : 'drawing')).replace(/[^a-zA-Z0-9-_]/g, '_');
+      downloadRasterFile(blob, `${name}.${getRasterFileExtension(format)}`);
+      setRasterExportOpen(false);
+    } catch (error) {
+      console.error('Raster export failed:', error);
+      alert(`Export failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const modalContent = (
+    <div
+      className="raster-export-modal"
+      onClick={(e) => {
+        if (e.target === e.currentTarget) setRasterExportOpen(false);
+      }}
+      style={{
+        position: 'fixed',
+        top: 0,
+        left: 0,
+        right: 0,
+        bottom: 0,
+        backgroundColor: 'rgba(0, 0, 0, 0.5)',
+        zIndex: 10001,
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        padding: '20px'
+      }}
+    >
+      <div
+        style={{
+          backgroundColor: 'white',
+          borderRadius: '8px',
+          border: '1px solid #000',
+          width: '90%',
+          maxWidth: '420px',
+          maxHeight: '90%',
+          overflow: 'auto',
+          boxShadow: '0 4px 12px rgba(0, 0, 0, 0.15)'
+        }}
+      >
+        {/* Header */}
+        <div style={{
+          padding: '16px 20px',
+          borderBottom: '1px solid #e5e5e5',
+          display: 'flex',
+          justifyContent: 'space-between',
+          alignItems: 'center'
+        }}>
+          <h3 style={{ margin: 0, fontSize: '18px', fontWeight: '600', color: '#000' }}>Export Image</h3>
+          <button
+            onClick={() => setRasterExportOpen(false)}
+            style={{
+              background: 'none',
+              border: 'none',
+              cursor: 'pointer',
+              padding: '4px',
+              borderRadius: '4px'
+            }}
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        <div style={{ padding: '16px 20px' }}>
+          <div style={labelStyle}>Export</div>
+          <div style={rowStyle}>
+            <button style={optionButtonStyle(scopeType === 'document')} onClick={() => setScopeType('document')}>
+              Document
+            </button>
+            <button
+              style={{ ...optionButtonStyle(scopeType === 'selection'), opacity: hasSelection ? 1 : 0.5 }}
+              onClick={() => setScopeType('selection')}
+              disabled={!hasSelection}
+            >
+              Selection
+            </button>
+            <button
+              style={{ ...optionButtonStyle(scopeType === 'group'), opacity: groups.length > 0 ? 1 : 0.5 }}
+              onClick={() => setScopeType('group')}
+              disabled={groups.length === 0}
+            >
+              Group
+            </button>
+            {scopeType === 'group' && (
+              <select
+                value={selectedGroupId}
+                onChange={(e) => setGroupId(e.target.value)}
+                style={{ ...inputStyle, width: 'auto', maxWidth: '140px' }}
+              >
+                {groups.map(group => (
+                  <option key={group.id} value={group.id}>{group.name || group.id}</option>
+                ))}
+              </select>
+            )}
+          </div>
+
+          <div style={labelStyle}>Format</div>
+          <div style={rowStyle}>
+            {(['png', 'jpeg', 'webp'] as RasterFormat[]).map(option => (
+              <button key={option} style={optionButtonStyle(format === option)} onClick={() => setFormat(option)}>
+                {option.toUpperCase()}
+              </button>
+            ))}
+          </div>
+
+          <div style={labelStyle}>Size</div>
+          <div style={rowStyle}>
+            {SCALE_FACTORS.map(factor => (
+              <button
+                key={factor}
+                style={optionButtonStyle(sizeMode === 'scale' && scale === factor)}
+                onClick={() => {
+                  setSizeMode('scale');
+                  setScale(factor);
+                }}
+              >
+                {factor}x
+              </button>
+            ))}
+            <button style={optionButtonStyle(sizeMode === 'pixels')} onClick={() => setSizeMode('pixels')}>
+              Pixels
+            </button>
+          </div>
+          {sizeMode === 'pixels' && (
+            <div style={rowStyle}>
+              <input
+                type="number"
+                min={1}
+                placeholder="Width"
+                value={pixelWidth}
+                onChange={(e) => setPixelWidth(e.target.value)}
+                style={inputStyle}
+              />
+              ×
+              <input
+                type="number"
+                min={1}
+                placeholder="Height"
+                value={pixelHeight}
+                onChange={(e) => setPixelHeight(e.target.value)}
+                style={inputStyle}
+              />
+              <span style={{ color: '#9ca3af' }}>Leave one empty to keep the proportions</span>
+            </div>
+          )}
+          <div style={{ ...rowStyle, color: '#6b7280' }}>
+            Output: {outputSize.width} × {outputSize.height} px
+          </div>
+
+          <div style={labelStyle}>Background</div>
+          <div style={rowStyle}>
+            <label style={{ display: 'flex', alignItems: 'center', gap: '4px', opacity: allowsTransparency ? 1 : 0.5 }}>
+              <input
+                type="checkbox"
+                checked={transparent && allowsTransparency}
+                disabled={!allowsTransparency}
+                onChange={(e) => setTransparent(e.target.checked)}
+              />
+              Transparent
+            </label>
+            <input
+              type="color"
+              value={background}
+              disabled={transparent && allowsTransparency}
+              onChange={(e) => setBackground(e.target.value)}
+            />
+          </div>
+
+          {format !== 'png' && (
+            <>
+              <div style={labelStyle}>Quality</div>
+              <div style={rowStyle}>
+                <input
+                  type="range"
+                  min={0.1}
+                  max={1}
+                  step={0.01}
+                  value={quality}
+                  onChange={(e) => setQuality(parseFloat(e.target.value))}
+                  style={{ flex: 1 }}
+                />
+                <span style={{ minWidth: '32px', textAlign: 'right' }}>{Math.round(quality * 100)}%</span>
+              </div>
+            </>
+          )}
+
+          <button
+            onClick={handleExport}
+            disabled={isExporting}
+            style={{
+              display: 'flex',
+              alignItems: 'center',
+              justifyContent: 'center',
+              gap: '8px',
+              width: '100%',
+              padding: '8px',
+              fontSize: '13px',
+              fontWeight: 500,
+              background: '#28a745',
+              color: 'white',
+              border: 'none',
+              borderRadius: '4px',
+              cursor: isExporting ? 'default' : 'pointer',
+              opacity: isExporting ? 0.6 : 1
+            }}
+          >
+            <ImageDown size={16} />
+            {isExporting ? 'Exporting…' : 'Export'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+
+  // Find the SVG container for the portal
+  const svgContainer = document.querySelector('.svg-editor') as HTMLElement;
+  const portalContainer = svgContainer || document.body;
+
+  return ReactDOM.createPortal(modalContent, portalContainer);
+};
@@ -1,5 +1,7 @@
 import React, { useState } from 'react';
-import { Settings, RotateCcw, FileText } from 'lucide-react';
+import { Settings, RotateCcw, FileText, Ruler } from 'lucide-react';
+import { DRAWING_UNIT_LABELS, DrawingUnit } from '../utils/format-geometry-utils';
+import { ImportRescaleMode, SVGImportAdjustments } from '../utils/svg-import-adjustments';
 
 export interface ImportSettings {
   mode: 'replace' | 'append';
@@ -7,8 +9,27 @@ export interface ImportSettings {
   autoAdjustViewport: boolean;
   validateBeforeImport: boolean;
   showConfirmation: boolean;
+  rescale: ImportRescaleMode;
+  targetUnit: DrawingUnit;
+  targetWidth: number;
+  targetHeight: number;
+  moveToOrigin: boolean;
+  roundCoordinates: boolean;
+  removeInvisible: boolean;
 }
 
+/**
+ * Adjustments the settings ask for; rounding uses the document precision
+ */
+export const getImportAdjustments = (settings: ImportSettings, precision: number): SVGImportAdjustments => ({
+  rescale: settings.rescale,
+  targetUnit: settings.targetUnit,
+  targetSize: { width: settings.targetWidth, height: settings.targetHeight },
+  moveToOrigin: settings.moveToOrigin,
+  precision: settings.roundCoordinates ? precision : undefined,
+  removeInvisible: settings.removeInvisible
+});
+
 interface SVGImportOptionsProps {
   settings: ImportSettings;
   onSettingsChange: (settings: ImportSettings) => void;
@@ -112,6 +133,14 @@ export const SVGImportOptions: React.FC<SVGImportOptionsProps> = ({
     transition: 'all 0.2s ease'
   };
 
+  const numberInputStyle: React.CSSProperties = {
+    width: '64px',
+    padding: '2px 4px',
+    fontSize: '12px',
+    border: '1px solid #dee2e6',
+    borderRadius: '4px'
+  };
+
   const modeDescriptions = {
     replace: 'Replace all existing content with imported SVG',
     append: 'Add imported content to existing elements'
@@ -212,6 +241,122 @@ export const SVGImportOptions: React.FC<SVGImportOptionsProps> = ({
           </div>
         </div>
 
+        {/* Coordinate Settings */}
+        <div style={optionGroupStyle}>
+          <div style={optionGroupTitleStyle}>
+            <Ruler size={14} />
+            Coordinates
+          </div>
+          
+          <div style={optionStyle}>
+            <input
+              type="radio"
+              id="rescale-none"
+              name="import-rescale"
+              checked={settings.rescale === 'none'}
+              onChange={() => handleSettingChange('rescale', 'none')}
+              style={radioStyle}
+            />
+            <label htmlFor="rescale-none" style={labelStyle}>
+              Keep original scale
+            </label>
+          </div>
+          
+          <div style={optionStyle}>
+            <input
+              type="radio"
+              id="rescale-unit"
+              name="import-rescale"
+              checked={settings.rescale === 'unit'}
+              onChange={() => handleSettingChange('rescale', 'unit')}
+              style={radioStyle}
+            />
+            <label htmlFor="rescale-unit" style={labelStyle}>
+              Convert document units to
+            </label>
+            <select
+              value={settings.targetUnit}
+              onChange={(e) => handleSettingChange('targetUnit', e.target.value)}
+              disabled={settings.rescale !== 'unit'}
+              style={{ ...numberInputStyle, width: 'auto' }}
+            >
+              {(Object.keys(DRAWING_UNIT_LABELS) as DrawingUnit[]).map(unit => (
+                <option key={unit} value={unit}>{DRAWING_UNIT_LABELS[unit]}</option>
+              ))}
+            </select>
+          </div>
+          
+          <div style={optionStyle}>
+            <input
+              type="radio"
+              id="rescale-size"
+              name="import-rescale"
+              checked={settings.rescale === 'size'}
+              onChange={() => handleSettingChange('rescale', 'size')}
+              style={radioStyle}
+            />
+            <label htmlFor="rescale-size" style={labelStyle}>
+              Fit content into
+            </label>
+            <input
+              type="number"
+              min={1}
+              value={settings.targetWidth}
+              onChange={(e) => handleSettingChange('targetWidth', Math.max(1, parseFloat(e.target.value) || 1))}
+              disabled={settings.rescale !== 'size'}
+              style={numberInputStyle}
+            />
+            <span style={{ fontSize: '12px', color: '#6c757d' }}>×</span>
+            <input
+              type="number"
+              min={1}
+              value={settings.targetHeight}
+              onChange={(e) => handleSettingChange('targetHeight', Math.max(1, parseFloat(e.target.value) || 1))}
+              disabled={settings.rescale !== 'size'}
+              style={numberInputStyle}
+            />
+          </div>
+          
+          <div style={optionStyle}>
+            <input
+              type="checkbox"
+              id="move-to-origin"
+              checked={settings.moveToOrigin}
+              onChange={(e) => handleSettingChange('moveToOrigin', e.target.checked)}
+              style={checkboxStyle}
+            />
+            <label htmlFor="move-to-origin" style={labelStyle}>
+              Move content to the origin
+            </label>
+          </div>
+          
+          <div style={optionStyle}>
+            <input
+              type="checkbox"
+              id="round-coordinates"
+              checked={settings.roundCoordinates}
+              onChange={(e) => handleSettingChange('roundCoordinates', e.target.checked)}
+              style={checkboxStyle}
+            />
+            <label htmlFor="round-coordinates" style={labelStyle}>
+              Round coordinates to document precision
+            </label>
+          </div>
+          
+          <div style={optionStyle}>
+            <input
+              type="checkbox"
+              id="remove-invisible"
+              checked={settings.removeInvisible}
+              onChange={(e) => handleSettingChange('removeInvisible', e.target.checked)}
+              style={checkboxStyle}
+            />
+            <label htmlFor="remove-invisible" style={labelStyle}>
+              Remove invisible and zero-area elements
+            </label>
+          </div>
+        </div>
+
         {/* Validation Settings */}
         <div style={optionGroupStyle}>
           <div style={optionGroupTitleStyle}>
@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from 'react';
-import { Plus, Edit3, Spline, Minus, X, CornerUpRight, LogOut, MousePointerClick, Waves } from 'lucide-react';
+import { Plus, Edit3, Spline, Minus, X, CornerUpRight, LogOut, MousePointerClick, Waves, SquareDashed, Scissors, Shapes } from 'lucide-react';
 import { ToolbarSection } from './ToolbarButton';
 import { ToolbarSubmenu, SubmenuItem } from './ToolbarSubmenu';
 import { useEditorStore } from '../store/editorStore';
@@ -34,6 +34,9 @@ export const WritingConsolidatedTools: React.FC = () => {
                         (mode.current === 'create' && mode.createMode?.commandType === 'PENCIL');
   const isCurveActive = mode.current === 'curves';
   const isSmoothActive = toolModeState.activeMode === 'smooth' || mode.current === 'smooth';
+  const isOffsetActive = toolModeState.activeMode === 'offset' || mode.current === 'offset';
+  const isKnifeActive = toolModeState.activeMode === 'knife' || mode.current === 'knife';
+  const isShapeBuilderActive = toolModeState.activeMode === 'shape-builder' || mode.current === 'shape-builder';
   const isCreateMode = mode.current === 'create' && mode.createMode?.commandType !== 'PENCIL';
   
   // Subpath-edit mode state (moved up to avoid reference errors)
@@ -44,6 +47,9 @@ export const WritingConsolidatedTools: React.FC = () => {
     // If subpath-edit mode is active, show the mouse-pointer icon to indicate mode
     if (isSubpathEditMode) return <MousePointerClick size={iconSize} strokeWidth={strokeWidth} />;
     if (isSmoothActive) return <Waves size={iconSize} strokeWidth={strokeWidth} />;
+    if (isOffsetActive) return <SquareDashed size={iconSize} strokeWidth={strokeWidth} />;
+    if (isKnifeActive) return <Scissors size={iconSize} strokeWidth={strokeWidth} />;
+    if (isShapeBuilderActive) return <Shapes size={iconSize} strokeWidth={strokeWidth} />;
     if (isPencilActive) return <Edit3 size={iconSize} strokeWidth={strokeWidth} />;
     if (isCurveActive) return <Spline size={iconSize} strokeWidth={strokeWidth} />;
     if (isCreateMode) {
@@ -68,7 +74,7 @@ export const WritingConsolidatedTools: React.FC = () => {
     return <Plus size={iconSize} strokeWidth={strokeWidth} />; // Default creation tools icon
   };
 
-  const isAnyToolActive = isPencilActive || isCurveActive || isSmoothActive || isCreateMode;
+  const isAnyToolActive = isPencilActive || isCurveActive || isSmoothActive || isOffsetActive || isKnifeActive || isShapeBuilderActive || isCreateMode;
 
   const { enabledFeatures, toggleFeature } = useEditorStore();
 
@@ -147,6 +153,30 @@ export const WritingConsolidatedTools: React.FC = () => {
     }
   };
 
+  const handleOffsetToggle = () => {
+    if (isOffsetActive) {
+      toolModeManager.setMode('select');
+    } else {
+      toolModeManager.setMode('offset');
+    }
+  };
+
+  const handleKnifeToggle = () => {
+    if (isKnifeActive) {
+      toolModeManager.setMode('select');
+    } else {
+      toolModeManager.setMode('knife');
+    }
+  };
+
+  const handleShapeBuilderToggle = () => {
+    if (isShapeBuilderActive) {
+      toolModeManager.setMode('select');
+    } else {
+      toolModeManager.setMode('shape-builder');
+    }
+  };
+
   const handleCurveToggle = () => {
     if (isCurveActive) {
       curvesManager.exitCurveTool();
@@ -303,6 +333,39 @@ export const WritingConsolidatedTools: React.FC = () => {
           }}
           active={isSmoothActive}
         />
+
+        {/* Offset Path Tool */}
+        <SubmenuItem
+          icon={<SquareDashed size={iconSize} strokeWidth={strokeWidth} />}
+          label={isOffsetActive ? "Exit Offset Mode" : "Offset Path"}
+          onClick={() => {
+            handleOffsetToggle();
+            setIsSubmenuOpen(false);
+          }}
+          active={isOffsetActive}
+        />
+
+        {/* Knife Tool */}
+        <SubmenuItem
+          icon={<Scissors size={iconSize} strokeWidth={strokeWidth} />}
+          label={isKnifeActive ? "Exit Knife Mode" : "Knife Tool"}
+          onClick={() => {
+            handleKnifeToggle();
+            setIsSubmenuOpen(false);
+          }}
+          active={isKnifeActive}
+        />
+
+        {/* Shape Builder Tool */}
+        <SubmenuItem
+          icon={<Shapes size={iconSize} strokeWidth={strokeWidth} />}
+          label={isShapeBuilderActive ? "Exit Shape Builder" : "Shape Builder"}
+          onClick={() => {
+            handleShapeBuilderToggle();
+            setIsSubmenuOpen(false);
+          }}
+          active={isShapeBuilderActive}
+        />
         
         {/* Subpath-edit option inside the Drawing Tools submenu */}
         <div style={{ height: '1px', background: '#e5e7eb', margin: '6px 0' }} />
@@ -99,6 +99,7 @@ export const PERFORMANCE_CONSTANTS = {
   SELECTION_CACHE_SIZE: 1000,
   ANIMATION_BUFFER_SIZE: 100,
   UNDO_HISTORY_LIMIT: 50,
+  UNDO_HISTORY_MEMORY_BUDGET: 32 * 1024 * 1024, // bytes
 
   // Chunking and Pagination
   CHUNK_SIZE_WARNING_LIMIT: 1500,
@@ -108,7 +109,14 @@ export const PERFORMANCE_CONSTANTS = {
   // Network and File Operations
   MAX_FILE_SIZE_MB: 50,
   REQUEST_TIMEOUT_MS: 30000,
-  RETRY_ATTEMPTS: 3
+  RETRY_ATTEMPTS: 3,
+
+  // Autosave
+  AUTOSAVE_VERSION_INTERVAL_MS: 5 * 60 * 1000,
+  MAX_AUTOSAVE_VERSIONS: 20,
+
+  // Raster export: largest canvas side browsers reliably allocate
+  MAX_RASTER_EXPORT_SIZE: 16384
 } as const;
 
 /**
@@ -0,0 +1,115 @@
+/**
+ * Format Handler Registry
+ *
+ * Pluggable importers and exporters for geometry formats other than SVG,
+ * such as DXF for CAD/CNC and HPGL for plotters. SVG files keep going
+ * through SVGImportService; these handlers only deal with paths.
+ */
+
+import { SVGPath } from '../types';
+import { DrawingUnit } from '../utils/format-geometry-utils';
+import { dxfFormatHandler } from './formats/DXFFormatHandler';
+import { hpglFormatHandler } from './formats/HPGLFormatHandler';
+
+export interface FormatImportOptions {
+  canvasUnit?: DrawingUnit; // Physical size of one canvas unit, px by default
+  fileUnit?: DrawingUnit; // Unit of files that do not declare one
+}
+
+export interface FormatExportOptions {
+  canvasUnit?: DrawingUnit; // Physical size of one canvas unit, px by default
+  fileUnit?: DrawingUnit; // Unit of the written coordinates, for formats that allow a choice
+  tolerance?: number; // Maximum distance between curves and their flattened lines, in canvas units
+}
+
+export interface FormatImportResult {
+  success: boolean;
+  paths: SVGPath[];
+  warnings: string[];
+  errors: string[];
+}
+
+export interface FormatHandler {
+  id: string;
+  name: string;
+  extensions: string[]; // Lowercase, with the leading dot
+  mimeType: string;
+  fileUnits?: DrawingUnit[]; // Units exports can write the coordinates in, for formats that allow a choice
+  importContent?: (content: string, options: FormatImportOptions) => FormatImportResult;
+  exportPaths?: (paths: SVGPath[], options: FormatExportOptions) => string;
+}
+
+/**
+ * Registry of the available format handlers
+ */
+export class FormatHandlerRegistry {
+  private handlers = new Map<string, FormatHandler>();
+
+  /**
+   * Register a handler, replacing any previous one with the same id
+   */
+  register(handler: FormatHandler): void {
+    this.handlers.set(handler.id, handler);
+  }
+
+  unregister(id: string): void {
+    this.handlers.delete(id);
+  }
+
+  getHandler(id: string): FormatHandler | undefined {
+    return this.handlers.get(id);
+  }
+
+  getImportHandlers(): FormatHandler[] {
+    return [...this.handlers.values()].filter(handler => !!handler.importContent);
+  }
+
+  getExportHandlers(): FormatHandler[] {
+    return [...this.handlers.values()].filter(handler => !!handler.exportPaths);
+  }
+
+  /**
+   * Import handler for a file name, matched by extension
+   */
+  getHandlerForFile(filename: string): FormatHandler | undefined {
+    const name = filename.toLowerCase();
+    return this.getImportHandlers().find(handler =>
+      handler.extensions.some(extension => name.endsWith(extension))
+    );
+  }
+
+  /**
+   * Extensions accepted by the import handlers, for file inputs
+   */
+  getImportExtensions(): string[] {
+    return this.getImportHandlers().flatMap(handler => handler.extensions);
+  }
+
+  /**
+   * Import a file with the handler matching its extension
+   */
+  async importFromFile(file: File, options: FormatImportOptions = {}): Promise<FormatImportResult> {
+    const handler = this.getHandlerForFile(file.name);
+    if (!handler?.importContent) {
+      return { success: false, paths: [], warnings: [], errors: [`No importer for ${file.name}`] };
+    }
+
+    try {
+      return handler.importContent(await file.text(), options);
+    } catch (error) {
+      return {
+        success: false,
+        paths: [],
+        warnings: [],
+        errors: [`${handler.name} import failed: ${error instanceof Error ? error.message : 'Unknown error'}`]
+      };
+    }
+  }
+}
+
+/**
+ * Default registry with the built-in handlers
+ */
+export const formatHandlerRegistry = new FormatHandlerRegistry();
+formatHandlerRegistry.register(dxfFormatHandler);
+formatHandlerRegistry.register(hpglFormatHandler);
@@ -16,6 +16,9 @@ import { SubPathTransformPlugin } from '../plugins/subpath-transform/SubPathTran
 import { PointTransformPlugin } from '../plugins/point-transform/PointTransform';
 import { PencilPlugin } from '../plugins/pencil';
 import { SmoothPlugin } from '../plugins/smooth';
+import { OffsetPlugin } from '../plugins/offset';
+import { KnifePlugin } from '../plugins/knife';
+import { ShapeBuilderPlugin } from '../plugins/shape-builder';
 import { ShapesPlugin } from '../plugins/shapes/Shapes';
 import { Transform } from '../plugins/transform/Transform';
 import { ArrangePlugin } from '../plugins/arrange/Arrange';
@@ -105,6 +108,9 @@ export const initializePlugins = (): void => {
   // Register plugins that depend on others
   pluginManager.registerPlugin(PencilPlugin); // Depends on mouse-interaction
   pluginManager.registerPlugin(SmoothPlugin); // Depends on pointer-interaction
+  pluginManager.registerPlugin(OffsetPlugin); // Depends on pointer-interaction
+  pluginManager.registerPlugin(KnifePlugin); // Depends on pointer-interaction
+  pluginManager.registerPlugin(ShapeBuilderPlugin); // Depends on pointer-interaction
   pluginManager.registerPlugin(CurvesPlugin); // Depends on mouse-interaction
   pluginManager.registerPlugin(SubPathTransformPlugin); // Depends on selection
   pluginManager.registerPlugin(PointTransformPlugin); // Depends on selection
@@ -305,6 +305,13 @@ export class PluginManager {
       if (transformPlugin) {
         pluginsToProcess = [transformPlugin, ...otherPlugins];
       }
+    } else if (handleType === 'shape-parameter' && eventType === 'pointerDown' && !contextMenuPrioritized) {
+      // Parameter handles of live shapes belong to the Shapes plugin
+      const shapesPlugin = pluginsToProcess.find((p: Plugin) => p.id === 'shapes');
+      const otherPlugins = pluginsToProcess.filter((p: Plugin) => p.id !== 'shapes');
+      if (shapesPlugin) {
+        pluginsToProcess = [shapesPlugin, ...otherPlugins];
+      }
     } else if (eventType === 'pointerDown' && !contextMenuPrioritized) {
       // Check if this is a text or textPath element
       const target = e.target as SVGElement;
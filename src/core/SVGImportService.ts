@@ -6,6 +6,11 @@
 
 import { SVGSanitizer, SVGValidationResult, SVGSanitizationConfig } from './SVGSanitizer';
 import { generateId } from '../utils/id-utils';
+import { parseCompleteSVG, parsePathData } from '../utils/svg-parser';
+import { decomposeIntoSubPaths } from '../utils/subpath-utils';
+import { applySubPathMetadata, isElementLocked, readGroupLockMetadata } from '../utils/svg-editor-metadata';
+import { readPathTransform } from '../utils/path-transform-utils';
+import { ImportedContent, SVGImportAdjustments, applyImportAdjustments } from '../utils/svg-import-adjustments';
 import { SVGPath, TextElement, SVGGroup } from '../types';
 
 export interface SVGImportOptions {
@@ -15,17 +20,23 @@ export interface SVGImportOptions {
   namePrefix?: string;
   position?: { x: number; y: number };
   scale?: number;
+  adjustments?: SVGImportAdjustments; // Rescaling, origin, rounding and clean-up, each reported in the warnings
 }
 
-export interface SVGImportResult {
+export interface SVGImportData {
+  paths: SVGPath[];
+  texts: TextElement[];
+  groups: SVGGroup[];
+  rootGroupId?: string;
+}
+
+// Everything the editor's complete parser reads (gradients, filters, animations...)
+export type SVGCompleteImportData = ReturnType<typeof parseCompleteSVG>;
+
+export interface SVGImportResult<T = SVGImportData> {
   success: boolean;
-  data?: {
-    paths: SVGPath[];
-    texts: TextElement[];
-    groups: SVGGroup[];
-    rootGroupId?: string;
-  };
-  validation: SVGValidationResult;
+  data?: T;
+  validation?: SVGValidationResult; // Set when the content went through the sanitizer
   warnings: string[];
   errors: string[];
 }
@@ -102,6 +113,31 @@ export class SVGImportService {
     return result;
   }
   
+  /**
+   * Import SVG markup written or pasted in the editor with the complete
+   * parser. It is not sanitized, so editor data survives the round trip.
+   */
+  importCompleteContent(
+    content: string,
+    options: Pick<SVGImportOptions, 'adjustments'> = {}
+  ): SVGImportResult<SVGCompleteImportData> {
+    const result: SVGImportResult<SVGCompleteImportData> = {
+      success: false,
+      warnings: [],
+      errors: []
+    };
+
+    try {
+      const svgElement = new DOMParser().parseFromString(content, 'image/svg+xml').querySelector('svg');
+      result.data = this.applyAdjustments(parseCompleteSVG(content), options, svgElement, result.warnings);
+      result.success = true;
+    } catch (error) {
+      result.errors.push(`Import failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    return result;
+  }
+  
   /**
    * Import SVG from File object
    */
@@ -212,6 +248,9 @@ export class SVGImportService {
         parseResult.data.rootGroupId = rootGroup.id;
       }
       
+      // Apply the import adjustments before any placement
+      Object.assign(parseResult.data, this.applyAdjustments(parseResult.data, options, svgElement, parseResult.warnings));
+      
       // Apply positioning and scaling
       if (options.position || options.scale) {
         this.applyTransformations(parseResult.data, options);
@@ -226,6 +265,21 @@ export class SVGImportService {
     return parseResult;
   }
   
+  /**
+   * Apply the requested import adjustments, reporting what each did
+   */
+  private applyAdjustments<T extends ImportedContent>(
+    data: T,
+    options: SVGImportOptions,
+    svgElement: Element | null,
+    warnings: string[]
+  ): T {
+    if (!options.adjustments) return data;
+    const adjusted = applyImportAdjustments(data, options.adjustments, svgElement);
+    warnings.push(...adjusted.warnings);
+    return adjusted.content;
+  }
+  
   /**
    * Process SVG element recursively
    */
@@ -288,13 +342,16 @@ export class SVGImportService {
     
     const id = this.getOrCreateId(element, idMap, options, namePrefix);
     
-    // Basic path creation - in a real implementation, you'd parse the path data properly
+    const commands = parsePathData(d);
+    
     const path: SVGPath = {
       id,
-      subPaths: [{
-        id: generateId(),
-        commands: [] // Would need proper path parsing here
-      }],
+      // Subpath boundaries and locks come back from files exported with editor data
+      subPaths: commands.length > 0
+        ? applySubPathMetadata(element, decomposeIntoSubPaths(commands))
+        : [{ id: generateId(), commands: [] }],
+      locked: isElementLocked(element) || undefined,
+      transform: readPathTransform(element.getAttribute('transform')),
       style: {
         fill: element.getAttribute('fill') || '#000000',
         stroke: element.getAttribute('stroke') || 'none',
@@ -381,11 +438,12 @@ export class SVGImportService {
     
     const group: SVGGroup = {
       id,
-      name: element.getAttribute('id') || `${namePrefix}-group`,
+      name: element.getAttribute('data-name') || element.getAttribute('id') || `${namePrefix}-group`,
       children,
       visible: true,
       locked: false,
       lockLevel: 'movement-sync',
+      ...readGroupLockMetadata(element),
       transform: element.getAttribute('transform') || undefined
     };
     
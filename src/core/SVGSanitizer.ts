@@ -6,6 +6,8 @@
  */
 
 import DOMPurify from 'isomorphic-dompurify';
+import { EDITOR_METADATA_ATTRIBUTES } from '../utils/svg-editor-metadata';
+import { resolveStyleSheets } from '../utils/svg-css';
 
 /**
  * Configuration for SVG sanitization
@@ -68,7 +70,9 @@ export const DEFAULT_SVG_CONFIG: SVGSanitizationConfig = {
     'spreadMethod', 'gradientTransform', 'offset', 'stop-color', 'stop-opacity',
     'patternUnits', 'patternTransform', 'font-family', 'font-size', 'font-weight',
     'text-anchor', 'dominant-baseline', 'alignment-baseline', 'visibility',
-    'display', 'overflow', 'clip-rule', 'fill-rule'
+    'display', 'overflow', 'clip-rule', 'fill-rule',
+    // Editor data written by our own export
+    ...EDITOR_METADATA_ATTRIBUTES
   ],
   
   // Content processing
@@ -169,8 +173,11 @@ export class SVGSanitizer {
       // 6. Extract metadata
       this.extractMetadata(doc, result);
       
-      // 7. Sanitize content
-      const sanitizedContent = this.performSanitization(content, result);
+      // 7. Move <style> rules onto the elements, since DOMPurify drops style sheets
+      resolveStyleSheets(svgElement);
+      
+      // 8. Sanitize content
+      const sanitizedContent = this.performSanitization(new XMLSerializer().serializeToString(doc), result);
       if (!sanitizedContent) {
         result.errors.push('Sanitization failed');
         return result;
@@ -329,6 +336,8 @@ export class SVGSanitizer {
         USE_PROFILES: { svg: true, svgFilters: true },
         ALLOWED_TAGS: this.config.allowedElements,
         ALLOWED_ATTR: this.config.allowedAttributes,
+        // The profiles replace ALLOWED_ATTR, so our editor data is added on top
+        ADD_ATTR: EDITOR_METADATA_ATTRIBUTES,
         ALLOW_DATA_ATTR: false,
         ALLOW_UNKNOWN_PROTOCOLS: false,
         SANITIZE_DOM: true,
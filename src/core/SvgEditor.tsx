@@ -16,6 +16,11 @@ import { AccordionSidebar } from '../plugins/panelmode/AccordionSidebar';
 import { SVGDefinitions } from '../components/SVGDefinitions';
 import { MobileContainer } from '../components/MobileContainer';
 import { Toolbar } from '../components/Toolbar';
+import { DocumentTabs } from '../components/DocumentTabs';
+import { AutosaveVersionsModal } from '../components/AutosaveVersionsModal';
+import { RasterExportModal } from '../components/RasterExportModal';
+import { BatchExportModal } from '../components/BatchExportModal';
+import { FormatExportModal } from '../components/FormatExportModal';
 import { FloatingToolbarRenderer } from '../components/FloatingToolbar/FloatingToolbarRenderer';
 import { PencilFloatingToolbar, CurveFloatingToolbar, ShapeFloatingToolbar, TextFloatingToolbar } from '../components/DrawingFloatingToolbar';
 import { MobileTextEditModal } from '../components/MobileTextEditModal';
@@ -290,6 +295,13 @@ export const SvgEditor: React.FC = () => {
         >
           {svgCanvas}
         </MobileContainer>
+
+        {/* Open documents */}
+        <DocumentTabs />
+        <AutosaveVersionsModal />
+        <RasterExportModal />
+        <BatchExportModal />
+        <FormatExportModal />
         
         {/* Floating toolbar for contextual actions */}
         <FloatingToolbarRenderer />
@@ -333,6 +345,13 @@ export const SvgEditor: React.FC = () => {
         onOpenVisualDebugPanel={handleOpenVisualDebugPanel}
       />
       
+      {/* Open documents */}
+      <DocumentTabs />
+      <AutosaveVersionsModal />
+      <RasterExportModal />
+      <BatchExportModal />
+      <FormatExportModal />
+
       {svgCanvas}
       
       {/* Floating toolbar for contextual actions */}
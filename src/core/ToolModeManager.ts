@@ -1,7 +1,7 @@
 import { useEditorStore } from '../store/editorStore';
 import { EditorCommandType } from '../types';
 
-export type ToolMode = 'select' | 'pencil' | 'curves' | 'shapes' | 'text' | 'text-edit' | 'creation' | 'subpath-edit' | 'smooth';
+export type ToolMode = 'select' | 'pencil' | 'curves' | 'shapes' | 'text' | 'text-edit' | 'creation' | 'subpath-edit' | 'smooth' | 'offset' | 'knife' | 'shape-builder';
 
 export interface ToolModeState {
   activeMode: ToolMode;
@@ -45,6 +45,9 @@ export class ToolModeManager {
   private textEditManager: any = null;
   private creationManager: any = null;
   private smoothManager: any = null;
+  private offsetManager: any = null;
+  private knifeManager: any = null;
+  private shapeBuilderManager: any = null;
 
   constructor() {
   }
@@ -80,6 +83,18 @@ export class ToolModeManager {
     this.smoothManager = manager;
   }
 
+  setOffsetManager(manager: any) {
+    this.offsetManager = manager;
+  }
+
+  setKnifeManager(manager: any) {
+    this.knifeManager = manager;
+  }
+
+  setShapeBuilderManager(manager: any) {
+    this.shapeBuilderManager = manager;
+  }
+
   /**
    * Obtener el estado actual del modo
    */
@@ -210,6 +225,24 @@ export class ToolModeManager {
         }
         break;
 
+      case 'offset':
+        if (this.offsetManager) {
+          this.offsetManager.deactivateExternally();
+        }
+        break;
+
+      case 'knife':
+        if (this.knifeManager) {
+          this.knifeManager.deactivateExternally();
+        }
+        break;
+
+      case 'shape-builder':
+        if (this.shapeBuilderManager) {
+          this.shapeBuilderManager.deactivateExternally();
+        }
+        break;
+
       case 'select':
         // Select mode no necesita desactivación especial
         break;
@@ -314,6 +347,36 @@ export class ToolModeManager {
         }
         break;
 
+      case 'offset':
+        // Keep the selection: the selected subpaths are the ones to offset
+        if (this.offsetManager) {
+          this.offsetManager.activateExternally();
+        } else {
+          // Fallback si no hay manager
+          useEditorStore.getState().setMode('offset');
+        }
+        break;
+
+      case 'knife':
+        // Keep the selection: selected paths limit what the knife cuts
+        if (this.knifeManager) {
+          this.knifeManager.activateExternally();
+        } else {
+          // Fallback si no hay manager
+          useEditorStore.getState().setMode('knife');
+        }
+        break;
+
+      case 'shape-builder':
+        // Keep the selection: the selected paths form the arrangement
+        if (this.shapeBuilderManager) {
+          this.shapeBuilderManager.activateExternally();
+        } else {
+          // Fallback si no hay manager
+          useEditorStore.getState().setMode('shape-builder');
+        }
+        break;
+
       case 'select':
         useEditorStore.getState().setMode('select');
         break;
@@ -3,7 +3,10 @@ import { useEditorStore } from '../store/editorStore';
 import { atomicFormatCopyCheck } from '../store/atomicOperations';
 import { getAllElementsByZIndex, getElementZIndex } from '../utils/z-index-manager';
 import { subPathToString, getContrastColor } from '../utils/path-utils';
+import { getPathTransformAttribute, toPathLocalPoint } from '../utils/path-transform-utils';
 import { getStyleValue } from '../utils/gradient-utils';
+import { getEmbeddedPathAttributes } from '../utils/svg-sprite';
+import { toJSXAttributeName } from '../utils/svg-serializer';
 import { useAnimationsForElement } from '../components/AnimationRenderer';
 import { useTextEditMode } from '../hooks/useTextEditMode';
 import { TextEditOverlay } from '../components/TextEditOverlay';
@@ -47,6 +50,7 @@ interface PathWithAnimationsProps {
   pathLength?: number;
   style?: React.CSSProperties;
   path?: any; // Full path object for overlay logic
+  transform?: string; // The path's own transform, applied to the path and its overlays
 }
 
 const PathWithAnimations: React.FC<PathWithAnimationsProps> = (props) => {
@@ -451,7 +455,7 @@ const PathWithAnimations: React.FC<PathWithAnimationsProps> = (props) => {
       };
     }
   }, [dragState.isDragging, dragState.svgElement, cyclingState.isPending, handlePointerMove, handlePointerUp]);  return (
-    <g>
+    <g transform={props.transform}>
       <path
         d={props.d}
         fill={props.fill}
@@ -523,7 +527,7 @@ const PathWithAnimations: React.FC<PathWithAnimationsProps> = (props) => {
                 const point = getSVGPoint(e, svgRef, viewport);
                 
                 // Use the new cycling detection system
-                const result = startCyclingDetection(props.path, point, 15);
+                const result = startCyclingDetection(props.path, toPathLocalPoint(props.path, point), 15);
                 
                 // If we're in subpath-edit mode, do NOT change selection on pointer down
                 const stateForModeCheck = useEditorStore.getState();
@@ -705,7 +709,7 @@ const PathWithAnimations: React.FC<PathWithAnimationsProps> = (props) => {
                   const point = getSVGPoint(e, svgRef, viewport);
                   
                   // Use the new cycling detection system
-                  const result = startCyclingDetection(props.path, point, 15);
+                  const result = startCyclingDetection(props.path, toPathLocalPoint(props.path, point), 15);
                   
                   if (result.shouldWaitForMovement) {
                     // Set up cycling state to detect if this is a click or drag
@@ -1359,6 +1363,7 @@ const renderPathElement = (path: any, selection: any, viewport: any, enabledFeat
       markerEnd={path.style.markerEnd}
       pathLength={path.pathLength}
       path={path}
+      transform={getPathTransformAttribute(path)}
       style={{ 
         pointerEvents: 'all',
         clipPath: path.style.clipPath,
@@ -1532,26 +1537,14 @@ export const UnifiedRenderer: React.FC = () => {
         
         // Convert path to SVG path string
         const pathData = path.subPaths.map(subPath => 
-          subPath.commands.map((cmd: any) => {
-            switch (cmd.command) {
-              case 'M':
-                return `M ${cmd.x} ${cmd.y}`;
-              case 'L':
-                return `L ${cmd.x} ${cmd.y}`;
-              case 'C':
-                return `C ${cmd.x1} ${cmd.y1} ${cmd.x2} ${cmd.y2} ${cmd.x} ${cmd.y}`;
-              case 'Z':
-                return 'Z';
-              default:
-                return '';
-            }
-          }).join(' ')
+          subPathToString(subPath)
         ).join(' ');
 
         return (
           <path
             key={childId}
             d={pathData}
+            transform={getPathTransformAttribute(path)}
           />
         );
       }
@@ -1635,20 +1628,7 @@ export const UnifiedRenderer: React.FC = () => {
                     if (!subPath.commands || !Array.isArray(subPath.commands)) {
                       return '';
                     }
-                    return subPath.commands.map((cmd: any) => {
-                      switch (cmd.command) {
-                        case 'M':
-                          return `M ${cmd.x || 0} ${cmd.y || 0}`;
-                        case 'L':
-                          return `L ${cmd.x || 0} ${cmd.y || 0}`;
-                        case 'C':
-                          return `C ${cmd.x1 || 0} ${cmd.y1 || 0} ${cmd.x2 || 0} ${cmd.y2 || 0} ${cmd.x || 0} ${cmd.y || 0}`;
-                        case 'Z':
-                          return 'Z';
-                        default:
-                          return '';
-                      }
-                    }).join(' ');
+                    return subPathToString(subPath);
                   }).join(' ');
 
                   // Only render if we have valid path data
@@ -1657,11 +1637,14 @@ export const UnifiedRenderer: React.FC = () => {
                     return null;
                   }
 
-                  // Create path without explicit styles to allow inheritance from <use>
+                  // Only the paint the path sets itself, the rest is inherited from <use>
                   return (
                     <path
                       key={`${symbol.id}-child-${index}`}
                       d={pathData}
+                      transform={getPathTransformAttribute(child)}
+                      {...Object.fromEntries(Object.entries(getEmbeddedPathAttributes(child.style))
+                        .map(([name, value]) => [toJSXAttributeName(name), value]))}
                     />
                   );
                 }
@@ -0,0 +1,402 @@
+/**
+ * DXF format handler
+ *
+ * Reads LINE, LWPOLYLINE, POLYLINE, ARC, CIRCLE and SPLINE entities from the
+ * ENTITIES section, one path per layer. Exports flattened paths as R12
+ * POLYLINE entities, which CAD and CNC software reads most widely.
+ */
+
+import { Point, SVGCommand, SVGSubPath, SVGPath } from '../../types';
+import { generateId } from '../../utils/id-utils';
+import {
+  DEFAULT_EXPORT_TOLERANCE,
+  DRAWING_UNIT_MILLIMETERS,
+  DrawingUnit,
+  createImportedPaths,
+  createYFlipMatrix,
+  getPathPolylines,
+  getPolylinesBounds,
+  getUnitScale
+} from '../../utils/format-geometry-utils';
+import { transformPoint } from '../../utils/transform-utils';
+import type {
+  FormatExportOptions,
+  FormatHandler,
+  FormatImportOptions,
+  FormatImportResult
+} from '../FormatHandlerRegistry';
+
+interface DXFPair {
+  code: number;
+  value: string;
+}
+
+interface DXFEntity {
+  type: string;
+  pairs: DXFPair[];
+}
+
+interface DXFVertex extends Point {
+  bulge: number; // tan(θ/4) of the arc to the next vertex; positive is counterclockwise
+}
+
+// $INSUNITS codes in millimeters per unit
+const INSUNITS_MILLIMETERS: Record<number, number> = {
+  1: 25.4,
+  2: 304.8,
+  4: 1,
+  5: 10,
+  6: 1000
+};
+
+// DXF has no pixel unit, and code 0 would leave the file unitless
+const INSUNITS_CODES: Partial<Record<DrawingUnit, number>> = {
+  mm: 4,
+  cm: 5,
+  in: 1
+};
+
+const DXF_FILE_UNITS = Object.keys(INSUNITS_CODES) as DrawingUnit[];
+
+const SPLINE_SAMPLES_PER_SPAN = 16;
+
+const command = (type: SVGCommand['command'], point?: Point): SVGCommand => ({
+  id: generateId(),
+  command: type,
+  ...(point ? { x: point.x, y: point.y } : {})
+});
+
+const arcCommand = (to: Point, radius: number, largeArc: boolean, counterclockwise: boolean): SVGCommand => ({
+  id: generateId(),
+  command: 'A',
+  x: to.x,
+  y: to.y,
+  rx: radius,
+  ry: radius,
+  xAxisRotation: 0,
+  largeArcFlag: largeArc ? 1 : 0,
+  // File coordinates are y-up, so counterclockwise is the positive angle direction
+  sweepFlag: counterclockwise ? 1 : 0
+});
+
+const readPairs = (content: string): DXFPair[] => {
+  const lines = content.split(/\r?\n/);
+  const pairs: DXFPair[] = [];
+  for (let i = 0; i + 1 < lines.length; i += 2) {
+    const code = parseInt(lines[i].trim(), 10);
+    if (Number.isNaN(code)) {
+      throw new Error(`Invalid group code on line ${i + 1}`);
+    }
+    pairs.push({ code, value: lines[i + 1].trim() });
+  }
+  return pairs;
+};
+
+const numberValue = (entity: DXFEntity, code: number, fallback: number = 0): number => {
+  const pair = entity.pairs.find(item => item.code === code);
+  const value = pair ? parseFloat(pair.value) : NaN;
+  return Number.isFinite(value) ? value : fallback;
+};
+
+const numberValues = (entity: DXFEntity, code: number): number[] =>
+  entity.pairs.filter(pair => pair.code === code).map(pair => parseFloat(pair.value));
+
+const pointValues = (entity: DXFEntity, xCode: number, yCode: number): Point[] => {
+  const xs = numberValues(entity, xCode);
+  const ys = numberValues(entity, yCode);
+  return xs.slice(0, ys.length).map((x, index) => ({ x, y: ys[index] }));
+};
+
+/**
+ * Split the sections into variables of the HEADER and the entities of ENTITIES
+ */
+const readSections = (pairs: DXFPair[]): { header: Map<string, DXFPair[]>; entities: DXFEntity[] } => {
+  const header = new Map<string, DXFPair[]>();
+  const entities: DXFEntity[] = [];
+  let section: string | null = null;
+  let variable: string | null = null;
+  let entity: DXFEntity | null = null;
+
+  for (let i = 0; i < pairs.length; i++) {
+    const { code, value } = pairs[i];
+    if (code === 0 && value === 'SECTION') {
+      section = pairs[i + 1]?.code === 2 ? pairs[++i].value : null;
+      continue;
+    }
+    if (code === 0 && value === 'ENDSEC') {
+      section = null;
+      entity = null;
+      continue;
+    }
+
+    if (section === 'HEADER') {
+      if (code === 9) {
+        variable = value;
+        header.set(variable, []);
+      } else if (variable) {
+        header.get(variable)!.push(pairs[i]);
+      }
+    } else if (section === 'ENTITIES') {
+      if (code === 0) {
+        entity = { type: value, pairs: [] };
+        entities.push(entity);
+      } else if (entity) {
+        entity.pairs.push(pairs[i]);
+      }
+    }
+  }
+
+  return { header, entities };
+};
+
+const polylineCommands = (vertices: DXFVertex[], closed: boolean): SVGCommand[] => {
+  const commands = [command('M', vertices[0])];
+  const count = closed ? vertices.length : vertices.length - 1;
+
+  for (let i = 0; i < count; i++) {
+    const from = vertices[i];
+    const to = vertices[(i + 1) % vertices.length];
+    const chord = Math.hypot(to.x - from.x, to.y - from.y);
+    if (Math.abs(from.bulge) < 1e-12 || chord === 0) {
+      if (i < vertices.length - 1) commands.push(command('L', to));
+      continue;
+    }
+    const bulge = Math.abs(from.bulge);
+    const radius = chord * (1 + bulge * bulge) / (4 * bulge);
+    commands.push(arcCommand(to, radius, bulge > 1, from.bulge > 0));
+  }
+
+  if (closed) commands.push(command('Z'));
+  return commands;
+};
+
+const arcCommands = (center: Point, radius: number, startAngle: number, endAngle: number): SVGCommand[] => {
+  const pointAt = (degrees: number): Point => ({
+    x: center.x + radius * Math.cos(degrees * Math.PI / 180),
+    y: center.y + radius * Math.sin(degrees * Math.PI / 180)
+  });
+
+  // DXF arcs always run counterclockwise from the start to the end angle
+  let sweep = ((endAngle - startAngle) % 360 + 360) % 360;
+  if (sweep === 0) sweep = 360;
+
+  if (sweep >= 360) {
+    return [
+      command('M', pointAt(startAngle)),
+      arcCommand(pointAt(startAngle + 180), radius, false, true),
+      arcCommand(pointAt(startAngle), radius, false, true),
+      command('Z')
+    ];
+  }
+  return [
+    command('M', pointAt(startAngle)),
+    arcCommand(pointAt(startAngle + sweep), radius, sweep > 180, true)
+  ];
+};
+
+/**
+ * Point of a (rational) B-spline with de Boor's algorithm
+ */
+const evaluateSpline = (degree: number, knots: number[], points: Point[], weights: number[], t: number): Point => {
+  let span = degree;
+  while (span < points.length - 1 && t >= knots[span + 1]) span++;
+
+  const d = Array.from({ length: degree + 1 }, (_, j) => {
+    const point = points[j + span - degree];
+    const weight = weights[j + span - degree];
+    return { x: point.x * weight, y: point.y * weight, w: weight };
+  });
+  for (let r = 1; r <= degree; r++) {
+    for (let j = degree; j >= r; j--) {
+      const i = j + span - degree;
+      const denominator = knots[i + degree + 1 - r] - knots[i];
+      const alpha = denominator === 0 ? 0 : (t - knots[i]) / denominator;
+      d[j] = {
+        x: (1 - alpha) * d[j - 1].x + alpha * d[j].x,
+        y: (1 - alpha) * d[j - 1].y + alpha * d[j].y,
+        w: (1 - alpha) * d[j - 1].w + alpha * d[j].w
+      };
+    }
+  }
+  return { x: d[degree].x / d[degree].w, y: d[degree].y / d[degree].w };
+};
+
+const splineCommands = (entity: DXFEntity, warnings: string[]): SVGCommand[] | null => {
+  const degree = numberValue(entity, 71, 3);
+  const knots = numberValues(entity, 40);
+  const controlPoints = pointValues(entity, 10, 20);
+  const fitPoints = pointValues(entity, 11, 21);
+  const weightValues = numberValues(entity, 41);
+  const weights = weightValues.length === controlPoints.length ? weightValues : controlPoints.map(() => 1);
+  const closed = (numberValue(entity, 70) & 1) === 1;
+
+  let points: Point[];
+  if (controlPoints.length > degree && knots.length === controlPoints.length + degree + 1) {
+    // Sample the curve over the valid range of the knots
+    const start = knots[degree];
+    const end = knots[controlPoints.length];
+    const count = (controlPoints.length - degree) * SPLINE_SAMPLES_PER_SPAN;
+    points = Array.from({ length: count + 1 }, (_, index) =>
+      evaluateSpline(degree, knots, controlPoints, weights, start + (end - start) * index / count)
+    );
+  } else if (fitPoints.length >= 2) {
+    points = fitPoints;
+  } else if (controlPoints.length >= 2) {
+    warnings.push('A SPLINE with invalid knots was imported as its control polygon');
+    points = controlPoints;
+  } else {
+    return null;
+  }
+
+  return [
+    command('M', points[0]),
+    ...points.slice(1).map(point => command('L', point)),
+    ...(closed ? [command('Z')] : [])
+  ];
+};
+
+const entityCommands = (entity: DXFEntity, warnings: string[]): SVGCommand[] | null => {
+  switch (entity.type) {
+    case 'LINE':
+      return [
+        command('M', { x: numberValue(entity, 10), y: numberValue(entity, 20) }),
+        command('L', { x: numberValue(entity, 11), y: numberValue(entity, 21) })
+      ];
+    case 'LWPOLYLINE': {
+      // Vertices are 10/20 pairs; a 42 bulge follows the vertex it belongs to
+      const vertices: DXFVertex[] = [];
+      let x: number | null = null;
+      entity.pairs.forEach(pair => {
+        if (pair.code === 10) x = parseFloat(pair.value);
+        if (pair.code === 20 && x !== null) vertices.push({ x, y: parseFloat(pair.value), bulge: 0 });
+        if (pair.code === 42 && vertices.length > 0) vertices[vertices.length - 1].bulge = parseFloat(pair.value) || 0;
+      });
+      if (vertices.length < 2) return null;
+      return polylineCommands(vertices, (numberValue(entity, 70) & 1) === 1);
+    }
+    case 'ARC':
+      return arcCommands(
+        { x: numberValue(entity, 10), y: numberValue(entity, 20) },
+        numberValue(entity, 40),
+        numberValue(entity, 50),
+        numberValue(entity, 51)
+      );
+    case 'CIRCLE':
+      return arcCommands({ x: numberValue(entity, 10), y: numberValue(entity, 20) }, numberValue(entity, 40), 0, 360);
+    case 'SPLINE':
+      return splineCommands(entity, warnings);
+    default:
+      return null;
+  }
+};
+
+export function importDXF(content: string, options: FormatImportOptions = {}): FormatImportResult {
+  const warnings: string[] = [];
+  const { header, entities } = readSections(readPairs(content));
+
+  const layers = new Map<string, SVGSubPath[]>();
+  const skipped = new Map<string, number>();
+  const addSubPath = (entity: DXFEntity, commands: SVGCommand[] | null) => {
+    if (!commands) {
+      skipped.set(entity.type, (skipped.get(entity.type) ?? 0) + 1);
+      return;
+    }
+    const layer = entity.pairs.find(pair => pair.code === 8)?.value ?? '0';
+    if (!layers.has(layer)) layers.set(layer, []);
+    layers.get(layer)!.push({ id: generateId(), commands });
+  };
+
+  for (let i = 0; i < entities.length; i++) {
+    const entity = entities[i];
+    if (entity.type === 'POLYLINE') {
+      // Old-style polylines keep their vertices in the VERTEX entities that follow
+      const vertices: DXFVertex[] = [];
+      while (entities[i + 1]?.type === 'VERTEX') {
+        const vertex = entities[++i];
+        vertices.push({ x: numberValue(vertex, 10), y: numberValue(vertex, 20), bulge: numberValue(vertex, 42) });
+      }
+      if (entities[i + 1]?.type === 'SEQEND') i++;
+      addSubPath(entity, vertices.length >= 2 ? polylineCommands(vertices, (numberValue(entity, 70) & 1) === 1) : null);
+      continue;
+    }
+    addSubPath(entity, entityCommands(entity, warnings));
+  }
+
+  if (skipped.size > 0) {
+    const list = [...skipped].map(([type, count]) => `${type} (${count})`).join(', ');
+    warnings.push(`Skipped unsupported DXF entities: ${list}`);
+  }
+
+  const unitCode = header.get('$INSUNITS')?.find(pair => pair.code === 70);
+  const fileMillimeters = unitCode && INSUNITS_MILLIMETERS[parseInt(unitCode.value, 10)]
+    ? INSUNITS_MILLIMETERS[parseInt(unitCode.value, 10)]
+    : DRAWING_UNIT_MILLIMETERS[options.fileUnit ?? 'mm'];
+  const scale = fileMillimeters / DRAWING_UNIT_MILLIMETERS[options.canvasUnit ?? 'px'];
+
+  const paths = createImportedPaths([...layers.values()], scale);
+  if (paths.length === 0) {
+    return { success: false, paths, warnings, errors: ['No supported DXF entities found'] };
+  }
+  return { success: true, paths, warnings, errors: [] };
+}
+
+export function exportDXF(paths: SVGPath[], options: FormatExportOptions = {}): string {
+  const fileUnit = options.fileUnit && DXF_FILE_UNITS.includes(options.fileUnit) ? options.fileUnit : 'mm';
+  const scale = getUnitScale(options.canvasUnit ?? 'px', fileUnit);
+  const polylines = getPathPolylines(paths, options.tolerance ?? DEFAULT_EXPORT_TOLERANCE);
+  const bounds = getPolylinesBounds(polylines) ?? { x: 0, y: 0, width: 0, height: 0 };
+  const matrix = createYFlipMatrix(bounds, scale);
+
+  const lines: string[] = [];
+  const pair = (code: number, value: string | number) => {
+    const text = typeof value === 'number' ? Number(value.toFixed(6)).toString() : value;
+    lines.push(String(code).padStart(3), text);
+  };
+  const point = (xCode: number, yCode: number, value: Point) => {
+    pair(xCode, value.x);
+    pair(yCode, value.y);
+  };
+
+  pair(0, 'SECTION');
+  pair(2, 'HEADER');
+  pair(9, '$ACADVER');
+  pair(1, 'AC1009');
+  pair(9, '$INSUNITS');
+  pair(70, INSUNITS_CODES[fileUnit]!);
+  pair(9, '$EXTMIN');
+  point(10, 20, { x: bounds.x * scale, y: bounds.y * scale });
+  pair(9, '$EXTMAX');
+  point(10, 20, { x: (bounds.x + bounds.width) * scale, y: (bounds.y + bounds.height) * scale });
+  pair(0, 'ENDSEC');
+
+  pair(0, 'SECTION');
+  pair(2, 'ENTITIES');
+  polylines.forEach(polyline => {
+    pair(0, 'POLYLINE');
+    pair(8, '0');
+    pair(66, 1);
+    pair(70, polyline.closed ? 1 : 0);
+    point(10, 20, { x: 0, y: 0 });
+    polyline.points.forEach(canvasPoint => {
+      pair(0, 'VERTEX');
+      pair(8, '0');
+      point(10, 20, transformPoint(canvasPoint.x, canvasPoint.y, matrix));
+    });
+    pair(0, 'SEQEND');
+    pair(8, '0');
+  });
+  pair(0, 'ENDSEC');
+  pair(0, 'EOF');
+
+  return lines.join('\n') + '\n';
+}
+
+export const dxfFormatHandler: FormatHandler = {
+  id: 'dxf',
+  name: 'DXF',
+  extensions: ['.dxf'],
+  mimeType: 'application/dxf',
+  fileUnits: DXF_FILE_UNITS,
+  importContent: importDXF,
+  exportPaths: exportDXF
+};
@@ -0,0 +1,161 @@
+/**
+ * HPGL format handler
+ *
+ * Reads pen moves (PU, PD, PA, PR) into one path per pen, and exports
+ * flattened paths as pen up/down moves in plotter units.
+ */
+
+import { Point, SVGCommand, SVGPath, SVGSubPath } from '../../types';
+import { generateId } from '../../utils/id-utils';
+import {
+  DEFAULT_EXPORT_TOLERANCE,
+  DRAWING_UNIT_MILLIMETERS,
+  createImportedPaths,
+  createYFlipMatrix,
+  getPathPolylines,
+  getPolylinesBounds
+} from '../../utils/format-geometry-utils';
+import { transformPoint } from '../../utils/transform-utils';
+import type {
+  FormatExportOptions,
+  FormatHandler,
+  FormatImportOptions,
+  FormatImportResult
+} from '../FormatHandlerRegistry';
+
+// HPGL plotter units are 0.025 mm
+const PLOTTER_UNITS_PER_MILLIMETER = 40;
+
+// Instructions that do not change the geometry
+const IGNORED_INSTRUCTIONS = new Set(['VS', 'FS', 'PW', 'IP', 'DF']);
+
+const lineCommand = (type: 'M' | 'L', point: Point): SVGCommand => ({
+  id: generateId(),
+  command: type,
+  x: point.x,
+  y: point.y
+});
+
+export function importHPGL(content: string, options: FormatImportOptions = {}): FormatImportResult {
+  const warnings: string[] = [];
+  const pens = new Map<number, SVGSubPath[]>();
+  const skipped = new Map<string, number>();
+
+  let pen = 1;
+  let penDown = false;
+  let absolute = true;
+  let current: Point = { x: 0, y: 0 };
+  let stroke: SVGCommand[] = [];
+
+  const endStroke = () => {
+    if (stroke.length > 1) {
+      const first = stroke[0];
+      const last = stroke[stroke.length - 1];
+      if (stroke.length > 2 && first.x === last.x && first.y === last.y) {
+        stroke.push({ id: generateId(), command: 'Z' });
+      }
+      if (!pens.has(pen)) pens.set(pen, []);
+      pens.get(pen)!.push({ id: generateId(), commands: stroke });
+    }
+    stroke = [];
+  };
+
+  const moveTo = (target: Point) => {
+    if (penDown) {
+      if (stroke.length === 0) stroke.push(lineCommand('M', current));
+      stroke.push(lineCommand('L', target));
+    } else {
+      endStroke();
+    }
+    current = target;
+  };
+
+  // Labels end with ETX and may contain anything, so they go first
+  const labelCount = (content.match(/LB[^\x03]*\x03?/gi) ?? []).length;
+  if (labelCount > 0) skipped.set('LB', labelCount);
+  const instructions = content.replace(/LB[^\x03]*\x03?/gi, '').matchAll(/([A-Za-z]{2})([^A-Za-z;]*)/g);
+
+  for (const [, mnemonic, parameters] of instructions) {
+    const name = mnemonic.toUpperCase();
+    const values = parameters.split(/[\s,]+/).filter(Boolean).map(Number).filter(Number.isFinite);
+
+    switch (name) {
+      case 'IN':
+        endStroke();
+        penDown = false;
+        absolute = true;
+        continue;
+      case 'PU':
+        penDown = false;
+        endStroke();
+        break;
+      case 'PD':
+        penDown = true;
+        break;
+      case 'PA':
+        absolute = true;
+        break;
+      case 'PR':
+        absolute = false;
+        break;
+      case 'SP':
+        endStroke();
+        pen = values[0] ?? 0;
+        continue;
+      default:
+        if (!IGNORED_INSTRUCTIONS.has(name)) {
+          skipped.set(name, (skipped.get(name) ?? 0) + 1);
+        }
+        continue;
+    }
+
+    for (let i = 0; i + 1 < values.length; i += 2) {
+      moveTo(absolute
+        ? { x: values[i], y: values[i + 1] }
+        : { x: current.x + values[i], y: current.y + values[i + 1] });
+    }
+  }
+  endStroke();
+
+  if (skipped.size > 0) {
+    const list = [...skipped].map(([name, count]) => `${name} (${count})`).join(', ');
+    warnings.push(`Skipped unsupported HPGL instructions: ${list}`);
+  }
+
+  const scale = 1 / PLOTTER_UNITS_PER_MILLIMETER / DRAWING_UNIT_MILLIMETERS[options.canvasUnit ?? 'px'];
+  const paths = createImportedPaths([...pens.values()], scale);
+  if (paths.length === 0) {
+    return { success: false, paths, warnings, errors: ['No pen-down moves found'] };
+  }
+  return { success: true, paths, warnings, errors: [] };
+}
+
+export function exportHPGL(paths: SVGPath[], options: FormatExportOptions = {}): string {
+  const scale = DRAWING_UNIT_MILLIMETERS[options.canvasUnit ?? 'px'] * PLOTTER_UNITS_PER_MILLIMETER;
+  const polylines = getPathPolylines(paths, options.tolerance ?? DEFAULT_EXPORT_TOLERANCE);
+  const bounds = getPolylinesBounds(polylines) ?? { x: 0, y: 0, width: 0, height: 0 };
+  const matrix = createYFlipMatrix(bounds, scale);
+
+  const format = (point: Point) => {
+    const { x, y } = transformPoint(point.x, point.y, matrix);
+    return `${Math.round(x)},${Math.round(y)}`;
+  };
+
+  const instructions = ['IN', 'SP1'];
+  polylines.forEach(({ points, closed }) => {
+    const drawn = closed ? [...points.slice(1), points[0]] : points.slice(1);
+    instructions.push(`PU${format(points[0])}`, `PD${drawn.map(format).join(',')}`);
+  });
+  instructions.push('PU', 'SP0');
+
+  return instructions.join(';\n') + ';\n';
+}
+
+export const hpglFormatHandler: FormatHandler = {
+  id: 'hpgl',
+  name: 'HPGL',
+  extensions: ['.hpgl', '.plt', '.hpg'],
+  mimeType: 'application/vnd.hp-hpgl',
+  importContent: importHPGL,
+  exportPaths: exportHPGL
+};
@@ -1,5 +1,6 @@
 import React from 'react';
 import { useEditorStore } from '../../store/editorStore';
+import { subPathToString } from '../../utils/path-utils';
 export const ClippingRenderer: React.FC = () => {
   const { clipPaths, masks, paths, groups } = useEditorStore();
   if (clipPaths.length === 0 && masks.length === 0) return null;
@@ -9,20 +10,7 @@ export const ClippingRenderer: React.FC = () => {
       case 'path':
         
         const pathData = child.subPaths.map((subPath: any) => 
-          subPath.commands.map((cmd: any) => {
-            switch (cmd.command) {
-              case 'M':
-                return `M ${cmd.x} ${cmd.y}`;
-              case 'L':
-                return `L ${cmd.x} ${cmd.y}`;
-              case 'C':
-                return `C ${cmd.x1} ${cmd.y1} ${cmd.x2} ${cmd.y2} ${cmd.x} ${cmd.y}`;
-              case 'Z':
-                return 'Z';
-              default:
-                return '';
-            }
-          }).join(' ')
+          subPathToString(subPath)
         ).join(' ');
         return (
           <path
@@ -67,20 +55,7 @@ export const ClippingRenderer: React.FC = () => {
               
               if (child.type === 'path') {
                 const pathData = (child as any).subPaths?.map((subPath: any) => 
-                  subPath.commands?.map((cmd: any) => {
-                    switch (cmd.command) {
-                      case 'M':
-                        return `M ${cmd.x} ${cmd.y}`;
-                      case 'L':
-                        return `L ${cmd.x} ${cmd.y}`;
-                      case 'C':
-                        return `C ${cmd.x1} ${cmd.y1} ${cmd.x2} ${cmd.y2} ${cmd.x} ${cmd.y}`;
-                      case 'Z':
-                        return 'Z';
-                      default:
-                        return '';
-                    }
-                  }).join(' ')
+                  subPathToString(subPath)
                 ).join(' ');
                 return (
                   <path
@@ -99,20 +74,7 @@ export const ClippingRenderer: React.FC = () => {
                     {(child as any).children?.map((grandChild: any) => {
                       if (grandChild.type === 'path') {
                         const pathData = (grandChild as any).subPaths?.map((subPath: any) => 
-                          subPath.commands?.map((cmd: any) => {
-                            switch (cmd.command) {
-                              case 'M':
-                                return `M ${cmd.x} ${cmd.y}`;
-                              case 'L':
-                                return `L ${cmd.x} ${cmd.y}`;
-                              case 'C':
-                                return `C ${cmd.x1} ${cmd.y1} ${cmd.x2} ${cmd.y2} ${cmd.x} ${cmd.y}`;
-                              case 'Z':
-                                return 'Z';
-                              default:
-                                return '';
-                            }
-                          }).join(' ')
+                          subPathToString(subPath)
                         ).join(' ');
                         return (
                           <path
@@ -4,7 +4,8 @@ import { SVGCommand } from '../../types';
 import { useEditorStore } from '../../store/editorStore';
 import { getUniqueCommandPositions, isCommandArrangeable } from '../../utils/command-point-utils';
 import { createCommandArrangeActions } from '../../utils/floating-arrange-actions';
-import { Trash2, Grid3X3, Spline, Minus } from 'lucide-react';
+import { getSubPathEnd } from '../../utils/join-path-utils';
+import { Trash2, Grid3X3, Spline, Minus, Link, Merge, Flag } from 'lucide-react';
 
 // Helper functions for conditional visibility
 const getSelectedCommandsWithContext = () => {
@@ -220,6 +221,99 @@ const getTransformActions = (): ToolbarAction[] => [
   }
 ];
 
+// Join helpers: two selected endpoints of open subpaths, possibly in different paths
+const getSelectedEndpoints = () => {
+  const store = useEditorStore.getState();
+  const { selectedCommands } = store.selection;
+  if (selectedCommands.length !== 2) return null;
+  
+  const endpoints = selectedCommands.map(commandId => {
+    for (const path of store.paths) {
+      for (const subPath of path.subPaths) {
+        const end = getSubPathEnd(subPath, commandId);
+        if (end) return { commandId, subPathId: subPath.id, end };
+      }
+    }
+    return null;
+  });
+  
+  const [first, second] = endpoints;
+  if (!first || !second) return null;
+  // Both ends of the same subpath close it; the same end twice can't be joined
+  if (first.subPathId === second.subPathId && first.end === second.end) return null;
+  return [first, second] as const;
+};
+
+const canJoinEndpoints = () => getSelectedEndpoints() !== null;
+
+const joinSelectedEndpoints = (mode: 'line' | 'merge') => {
+  const endpoints = getSelectedEndpoints();
+  if (!endpoints) return;
+  
+  const store = useEditorStore.getState();
+  store.pushToHistory();
+  store.joinEndpoints(endpoints[0].commandId, endpoints[1].commandId, mode);
+};
+
+const getJoinActions = (): ToolbarAction[] => [
+  {
+    id: 'join-endpoints',
+    icon: Link,
+    label: 'Join',
+    type: 'button',
+    action: () => joinSelectedEndpoints('line'),
+    priority: 780,
+    tooltip: 'Join the selected endpoints with a line',
+    visible: canJoinEndpoints
+  },
+  {
+    id: 'average-join-endpoints',
+    icon: Merge,
+    label: 'Average & Join',
+    type: 'button',
+    action: () => joinSelectedEndpoints('merge'),
+    priority: 775,
+    tooltip: 'Merge the selected endpoints into one point at their average position',
+    visible: canJoinEndpoints
+  }
+];
+
+// Start point: one anchor of a closed subpath that isn't its start already
+const canSetStartPoint = () => {
+  const store = useEditorStore.getState();
+  const { selectedCommands } = store.selection;
+  if (selectedCommands.length !== 1) return false;
+  
+  for (const path of store.paths) {
+    for (const subPath of path.subPaths) {
+      const index = subPath.commands.findIndex(cmd => cmd.id === selectedCommands[0]);
+      if (index === -1) continue;
+      const isClosed = subPath.commands[subPath.commands.length - 1]?.command === 'Z';
+      return isClosed && index > 0 && index < subPath.commands.length - 1;
+    }
+  }
+  return false;
+};
+
+const getStartPointActions = (): ToolbarAction[] => [
+  {
+    id: 'set-start-point',
+    icon: Flag,
+    label: 'Set Start',
+    type: 'button',
+    action: () => {
+      const store = useEditorStore.getState();
+      if (!canSetStartPoint()) return;
+      
+      store.pushToHistory();
+      store.setSubPathStartPoint(store.selection.selectedCommands[0]);
+    },
+    priority: 770,
+    tooltip: 'Make this point the start of the closed path',
+    visible: canSetStartPoint
+  }
+];
+
 // Use the new reusable arrange actions
 const getArrangeActions = (): ToolbarAction[] => createCommandArrangeActions();
 
@@ -254,6 +348,8 @@ const getDeleteActions = (): ToolbarAction[] => [
 const getAllCommandActions = (): ToolbarAction[] => {
   return [
     ...getTransformActions(),
+    ...getJoinActions(),
+    ...getStartPointActions(),
     ...getArrangeActions(),
     ...getDeleteActions()
   ];
@@ -5,6 +5,7 @@ import { useAnimationsForElement } from '../../components/AnimationRenderer';
 import { calculateTextBoundsDOM } from '../../utils/text-utils';
 import { calculateGlobalViewBox } from '../../utils/viewbox-utils';
 import { subPathToString } from '../../utils/path-utils';
+import { getPathTransformAttribute } from '../../utils/path-transform-utils';
 
 interface GroupRendererProps {
   group: SVGGroup;
@@ -99,11 +100,13 @@ const GroupElement: React.FC<GroupRendererProps> = ({ group, isSelected = false,
           const path = paths.find((p: any) => p.id === child.id);
           if (path) {
             // Add all subpaths from this path
+            const transform = getPathTransformAttribute(path);
             for (const subPath of path.subPaths) {
               const pathElement = document.createElementNS(svgNS, 'path');
               const pathData = subPathToString(subPath);
               if (pathData) {
                 pathElement.setAttribute('d', pathData);
+                if (transform) pathElement.setAttribute('transform', transform);
                 tempSvg.appendChild(pathElement);
                 hasContent = true;
               }
@@ -1,5 +1,6 @@
-import { SVGCommand, Point, ControlPointType, ControlPointInfo, BezierHandleState } from '../../types';
+import { SVGCommand, SVGPath, Point, ControlPointType, ControlPointInfo, BezierHandleState } from '../../types';
 import { ResourceManager, Disposable } from '../../core/ResourceManager';
+import { toPathLocalPoint } from '../../utils/path-transform-utils';
 
 export class HandleManager implements Disposable {
   private editorStore: any;
@@ -380,7 +381,12 @@ export class HandleManager implements Disposable {
     if (!controlPointInfo) {
       return;
     }
-    this.applyNewHandleLogic(dragState.commandId, dragState.handleType, newPoint, dragState.pairInfo);
+    // Handles of a path with its own transform are edited in its local space
+    const commandId = dragState.commandId;
+    const path = this.editorStore?.paths.find((candidate: SVGPath) =>
+      candidate.subPaths.some(subPath => subPath.commands.some(command => command.id === commandId))
+    );
+    this.applyNewHandleLogic(commandId, dragState.handleType, toPathLocalPoint(path, newPoint), dragState.pairInfo);
   }
   /**
    * Aplica la nueva lógica de manejo de handles
@@ -5,6 +5,7 @@ import { useMobileDetection, getInteractionRadius } from '../../hooks/useMobileD
 import { handleManager } from './HandleManager';
 import { ControlPointType } from '../../types';
 import { transformManager } from '../transform/TransformManager';
+import { getCanvasSubPaths } from '../../utils/path-transform-utils';
 
 // Helper function to get control point size
 const getControlPointSize = (isMobile: boolean, isTablet: boolean): number => {
@@ -513,98 +514,179 @@ const HandleRendererCore: React.FC = React.memo(() => {
     return null;
   }
 
+  // Points of a path with its own transform are drawn at their canvas position,
+  // so the markers keep their size and match the hit areas
+  const canvasPaths = paths.map(path => ({ ...path, subPaths: getCanvasSubPaths(path) }));
+
   return (
     <g key={stableKey}>
-      {paths.map((path) => 
-        path.subPaths.map((subPath) => {
-          // No mostrar puntos de control para subpaths bloqueados
-          if (subPath.locked) return null;
+      {canvasPaths.map((path) => (
+        <g key={`path-points-${path.id}`}>
+          {path.subPaths.map((subPath) => {
+            // No mostrar puntos de control para subpaths bloqueados
+            if (subPath.locked) return null;
           
-          // NEVER show command/control points for subpaths in groups during subpath-edit mode
-          if (isSubpathEditMode && isPathInGroup(path.id)) {
-            return null;
-          }
+            // NEVER show command/control points for subpaths in groups during subpath-edit mode
+            if (isSubpathEditMode && isPathInGroup(path.id)) {
+              return null;
+            }
           
-          // If feature is disabled, only show control points for selected sub-paths
-          const isSubPathSelected = selection.selectedSubPaths.includes(subPath.id);
-
-          if (enabledFeatures.hidePointsInSelect && isSubPathSelected) return null;
-
-          const shouldShowSubPath = selectionVisible && (enabledFeatures.controlPointsEnabled || isSubPathSelected);
-          return subPath.commands.map((command, commandIndex) => {
-            // Get the absolute position of the command
-            const position = getAbsoluteCommandPosition(command, subPath, path.subPaths);
-            if (!position) return null;
-            const isCommandSelected = selection.selectedCommands.includes(command.id);
-            // Check if this command has control points in the handle state
-            const hasControlPoints = handleState.controlPoints.has(command.id);
-            const controlPointInfoForCheck = handleState.controlPoints.get(command.id);
-            // Show control points if:
-            // 1. We're in subpath-edit mode (show everything), OR
-            // 2. Feature is enabled / subpath is selected, OR 
-            // 3. This specific command is selected, OR
-            // 4. This command has control points to show (from HandleManager)
-            const shouldShowCommand = selectionVisible && (isSubpathEditMode || shouldShowSubPath || isCommandSelected || hasControlPoints);
-            if (!shouldShowCommand) return null;
+            // If feature is disabled, only show control points for selected sub-paths
+            const isSubPathSelected = selection.selectedSubPaths.includes(subPath.id);
+
+            if (enabledFeatures.hidePointsInSelect && isSubPathSelected) return null;
+
+            const shouldShowSubPath = selectionVisible && (enabledFeatures.controlPointsEnabled || isSubPathSelected);
+            return subPath.commands.map((command, commandIndex) => {
+              // Get the absolute position of the command
+              const position = getAbsoluteCommandPosition(command, subPath, path.subPaths);
+              if (!position) return null;
+              const isCommandSelected = selection.selectedCommands.includes(command.id);
+              // Check if this command has control points in the handle state
+              const hasControlPoints = handleState.controlPoints.has(command.id);
+              const controlPointInfoForCheck = handleState.controlPoints.get(command.id);
+              // Show control points if:
+              // 1. We're in subpath-edit mode (show everything), OR
+              // 2. Feature is enabled / subpath is selected, OR 
+              // 3. This specific command is selected, OR
+              // 4. This command has control points to show (from HandleManager)
+              const shouldShowCommand = selectionVisible && (isSubpathEditMode || shouldShowSubPath || isCommandSelected || hasControlPoints);
+              if (!shouldShowCommand) return null;
             
-            // Durante el drag, solo mostrar el comando que se arrastra y su pareja
-            if (isDragging) {
-              const isCurrentDragCommand = command.id === dragCommandId;
-              const isPairedCommand = pairedHandle && pairedHandle.commandId === command.id;
+              // Durante el drag, solo mostrar el comando que se arrastra y su pareja
+              if (isDragging) {
+                const isCurrentDragCommand = command.id === dragCommandId;
+                const isPairedCommand = pairedHandle && pairedHandle.commandId === command.id;
               
-              if (!isCurrentDragCommand && !isPairedCommand) {
-                return null; // No mostrar este comando
+                if (!isCurrentDragCommand && !isPairedCommand) {
+                  return null; // No mostrar este comando
+                }
               }
-            }
             
-            // Variables para uso en la lógica de renderizado
-            const isCurrentDragCommand = isDragging && command.id === dragCommandId;
-            const isPairedCommand = isDragging && pairedHandle && pairedHandle.commandId === command.id;
+              // Variables para uso en la lógica de renderizado
+              const isCurrentDragCommand = isDragging && command.id === dragCommandId;
+              const isPairedCommand = isDragging && pairedHandle && pairedHandle.commandId === command.id;
             
-            // Get control point info from handle manager
-            const controlPointInfo = handleState.controlPoints.get(command.id);
-            const handleType = controlPointInfo?.type || 'independent';
-            const isNextCommandDisplay = controlPointInfo?.isNextCommandDisplay || false;
-            const colors = getHandleColors(handleType, handleState.isOptionPressed, isNextCommandDisplay);
+              // Get control point info from handle manager
+              const controlPointInfo = handleState.controlPoints.get(command.id);
+              const handleType = controlPointInfo?.type || 'independent';
+              const isNextCommandDisplay = controlPointInfo?.isNextCommandDisplay || false;
+              const colors = getHandleColors(handleType, handleState.isOptionPressed, isNextCommandDisplay);
             
-            // Use the memoized radius
-            const radius = controlPointRadius;
+              // Use the memoized radius
+              const radius = controlPointRadius;
             
-            // Find previous command position for connecting control points
-            const prevCommand = commandIndex > 0 ? subPath.commands[commandIndex - 1] : null;
-            const prevPosition = prevCommand ? getAbsoluteCommandPosition(prevCommand, subPath, path.subPaths) : null;
+              // Find previous command position for connecting control points
+              const prevCommand = commandIndex > 0 ? subPath.commands[commandIndex - 1] : null;
+              const prevPosition = prevCommand ? getAbsoluteCommandPosition(prevCommand, subPath, path.subPaths) : null;
             
-            // Get absolute control points for this command with path context
-            const controlPoints = getAbsoluteControlPoints(command, subPath, path.subPaths);
+              // Get absolute control points for this command with path context
+              const controlPoints = getAbsoluteControlPoints(command, subPath, path.subPaths);
 
-            // If we're in subpath-edit mode, optionally hide control points based on feature flag
-            if (isSubpathEditMode && !subpathShowControlPoints) {
-              return null;
-            }
+              // If we're in subpath-edit mode, optionally hide control points based on feature flag
+              if (isSubpathEditMode && !subpathShowControlPoints) {
+                return null;
+              }
             
-            return (
-              <g key={`handle-control-${command.id}`}>
-                {/* Render control points for cubic curves */}
-                {command.command === 'C' && controlPoints.length >= 2 ? (
-                  <>
-                    {/* First control point (x1y1) - handle saliente */}
-                    {prevPosition && (() => {
-                      const isBeingDragged = isDragging && command.id === dragCommandId && dragHandleType === 'outgoing';
-                      const shouldShow = !isDragging || 
-                        (isDragging && command.id === dragCommandId) ||
-                        (isDragging && isPairedCommand && pairedHandle?.controlPoint === 'x1y1');
+              return (
+                <g key={`handle-control-${command.id}`}>
+                  {/* Render control points for cubic curves */}
+                  {command.command === 'C' && controlPoints.length >= 2 ? (
+                    <>
+                      {/* First control point (x1y1) - handle saliente */}
+                      {prevPosition && (() => {
+                        const isBeingDragged = isDragging && command.id === dragCommandId && dragHandleType === 'outgoing';
+                        const shouldShow = !isDragging || 
+                          (isDragging && command.id === dragCommandId) ||
+                          (isDragging && isPairedCommand && pairedHandle?.controlPoint === 'x1y1');
+                      
+                        // Viewport culling: skip rendering if control point is not visible and not being interacted with
+                        const isVisible = isCommandSelected || isSubPathSelected || 
+                          isControlPointVisible(controlPoints[0].x, controlPoints[0].y) || 
+                          isControlPointVisible(prevPosition.x, prevPosition.y);
                       
-                      // Viewport culling: skip rendering if control point is not visible and not being interacted with
-                      const isVisible = isCommandSelected || isSubPathSelected || 
-                        isControlPointVisible(controlPoints[0].x, controlPoints[0].y) || 
-                        isControlPointVisible(prevPosition.x, prevPosition.y);
+                        if (!isVisible && !isBeingDragged && !shouldShow) {
+                          return null;
+                        }
+                      
+                        // Si estamos arrastrando este control point específico, SIEMPRE mostrarlo
+                        return (shouldShow || isBeingDragged) ? (
+                          <SingleControlPoint
+                            key={`x1y1-${command.id}`}
+                            controlPoint={controlPoints[0]}
+                            anchorPoint={prevPosition}
+                            radius={radius}
+                            colors={colors}
+                            commandId={command.id}
+                            prevCommandId={prevCommand ? prevCommand.id : undefined}
+                            controlPointType="x1y1"
+                            zoom={viewport.zoom}
+                            isBeingDragged={isBeingDragged}
+                            isMobile={isMobile}
+                            isTablet={isTablet}
+                          />
+                        ) : null;
+                      })()}
+                    
+                      {/* Second control point (x2y2) - handle entrante */}
+                      {controlPoints.length >= 2 && (() => {
+                        const isBeingDragged = isDragging && command.id === dragCommandId && dragHandleType === 'incoming';
+                        const shouldShow = !isDragging || 
+                          (isDragging && command.id === dragCommandId) ||
+                          (isDragging && isPairedCommand && pairedHandle?.controlPoint === 'x2y2');
                       
-                      if (!isVisible && !isBeingDragged && !shouldShow) {
-                        return null;
-                      }
+                        // Viewport culling: skip rendering if control point is not visible and not being interacted with
+                        const isVisible = isCommandSelected || isSubPathSelected || 
+                          isControlPointVisible(controlPoints[1].x, controlPoints[1].y) || 
+                          isControlPointVisible(position.x, position.y);
                       
-                      // Si estamos arrastrando este control point específico, SIEMPRE mostrarlo
-                      return (shouldShow || isBeingDragged) ? (
+                        if (!isVisible && !isBeingDragged && !shouldShow) {
+                          return null;
+                        }
+                      
+                        // Si estamos arrastrando este control point específico, SIEMPRE mostrarlo
+                        return (shouldShow || isBeingDragged) ? (
+                          <SingleControlPoint
+                            key={`x2y2-${command.id}`}
+                            controlPoint={controlPoints[1]}
+                            anchorPoint={position}
+                            radius={radius}
+                            colors={colors}
+                            commandId={command.id}
+                            controlPointType="x2y2"
+                            zoom={viewport.zoom}
+                            isBeingDragged={isBeingDragged}
+                            isMobile={isMobile}
+                            isTablet={isTablet}
+                          />
+                        ) : null;
+                      })()}
+                    </>
+                  ) : null}
+
+                  {/* Quadratic curves share a single control point (x1y1) between both anchors */}
+                  {command.command === 'Q' && controlPoints.length >= 1 && prevPosition ? (() => {
+                    const isBeingDragged = isDragging && command.id === dragCommandId;
+                    const shouldShow = !isDragging || isBeingDragged;
+                  
+                    const isVisible = isCommandSelected || isSubPathSelected || 
+                      isControlPointVisible(controlPoints[0].x, controlPoints[0].y) || 
+                      isControlPointVisible(prevPosition.x, prevPosition.y);
+                  
+                    if (!isVisible && !isBeingDragged) {
+                      return null;
+                    }
+                  
+                    return shouldShow ? (
+                      <>
+                        <ControlPointLine
+                          x1={position.x}
+                          y1={position.y}
+                          x2={controlPoints[0].x}
+                          y2={controlPoints[0].y}
+                          color={colors.lineColor}
+                          zoom={viewport.zoom}
+                        />
                         <SingleControlPoint
                           key={`x1y1-${command.id}`}
                           controlPoint={controlPoints[0]}
@@ -619,49 +701,45 @@ const HandleRendererCore: React.FC = React.memo(() => {
                           isMobile={isMobile}
                           isTablet={isTablet}
                         />
-                      ) : null;
-                    })()}
-                    
-                    {/* Second control point (x2y2) - handle entrante */}
-                    {controlPoints.length >= 2 && (() => {
-                      const isBeingDragged = isDragging && command.id === dragCommandId && dragHandleType === 'incoming';
-                      const shouldShow = !isDragging || 
-                        (isDragging && command.id === dragCommandId) ||
-                        (isDragging && isPairedCommand && pairedHandle?.controlPoint === 'x2y2');
-                      
-                      // Viewport culling: skip rendering if control point is not visible and not being interacted with
-                      const isVisible = isCommandSelected || isSubPathSelected || 
-                        isControlPointVisible(controlPoints[1].x, controlPoints[1].y) || 
-                        isControlPointVisible(position.x, position.y);
-                      
-                      if (!isVisible && !isBeingDragged && !shouldShow) {
-                        return null;
-                      }
-                      
-                      // Si estamos arrastrando este control point específico, SIEMPRE mostrarlo
-                      return (shouldShow || isBeingDragged) ? (
-                        <SingleControlPoint
-                          key={`x2y2-${command.id}`}
-                          controlPoint={controlPoints[1]}
-                          anchorPoint={position}
-                          radius={radius}
-                          colors={colors}
-                          commandId={command.id}
-                          controlPointType="x2y2"
-                          zoom={viewport.zoom}
-                          isBeingDragged={isBeingDragged}
-                          isMobile={isMobile}
-                          isTablet={isTablet}
-                        />
-                      ) : null;
-                    })()}
-                  </>
-                ) : null}
-              </g>
-            );
-          });
-        })
-      )}
+                      </>
+                    ) : null;
+                  })() : null}
+
+                  {/* Smooth cubic curves only store their incoming control point (x2y2) */}
+                  {command.command === 'S' && controlPoints.length >= 1 ? (() => {
+                    const isBeingDragged = isDragging && command.id === dragCommandId;
+                    const shouldShow = !isDragging || isBeingDragged;
+                  
+                    const isVisible = isCommandSelected || isSubPathSelected || 
+                      isControlPointVisible(controlPoints[0].x, controlPoints[0].y) || 
+                      isControlPointVisible(position.x, position.y);
+                  
+                    if (!isVisible && !isBeingDragged) {
+                      return null;
+                    }
+                  
+                    return shouldShow ? (
+                      <SingleControlPoint
+                        key={`x2y2-${command.id}`}
+                        controlPoint={controlPoints[0]}
+                        anchorPoint={position}
+                        radius={radius}
+                        colors={colors}
+                        commandId={command.id}
+                        controlPointType="x2y2"
+                        zoom={viewport.zoom}
+                        isBeingDragged={isBeingDragged}
+                        isMobile={isMobile}
+                        isTablet={isTablet}
+                      />
+                    ) : null;
+                  })() : null}
+                </g>
+              );
+            });
+          })}
+        </g>
+      ))}
     </g>
   );
 });
@@ -0,0 +1,155 @@
+import React from 'react';
+import { useEditorStore } from '../../store/editorStore';
+import { toolModeManager } from '../../core/ToolModeManager';
+import { getSVGPoint } from '../../utils/transform-utils';
+import { findKnifeCutPoints } from '../../utils/knife-cut-utils';
+import type { Point } from '../../types';
+import type { PointerEventContext } from '../../core/PluginSystem';
+
+const ANGLE_STEP = Math.PI / 12; // Shift constrains the knife to 15° steps
+const MIN_KNIFE_LENGTH = 2;
+
+export class KnifeManager {
+  private editorStore: any = null;
+  private isActive = false;
+  private isDragging = false;
+  private startPoint: Point | null = null;
+  private endPoint: Point | null = null;
+  private cutPoints: Point[] = [];
+
+  setEditorStore(store: any) {
+    this.editorStore = store;
+  }
+
+  isActiveTool(): boolean {
+    return this.isActive;
+  }
+
+  // External activation/deactivation (llamado por ToolModeManager)
+  activateExternally(): void {
+    this.isActive = true;
+    useEditorStore.getState().setMode('knife');
+  }
+
+  deactivateExternally(): void {
+    this.isActive = false;
+    this.resetDrag();
+  }
+
+  destroy(): void {
+    if (this.isActive) {
+      toolModeManager.setMode('select');
+    }
+    this.deactivateExternally();
+  }
+
+  private resetDrag(): void {
+    this.isDragging = false;
+    this.startPoint = null;
+    this.endPoint = null;
+    this.cutPoints = [];
+  }
+
+  // Selected paths when there is a selection, otherwise every path
+  private getTargetPathIds(): string[] | undefined {
+    const { selection } = useEditorStore.getState();
+    return selection.selectedPaths.length > 0 ? [...selection.selectedPaths] : undefined;
+  }
+
+  private updateCutPoints(): void {
+    if (!this.startPoint || !this.endPoint) {
+      this.cutPoints = [];
+      return;
+    }
+
+    const store = useEditorStore.getState();
+    const targetIds = this.getTargetPathIds();
+    const from = this.startPoint;
+    const to = this.endPoint;
+    this.cutPoints = store.paths
+      .filter(path => !path.locked && (!targetIds || targetIds.includes(path.id)))
+      .flatMap(path => path.subPaths.filter(subPath => !subPath.locked))
+      .flatMap(subPath => findKnifeCutPoints(subPath, from, to));
+  }
+
+  // Handlers de pointer events
+  handlePointerDown = (event: React.PointerEvent<SVGElement>, context: PointerEventContext): boolean => {
+    if (!this.isActive) return false;
+
+    const point = this.getPointFromEvent(event);
+    if (!point) return false;
+
+    this.isDragging = true;
+    this.startPoint = point;
+    this.endPoint = point;
+    this.cutPoints = [];
+    return true;
+  };
+
+  handlePointerMove = (event: React.PointerEvent<SVGElement>, context: PointerEventContext): boolean => {
+    if (!this.isActive || !this.isDragging || !this.startPoint) return false;
+
+    const point = this.getPointFromEvent(event);
+    if (!point) return false;
+
+    this.endPoint = event.shiftKey ? this.constrainAngle(this.startPoint, point) : point;
+    this.updateCutPoints();
+    return true;
+  };
+
+  handlePointerUp = (event: React.PointerEvent<SVGElement>, context: PointerEventContext): boolean => {
+    if (!this.isActive || !this.isDragging) return false;
+
+    const from = this.startPoint;
+    const to = this.endPoint;
+    const hasCuts = this.cutPoints.length > 0;
+    this.resetDrag();
+
+    if (from && to && hasCuts && Math.hypot(to.x - from.x, to.y - from.y) >= MIN_KNIFE_LENGTH) {
+      const store = useEditorStore.getState();
+      store.pushToHistory();
+      store.cutPathsWithLine(from, to, this.getTargetPathIds());
+    }
+    return true;
+  };
+
+  private constrainAngle(origin: Point, point: Point): Point {
+    const dx = point.x - origin.x;
+    const dy = point.y - origin.y;
+    const length = Math.hypot(dx, dy);
+    const angle = Math.round(Math.atan2(dy, dx) / ANGLE_STEP) * ANGLE_STEP;
+    return {
+      x: origin.x + Math.cos(angle) * length,
+      y: origin.y + Math.sin(angle) * length
+    };
+  }
+
+  private getPointFromEvent(event: React.PointerEvent<SVGElement>): Point | null {
+    try {
+      const store = useEditorStore.getState();
+      const svgElement = event.currentTarget.closest('svg') as SVGSVGElement;
+
+      if (!svgElement) {
+        return null;
+      }
+
+      // Create a mock svgRef for the getSVGPoint function
+      const svgRef = { current: svgElement };
+      return getSVGPoint(event as any, svgRef, store.viewport);
+    } catch (error) {
+      console.error('Error getting point from event:', error);
+      return null;
+    }
+  }
+
+  getKnifeLine(): { from: Point; to: Point } | null {
+    if (!this.isDragging || !this.startPoint || !this.endPoint) return null;
+    return { from: this.startPoint, to: this.endPoint };
+  }
+
+  getCutPoints(): Point[] {
+    return this.cutPoints;
+  }
+}
+
+export const knifeManager = new KnifeManager();
@@ -0,0 +1,84 @@
+import React, { useEffect, useState } from 'react';
+import { useEditorStore } from '../../store/editorStore';
+import { knifeManager } from './KnifeManager';
+import type { Point } from '../../types';
+
+export const KnifeRenderer: React.FC = () => {
+  const { mode, viewport } = useEditorStore();
+  const [knifeLine, setKnifeLine] = useState<{ from: Point; to: Point } | null>(null);
+  const [cutPoints, setCutPoints] = useState<Point[]>([]);
+
+  useEffect(() => {
+    // Actualizar preview cuando sea necesario
+    const updatePreview = () => {
+      setKnifeLine(knifeManager.getKnifeLine());
+      setCutPoints(knifeManager.getCutPoints());
+    };
+
+    // Intervalo para actualizar el preview (similar a SmoothRenderer)
+    let intervalId: NodeJS.Timeout | null = null;
+
+    if (mode.current === 'knife') {
+      intervalId = setInterval(updatePreview, 50); // 20 FPS
+    }
+
+    return () => {
+      if (intervalId) clearInterval(intervalId);
+    };
+  }, [mode.current]);
+
+  // Solo renderizar si estamos en modo knife
+  if (mode.current !== 'knife' || !knifeManager.isActiveTool()) {
+    return null;
+  }
+
+  const markerRadius = 4 / viewport.zoom;
+
+  return (
+    <g data-layer="knife-preview" data-plugin="knife">
+      {/* Overlay invisible para capturar eventos sobre todo el SVG */}
+      <rect
+        x={-10000}
+        y={-10000}
+        width={20000}
+        height={20000}
+        fill="rgba(0, 0, 0, 0.001)"
+        className="creation-mode-overlay knife-mode"
+        style={{
+          cursor: 'crosshair',
+          pointerEvents: 'all'
+        }}
+      />
+
+      {/* Linea de corte */}
+      {knifeLine && (
+        <line
+          x1={knifeLine.from.x}
+          y1={knifeLine.from.y}
+          x2={knifeLine.to.x}
+          y2={knifeLine.to.y}
+          stroke="#dc3545"
+          strokeWidth={1.5}
+          strokeDasharray="6 4"
+          pointerEvents="none"
+          vectorEffect="non-scaling-stroke"
+        />
+      )}
+
+      {/* Points where the subpaths will be cut */}
+      {cutPoints.map((point, index) => (
+        <circle
+          key={index}
+          cx={point.x}
+          cy={point.y}
+          r={markerRadius}
+          fill="#ffffff"
+          stroke="#dc3545"
+          strokeWidth={1.5}
+          pointerEvents="none"
+          vectorEffect="non-scaling-stroke"
+        />
+      ))}
+    </g>
+  );
+};
@@ -0,0 +1,71 @@
+import React from 'react';
+import { useEditorStore } from '../../store/editorStore';
+import { PluginButton } from '../../components/PluginButton';
+import { Scissors, LogOut } from 'lucide-react';
+import { toolModeManager } from '../../core/ToolModeManager';
+
+export const KnifeUI: React.FC = () => {
+  const { mode, selection } = useEditorStore();
+
+  const isKnifeActive = mode.current === 'knife';
+  const selectedPathCount = selection.selectedPaths.length;
+
+  const handleActivateKnife = () => {
+    toolModeManager.setMode('knife');
+  };
+
+  const handleExitKnife = () => {
+    toolModeManager.setMode('select');
+  };
+
+  return (
+    <div className="control-panel">
+      <h3>Knife Tool</h3>
+
+      {/* Tool buttons */}
+      <div style={{ marginBottom: '12px' }}>
+        {!isKnifeActive && (
+          <PluginButton
+            icon={<Scissors size={14} color="#333" />}
+            text="Activate Knife"
+            color="#007acc"
+            active={false}
+            disabled={false}
+            onPointerDown={handleActivateKnife}
+          />
+        )}
+        {isKnifeActive && (
+          <PluginButton
+            icon={<LogOut size={16} />}
+            text="Exit Knife Mode"
+            color="#dc3545"
+            active={false}
+            disabled={false}
+            onPointerDown={handleExitKnife}
+          />
+        )}
+      </div>
+
+      {isKnifeActive && (
+        <div style={{
+          fontSize: '11px',
+          color: '#666',
+          lineHeight: '1.3',
+          padding: '8px',
+          background: '#f9f9f9',
+          borderRadius: '4px',
+          marginTop: '12px'
+        }}>
+          <strong>How to use:</strong><br />
+          • Drag a line across the shapes to cut<br />
+          • Hold Shift to snap the line to 15° steps<br />
+          • Closed subpaths split into closed pieces<br />
+          • Open subpaths split into separate pieces<br />
+          • {selectedPathCount > 0
+            ? `Only the ${selectedPathCount} selected path${selectedPathCount === 1 ? '' : 's'} will be cut`
+            : 'Every unlocked path under the line will be cut'}
+        </div>
+      )}
+    </div>
+  );
+};
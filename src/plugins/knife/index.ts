@@ -0,0 +1,70 @@
+import { Plugin } from '../../core/PluginSystem';
+import { knifeManager } from './KnifeManager';
+import { KnifeUI } from './KnifeUI';
+import { KnifeRenderer } from './KnifeRenderer';
+import { toolModeManager } from '../../core/ToolModeManager';
+
+export const KnifePlugin: Plugin = {
+  id: 'knife',
+  name: 'Knife Tool',
+  version: '1.0.0',
+  enabled: true,
+  dependencies: ['pointer-interaction'],
+
+  initialize: (editor) => {
+    knifeManager.setEditorStore(editor);
+    // Register with tool mode manager
+    toolModeManager.setKnifeManager(knifeManager);
+  },
+
+  destroy: () => {
+    knifeManager.destroy();
+  },
+
+  pointerHandlers: {
+    onPointerDown: knifeManager.handlePointerDown,
+    onPointerMove: knifeManager.handlePointerMove,
+    onPointerUp: knifeManager.handlePointerUp,
+  },
+
+  shortcuts: [
+    {
+      key: 'Escape',
+      description: 'Exit Knife Mode',
+      action: () => {
+        if (knifeManager.isActiveTool()) {
+          toolModeManager.setMode('select');
+        }
+      }
+    }
+  ],
+
+  tools: [
+    {
+      id: 'knife',
+      name: 'Knife',
+      category: 'edit',
+      onActivate: () => {
+        toolModeManager.setMode('knife');
+      },
+      onDeactivate: () => {
+        knifeManager.destroy();
+      }
+    }
+  ],
+
+  ui: [
+    {
+      id: 'knife-controls',
+      component: KnifeUI,
+      position: 'sidebar',
+      order: 7
+    },
+    {
+      id: 'knife-renderer',
+      component: KnifeRenderer,
+      position: 'svg-content',
+      order: 11
+    }
+  ]
+};
@@ -1,5 +1,6 @@
 import React from 'react';
 import { useEditorStore } from '../../store/editorStore';
+import { subPathToString } from '../../utils/path-utils';
 import { getStyleValue } from '../../utils/gradient-utils';
 
 export const MarkerRenderer: React.FC = () => {
@@ -16,20 +17,7 @@ export const MarkerRenderer: React.FC = () => {
         
         // Convert path to SVG path string for marker content
         const pathData = path.subPaths.map(subPath => 
-          subPath.commands.map(cmd => {
-            switch (cmd.command) {
-              case 'M':
-                return `M ${cmd.x} ${cmd.y}`;
-              case 'L':
-                return `L ${cmd.x} ${cmd.y}`;
-              case 'C':
-                return `C ${cmd.x1} ${cmd.y1} ${cmd.x2} ${cmd.y2} ${cmd.x} ${cmd.y}`;
-              case 'Z':
-                return 'Z';
-              default:
-                return '';
-            }
-          }).join(' ')
+          subPathToString(subPath)
         ).join(' ');
 
         // Use marker style if provided, otherwise use path's own style, using getStyleValue for gradients/patterns
@@ -0,0 +1,287 @@
+import React from 'react';
+import { useEditorStore } from '../../store/editorStore';
+import { toolModeManager } from '../../core/ToolModeManager';
+import { getSVGPoint } from '../../utils/transform-utils';
+import { findSubPathAtPoint, subPathToString } from '../../utils/path-utils';
+import { offsetSubPaths, getSignedOffsetDistance } from '../../utils/offset-path-utils';
+import { getCanvasSubPaths, toPathLocalPoint, toPathLocalSubPaths } from '../../utils/path-transform-utils';
+import type { StrokeLinejoin } from '../../utils/stroke-outline-utils';
+import type { Point, SVGSubPath } from '../../types';
+import type { PointerEventContext } from '../../core/PluginSystem';
+
+export interface OffsetSettings {
+  distance: number; // Positive grows outward, negative shrinks inward
+  linejoin: StrokeLinejoin;
+  miterLimit: number;
+  output: 'subpath' | 'path'; // Add to the source path or create a new one
+}
+
+interface OffsetTarget {
+  pathId: string;
+  subPathIds: string[];
+}
+
+export class OffsetManager {
+  private editorStore: any = null;
+  private isActive = false;
+  private settings: OffsetSettings = {
+    distance: 10,
+    linejoin: 'miter',
+    miterLimit: 4,
+    output: 'subpath'
+  };
+  private targets: OffsetTarget[] = [];
+  private isDragging = false;
+  private currentPreviewPath: string = '';
+  private listeners: Array<() => void> = [];
+
+  setEditorStore(store: any) {
+    this.editorStore = store;
+  }
+
+  getSettings(): OffsetSettings {
+    return { ...this.settings };
+  }
+
+  updateSettings(newSettings: Partial<OffsetSettings>): void {
+    this.settings = { ...this.settings, ...newSettings };
+    this.updatePreview();
+  }
+
+  isActiveTool(): boolean {
+    return this.isActive;
+  }
+
+  getTargetCount(): number {
+    return this.targets.reduce((count, target) => count + target.subPathIds.length, 0);
+  }
+
+  addListener(listener: () => void): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+
+  private notifyListeners(): void {
+    this.listeners.forEach(listener => listener());
+  }
+
+  // External activation/deactivation (llamado por ToolModeManager)
+  activateExternally(): void {
+    this.isActive = true;
+    this.captureTargetsFromSelection();
+    useEditorStore.getState().setMode('offset');
+    this.updatePreview();
+  }
+
+  deactivateExternally(): void {
+    this.isActive = false;
+    this.isDragging = false;
+    this.targets = [];
+    this.currentPreviewPath = '';
+    this.notifyListeners();
+  }
+
+  destroy(): void {
+    if (this.isActive) {
+      toolModeManager.setMode('select');
+    }
+    this.deactivateExternally();
+  }
+
+  // Selected subpaths, or every subpath of the selected paths
+  private captureTargetsFromSelection(): void {
+    const store = useEditorStore.getState();
+    const { selectedSubPaths, selectedPaths } = store.selection;
+    const targets: OffsetTarget[] = [];
+
+    for (const path of store.paths) {
+      const subPathIds = selectedPaths.includes(path.id)
+        ? path.subPaths.map(sp => sp.id)
+        : path.subPaths.filter(sp => selectedSubPaths.includes(sp.id)).map(sp => sp.id);
+      if (subPathIds.length > 0) {
+        targets.push({ pathId: path.id, subPathIds });
+      }
+    }
+
+    this.targets = targets;
+  }
+
+  // Offsets are measured on the canvas, so targets come in canvas coordinates
+  private getTargetGeometry(): Array<{ pathId: string; subPaths: SVGSubPath[]; fillRule?: 'nonzero' | 'evenodd' }> {
+    const store = useEditorStore.getState();
+    return this.targets
+      .map(target => {
+        const path = store.paths.find(p => p.id === target.pathId);
+        if (!path) return null;
+        return {
+          pathId: path.id,
+          subPaths: getCanvasSubPaths({
+            ...path,
+            subPaths: path.subPaths.filter(sp => target.subPathIds.includes(sp.id))
+          }),
+          fillRule: path.style.fillRule
+        };
+      })
+      .filter((target): target is { pathId: string; subPaths: SVGSubPath[]; fillRule: 'nonzero' | 'evenodd' | undefined } =>
+        !!target && target.subPaths.length > 0
+      );
+  }
+
+  private computeOffset(): Array<{ pathId: string; subPaths: SVGSubPath[] }> {
+    return this.getTargetGeometry().map(target => ({
+      pathId: target.pathId,
+      subPaths: offsetSubPaths(target.subPaths, this.settings.distance, {
+        linejoin: this.settings.linejoin,
+        miterLimit: this.settings.miterLimit,
+        fillRule: target.fillRule
+      })
+    }));
+  }
+
+  private updatePreview(): void {
+    if (!this.isActive || this.targets.length === 0) {
+      this.currentPreviewPath = '';
+    } else {
+      this.currentPreviewPath = this.computeOffset()
+        .flatMap(result => result.subPaths)
+        .map(subPath => subPathToString(subPath))
+        .join(' ');
+    }
+    this.notifyListeners();
+  }
+
+  /**
+   * Commit the current offset as new subpaths (or new paths) in a single history step
+   */
+  applyOffset(): void {
+    const results = this.computeOffset().filter(result => result.subPaths.length > 0);
+    if (results.length === 0) return;
+
+    const store = useEditorStore.getState();
+    store.pushToHistory();
+    const newSubPathIds: string[] = [];
+
+    for (const result of results) {
+      const sourcePath = useEditorStore.getState().paths.find(p => p.id === result.pathId);
+      if (!sourcePath) continue;
+
+      let targetPathId = result.pathId;
+      let reusableSubPathId: string | null = null;
+      if (this.settings.output === 'path') {
+        targetPathId = store.addPath({ ...sourcePath.style });
+        store.setPathTransform(targetPathId, sourcePath.transform);
+        const createdPath = useEditorStore.getState().paths.find(p => p.id === targetPathId);
+        reusableSubPathId = createdPath?.subPaths[0]?.id ?? null;
+      }
+
+      // Back into the local space shared by the source and target paths
+      for (const subPath of toPathLocalSubPaths(sourcePath, result.subPaths)) {
+        const subPathId = reusableSubPathId ?? store.addSubPath(targetPathId);
+        reusableSubPathId = null;
+        store.replaceSubPathCommands(subPathId, subPath.commands.map(({ id, ...command }) => command));
+        newSubPathIds.push(subPathId);
+      }
+    }
+
+    store.selectSubPathMultiple(newSubPathIds[0], false);
+    newSubPathIds.slice(1).forEach(id => store.selectSubPathMultiple(id, true));
+    this.updatePreview();
+  }
+
+  // Handlers de pointer events
+  handlePointerDown = (event: React.PointerEvent<SVGElement>, context: PointerEventContext): boolean => {
+    if (!this.isActive) return false;
+
+    const point = this.getPointFromEvent(event);
+    if (!point) return false;
+
+    // Without targets, a click picks the subpath to offset
+    if (this.targets.length === 0) {
+      const store = useEditorStore.getState();
+      for (const path of store.paths) {
+        const subPath = findSubPathAtPoint(path, toPathLocalPoint(path, point), 10 / store.viewport.zoom);
+        if (subPath) {
+          this.targets = [{ pathId: path.id, subPathIds: [subPath.id] }];
+          store.selectSubPathMultiple(subPath.id, false);
+          this.updatePreview();
+          return true;
+        }
+      }
+      return false;
+    }
+
+    this.isDragging = true;
+    this.updateDistanceFromPoint(point);
+    return true;
+  };
+
+  handlePointerMove = (event: React.PointerEvent<SVGElement>, context: PointerEventContext): boolean => {
+    if (!this.isActive || !this.isDragging) return false;
+
+    const point = this.getPointFromEvent(event);
+    if (!point) return false;
+
+    this.updateDistanceFromPoint(point);
+    return true;
+  };
+
+  handlePointerUp = (event: React.PointerEvent<SVGElement>, context: PointerEventContext): boolean => {
+    if (!this.isActive || !this.isDragging) return false;
+
+    this.isDragging = false;
+    this.applyOffset();
+    return true;
+  };
+
+  // The offset passes through the pointer: its signed distance to the targets
+  private updateDistanceFromPoint(point: Point): void {
+    const targets = this.getTargetGeometry();
+    if (targets.length === 0) return;
+
+    let distance = 0;
+    let best = Infinity;
+    for (const target of targets) {
+      const signed = getSignedOffsetDistance(target.subPaths, point, target.fillRule);
+      if (Math.abs(signed) < best) {
+        best = Math.abs(signed);
+        distance = signed;
+      }
+    }
+
+    this.settings.distance = Math.round(distance * 10) / 10;
+    this.updatePreview();
+  }
+
+  private getPointFromEvent(event: React.PointerEvent<SVGElement>): Point | null {
+    try {
+      const store = useEditorStore.getState();
+      const svgElement = event.currentTarget.closest('svg') as SVGSVGElement;
+
+      if (!svgElement) {
+        return null;
+      }
+
+      // Create a mock svgRef for the getSVGPoint function
+      const svgRef = { current: svgElement };
+      return getSVGPoint(event as any, svgRef, store.viewport);
+    } catch (error) {
+      console.error('Error getting point from event:', error);
+      return null;
+    }
+  }
+
+  getPreviewPath(): string {
+    return this.currentPreviewPath;
+  }
+
+  getTargetPath(): string {
+    return this.getTargetGeometry()
+      .flatMap(target => target.subPaths)
+      .map(subPath => subPathToString(subPath))
+      .join(' ');
+  }
+}
+
+export const offsetManager = new OffsetManager();
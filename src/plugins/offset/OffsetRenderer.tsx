@@ -0,0 +1,78 @@
+import React, { useEffect, useState } from 'react';
+import { useEditorStore } from '../../store/editorStore';
+import { offsetManager } from './OffsetManager';
+
+export const OffsetRenderer: React.FC = () => {
+  const { mode } = useEditorStore();
+  const [previewPath, setPreviewPath] = useState('');
+  const [targetPath, setTargetPath] = useState('');
+
+  useEffect(() => {
+    // Actualizar preview path cuando sea necesario
+    const updatePreview = () => {
+      setPreviewPath(offsetManager.getPreviewPath());
+      setTargetPath(offsetManager.getTargetPath());
+    };
+
+    // Intervalo para actualizar el preview (similar a SmoothRenderer)
+    let intervalId: NodeJS.Timeout | null = null;
+
+    if (mode.current === 'offset') {
+      intervalId = setInterval(updatePreview, 50); // 20 FPS
+    }
+
+    return () => {
+      if (intervalId) clearInterval(intervalId);
+    };
+  }, [mode.current]);
+
+  // Solo renderizar si estamos en modo offset
+  if (mode.current !== 'offset' || !offsetManager.isActiveTool()) {
+    return null;
+  }
+
+  return (
+    <g data-layer="offset-preview" data-plugin="offset">
+      {/* Overlay invisible para capturar eventos sobre todo el SVG */}
+      <rect
+        x={-10000}
+        y={-10000}
+        width={20000}
+        height={20000}
+        fill="rgba(0, 0, 0, 0.001)"
+        className="creation-mode-overlay offset-mode"
+        style={{
+          cursor: 'crosshair',
+          pointerEvents: 'all'
+        }}
+      />
+
+      {/* Subpaths being offset */}
+      {targetPath && (
+        <path
+          d={targetPath}
+          fill="none"
+          stroke="#007acc"
+          strokeWidth={2}
+          opacity={0.6}
+          pointerEvents="none"
+          vectorEffect="non-scaling-stroke"
+        />
+      )}
+
+      {/* Preview del resultado */}
+      {previewPath && (
+        <path
+          d={previewPath}
+          fill="none"
+          stroke="#f59e0b"
+          strokeWidth={2}
+          strokeDasharray="4 3"
+          opacity={0.9}
+          pointerEvents="none"
+          vectorEffect="non-scaling-stroke"
+        />
+      )}
+    </g>
+  );
+};
@@ -0,0 +1,167 @@
+import React, { useState, useEffect } from 'react';
+import { useEditorStore } from '../../store/editorStore';
+import { offsetManager, OffsetSettings } from './OffsetManager';
+import { PluginButton } from '../../components/PluginButton';
+import { SquareDashed, LogOut, Check } from 'lucide-react';
+import { toolModeManager } from '../../core/ToolModeManager';
+
+export const OffsetUI: React.FC = () => {
+  const { mode } = useEditorStore();
+  const [settings, setSettings] = useState(offsetManager.getSettings());
+  const [targetCount, setTargetCount] = useState(offsetManager.getTargetCount());
+
+  const isOffsetActive = mode.current === 'offset';
+
+  useEffect(() => {
+    // Keep the panel in sync with distances set by dragging on the canvas
+    return offsetManager.addListener(() => {
+      setSettings(offsetManager.getSettings());
+      setTargetCount(offsetManager.getTargetCount());
+    });
+  }, []);
+
+  const handleSettingChange = (newValues: Partial<OffsetSettings>) => {
+    const newSettings = { ...settings, ...newValues };
+    setSettings(newSettings);
+    offsetManager.updateSettings(newSettings);
+  };
+
+  const handleActivateOffset = () => {
+    toolModeManager.setMode('offset');
+  };
+
+  const handleExitOffset = () => {
+    toolModeManager.setMode('select');
+  };
+
+  const handleApply = () => {
+    offsetManager.applyOffset();
+  };
+
+  return (
+    <div className="control-panel">
+      <h3>Offset Path</h3>
+
+      {/* Tool buttons */}
+      <div style={{ marginBottom: '12px' }}>
+        {!isOffsetActive && (
+          <PluginButton
+            icon={<SquareDashed size={14} color="#333" />}
+            text="Activate Offset"
+            color="#007acc"
+            active={false}
+            disabled={false}
+            onPointerDown={handleActivateOffset}
+          />
+        )}
+        {isOffsetActive && (
+          <PluginButton
+            icon={<LogOut size={16} />}
+            text="Exit Offset Mode"
+            color="#dc3545"
+            active={false}
+            disabled={false}
+            onPointerDown={handleExitOffset}
+          />
+        )}
+      </div>
+
+      {/* Controls - Only show when offset is active */}
+      {isOffsetActive && (
+        <>
+          <div className="control-group">
+            <label htmlFor="offset-distance">
+              Distance (px)
+            </label>
+            <input
+              id="offset-distance"
+              type="number"
+              step="0.5"
+              value={settings.distance}
+              onChange={(e) => {
+                const value = parseFloat(e.target.value);
+                if (!isNaN(value)) handleSettingChange({ distance: value });
+              }}
+              style={{ width: '100%' }}
+            />
+            <div style={{ fontSize: '11px', color: '#666', marginTop: '4px' }}>
+              Positive grows outward, negative shrinks inward
+            </div>
+          </div>
+
+          <div className="control-group">
+            <label htmlFor="offset-join">Corner join</label>
+            <select
+              id="offset-join"
+              value={settings.linejoin}
+              onChange={(e) => handleSettingChange({ linejoin: e.target.value as OffsetSettings['linejoin'] })}
+              style={{ width: '100%' }}
+            >
+              <option value="miter">Miter</option>
+              <option value="round">Round</option>
+              <option value="bevel">Bevel</option>
+            </select>
+          </div>
+
+          {settings.linejoin === 'miter' && (
+            <div className="control-group">
+              <label htmlFor="offset-miter-limit">
+                Miter limit: {settings.miterLimit.toFixed(1)}
+              </label>
+              <input
+                id="offset-miter-limit"
+                type="range"
+                min="1"
+                max="10"
+                step="0.5"
+                value={settings.miterLimit}
+                onChange={(e) => handleSettingChange({ miterLimit: parseFloat(e.target.value) })}
+                style={{ width: '100%' }}
+              />
+            </div>
+          )}
+
+          <div className="control-group">
+            <label htmlFor="offset-output">Result</label>
+            <select
+              id="offset-output"
+              value={settings.output}
+              onChange={(e) => handleSettingChange({ output: e.target.value as OffsetSettings['output'] })}
+              style={{ width: '100%' }}
+            >
+              <option value="subpath">Add subpaths to the same path</option>
+              <option value="path">Create a new path</option>
+            </select>
+          </div>
+
+          <div style={{ marginBottom: '12px' }}>
+            <PluginButton
+              icon={<Check size={14} />}
+              text={`Apply to ${targetCount} subpath${targetCount === 1 ? '' : 's'}`}
+              color="#28a745"
+              active={false}
+              disabled={targetCount === 0 || settings.distance === 0}
+              onPointerDown={handleApply}
+            />
+          </div>
+
+          <div style={{
+            fontSize: '11px',
+            color: '#666',
+            lineHeight: '1.3',
+            padding: '8px',
+            background: '#f9f9f9',
+            borderRadius: '4px',
+            marginTop: '12px'
+          }}>
+            <strong>How to use:</strong><br />
+            • Select subpaths, then activate the Offset tool<br />
+            • Or click a subpath once the tool is active<br />
+            • Drag from the shape: the offset follows the pointer<br />
+            • Or type a distance and press Apply
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,70 @@
+import { Plugin } from '../../core/PluginSystem';
+import { offsetManager } from './OffsetManager';
+import { OffsetUI } from './OffsetUI';
+import { OffsetRenderer } from './OffsetRenderer';
+import { toolModeManager } from '../../core/ToolModeManager';
+
+export const OffsetPlugin: Plugin = {
+  id: 'offset',
+  name: 'Offset Path Tool',
+  version: '1.0.0',
+  enabled: true,
+  dependencies: ['pointer-interaction'],
+
+  initialize: (editor) => {
+    offsetManager.setEditorStore(editor);
+    // Register with tool mode manager
+    toolModeManager.setOffsetManager(offsetManager);
+  },
+
+  destroy: () => {
+    offsetManager.destroy();
+  },
+
+  pointerHandlers: {
+    onPointerDown: offsetManager.handlePointerDown,
+    onPointerMove: offsetManager.handlePointerMove,
+    onPointerUp: offsetManager.handlePointerUp,
+  },
+
+  shortcuts: [
+    {
+      key: 'Escape',
+      description: 'Exit Offset Mode',
+      action: () => {
+        if (offsetManager.isActiveTool()) {
+          toolModeManager.setMode('select');
+        }
+      }
+    }
+  ],
+
+  tools: [
+    {
+      id: 'offset',
+      name: 'Offset Path',
+      category: 'edit',
+      onActivate: () => {
+        toolModeManager.setMode('offset');
+      },
+      onDeactivate: () => {
+        offsetManager.destroy();
+      }
+    }
+  ],
+
+  ui: [
+    {
+      id: 'offset-controls',
+      component: OffsetUI,
+      position: 'sidebar',
+      order: 6
+    },
+    {
+      id: 'offset-renderer',
+      component: OffsetRenderer,
+      position: 'svg-content',
+      order: 11
+    }
+  ]
+};
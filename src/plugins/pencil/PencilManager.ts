@@ -4,6 +4,8 @@ import { generateId } from '../../utils/id-utils';
 import { rdp } from '../../utils/rdp-utils';
 import { pointsToPath } from '../../utils/catmull-rom-utils';
 import { getSVGPoint } from '../../utils/transform-utils';
+import { parsePathString } from '../../utils/path-utils';
+import { samplePointsAlongSubPaths } from '../../utils/path-geometry-utils';
 import type { Point, SVGCommand } from '../../types';
 
 export interface PencilSettings {
@@ -121,19 +123,9 @@ export class PencilManager {
   }
 
   // Sample a path at N points for animation morphing
-  private samplePathD(pathD: string, n: number, svgElement: SVGSVGElement): Point[] {
-    const tmp = document.createElementNS('http://www.w3.org/2000/svg', 'path');
-    tmp.setAttribute('d', pathD);
-    tmp.setAttribute('fill', 'none');
-    tmp.setAttribute('stroke', 'none');
-    
-    svgElement.appendChild(tmp);
-    
-    const len = (tmp as SVGPathElement).getTotalLength();
-    if (!isFinite(len) || len === 0) {
-      if (tmp.parentNode === svgElement) {
-        svgElement.removeChild(tmp);
-      }
+  private samplePathD(pathD: string, n: number): Point[] {
+    const sampled = samplePointsAlongSubPaths(parsePathString(pathD).subPaths, n);
+    if (sampled.length === 0) {
       const pts: Point[] = [];
       const fallbackPoint = this.currentPoints[0] || { x: 0, y: 0 };
       for (let i = 0; i < n; i++) {
@@ -141,18 +133,8 @@ export class PencilManager {
       }
       return pts;
     }
-    
-    const out: Point[] = [];
-    for (let i = 0; i < n; i++) {
-      const t = (i / (n - 1)) * len;
-      const pt = (tmp as SVGPathElement).getPointAtLength(t);
-      out.push({ x: Math.round(pt.x), y: Math.round(pt.y) });
-    }
-    
-    if (tmp.parentNode === svgElement) {
-      svgElement.removeChild(tmp);
-    }
-    return out;
+
+    return sampled.map(pt => ({ x: Math.round(pt.x), y: Math.round(pt.y) }));
   }
 
   // Create morphing path data for animation
@@ -421,8 +403,8 @@ export class PencilManager {
     const baseToD = pointsToPath(simplifiedPoints);
     const n = Math.max(Math.max(originalPoints.length, simplifiedPoints.length), 8);
     
-    const fromPts = this.samplePathD(baseFromD, n, svgElement);
-    const toPts = this.samplePathD(baseToD, n, svgElement);
+    const fromPts = this.samplePathD(baseFromD, n);
+    const toPts = this.samplePathD(baseToD, n);
 
     // Force endpoints to match
     if (fromPts.length > 0 && originalPoints.length > 0) {
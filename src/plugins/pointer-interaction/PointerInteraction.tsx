@@ -13,7 +13,11 @@ import { ElementType, SelectionContext, isElementSelected, shouldPreserveSelecti
 import { applyFinalSnapToGrid } from '../../utils/final-snap-utils';
 import { isGestureBlocked } from '../gestures/Gestures';
 import { toolModeManager } from '../../core/ToolModeManager';
-import { isSubpathEditModeBlocked } from '../../utils/subpath-edit-blocking';
+import { isSubpathEditModeBlocked, isInSubpathEditMode } from '../../utils/subpath-edit-blocking';
+import { getNearestLocationOnSubPath } from '../../utils/path-geometry-utils';
+import { removeAnchorAt } from '../../utils/anchor-point-utils';
+import { toPathLocalDelta, toPathLocalPoint } from '../../utils/path-transform-utils';
+import type { SVGPath, SVGSubPath, SVGCommand } from '../../types';
 
 // ================== TYPES & INTERFACES ==================
 
@@ -356,6 +360,7 @@ class DragManager {
   private isDualPointDrag: boolean = false; // Track if we're dragging dual points
   private stickyDisabledForDrag: boolean = false; // Track if sticky is disabled for this drag
   private hasClearedSplitState: boolean = false; // Track if we've cleared split state for individual movement
+  private isRecordingDrag: boolean = false; // Track if this drag opened a history transaction
 
   constructor(editorStore: any, config: PointerInteractionConfig, debugManager: DebugManager) {
     this.editorStore = editorStore;
@@ -407,9 +412,27 @@ class DragManager {
     this.hasClearedSplitState = false;
 
     transformManager.setMoving(true);
+    this.isRecordingDrag = true;
+    this.editorStore.beginTransaction(this.getDragLabel(elements));
     this.editorStore.pushToHistory();
   }
 
+  // Undo label for a drag, e.g. "Move 3 subpaths"
+  private getDragLabel(elements: SelectedElements): string {
+    const moved = ([
+      [elements.subPaths.length, 'subpath'],
+      [elements.commands.length, 'point'],
+      [elements.texts.length, 'text'],
+      [elements.textPaths.length, 'text path'],
+      [elements.images.length, 'image'],
+      [elements.uses.length, 'symbol'],
+      [elements.groups.length, 'group']
+    ] as Array<[number, string]>).filter(([count]) => count > 0);
+    if (moved.length !== 1) return 'Move selection';
+    const [count, noun] = moved[0];
+    return `Move ${count} ${noun}${count === 1 ? '' : 's'}`;
+  }
+
   updateDrag(delta: Point): void {
   this.debugManager.logDragOperation('Updating drag with delta', delta);
   this.debugManager.logDragManager('instanceId in updateDrag', this.instanceId);
@@ -656,23 +679,27 @@ class DragManager {
   private moveSingleCommandDuringDrag(commandId: string, incrementalDelta: Point, disableSticky: boolean = false): void {
     // Find current command position
     let currentPosition: { x: number; y: number } | null = null;
+    let parentPath: SVGPath | undefined;
     this.editorStore.paths.forEach((path: any) => {
       path.subPaths.forEach((subPath: any) => {
         const command = subPath.commands.find((cmd: any) => cmd.id === commandId);
         if (command && command.x !== undefined && command.y !== undefined) {
           currentPosition = { x: command.x, y: command.y };
+          parentPath = path;
         }
       });
     });
 
     if (currentPosition) {
+      // Commands of a path with its own transform move in its local space
+      const localDelta = toPathLocalDelta(parentPath, incrementalDelta);
       let targetPosition = {
-        x: (currentPosition as { x: number; y: number }).x + incrementalDelta.x,
-        y: (currentPosition as { x: number; y: number }).y + incrementalDelta.y
+        x: (currentPosition as { x: number; y: number }).x + localDelta.x,
+        y: (currentPosition as { x: number; y: number }).y + localDelta.y
       };
 
       // Apply sticky points but NOT grid snapping during drag
-      if (!disableSticky) {
+      if (!disableSticky && !parentPath?.transform) {
         // Check for sticky points behavior
         const stickyResult = stickyPointsManager.checkStickyBehavior(commandId, targetPosition);
         if (stickyResult.shouldStick && stickyResult.stickyPosition) {
@@ -712,6 +739,11 @@ class DragManager {
     } catch (err) {
       // failed to update transform state after endDrag
     }
+
+    if (this.isRecordingDrag) {
+      this.isRecordingDrag = false;
+      this.editorStore.commitTransaction();
+    }
   }
 
   private captureElementSnapshots(elements: SelectedElements): void {
@@ -1384,6 +1416,34 @@ class PointerInteractionManager {
     });
   }
 
+  private insertAnchorPointAt(subPathId: string, point: Point): boolean {
+    const store = this.editorStore;
+    const path = store.paths.find((p: SVGPath) => p.subPaths.some(sp => sp.id === subPathId));
+    const subPath = path?.subPaths.find((sp: SVGSubPath) => sp.id === subPathId);
+    if (!path || !subPath || path.locked || subPath.locked) return false;
+
+    // Only when the click is on the stroke, not somewhere inside the fill
+    const localPoint = toPathLocalPoint(path, point);
+    const location = getNearestLocationOnSubPath(subPath, localPoint);
+    if (!location || location.distance > 8 / store.viewport.zoom) return false;
+
+    store.pushToHistory('Add anchor point');
+    const anchorId = store.insertAnchorPoint(subPathId, localPoint);
+    if (!anchorId) return false;
+    store.selectCommand(anchorId);
+    return true;
+  }
+
+  private canRemoveAnchorPoint(commandId: string): boolean {
+    const path = this.editorStore.paths.find((p: SVGPath) =>
+      p.subPaths.some(sp => sp.commands.some(cmd => cmd.id === commandId))
+    );
+    const subPath = path?.subPaths.find((sp: SVGSubPath) => sp.commands.some(cmd => cmd.id === commandId));
+    if (!path || !subPath || path.locked || subPath.locked) return false;
+    const index = subPath.commands.findIndex((cmd: SVGCommand) => cmd.id === commandId);
+    return removeAnchorAt(subPath.commands, index) !== null;
+  }
+
   private getKeyModifiers(e: PointerEvent<SVGElement>): KeyModifiers {
     return {
       shift: e.shiftKey,
@@ -1650,6 +1710,7 @@ class PointerInteractionManager {
       // Hide floating toolbar during control point drag
       this.editorStore.hideFloatingToolbarDuringDrag();
 
+      this.editorStore.beginTransaction('Move handle');
       this.editorStore.pushToHistory();
       return true;
     }
@@ -1731,6 +1792,14 @@ class PointerInteractionManager {
 
       const elementTypeTyped = elementType as ElementType;
 
+      // In subpath-edit mode a double-click on a subpath segment adds an anchor point exactly on the curve
+      if (context.isDoubleClick && elementTypeTyped === 'subpath' && !modifiers.shift && isInSubpathEditMode()) {
+        const svgPoint = this.getSVGPoint(e, context.svgRef);
+        if (this.insertAnchorPointAt(elementId, svgPoint)) {
+          return true;
+        }
+      }
+
       // Block interactions in subpath-edit mode
       if (isSubpathEditModeBlocked(e as PointerEvent, context)) {
         return true; // Event consumed/blocked
@@ -1797,6 +1866,13 @@ class PointerInteractionManager {
     if (commandId && !this.state.isSpacePressed) {
       e.stopPropagation();
 
+      // Alt-click on an anchor removes it and refits the neighbouring segments
+      if (modifiers.alt && !modifiers.shift && this.canRemoveAnchorPoint(commandId)) {
+        this.editorStore.pushToHistory('Remove anchor point');
+        this.editorStore.removeAnchorPoint(commandId);
+        return true;
+      }
+
       // Check if this command is part of an existing split point pair
       const currentSelection = this.editorStore.selection.selectedCommands;
       const isPartOfCurrentSplitPair = this.isCommandPartOfSplitPair(commandId, currentSelection);
@@ -1840,7 +1916,7 @@ class PointerInteractionManager {
       try {
         // Check via toolModeManager directly
         const activeMode = toolModeManager.getActiveMode();
-        isInCreationMode = ['creation', 'pencil', 'curves', 'shapes', 'text', 'smooth'].includes(activeMode);
+        isInCreationMode = ['creation', 'pencil', 'curves', 'shapes', 'text', 'smooth', 'offset', 'knife', 'shape-builder'].includes(activeMode);
         
         // Additional check for creation submode
         if (!isInCreationMode && activeMode === 'creation') {
@@ -1853,7 +1929,7 @@ class PointerInteractionManager {
           const editorState = this.editorStore;
           if (editorState && editorState.mode) {
             const mode = editorState.mode.current;
-            isInCreationMode = mode === 'create' || mode === 'curves' || mode === 'pencil' || mode === 'smooth';
+            isInCreationMode = mode === 'create' || mode === 'curves' || mode === 'pencil' || mode === 'smooth' || mode === 'offset' || mode === 'knife' || mode === 'shape-builder';
           }
         }
       } catch (error) {
@@ -1861,7 +1937,7 @@ class PointerInteractionManager {
         const editorState = this.editorStore;
         if (editorState && editorState.mode) {
           const mode = editorState.mode.current;
-          isInCreationMode = mode === 'create' || mode === 'curves' || mode === 'pencil' || mode === 'smooth';
+          isInCreationMode = mode === 'create' || mode === 'curves' || mode === 'pencil' || mode === 'smooth' || mode === 'offset' || mode === 'knife' || mode === 'shape-builder';
         }
       }
       
@@ -1970,6 +2046,7 @@ class PointerInteractionManager {
       handleManager.endDragHandle();
       this.state.draggingControlPoint = null;
       transformManager.setMoving(false);
+      this.editorStore.commitTransaction();
 
       // Show floating toolbar after control point drag
       this.editorStore.showFloatingToolbarAfterDrag();
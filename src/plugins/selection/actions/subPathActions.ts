@@ -1,10 +1,13 @@
-import { Palette, Brush, LineSquiggle, Minimize2, Maximize2, Filter, Play, Copy, Trash2, Lock, RotateCcw, Group, PaintBucket } from 'lucide-react';
+import { Palette, Brush, LineSquiggle, Minimize2, Maximize2, Filter, Play, Copy, Trash2, Lock, RotateCcw, Group, PaintBucket, SquaresUnite, SquaresSubtract, SquaresIntersect, SquaresExclude, SquareSplitHorizontal, PenLine, Magnet, ArrowLeftRight, RotateCw } from 'lucide-react';
 import { ToolbarAction } from '../../../types/floatingToolbar';
 import { useEditorStore } from '../../../store/editorStore';
 import { createSubPathArrangeActions } from '../../../utils/floating-arrange-actions';
 import { createReorderActions, createElementReorderFunctions } from '../../../utils/floating-reorder-actions';
 import { createDropShadowFilter, createBlurFilter, createGrayscaleFilter, createSepiaFilter, createEmbossFilter, createGlowFilter, createNeonGlowFilter, formatSVGReference, matchesFilterSignature } from '../../../utils/svg-elements-utils';
 import { subPathTransformManager } from '../../subpath-transform/SubPathTransformManager';
+import { BooleanOperation } from '../../../utils/boolean-path-utils';
+import { weldSubPaths } from '../../../utils/join-path-utils';
+import { SubPathWinding } from '../../../utils/path-direction-utils';
 
 // Get common fill color for selected subpaths
 const getCommonSubPathFillColor = (): string => {
@@ -858,6 +861,162 @@ const groupSelectedSubPaths = () => {
   }
 };
 
+// Boolean (pathfinder) operations on the selected paths or subpaths
+const canApplyBooleanOperation = (): boolean => {
+  const { selection } = useEditorStore.getState();
+  return selection.selectedSubPaths.length >= 2 || selection.selectedPaths.length >= 2;
+};
+
+const applyBooleanOperationToSelection = (operation: BooleanOperation) => {
+  const store = useEditorStore.getState();
+  if (!canApplyBooleanOperation()) return;
+  
+  // Single history entry for the whole operation, dropped when it changes nothing
+  store.beginTransaction(`Boolean ${operation}`, { nested: true });
+  store.pushToHistory();
+  if (store.applyBooleanOperationToSelection(operation)) {
+    store.commitTransaction();
+  } else {
+    store.cancelTransaction();
+  }
+};
+
+const booleanOperationOptions = [
+  {
+    id: 'boolean-union',
+    label: 'Union',
+    icon: SquaresUnite,
+    action: () => applyBooleanOperationToSelection('union')
+  },
+  {
+    id: 'boolean-subtract',
+    label: 'Subtract',
+    icon: SquaresSubtract,
+    action: () => applyBooleanOperationToSelection('subtract')
+  },
+  {
+    id: 'boolean-intersect',
+    label: 'Intersect',
+    icon: SquaresIntersect,
+    action: () => applyBooleanOperationToSelection('intersect')
+  },
+  {
+    id: 'boolean-exclude',
+    label: 'Exclude',
+    icon: SquaresExclude,
+    action: () => applyBooleanOperationToSelection('exclude')
+  },
+  {
+    id: 'boolean-divide',
+    label: 'Divide',
+    icon: SquareSplitHorizontal,
+    action: () => applyBooleanOperationToSelection('divide')
+  }
+];
+
+// Paths in the selection, directly or through one of their subpaths
+const getSelectedParentPathIds = (): string[] => {
+  const store = useEditorStore.getState();
+  const { selectedPaths, selectedSubPaths } = store.selection;
+  const pathIds = new Set<string>(selectedPaths);
+  
+  selectedSubPaths.forEach(subPathId => {
+    const parentPath = store.paths.find(path => 
+      path.subPaths.some(sp => sp.id === subPathId)
+    );
+    if (parentPath) pathIds.add(parentPath.id);
+  });
+  
+  return Array.from(pathIds);
+};
+
+// Outline stroke: turn the stroke of the selected paths into filled geometry
+const getSelectedStrokedPathIds = (): string[] => {
+  const store = useEditorStore.getState();
+  return getSelectedParentPathIds().filter(pathId => {
+    const path = store.paths.find(p => p.id === pathId);
+    return !!path && path.style.stroke !== undefined && path.style.stroke !== 'none';
+  });
+};
+
+const outlineSelectedStrokes = () => {
+  const store = useEditorStore.getState();
+  const pathIds = getSelectedStrokedPathIds();
+  
+  if (pathIds.length === 0) return;
+  
+  // Save to history before replacing geometry
+  store.pushToHistory();
+  store.outlinePathStrokes(pathIds);
+};
+
+// Weld: anchors closer than a couple of screen pixels become one
+const getWeldTolerance = (): number => 2 / useEditorStore.getState().viewport.zoom;
+
+const canWeldSelectedPaths = (): boolean => {
+  const store = useEditorStore.getState();
+  const pathIds = getSelectedParentPathIds();
+  const subPaths = store.paths
+    .filter(path => pathIds.includes(path.id) && !path.locked)
+    .flatMap(path => path.subPaths);
+  return weldSubPaths(subPaths, getWeldTolerance()).welded > 0;
+};
+
+const weldSelectedPaths = () => {
+  const store = useEditorStore.getState();
+  const pathIds = getSelectedParentPathIds();
+  
+  if (pathIds.length === 0 || !canWeldSelectedPaths()) return;
+  
+  store.pushToHistory();
+  store.weldAnchors(pathIds, getWeldTolerance());
+};
+
+// Direction: selected subpaths, or every subpath of the selected paths
+const getSelectedDirectionSubPathIds = (): string[] => {
+  const store = useEditorStore.getState();
+  const { selectedPaths, selectedSubPaths } = store.selection;
+  const pathSubPathIds = store.paths
+    .filter(path => selectedPaths.includes(path.id))
+    .flatMap(path => path.subPaths.map(subPath => subPath.id));
+  return Array.from(new Set([...selectedSubPaths, ...pathSubPathIds]));
+};
+
+const reverseSelectedSubPaths = () => {
+  const store = useEditorStore.getState();
+  const subPathIds = getSelectedDirectionSubPathIds();
+  
+  if (subPathIds.length === 0) return;
+  
+  store.pushToHistory();
+  store.reverseSubPaths(subPathIds);
+};
+
+const setSelectedSubPathsWinding = (winding: SubPathWinding) => {
+  const store = useEditorStore.getState();
+  const subPathIds = getSelectedDirectionSubPathIds();
+  
+  if (subPathIds.length === 0) return;
+  
+  store.pushToHistory();
+  store.setSubPathsWinding(subPathIds, winding);
+};
+
+const windingOptions = [
+  {
+    id: 'winding-clockwise',
+    label: 'All Clockwise',
+    icon: RotateCw,
+    action: () => setSelectedSubPathsWinding('clockwise')
+  },
+  {
+    id: 'winding-counterclockwise',
+    label: 'All Counter-clockwise',
+    icon: RotateCcw,
+    action: () => setSelectedSubPathsWinding('counterclockwise')
+  }
+];
+
 // Format copy functions
 const startFormatCopy = () => {
   const store = useEditorStore.getState();
@@ -1018,6 +1177,58 @@ export const subPathActions: ToolbarAction[] = [
     priority: 600,
     tooltip: 'Apply smoothing to subpath curves'
   },
+  {
+    id: 'subpath-boolean',
+    icon: SquaresUnite,
+    label: 'Boolean',
+    type: 'dropdown',
+    dropdown: {
+      options: booleanOperationOptions
+    },
+    priority: 610,
+    tooltip: 'Combine shapes (union, subtract, intersect, exclude, divide)',
+    visible: canApplyBooleanOperation
+  },
+  {
+    id: 'subpath-outline-stroke',
+    icon: PenLine,
+    label: 'Outline Stroke',
+    type: 'button',
+    action: outlineSelectedStrokes,
+    priority: 585,
+    tooltip: 'Convert stroke to a filled outline path',
+    visible: () => getSelectedStrokedPathIds().length > 0
+  },
+  {
+    id: 'subpath-weld-points',
+    icon: Magnet,
+    label: 'Weld Points',
+    type: 'button',
+    action: weldSelectedPaths,
+    priority: 587,
+    tooltip: 'Merge coincident points and join touching open ends',
+    visible: canWeldSelectedPaths
+  },
+  {
+    id: 'subpath-reverse',
+    icon: ArrowLeftRight,
+    label: 'Reverse',
+    type: 'button',
+    action: reverseSelectedSubPaths,
+    priority: 588,
+    tooltip: 'Reverse path direction'
+  },
+  {
+    id: 'subpath-winding',
+    icon: RotateCw,
+    label: 'Winding',
+    type: 'dropdown',
+    dropdown: {
+      options: windingOptions
+    },
+    priority: 589,
+    tooltip: 'Make every subpath run clockwise or counter-clockwise'
+  },
   {
     id: 'subpath-simplify',
     icon: Minimize2,
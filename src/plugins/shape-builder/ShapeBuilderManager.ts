@@ -0,0 +1,228 @@
+import React from 'react';
+import { useEditorStore } from '../../store/editorStore';
+import { toolModeManager } from '../../core/ToolModeManager';
+import { getSVGPoint } from '../../utils/transform-utils';
+import { subPathToString } from '../../utils/path-utils';
+import { getCanvasSubPaths } from '../../utils/path-transform-utils';
+import { BooleanRegion, computeBooleanFaces } from '../../utils/boolean-path-utils';
+import { CubicContour, subPathToCubicContours, getContoursWindingNumber } from '../../utils/cubic-segment-utils';
+import type { Point, SVGPath } from '../../types';
+import type { PointerEventContext } from '../../core/PluginSystem';
+
+interface ShapeBuilderFace {
+  region: BooleanRegion;
+  d: string;
+  contours: CubicContour[];
+}
+
+export class ShapeBuilderManager {
+  private editorStore: any = null;
+  private isActive = false;
+  private operandIds: string[] = []; // Source paths, back to front
+  private faces: ShapeBuilderFace[] = [];
+  private hoveredIndex: number | null = null;
+  private gestureIndices: number[] = [];
+  private isDragging = false;
+  private isDeleting = false;
+  private listeners: Array<() => void> = [];
+  private unsubscribeStore: (() => void) | null = null;
+
+  setEditorStore(store: any) {
+    this.editorStore = store;
+  }
+
+  isActiveTool(): boolean {
+    return this.isActive;
+  }
+
+  addListener(listener: () => void): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+
+  private notifyListeners(): void {
+    this.listeners.forEach(listener => listener());
+  }
+
+  // External activation/deactivation (llamado por ToolModeManager)
+  activateExternally(): void {
+    this.isActive = true;
+    useEditorStore.getState().setMode('shape-builder');
+    this.buildArrangement();
+
+    // Undo, deletions and selection changes while the tool is active change the operands
+    this.unsubscribeStore?.();
+    this.unsubscribeStore = useEditorStore.subscribe(
+      (state) => ({ paths: state.paths, selectedPaths: state.selection.selectedPaths }),
+      (current, previous) => {
+        if (current.paths !== previous.paths || current.selectedPaths !== previous.selectedPaths) {
+          this.buildArrangement();
+        }
+      }
+    );
+  }
+
+  deactivateExternally(): void {
+    this.unsubscribeStore?.();
+    this.unsubscribeStore = null;
+    this.isActive = false;
+    this.operandIds = [];
+    this.faces = [];
+    this.resetGesture();
+    this.notifyListeners();
+  }
+
+  destroy(): void {
+    if (this.isActive) {
+      toolModeManager.setMode('select');
+    }
+    this.deactivateExternally();
+  }
+
+  private resetGesture(): void {
+    this.hoveredIndex = null;
+    this.gestureIndices = [];
+    this.isDragging = false;
+    this.isDeleting = false;
+  }
+
+  /**
+   * Planar arrangement of the selected paths: one face per atomic region
+   */
+  buildArrangement(): void {
+    const store = useEditorStore.getState();
+    const zOrder = (path: SVGPath) => path.zIndex ?? store.paths.indexOf(path);
+    const operandPaths = store.paths
+      .filter(path => store.selection.selectedPaths.includes(path.id) && !path.locked)
+      .sort((a, b) => zOrder(a) - zOrder(b));
+
+    this.operandIds = operandPaths.map(path => path.id);
+    this.faces = operandPaths.length === 0
+      ? []
+      : computeBooleanFaces(operandPaths.map(path => ({
+        subPaths: getCanvasSubPaths(path),
+        fillRule: path.style.fillRule
+      }))).map(region => ({
+        region,
+        d: region.subPaths.map(subPath => subPathToString(subPath)).join(' '),
+        contours: region.subPaths.flatMap(subPath => subPathToCubicContours(subPath))
+      }));
+    this.resetGesture();
+    this.notifyListeners();
+  }
+
+  private findFaceAt(point: Point): number | null {
+    const index = this.faces.findIndex(face => getContoursWindingNumber(face.contours, point) !== 0);
+    return index >= 0 ? index : null;
+  }
+
+  private addToGesture(point: Point): void {
+    const index = this.findFaceAt(point);
+    this.hoveredIndex = index;
+    if (index !== null && !this.gestureIndices.includes(index)) {
+      this.gestureIndices.push(index);
+    }
+  }
+
+  // Handlers de pointer events
+  handlePointerDown = (event: React.PointerEvent<SVGElement>, context: PointerEventContext): boolean => {
+    if (!this.isActive) return false;
+
+    const point = this.getPointFromEvent(event);
+    if (!point) return false;
+
+    this.isDragging = true;
+    this.isDeleting = event.altKey;
+    this.gestureIndices = [];
+    this.addToGesture(point);
+    return true;
+  };
+
+  handlePointerMove = (event: React.PointerEvent<SVGElement>, context: PointerEventContext): boolean => {
+    if (!this.isActive) return false;
+
+    const point = this.getPointFromEvent(event);
+    if (!point) return false;
+
+    if (this.isDragging) {
+      this.addToGesture(point);
+    } else {
+      this.hoveredIndex = this.findFaceAt(point);
+    }
+    return true;
+  };
+
+  handlePointerUp = (event: React.PointerEvent<SVGElement>, context: PointerEventContext): boolean => {
+    if (!this.isActive || !this.isDragging) return false;
+
+    const indices = [...this.gestureIndices];
+    const isDeleting = this.isDeleting;
+    this.resetGesture();
+
+    if (indices.length > 0) {
+      const store = useEditorStore.getState();
+      store.beginTransaction('Shape builder', { nested: true });
+      store.pushToHistory();
+      const resultIds = store.applyShapeBuilder(
+        this.operandIds,
+        this.faces.map(face => face.region),
+        isDeleting ? [] : indices,
+        isDeleting ? indices : []
+      );
+      // Stale operands leave no undo step behind
+      if (resultIds) {
+        store.commitTransaction();
+      } else {
+        store.cancelTransaction();
+      }
+      // The resulting shapes stay selected and the store subscription rebuilds on them
+    }
+    return true;
+  };
+
+  private getPointFromEvent(event: React.PointerEvent<SVGElement>): Point | null {
+    try {
+      const store = useEditorStore.getState();
+      const svgElement = event.currentTarget.closest('svg') as SVGSVGElement;
+
+      if (!svgElement) {
+        return null;
+      }
+
+      // Create a mock svgRef for the getSVGPoint function
+      const svgRef = { current: svgElement };
+      return getSVGPoint(event as any, svgRef, store.viewport);
+    } catch (error) {
+      console.error('Error getting point from event:', error);
+      return null;
+    }
+  }
+
+  getFacePaths(): string[] {
+    return this.faces.map(face => face.d);
+  }
+
+  getHoveredIndex(): number | null {
+    return this.hoveredIndex;
+  }
+
+  getGestureIndices(): number[] {
+    return this.gestureIndices;
+  }
+
+  isDeleteGesture(): boolean {
+    return this.isDeleting;
+  }
+
+  getFaceCount(): number {
+    return this.faces.length;
+  }
+
+  getOperandCount(): number {
+    return this.operandIds.length;
+  }
+}
+
+export const shapeBuilderManager = new ShapeBuilderManager();
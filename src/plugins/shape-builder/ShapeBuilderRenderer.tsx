@@ -0,0 +1,78 @@
+import React, { useEffect, useState } from 'react';
+import { useEditorStore } from '../../store/editorStore';
+import { shapeBuilderManager } from './ShapeBuilderManager';
+
+export const ShapeBuilderRenderer: React.FC = () => {
+  const { mode } = useEditorStore();
+  const [facePaths, setFacePaths] = useState<string[]>([]);
+  const [hoveredIndex, setHoveredIndex] = useState<number | null>(null);
+  const [gestureIndices, setGestureIndices] = useState<number[]>([]);
+  const [isDeleting, setIsDeleting] = useState(false);
+
+  useEffect(() => {
+    // Actualizar preview cuando sea necesario
+    const updatePreview = () => {
+      setFacePaths(shapeBuilderManager.getFacePaths());
+      setHoveredIndex(shapeBuilderManager.getHoveredIndex());
+      setGestureIndices([...shapeBuilderManager.getGestureIndices()]);
+      setIsDeleting(shapeBuilderManager.isDeleteGesture());
+    };
+
+    // Intervalo para actualizar el preview (similar a SmoothRenderer)
+    let intervalId: NodeJS.Timeout | null = null;
+
+    if (mode.current === 'shape-builder') {
+      intervalId = setInterval(updatePreview, 50); // 20 FPS
+    }
+
+    return () => {
+      if (intervalId) clearInterval(intervalId);
+    };
+  }, [mode.current]);
+
+  // Solo renderizar si estamos en modo shape-builder
+  if (mode.current !== 'shape-builder' || !shapeBuilderManager.isActiveTool()) {
+    return null;
+  }
+
+  const accent = isDeleting ? '#dc3545' : '#007acc';
+
+  return (
+    <g data-layer="shape-builder-preview" data-plugin="shape-builder">
+      {/* Overlay invisible para capturar eventos sobre todo el SVG */}
+      <rect
+        x={-10000}
+        y={-10000}
+        width={20000}
+        height={20000}
+        fill="rgba(0, 0, 0, 0.001)"
+        className="creation-mode-overlay shape-builder-mode"
+        style={{
+          cursor: 'crosshair',
+          pointerEvents: 'all'
+        }}
+      />
+
+      {/* Region outlines, highlighted when hovered or part of the current drag */}
+      {facePaths.map((d, index) => {
+        const inGesture = gestureIndices.includes(index);
+        const isHovered = hoveredIndex === index;
+        return (
+          <path
+            key={index}
+            d={d}
+            fill={inGesture ? accent : isHovered ? '#007acc' : 'none'}
+            fillOpacity={inGesture ? 0.35 : 0.2}
+            fillRule="nonzero"
+            stroke={inGesture || isHovered ? accent : '#888888'}
+            strokeWidth={inGesture || isHovered ? 2 : 1}
+            strokeDasharray={inGesture || isHovered ? undefined : '3 3'}
+            opacity={0.9}
+            pointerEvents="none"
+            vectorEffect="non-scaling-stroke"
+          />
+        );
+      })}
+    </g>
+  );
+};
@@ -0,0 +1,98 @@
+import React, { useState, useEffect } from 'react';
+import { useEditorStore } from '../../store/editorStore';
+import { shapeBuilderManager } from './ShapeBuilderManager';
+import { PluginButton } from '../../components/PluginButton';
+import { Shapes, LogOut, RefreshCw } from 'lucide-react';
+import { toolModeManager } from '../../core/ToolModeManager';
+
+export const ShapeBuilderUI: React.FC = () => {
+  const { mode, selection } = useEditorStore();
+  const [faceCount, setFaceCount] = useState(shapeBuilderManager.getFaceCount());
+  const [operandCount, setOperandCount] = useState(shapeBuilderManager.getOperandCount());
+
+  const isShapeBuilderActive = mode.current === 'shape-builder';
+
+  useEffect(() => {
+    return shapeBuilderManager.addListener(() => {
+      setFaceCount(shapeBuilderManager.getFaceCount());
+      setOperandCount(shapeBuilderManager.getOperandCount());
+    });
+  }, []);
+
+  const handleActivateShapeBuilder = () => {
+    toolModeManager.setMode('shape-builder');
+  };
+
+  const handleExitShapeBuilder = () => {
+    toolModeManager.setMode('select');
+  };
+
+  const handleRebuild = () => {
+    shapeBuilderManager.buildArrangement();
+  };
+
+  return (
+    <div className="control-panel">
+      <h3>Shape Builder</h3>
+
+      {/* Tool buttons */}
+      <div style={{ marginBottom: '12px' }}>
+        {!isShapeBuilderActive && (
+          <PluginButton
+            icon={<Shapes size={14} color="#333" />}
+            text="Activate Shape Builder"
+            color="#007acc"
+            active={false}
+            disabled={selection.selectedPaths.length === 0}
+            onPointerDown={handleActivateShapeBuilder}
+          />
+        )}
+        {isShapeBuilderActive && (
+          <>
+            <PluginButton
+              icon={<LogOut size={16} />}
+              text="Exit Shape Builder"
+              color="#dc3545"
+              active={false}
+              disabled={false}
+              onPointerDown={handleExitShapeBuilder}
+            />
+            <PluginButton
+              icon={<RefreshCw size={14} />}
+              text="Use Current Selection"
+              color="#6c757d"
+              active={false}
+              disabled={selection.selectedPaths.length === 0}
+              onPointerDown={handleRebuild}
+            />
+          </>
+        )}
+      </div>
+
+      {isShapeBuilderActive && (
+        <>
+          <div style={{ fontSize: '12px', color: '#333', marginBottom: '8px' }}>
+            {faceCount} region{faceCount === 1 ? '' : 's'} from {operandCount} path{operandCount === 1 ? '' : 's'}
+          </div>
+
+          <div style={{
+            fontSize: '11px',
+            color: '#666',
+            lineHeight: '1.3',
+            padding: '8px',
+            background: '#f9f9f9',
+            borderRadius: '4px',
+            marginTop: '12px'
+          }}>
+            <strong>How to use:</strong><br />
+            • Select overlapping paths, then activate<br />
+            • Hover to see the regions they form<br />
+            • Click or drag across regions to merge them<br />
+            • Alt + drag across regions to delete them<br />
+            • Untouched regions become separate shapes
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
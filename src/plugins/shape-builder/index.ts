@@ -0,0 +1,70 @@
+import { Plugin } from '../../core/PluginSystem';
+import { shapeBuilderManager } from './ShapeBuilderManager';
+import { ShapeBuilderUI } from './ShapeBuilderUI';
+import { ShapeBuilderRenderer } from './ShapeBuilderRenderer';
+import { toolModeManager } from '../../core/ToolModeManager';
+
+export const ShapeBuilderPlugin: Plugin = {
+  id: 'shape-builder',
+  name: 'Shape Builder Tool',
+  version: '1.0.0',
+  enabled: true,
+  dependencies: ['pointer-interaction'],
+
+  initialize: (editor) => {
+    shapeBuilderManager.setEditorStore(editor);
+    // Register with tool mode manager
+    toolModeManager.setShapeBuilderManager(shapeBuilderManager);
+  },
+
+  destroy: () => {
+    shapeBuilderManager.destroy();
+  },
+
+  pointerHandlers: {
+    onPointerDown: shapeBuilderManager.handlePointerDown,
+    onPointerMove: shapeBuilderManager.handlePointerMove,
+    onPointerUp: shapeBuilderManager.handlePointerUp,
+  },
+
+  shortcuts: [
+    {
+      key: 'Escape',
+      description: 'Exit Shape Builder Mode',
+      action: () => {
+        if (shapeBuilderManager.isActiveTool()) {
+          toolModeManager.setMode('select');
+        }
+      }
+    }
+  ],
+
+  tools: [
+    {
+      id: 'shape-builder',
+      name: 'Shape Builder',
+      category: 'edit',
+      onActivate: () => {
+        toolModeManager.setMode('shape-builder');
+      },
+      onDeactivate: () => {
+        shapeBuilderManager.destroy();
+      }
+    }
+  ],
+
+  ui: [
+    {
+      id: 'shape-builder-controls',
+      component: ShapeBuilderUI,
+      position: 'sidebar',
+      order: 8
+    },
+    {
+      id: 'shape-builder-renderer',
+      component: ShapeBuilderRenderer,
+      position: 'svg-content',
+      order: 11
+    }
+  ]
+};
@@ -1,4 +1,4 @@
-import { SVGCommand, Point } from '../../types';
+import { SVGCommand, Point, ShapeParameters } from '../../types';
 
 export interface ShapeTemplate {
   id: string;
@@ -7,6 +7,7 @@ export interface ShapeTemplate {
   icon: string; // SVG path for the icon
   description: string;
   generateCommands: (center: Point, size: number) => Omit<SVGCommand, 'id'>[];
+  createShape?: (center: Point, size: number) => ShapeParameters; // Inserted as a live shape when set
 }
 
 // Helper function to create a rectangle path
@@ -379,7 +380,8 @@ export const SHAPE_TEMPLATES: ShapeTemplate[] = [
     category: 'basic',
     icon: 'M2 2h16v12H2z',
     description: 'Basic rectangle shape',
-    generateCommands: (center, size) => createRectangle(center, size, size * 0.7)
+    generateCommands: (center, size) => createRectangle(center, size, size * 0.7),
+    createShape: (center, size) => ({ kind: 'rect', x: center.x - size / 2, y: center.y - size * 0.35, width: size, height: size * 0.7, rx: 0, ry: 0 })
   },
   {
     id: 'square',
@@ -387,7 +389,8 @@ export const SHAPE_TEMPLATES: ShapeTemplate[] = [
     category: 'basic', 
     icon: 'M2 2h16v16H2z',
     description: 'Perfect square shape',
-    generateCommands: (center, size) => createRectangle(center, size, size)
+    generateCommands: (center, size) => createRectangle(center, size, size),
+    createShape: (center, size) => ({ kind: 'rect', x: center.x - size / 2, y: center.y - size / 2, width: size, height: size, rx: 0, ry: 0 })
   },
   {
     id: 'circle',
@@ -395,7 +398,8 @@ export const SHAPE_TEMPLATES: ShapeTemplate[] = [
     category: 'basic',
     icon: 'M12 2C6.48 2 2 6.48 2 12s4.48 10 10 10 10-4.48 10-10S17.52 2 12 2z',
     description: 'Perfect circle shape',
-    generateCommands: (center, size) => createEllipse(center, size, size)
+    generateCommands: (center, size) => createEllipse(center, size, size),
+    createShape: (center, size) => ({ kind: 'circle', cx: center.x, cy: center.y, r: size / 2 })
   },
   {
     id: 'ellipse',
@@ -403,7 +407,8 @@ export const SHAPE_TEMPLATES: ShapeTemplate[] = [
     category: 'basic',
     icon: 'M12 2C6.48 2 2 6.48 2 12s4.48 10 10 10 10-4.48 10-10S17.52 2 12 2z',
     description: 'Oval/ellipse shape',
-    generateCommands: (center, size) => createEllipse(center, size, size * 0.6)
+    generateCommands: (center, size) => createEllipse(center, size, size * 0.6),
+    createShape: (center, size) => ({ kind: 'ellipse', cx: center.x, cy: center.y, rx: size / 2, ry: size * 0.3 })
   },
   
   // Geometric shapes
@@ -413,7 +418,9 @@ export const SHAPE_TEMPLATES: ShapeTemplate[] = [
     category: 'geometric',
     icon: 'M12 2l8 18H4z',
     description: 'Equilateral triangle',
-    generateCommands: (center, size) => createTriangle(center, size)
+    generateCommands: (center, size) => createTriangle(center, size),
+    // The bounding box is centered like the plain triangle, which puts the polygon center a bit lower
+    createShape: (center, size) => ({ kind: 'regular-polygon', cx: center.x, cy: center.y + size / (4 * Math.sqrt(3)), radius: size / Math.sqrt(3), sides: 3, rotation: -90 })
   },
   {
     id: 'diamond',
@@ -421,7 +428,8 @@ export const SHAPE_TEMPLATES: ShapeTemplate[] = [
     category: 'geometric',
     icon: 'M12 2l6 10-6 10-6-10z',
     description: 'Diamond/rhombus shape',
-    generateCommands: (center, size) => createDiamond(center, size)
+    generateCommands: (center, size) => createDiamond(center, size),
+    createShape: (center, size) => ({ kind: 'regular-polygon', cx: center.x, cy: center.y, radius: size / 2, sides: 4, rotation: -90 })
   },
   {
     id: 'hexagon',
@@ -429,7 +437,8 @@ export const SHAPE_TEMPLATES: ShapeTemplate[] = [
     category: 'geometric',
     icon: 'M17.5 3.5L22 12l-4.5 8.5h-11L2 12l4.5-8.5z',
     description: 'Six-sided polygon',
-    generateCommands: (center, size) => createHexagon(center, size)
+    generateCommands: (center, size) => createHexagon(center, size),
+    createShape: (center, size) => ({ kind: 'regular-polygon', cx: center.x, cy: center.y, radius: size / 2, sides: 6, rotation: 0 })
   },
   {
     id: 'star',
@@ -437,7 +446,8 @@ export const SHAPE_TEMPLATES: ShapeTemplate[] = [
     category: 'geometric',
     icon: 'M12 2l2.4 7.2h7.6l-6 4.8 2.4 7.2-6-4.8-6 4.8 2.4-7.2-6-4.8h7.6z',
     description: 'Five-pointed star',
-    generateCommands: (center, size) => createStar(center, size)
+    generateCommands: (center, size) => createStar(center, size),
+    createShape: (center, size) => ({ kind: 'star', cx: center.x, cy: center.y, radius: size / 2, innerRadius: size * 0.2, points: 5, rotation: -90 })
   },
   {
     id: 'pentagon',
@@ -445,7 +455,8 @@ export const SHAPE_TEMPLATES: ShapeTemplate[] = [
     category: 'geometric',
     icon: 'M12 2l3.5 5.5h5.5l-4.5 7-4.5-7h-5.5z',
     description: 'Five-sided polygon',
-    generateCommands: (center, size) => createPentagon(center, size)
+    generateCommands: (center, size) => createPentagon(center, size),
+    createShape: (center, size) => ({ kind: 'regular-polygon', cx: center.x, cy: center.y, radius: size / 2, sides: 5, rotation: -90 })
   },
   {
     id: 'octagon',
@@ -453,7 +464,8 @@ export const SHAPE_TEMPLATES: ShapeTemplate[] = [
     category: 'geometric',
     icon: 'M7 2h10l7 7v10l-7 7H7l-7-7V9z',
     description: 'Eight-sided polygon',
-    generateCommands: (center, size) => createOctagon(center, size)
+    generateCommands: (center, size) => createOctagon(center, size),
+    createShape: (center, size) => ({ kind: 'regular-polygon', cx: center.x, cy: center.y, radius: size / 2, sides: 8, rotation: 0 })
   },
   
   // Arrows
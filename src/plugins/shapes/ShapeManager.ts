@@ -267,7 +267,7 @@ export class ShapeManager {
     }
 
     const store = this.editorStore || useEditorStore.getState();
-    const { addPath, replaceSubPathCommands, pushToHistory } = store;
+    const { addPath, replaceSubPathCommands, updatePathShape, pushToHistory } = store;
 
     // Save current state to history before making changes
     pushToHistory();
@@ -276,9 +276,6 @@ export class ShapeManager {
       // Use provided size or fallback to current size
       const finalSize = size !== undefined ? size : this.state.currentSize;
       
-      // Generate the shape commands
-      const commands = shapeTemplate.generateCommands(point, finalSize);
-      
       // Create a new path for the shape
       // addPath automatically creates a path with one subpath containing M 100,100
       // We'll replace those commands with our shape commands
@@ -295,6 +292,16 @@ export class ShapeManager {
       });
 
       
+      // Primitives are kept as live shapes with editable parameters
+      if (shapeTemplate.createShape) {
+        updatePathShape(pathId, shapeTemplate.createShape(point, finalSize));
+        toolModeManager.setMode('select');
+        return;
+      }
+
+      // Generate the shape commands
+      const commands = shapeTemplate.generateCommands(point, finalSize);
+
       // Get the automatically created subpath ID
       const currentStore = useEditorStore.getState();
       const createdPath = currentStore.paths.find(p => p.id === pathId);
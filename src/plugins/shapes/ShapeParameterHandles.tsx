@@ -0,0 +1,65 @@
+import React from 'react';
+import { useEditorStore } from '../../store/editorStore';
+import { getShapeHandles } from '../../utils/shape-utils';
+import { transformPoint } from '../../utils/transform-utils';
+import { transformManager } from '../transform/TransformManager';
+import { useMobileDetection, getControlPointSize, getInteractionRadius } from '../../hooks/useMobileDetection';
+import { SHAPE_PARAMETER_HANDLE_TYPE, getSelectedLiveShape } from './ShapeParameterManager';
+
+/**
+ * Handles that edit the parameters of the selected live shape: corner
+ * radius, radii, star inner radius and polygon or line points
+ */
+export const ShapeParameterHandles: React.FC = () => {
+  const { paths, selection, viewport, visualDebugSizes, ui } = useEditorStore();
+  const { isMobile, isTablet } = useMobileDetection();
+
+  const selected = getSelectedLiveShape({ paths, selection });
+  const selectionVisible = ui?.selectionVisible ?? true;
+  if (!selected || !selectionVisible || transformManager.isTransforming() || transformManager.isMoving()) {
+    return null;
+  }
+
+  // Sizes are in screen pixels, converted to canvas units
+  const screenRadius = getControlPointSize(isMobile, isTablet) * visualDebugSizes.globalFactor / 2;
+  const radius = screenRadius / viewport.zoom;
+  const interactionRadius = getInteractionRadius(screenRadius, isMobile, isTablet) / viewport.zoom;
+
+  // Handles of a path with its own transform are drawn at their canvas position
+  const { transform } = selected.path;
+  const handles = getShapeHandles(selected.shape).map(handle => ({
+    ...handle,
+    point: transform ? transformPoint(handle.point.x, handle.point.y, transform) : handle.point
+  }));
+
+  return (
+    <g className="shape-parameter-handles">
+      {handles.map(handle => (
+        <g key={handle.id}>
+          <circle
+            cx={handle.point.x}
+            cy={handle.point.y}
+            r={radius}
+            fill="#ffffff"
+            stroke="#ff9800"
+            strokeWidth={1.5}
+            vectorEffect="non-scaling-stroke"
+            pointerEvents="none"
+          />
+          {/* Interaction overlay */}
+          <circle
+            cx={handle.point.x}
+            cy={handle.point.y}
+            r={interactionRadius}
+            fill="transparent"
+            stroke="none"
+            data-handle-type={SHAPE_PARAMETER_HANDLE_TYPE}
+            data-handle-id={handle.id}
+            data-path-id={selected.path.id}
+            style={{ cursor: 'pointer' }}
+          />
+        </g>
+      ))}
+    </g>
+  );
+};
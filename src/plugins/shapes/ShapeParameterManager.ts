@@ -0,0 +1,74 @@
+import { PointerEvent } from 'react';
+import { PointerEventContext } from '../../core/PluginSystem';
+import { useEditorStore } from '../../store/editorStore';
+import { EditorState, SVGPath, ShapeParameters } from '../../types';
+import { snapToGrid } from '../../utils/path-utils';
+import { getLiveShape, moveShapeHandle } from '../../utils/shape-utils';
+import { toPathLocalPoint } from '../../utils/path-transform-utils';
+
+export const SHAPE_PARAMETER_HANDLE_TYPE = 'shape-parameter';
+
+interface ShapeHandleDrag {
+  pathId: string;
+  handleId: string;
+}
+
+/**
+ * The live shape when exactly one path is selected, as a whole or through
+ * its only subpath
+ */
+export function getSelectedLiveShape(state: Pick<EditorState, 'paths' | 'selection'>): { path: SVGPath; shape: ShapeParameters } | null {
+  const { selectedPaths, selectedSubPaths } = state.selection;
+  let path: SVGPath | undefined;
+  if (selectedPaths.length === 1 && selectedSubPaths.length === 0) {
+    path = state.paths.find(candidate => candidate.id === selectedPaths[0]);
+  } else if (selectedPaths.length === 0 && selectedSubPaths.length === 1) {
+    path = state.paths.find(candidate => candidate.subPaths.some(subPath => subPath.id === selectedSubPaths[0]));
+  }
+  if (!path || path.locked) return null;
+  const shape = getLiveShape(path);
+  return shape ? { path, shape } : null;
+}
+
+export class ShapeParameterManager {
+  private drag: ShapeHandleDrag | null = null;
+
+  isDragging(): boolean {
+    return this.drag !== null;
+  }
+
+  handlePointerDown = (e: PointerEvent<SVGElement>, context: PointerEventContext): boolean => {
+    const target = e.target as SVGElement;
+    if (!target || typeof target.getAttribute !== 'function') return false;
+    if (target.getAttribute('data-handle-type') !== SHAPE_PARAMETER_HANDLE_TYPE) return false;
+
+    const pathId = target.getAttribute('data-path-id');
+    const handleId = target.getAttribute('data-handle-id');
+    if (!pathId || !handleId) return false;
+
+    useEditorStore.getState().pushToHistory('Edit shape');
+    this.drag = { pathId, handleId };
+    return true;
+  };
+
+  handlePointerMove = (e: PointerEvent<SVGElement>, context: PointerEventContext): boolean => {
+    if (!this.drag) return false;
+
+    const store = useEditorStore.getState();
+    const path = store.paths.find(candidate => candidate.id === this.drag!.pathId);
+    const shape = path ? getLiveShape(path) : null;
+    if (!path || !shape) return true;
+
+    const point = store.grid.snapToGrid ? snapToGrid(context.svgPoint, store.grid.size) : context.svgPoint;
+    store.updatePathShape(path.id, moveShapeHandle(shape, this.drag.handleId, toPathLocalPoint(path, point)));
+    return true;
+  };
+
+  handlePointerUp = (e: PointerEvent<SVGElement>, context: PointerEventContext): boolean => {
+    if (!this.drag) return false;
+    this.drag = null;
+    return true;
+  };
+}
+
+export const shapeParameterManager = new ShapeParameterManager();
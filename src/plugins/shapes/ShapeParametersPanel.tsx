@@ -0,0 +1,146 @@
+import React, { useEffect, useRef } from 'react';
+import { PenTool } from 'lucide-react';
+import { PluginButton } from '../../components/PluginButton';
+import { useEditorStore } from '../../store/editorStore';
+import { ShapeParameters } from '../../types';
+import { SHAPE_KIND_LABELS } from '../../utils/shape-utils';
+import { getSelectedLiveShape } from './ShapeParameterManager';
+
+interface ShapeField {
+  key: string;
+  label: string;
+  min?: number;
+  integer?: boolean;
+  value: number;
+  withValue: (value: number) => ShapeParameters;
+}
+
+// A numeric parameter of one shape kind; the key is checked against that kind
+const shapeField = <S extends ShapeParameters & Record<K, number>, K extends string>(
+  shape: S,
+  key: K,
+  label: string,
+  options: Pick<ShapeField, 'min' | 'integer'> = {}
+): ShapeField => ({
+  key,
+  label,
+  ...options,
+  value: shape[key],
+  withValue: (value) => ({ ...shape, [key]: value })
+});
+
+// Parameters edited as numbers; positions are edited on the canvas
+const getShapeFields = (shape: ShapeParameters): ShapeField[] => {
+  switch (shape.kind) {
+    case 'rect':
+      return [
+        shapeField(shape, 'width', 'Width', { min: 1 }),
+        shapeField(shape, 'height', 'Height', { min: 1 }),
+        shapeField(shape, 'rx', 'Corner rx', { min: 0 }),
+        shapeField(shape, 'ry', 'Corner ry', { min: 0 })
+      ];
+    case 'circle':
+      return [shapeField(shape, 'r', 'Radius', { min: 0.5 })];
+    case 'ellipse':
+      return [
+        shapeField(shape, 'rx', 'Radius x', { min: 0.5 }),
+        shapeField(shape, 'ry', 'Radius y', { min: 0.5 })
+      ];
+    case 'regular-polygon':
+      return [
+        shapeField(shape, 'sides', 'Sides', { min: 3, integer: true }),
+        shapeField(shape, 'radius', 'Radius', { min: 0.5 }),
+        shapeField(shape, 'rotation', 'Rotation')
+      ];
+    case 'star':
+      return [
+        shapeField(shape, 'points', 'Points', { min: 3, integer: true }),
+        shapeField(shape, 'radius', 'Radius', { min: 0.5 }),
+        shapeField(shape, 'innerRadius', 'Inner radius', { min: 0.5 }),
+        shapeField(shape, 'rotation', 'Rotation')
+      ];
+    default:
+      return [];
+  }
+};
+
+const formatValue = (value: number): number => Number(value.toFixed(2));
+
+export const ShapeParametersPanel: React.FC = () => {
+  const { paths, selection, updatePathShape, convertShapeToPath, pushToHistory, beginTransaction } = useEditorStore();
+
+  // Every change made while a field has focus is one undo step
+  const isEditing = useRef(false);
+  const beginEdit = () => {
+    if (isEditing.current) return;
+    isEditing.current = true;
+    beginTransaction('Edit shape');
+  };
+  const endEdit = () => {
+    if (!isEditing.current) return;
+    isEditing.current = false;
+    useEditorStore.getState().commitTransaction();
+  };
+
+  const selected = getSelectedLiveShape({ paths, selection });
+  // The inputs go away without a blur when the selection changes
+  useEffect(() => endEdit, [selected?.path.id]);
+  if (!selected) return null;
+
+  const { path, shape } = selected;
+
+  const handleChange = (field: ShapeField, rawValue: string) => {
+    const parsed = field.integer ? parseInt(rawValue, 10) : parseFloat(rawValue);
+    if (!Number.isFinite(parsed)) return;
+    const value = field.min !== undefined ? Math.max(field.min, parsed) : parsed;
+    beginEdit();
+    pushToHistory();
+    updatePathShape(path.id, field.withValue(value));
+  };
+
+  const handleConvert = () => {
+    endEdit();
+    pushToHistory('Convert shape to path');
+    convertShapeToPath(path.id);
+  };
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: '6px', marginTop: '8px' }}>
+      <div style={{ fontSize: '11px', fontWeight: 'bold', color: '#666' }}>
+        {SHAPE_KIND_LABELS[shape.kind]}
+      </div>
+      {getShapeFields(shape).map(field => (
+        <div key={field.key} style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+          <label style={{ fontSize: '11px', color: '#666' }}>{field.label}</label>
+          <input
+            type="number"
+            min={field.min}
+            step={field.integer ? 1 : 'any'}
+            value={formatValue(field.value)}
+            onFocus={beginEdit}
+            onBlur={endEdit}
+            onChange={(e) => handleChange(field, e.target.value)}
+            style={{
+              marginLeft: 'auto',
+              width: '60px',
+              padding: '4px 6px',
+              border: '1px solid #ccc',
+              borderRadius: '3px',
+              fontSize: '11px',
+              textAlign: 'right'
+            }}
+          />
+        </div>
+      ))}
+      <PluginButton
+        icon={<PenTool size={16} />}
+        text="Convert to Path"
+        color="#007acc"
+        active={false}
+        disabled={false}
+        onPointerDown={handleConvert}
+        fullWidth={true}
+      />
+    </div>
+  );
+};
@@ -2,6 +2,8 @@ import { Plugin } from '../../core/PluginSystem';
 import { shapeManager, shapePointerHandlers } from './ShapeManager';
 import { ShapesUI } from './ShapesUI';
 import { ShapePreview } from '../../components/ShapePreview';
+import { shapeParameterManager } from './ShapeParameterManager';
+import { ShapeParameterHandles } from './ShapeParameterHandles';
 
 export const ShapesPlugin: Plugin = {
   id: 'shapes',
@@ -23,7 +25,15 @@ export const ShapesPlugin: Plugin = {
       }
     }
   ],
-  pointerHandlers: shapePointerHandlers,
+  pointerHandlers: {
+    // Dragging a parameter handle of a live shape comes before shape creation
+    onPointerDown: (e, context) =>
+      shapeParameterManager.handlePointerDown(e, context) || !!shapePointerHandlers.onPointerDown?.(e, context),
+    onPointerMove: (e, context) =>
+      shapeParameterManager.handlePointerMove(e, context) || !!shapePointerHandlers.onPointerMove?.(e, context),
+    onPointerUp: (e, context) =>
+      shapeParameterManager.handlePointerUp(e, context) || !!shapePointerHandlers.onPointerUp?.(e, context),
+  },
   ui: [
     {
       id: 'shapes-panel',
@@ -36,6 +46,12 @@ export const ShapesPlugin: Plugin = {
       component: ShapePreview,
       position: 'svg-content',
       order: 100
+    },
+    {
+      id: 'shape-parameter-handles',
+      component: ShapeParameterHandles,
+      position: 'svg-content',
+      order: 101
     }
   ]
 };
@@ -2,6 +2,7 @@ import React, { useState } from 'react';
 import { PluginButton } from '../../components/PluginButton';
 import { SHAPE_TEMPLATES, ShapeTemplate } from './ShapeDefinitions';
 import { shapeManager } from './ShapeManager';
+import { ShapeParametersPanel } from './ShapeParametersPanel';
 import { toolModeManager } from '../../core/ToolModeManager';
 import { useEditorStore } from '../../store/editorStore';
 import { Square, Circle, Triangle, Diamond, Hexagon, Star, ArrowRight, ArrowLeft, ArrowUp, ArrowDown, Heart, Cloud, CheckSquare, LogOut, Plus, Dot } from 'lucide-react';
@@ -217,6 +218,7 @@ export const ShapesUI: React.FC = () => {
               fullWidth={true}
             />
         )}
+        <ShapeParametersPanel />
       </div>
     </div>
   );
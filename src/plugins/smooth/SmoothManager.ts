@@ -55,11 +55,7 @@ export class SmoothManager {
     this.isActive = false;
     this.currentPreviewPath = '';
     this.currentFeedbackPath = '';
-    
-    // Clear drag state
-    this.isDragging = false;
-    this.currentSubPathInfo = null;
-    this.lastSmoothPoint = null;
+    this.endStroke();
     
     toolModeManager.setMode('select');
   }
@@ -74,17 +70,23 @@ export class SmoothManager {
     this.isActive = false;
     this.currentPreviewPath = '';
     this.currentFeedbackPath = '';
-    
-    // Clear drag state
-    this.isDragging = false;
-    this.currentSubPathInfo = null;
-    this.lastSmoothPoint = null;
+    this.endStroke();
   }
 
   destroy(): void {
     this.deactivateTool();
   }
 
+  // Clear drag state and close the stroke's undo step if one is open
+  private endStroke(): void {
+    if (this.isDragging) {
+      useEditorStore.getState().commitTransaction();
+    }
+    this.isDragging = false;
+    this.currentSubPathInfo = null;
+    this.lastSmoothPoint = null;
+  }
+
   // Handlers de pointer events
   handlePointerDown = (event: React.PointerEvent<SVGElement>, context: PointerEventContext): boolean => {
     if (!this.isActive) return false;
@@ -98,13 +100,17 @@ export class SmoothManager {
       return false;
     }
 
+    // A stroke whose pointer-up never arrived is closed first
+    this.endStroke();
+
     // Start drag state (same as HTML example)
     this.isDragging = true;
     this.currentSubPathInfo = subPathInfo;
     this.lastSmoothPoint = point;
     
-    // Pushear al historial una sola vez al inicio
+    // Pushear al historial una sola vez al inicio; el trazo completo es un solo paso
     const store = useEditorStore.getState();
+    store.beginTransaction('Smooth subpath');
     store.pushToHistory();
 
     // Apply initial smooth
@@ -155,9 +161,7 @@ export class SmoothManager {
     if (!this.isActive) return false;
     
     // Finalize drag state
-    this.isDragging = false;
-    this.currentSubPathInfo = null;
-    this.lastSmoothPoint = null;
+    this.endStroke();
     
     this.clearPreview();
     this.clearFeedback();
@@ -3,9 +3,10 @@ import { Plugin } from '../../core/PluginSystem';
 import { useEditorStore } from '../../store/editorStore';
 import { getAllSubPaths } from '../../utils/subpath-utils';
 import { subPathToString } from '../../utils/path-utils';
-import { Lock, Unlock, Edit3, Plus, Trash2, X, Check } from 'lucide-react';
+import { Lock, Unlock, Edit3, Plus, Trash2, X, Check, RotateCw, RotateCcw } from 'lucide-react';
 import { SVGPath, SVGSubPath, SVGCommand, SVGCommandType } from '../../types';
 import { generateId } from '../../utils/id-utils';
+import { getSubPathWinding } from '../../utils/path-direction-utils';
 
 interface CommandEditorProps {
   command: SVGCommand;
@@ -47,7 +48,13 @@ const CommandEditor: React.FC<CommandEditorProps> = ({ command, onSave, onCancel
         >
           <option value="M">M - Move To</option>
           <option value="L">L - Line To</option>
+          <option value="H">H - Horizontal Line</option>
+          <option value="V">V - Vertical Line</option>
           <option value="C">C - Curve To</option>
+          <option value="S">S - Smooth Curve To</option>
+          <option value="Q">Q - Quadratic Curve To</option>
+          <option value="T">T - Smooth Quadratic To</option>
+          <option value="A">A - Arc To</option>
           <option value="Z">Z - Close Path</option>
         </select>
         <button onClick={handleSave} style={{ padding: '2px', fontSize: '8px', background: '#28a745', color: 'white', border: 'none', borderRadius: '2px' }}>
@@ -62,7 +69,7 @@ const CommandEditor: React.FC<CommandEditorProps> = ({ command, onSave, onCancel
       </div>
       
       <div style={{ display: 'flex', gap: '2px', flexWrap: 'wrap' }}>
-        {(editCommand.command === 'M' || editCommand.command === 'L' || editCommand.command === 'C') && (
+        {editCommand.command !== 'Z' && (
           <>
             <label style={{ fontSize: '8px' }}>x:</label>
             <input
@@ -80,7 +87,7 @@ const CommandEditor: React.FC<CommandEditorProps> = ({ command, onSave, onCancel
             />
           </>
         )}
-        {editCommand.command === 'C' && (
+        {(editCommand.command === 'C' || editCommand.command === 'Q') && (
           <>
             <label style={{ fontSize: '8px' }}>x1:</label>
             <input
@@ -96,6 +103,10 @@ const CommandEditor: React.FC<CommandEditorProps> = ({ command, onSave, onCancel
               onChange={(e) => setEditCommand({ ...editCommand, y1: parseFloat(e.target.value) || 0 })}
               style={inputStyle}
             />
+          </>
+        )}
+        {(editCommand.command === 'C' || editCommand.command === 'S') && (
+          <>
             <label style={{ fontSize: '8px' }}>x2:</label>
             <input
               type="number"
@@ -112,6 +123,43 @@ const CommandEditor: React.FC<CommandEditorProps> = ({ command, onSave, onCancel
             />
           </>
         )}
+        {editCommand.command === 'A' && (
+          <>
+            <label style={{ fontSize: '8px' }}>rx:</label>
+            <input
+              type="number"
+              value={editCommand.rx || 0}
+              onChange={(e) => setEditCommand({ ...editCommand, rx: parseFloat(e.target.value) || 0 })}
+              style={inputStyle}
+            />
+            <label style={{ fontSize: '8px' }}>ry:</label>
+            <input
+              type="number"
+              value={editCommand.ry || 0}
+              onChange={(e) => setEditCommand({ ...editCommand, ry: parseFloat(e.target.value) || 0 })}
+              style={inputStyle}
+            />
+            <label style={{ fontSize: '8px' }}>rot:</label>
+            <input
+              type="number"
+              value={editCommand.xAxisRotation || 0}
+              onChange={(e) => setEditCommand({ ...editCommand, xAxisRotation: parseFloat(e.target.value) || 0 })}
+              style={inputStyle}
+            />
+            <label style={{ fontSize: '8px' }}>large:</label>
+            <input
+              type="checkbox"
+              checked={!!editCommand.largeArcFlag}
+              onChange={(e) => setEditCommand({ ...editCommand, largeArcFlag: e.target.checked ? 1 : 0 })}
+            />
+            <label style={{ fontSize: '8px' }}>sweep:</label>
+            <input
+              type="checkbox"
+              checked={!!editCommand.sweepFlag}
+              onChange={(e) => setEditCommand({ ...editCommand, sweepFlag: e.target.checked ? 1 : 0 })}
+            />
+          </>
+        )}
       </div>
     </div>
   );
@@ -159,7 +207,13 @@ const NewCommandCreator: React.FC<NewCommandCreatorProps> = ({ onSave, onCancel
         >
           <option value="M">M - Move To</option>
           <option value="L">L - Line To</option>
+          <option value="H">H - Horizontal Line</option>
+          <option value="V">V - Vertical Line</option>
           <option value="C">C - Curve To</option>
+          <option value="S">S - Smooth Curve To</option>
+          <option value="Q">Q - Quadratic Curve To</option>
+          <option value="T">T - Smooth Quadratic To</option>
+          <option value="A">A - Arc To</option>
           <option value="Z">Z - Close Path</option>
         </select>
         <button onClick={handleSave} style={{ padding: '2px', fontSize: '8px', background: '#28a745', color: 'white', border: 'none', borderRadius: '2px' }}>
@@ -171,7 +225,7 @@ const NewCommandCreator: React.FC<NewCommandCreatorProps> = ({ onSave, onCancel
       </div>
       
       <div style={{ display: 'flex', gap: '2px', flexWrap: 'wrap' }}>
-        {(newCommand.command === 'M' || newCommand.command === 'L' || newCommand.command === 'C') && (
+        {newCommand.command !== 'Z' && (
           <>
             <label style={{ fontSize: '8px' }}>x:</label>
             <input
@@ -189,7 +243,7 @@ const NewCommandCreator: React.FC<NewCommandCreatorProps> = ({ onSave, onCancel
             />
           </>
         )}
-        {newCommand.command === 'C' && (
+        {(newCommand.command === 'C' || newCommand.command === 'Q') && (
           <>
             <label style={{ fontSize: '8px' }}>x1:</label>
             <input
@@ -205,6 +259,10 @@ const NewCommandCreator: React.FC<NewCommandCreatorProps> = ({ onSave, onCancel
               onChange={(e) => setNewCommand({ ...newCommand, y1: parseFloat(e.target.value) || 0 })}
               style={inputStyle}
             />
+          </>
+        )}
+        {(newCommand.command === 'C' || newCommand.command === 'S') && (
+          <>
             <label style={{ fontSize: '8px' }}>x2:</label>
             <input
               type="number"
@@ -221,6 +279,43 @@ const NewCommandCreator: React.FC<NewCommandCreatorProps> = ({ onSave, onCancel
             />
           </>
         )}
+        {newCommand.command === 'A' && (
+          <>
+            <label style={{ fontSize: '8px' }}>rx:</label>
+            <input
+              type="number"
+              value={newCommand.rx || 0}
+              onChange={(e) => setNewCommand({ ...newCommand, rx: parseFloat(e.target.value) || 0 })}
+              style={inputStyle}
+            />
+            <label style={{ fontSize: '8px' }}>ry:</label>
+            <input
+              type="number"
+              value={newCommand.ry || 0}
+              onChange={(e) => setNewCommand({ ...newCommand, ry: parseFloat(e.target.value) || 0 })}
+              style={inputStyle}
+            />
+            <label style={{ fontSize: '8px' }}>rot:</label>
+            <input
+              type="number"
+              value={newCommand.xAxisRotation || 0}
+              onChange={(e) => setNewCommand({ ...newCommand, xAxisRotation: parseFloat(e.target.value) || 0 })}
+              style={inputStyle}
+            />
+            <label style={{ fontSize: '8px' }}>large:</label>
+            <input
+              type="checkbox"
+              checked={!!newCommand.largeArcFlag}
+              onChange={(e) => setNewCommand({ ...newCommand, largeArcFlag: e.target.checked ? 1 : 0 })}
+            />
+            <label style={{ fontSize: '8px' }}>sweep:</label>
+            <input
+              type="checkbox"
+              checked={!!newCommand.sweepFlag}
+              onChange={(e) => setNewCommand({ ...newCommand, sweepFlag: e.target.checked ? 1 : 0 })}
+            />
+          </>
+        )}
       </div>
     </div>
   );
@@ -387,6 +482,7 @@ const SubPathListItem: React.FC<SubPathListItemProps> = ({
   // Get first command for display info
   const firstCommand = subPath.commands[0];
   const commandCount = subPath.commands.length;
+  const winding = getSubPathWinding(subPath);
 
   const handleLockToggle = (e: React.PointerEvent) => {
     e.stopPropagation();
@@ -521,6 +617,15 @@ const SubPathListItem: React.FC<SubPathListItemProps> = ({
             </div>
             <div style={{ color: '#666', fontSize: '10px', lineHeight: '1.3' }}>
               <div>{commandCount} command{commandCount !== 1 ? 's' : ''}</div>
+              {winding && (
+                <div
+                  title="Direction of the subpath; with the nonzero fill rule opposite directions make holes"
+                  style={{ display: 'flex', alignItems: 'center', justifyContent: 'center', gap: '3px' }}
+                >
+                  {winding === 'clockwise' ? <RotateCw size={10} /> : <RotateCcw size={10} />}
+                  {winding === 'clockwise' ? 'Clockwise' : 'Counter-clockwise'}
+                </div>
+              )}
               <div style={{ color: '#999', marginBottom: '6px' }}>Path: {path.id.slice(-6)}</div>
               
               {/* Commands List */}
@@ -1,9 +1,10 @@
 import React, { useState, useEffect } from 'react';
 import { useEditorStore } from '../../store/editorStore';
 import { PluginButton } from '../../components/PluginButton';
-import { Move, RotateCw, Maximize2, RotateCcw, ArrowUp, ArrowDown, ArrowLeft, ArrowRight, Waves, Minimize2, FlipHorizontal, FlipVertical, Grid3x3 } from 'lucide-react';
+import { Move, RotateCw, Maximize2, RotateCcw, ArrowUp, ArrowDown, ArrowLeft, ArrowRight, Waves, Minimize2, FlipHorizontal, FlipVertical, Grid3x3, Layers } from 'lucide-react';
 import { areCommandsInSameSubPath } from '../../utils/path-simplification-utils';
 import { subPathTransformManager } from './SubPathTransformManager';
+import { decomposeMatrix } from '../../utils/transform-utils';
 
 // Custom hook for persistent state in localStorage
 const usePersistentState = <T,>(key: string, defaultValue: T): [T, (value: T) => void] => {
@@ -41,6 +42,7 @@ export const SubPathTransformControls: React.FC<SubPathTransformControlsProps> =
     mirrorSubPathHorizontal,
     mirrorSubPathVertical,
     replaceSubPathCommands,
+    flattenPathTransform,
     pushToHistory
   } = useEditorStore();
   
@@ -56,6 +58,7 @@ export const SubPathTransformControls: React.FC<SubPathTransformControlsProps> =
   const [rotationExpanded, setRotationExpanded] = useState(false);
   const [translationExpanded, setTranslationExpanded] = useState(false);
   const [mirrorExpanded, setMirrorExpanded] = useState(false);
+  const [elementTransformExpanded, setElementTransformExpanded] = useState(true);
   const [smoothingExpanded, setSmoothingExpanded] = useState(true);
   const [simplificationExpanded, setSimplificationExpanded] = useState(true);
   const [optimizationExpanded, setOptimizationExpanded] = useState(true);
@@ -71,6 +74,20 @@ export const SubPathTransformControls: React.FC<SubPathTransformControlsProps> =
 
   const hasSelectedSubPaths = selection.selectedSubPaths.length > 0;
 
+  // Paths of the selected subpaths that keep their own transform matrix
+  const transformedPaths = paths.filter(path =>
+    path.transform && path.subPaths.some(subPath => selection.selectedSubPaths.includes(subPath.id))
+  );
+  const decomposedTransform = transformedPaths.length === 1 && transformedPaths[0].transform
+    ? decomposeMatrix(transformedPaths[0].transform)
+    : null;
+
+  const handleFlattenTransform = () => {
+    if (transformedPaths.length === 0) return;
+    pushToHistory('Flatten transform');
+    transformedPaths.forEach(path => flattenPathTransform(path.id));
+  };
+
   const handleScale = () => {
     if (!hasSelectedSubPaths) return;
     
@@ -612,6 +629,62 @@ export const SubPathTransformControls: React.FC<SubPathTransformControlsProps> =
         
         {hasSelectedSubPaths && (
           <>
+            {/* Element Transform Section - Only visible for paths that keep a transform matrix */}
+            {transformedPaths.length > 0 && (
+              <div style={{ display: 'flex', flexDirection: 'column', gap: '6px' }}>
+                <div 
+                  style={{ 
+                    fontSize: '12px', 
+                    color: '#666', 
+                    fontWeight: 'bold',
+                    cursor: 'pointer',
+                    userSelect: 'none',
+                    display: 'flex',
+                    alignItems: 'center',
+                    gap: '4px'
+                  }}
+                  onPointerDown={() => setElementTransformExpanded(!elementTransformExpanded)}
+                >
+                  <span style={{ transform: elementTransformExpanded ? 'rotate(90deg)' : 'rotate(0deg)', transition: 'transform 0.2s' }}>▶</span>
+                  Element Transform
+                </div>
+                
+                {elementTransformExpanded && (
+                  <>
+                    {decomposedTransform ? (
+                      <div style={{ display: 'grid', gridTemplateColumns: 'auto 1fr', gap: '2px 8px', fontSize: '11px', color: '#666' }}>
+                        <span>Rotation</span>
+                        <span style={{ textAlign: 'right' }}>{Number(decomposedTransform.rotation.toFixed(2))}°</span>
+                        <span>Scale</span>
+                        <span style={{ textAlign: 'right' }}>
+                          {Number(decomposedTransform.scaleX.toFixed(3))} × {Number(decomposedTransform.scaleY.toFixed(3))}
+                        </span>
+                        <span>Skew X</span>
+                        <span style={{ textAlign: 'right' }}>{Number(decomposedTransform.skewX.toFixed(2))}°</span>
+                        <span>Translate</span>
+                        <span style={{ textAlign: 'right' }}>
+                          {Number(decomposedTransform.translateX.toFixed(2))}, {Number(decomposedTransform.translateY.toFixed(2))}
+                        </span>
+                      </div>
+                    ) : (
+                      <div style={{ fontSize: '11px', color: '#666' }}>
+                        {transformedPaths.length} paths with their own transform
+                      </div>
+                    )}
+                    
+                    <PluginButton
+                      icon={<Layers size={14} />}
+                      text="Flatten Transform"
+                      color="#007acc"
+                      active={false}
+                      disabled={false}
+                      onPointerDown={handleFlattenTransform}
+                    />
+                  </>
+                )}
+              </div>
+            )}
+
             {/* Smoothing Section */}
             <div style={{ display: 'flex', flexDirection: 'column', gap: '6px' }}>
               <div 
@@ -1,6 +1,8 @@
 import { useEditorStore } from '../../store/editorStore';
 import { generateId } from '../../utils/id-utils';
 import { simplifySegmentWithPointsOnPath, generateSubpathString } from '../../utils/path-simplification-utils';
+import { parsePathString } from '../../utils/path-utils';
+import { samplePointsAlongSubPaths } from '../../utils/path-geometry-utils';
 import { pluginManager } from '../../core/PluginSystem';
 import type { Point, SVGCommand } from '../../types';
 import { pointsOnPath } from 'points-on-path';
@@ -151,19 +153,9 @@ export class SubPathTransformManager {
   }
 
   // Convert path string to points by sampling
-  private samplePathD(pathD: string, n: number, svgElement: SVGSVGElement): Point[] {
-    const tmp = document.createElementNS('http://www.w3.org/2000/svg', 'path');
-    tmp.setAttribute('d', pathD);
-    tmp.setAttribute('fill', 'none');
-    tmp.setAttribute('stroke', 'none');
-
-    svgElement.appendChild(tmp);
-
-    const len = (tmp as SVGPathElement).getTotalLength();
-    if (!isFinite(len) || len === 0) {
-      if (tmp.parentNode === svgElement) {
-        svgElement.removeChild(tmp);
-      }
+  private samplePathD(pathD: string, n: number): Point[] {
+    const sampled = samplePointsAlongSubPaths(parsePathString(pathD).subPaths, n);
+    if (sampled.length === 0) {
       // Return fallback points
       const pts: Point[] = [];
       const fallbackPoint = { x: 0, y: 0 };
@@ -173,17 +165,7 @@ export class SubPathTransformManager {
       return pts;
     }
 
-    const out: Point[] = [];
-    for (let i = 0; i < n; i++) {
-      const t = (i / (n - 1)) * len;
-      const pt = (tmp as SVGPathElement).getPointAtLength(t);
-      out.push({ x: Math.round(pt.x), y: Math.round(pt.y) });
-    }
-
-    if (tmp.parentNode === svgElement) {
-      svgElement.removeChild(tmp);
-    }
-    return out;
+    return sampled.map(pt => ({ x: Math.round(pt.x), y: Math.round(pt.y) }));
   }
 
   // Create morphing path data for animation - IDENTICAL to pencil
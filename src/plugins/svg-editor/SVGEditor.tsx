@@ -2,15 +2,22 @@ import React, { useState, useEffect, useRef, useMemo } from 'react';
 import { Plugin } from '../../core/PluginSystem';
 import { useEditorStore } from '../../store/editorStore';
 import { subPathToString } from '../../utils/path-utils';
-import { parseCompleteSVG } from '../../utils/svg-parser';
 import { SVGAnimation } from '../../types';
 import { calculateViewBoxFromSVGString } from '../../utils/viewbox-utils';
 import { PluginButton } from '../../components/PluginButton';
 import { SVGDropZone } from '../../components/SVGDropZone';
-import { SVGImportOptions, ImportSettings } from '../../components/SVGImportOptions';
+import { SVGImportOptions, ImportSettings, getImportAdjustments } from '../../components/SVGImportOptions';
+import { svgImportService } from '../../core/SVGImportService';
 import { AnimationTimer } from '../../components/AnimationRenderer';
-import { RotateCcw, CheckCircle2, Trash2, Upload, Download } from 'lucide-react';
-import { generateSVGCode as generateUnifiedSVG, downloadSVGFile } from '../../utils/svg-export';
+import { RotateCcw, CheckCircle2, Trash2, Upload, Download, Copy } from 'lucide-react';
+import { generateSVGCode as generateUnifiedSVG } from '../../utils/svg-export';
+import {
+  ExportTarget,
+  EXPORT_TARGETS,
+  generateExportTarget,
+  getExportTargetFileName,
+  downloadExportTarget
+} from '../../utils/component-export';
 import { getAllElementsByZIndex, initializeZIndexes } from '../../utils/z-index-manager';
 
 // Utility function to format file size
@@ -204,13 +211,30 @@ export const SVGComponent: React.FC = () => {
   const { paths, texts, textPaths, groups, gradients, images, symbols, markers, clipPaths, masks, filters, uses, viewport, replacePaths, replaceTexts, replaceTextPaths, replaceGroups, replaceImages, clearAllTexts, resetViewportCompletely, precision, setPrecision, setGradients, clearGradients, addText, addGradient, addImage, addSymbol, addMarker, addClipPath, addMask, addFilter, removeFilter, clearAllSVGElements, addUse, updateImage, animations, animationState, animationSync, addAnimation, removeAnimation, createAnimationChain, calculateChainDelays } = useEditorStore();
   const fileInputRef = useRef<HTMLInputElement>(null);
   
+  // Whether downloads keep editor-only data for re-import
+  const [includeEditorMetadata, setIncludeEditorMetadata] = useState(false);
+  // Whether repeated path styles are written as classes
+  const [useStyleClasses, setUseStyleClasses] = useState(false);
+
+  // Export target for download and copy
+  const [exportTarget, setExportTarget] = useState<ExportTarget>('svg');
+  const [componentName, setComponentName] = useState('SvgIcon');
+  const [useCurrentColor, setUseCurrentColor] = useState(true);
+
   // Import settings state
   const [importSettings, setImportSettings] = useState<ImportSettings>({
     mode: 'replace',
     preserveViewBox: true,
     autoAdjustViewport: true,
     validateBeforeImport: true,
-    showConfirmation: true
+    showConfirmation: true,
+    rescale: 'none',
+    targetUnit: 'px',
+    targetWidth: 512,
+    targetHeight: 512,
+    moveToOrigin: false,
+    roundCoordinates: false,
+    removeInvisible: false
   });
 
   const handleImportSettingsChange = (settings: ImportSettings) => {
@@ -223,7 +247,14 @@ export const SVGComponent: React.FC = () => {
       preserveViewBox: true,
       autoAdjustViewport: true,
       validateBeforeImport: true,
-      showConfirmation: true
+      showConfirmation: true,
+      rescale: 'none',
+      targetUnit: 'px',
+      targetWidth: 512,
+      targetHeight: 512,
+      moveToOrigin: false,
+      roundCoordinates: false,
+      removeInvisible: false
     });
   };
 
@@ -1649,7 +1680,15 @@ ${svgRootAnimationsHtml ? svgRootAnimationsHtml + '\n' : ''}${definitions}${allE
       }
 
       // Parse the complete SVG including paths, texts, textPaths, images, gradients, patterns, filters, groups, and animations
-      const { paths: newPaths, texts: newTexts, textPaths: newTextPaths, images: newImages, gradients: newGradients, filters: newFilters, groups: newGroups, animations: newAnimations, animationChains: newAnimationChains } = parseCompleteSVG(svgCode);
+      const importResult = svgImportService.importCompleteContent(svgCode, {
+        adjustments: getImportAdjustments(importSettings, precision)
+      });
+      if (!importResult.success || !importResult.data) {
+        alert(`Error parsing SVG code: ${importResult.errors.join('\n')}`);
+        return;
+      }
+      const importWarnings = importResult.warnings;
+      const { paths: newPaths, texts: newTexts, textPaths: newTextPaths, images: newImages, gradients: newGradients, filters: newFilters, groups: newGroups, animations: newAnimations, animationChains: newAnimationChains } = importResult.data;
       
       
       // Create a mapping of original filter IDs to new IDs for reference updates
@@ -1699,7 +1738,8 @@ ${svgRootAnimationsHtml ? svgRootAnimationsHtml + '\n' : ''}${definitions}${allE
         ].filter(Boolean).join(', ');
         
         const action = importSettings.mode === 'replace' ? 'replace all current content' : 'append to existing content';
-        const confirmMessage = `This will ${action} with: ${elementsInfo}. Continue?`;
+        const adjustmentsInfo = importWarnings.length > 0 ? `\n\nImport options:\n${importWarnings.join('\n')}` : '';
+        const confirmMessage = `This will ${action} with: ${elementsInfo}.${adjustmentsInfo}\n\nContinue?`;
         
         if (!confirm(confirmMessage)) {
           return;
@@ -1895,6 +1935,11 @@ ${svgRootAnimationsHtml ? svgRootAnimationsHtml + '\n' : ''}${definitions}${allE
         resetViewportCompletely();
       }
       
+      // Without a confirmation the import options have not been reported yet
+      if (!importSettings.showConfirmation && importWarnings.length > 0) {
+        alert(`Imported with import options:\n${importWarnings.join('\n')}`);
+      }
+      
       
     } catch (error) {
       console.error('Error parsing SVG:', error);
@@ -1965,15 +2010,34 @@ ${svgRootAnimationsHtml ? svgRootAnimationsHtml + '\n' : ''}${definitions}${allE
     event.target.value = '';
   };
 
-  const handleDownloadSVG = () => {
+  const generateExportContent = (): string => {
     // Use the unified SVG export function
     const editorState = { 
       paths, texts, textPaths, groups, gradients, images, symbols, markers, 
-      clipPaths, masks, filters, uses, animations, precision, calculateChainDelays 
+      clipPaths, masks, filters, uses, animations, animationSync, precision, calculateChainDelays 
     };
     
-    const svgContent = generateUnifiedSVG(editorState);
-    downloadSVGFile(svgContent, 'svg-editor-export.svg');
+    // Outside a page's text color currentColor is black, so only components use it
+    const isComponent = exportTarget === 'react' || exportTarget === 'vue';
+    // Editor data is only useful in files opened here again, and components recolor attributes, not classes
+    const svgContent = generateUnifiedSVG(editorState, {
+      includeEditorMetadata: includeEditorMetadata && exportTarget === 'svg',
+      useStyleClasses: useStyleClasses && !isComponent
+    });
+    return generateExportTarget(svgContent, exportTarget, { componentName, useCurrentColor: useCurrentColor && isComponent });
+  };
+
+  const handleDownloadSVG = () => {
+    const baseName = exportTarget === 'react' || exportTarget === 'vue' ? componentName : 'svg-editor-export';
+    downloadExportTarget(generateExportContent(), exportTarget, getExportTargetFileName(exportTarget, baseName));
+  };
+
+  const handleCopyExport = async () => {
+    try {
+      await navigator.clipboard.writeText(generateExportContent());
+    } catch (error) {
+      console.error('Failed to copy export:', error);
+    }
   };
 
 
@@ -2028,6 +2092,75 @@ ${svgRootAnimationsHtml ? svgRootAnimationsHtml + '\n' : ''}${definitions}${allE
         >
           <Download size={16} style={{ verticalAlign: 'middle' }} /> Download
         </button>
+        <div style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+          <select
+            value={exportTarget}
+            onChange={(e) => setExportTarget(e.target.value as ExportTarget)}
+            style={{ flex: 1, padding: '4px', fontSize: '11px', border: '1px solid #ddd', borderRadius: '4px' }}
+            title="Format used by Download and Copy"
+          >
+            {EXPORT_TARGETS.map(target => (
+              <option key={target.value} value={target.value}>{target.label}</option>
+            ))}
+          </select>
+          <button
+            type="button"
+            onClick={handleCopyExport}
+            disabled={paths.length === 0 && texts.length === 0 && groups.length === 0}
+            style={{ display: 'flex', alignItems: 'center', gap: '4px', padding: '4px 8px', fontSize: '11px', border: '1px solid #ddd', borderRadius: '4px', background: 'white', cursor: 'pointer' }}
+            title="Copy to clipboard"
+          >
+            <Copy size={12} /> Copy
+          </button>
+        </div>
+        {(exportTarget === 'react' || exportTarget === 'vue') && (
+          <input
+            type="text"
+            value={componentName}
+            onChange={(e) => setComponentName(e.target.value)}
+            placeholder="Component name"
+            style={{ padding: '4px', fontSize: '11px', border: '1px solid #ddd', borderRadius: '4px' }}
+          />
+        )}
+        {exportTarget === 'svg' && (
+          <label
+            style={{ display: 'flex', alignItems: 'center', gap: '6px', fontSize: '11px', color: '#666', cursor: 'pointer' }}
+            title="Subpaths, locks, group names and animation chains are restored when the file is opened here again"
+          >
+            <input
+              type="checkbox"
+              checked={includeEditorMetadata}
+              onChange={(e) => setIncludeEditorMetadata(e.target.checked)}
+            />
+            Keep editor data in download
+          </label>
+        )}
+        {exportTarget !== 'react' && exportTarget !== 'vue' && (
+          <label
+            style={{ display: 'flex', alignItems: 'center', gap: '6px', fontSize: '11px', color: '#666', cursor: 'pointer' }}
+            title="Paths that share fill and stroke settings reference one generated class instead of repeating the attributes"
+          >
+            <input
+              type="checkbox"
+              checked={useStyleClasses}
+              onChange={(e) => setUseStyleClasses(e.target.checked)}
+            />
+            Use CSS classes for repeated styles
+          </label>
+        )}
+        {(exportTarget === 'react' || exportTarget === 'vue') && (
+          <label
+            style={{ display: 'flex', alignItems: 'center', gap: '6px', fontSize: '11px', color: '#666', cursor: 'pointer' }}
+            title="Solid fill and stroke colors become currentColor so the surrounding text color or the color prop sets them"
+          >
+            <input
+              type="checkbox"
+              checked={useCurrentColor}
+              onChange={(e) => setUseCurrentColor(e.target.checked)}
+            />
+            Use currentColor
+          </label>
+        )}
       </div>
 
       
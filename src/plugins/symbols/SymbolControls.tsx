@@ -1,10 +1,17 @@
-import React, { useState } from 'react';
+import React, { useState, useRef } from 'react';
 import { useEditorStore } from '../../store/editorStore';
 import { createDefaultSymbol, createDefaultUse } from '../../utils/svg-elements-utils';
+import {
+  generateSpriteSheet,
+  parseSpriteSheet,
+  createSpritePreviewUses,
+  DEFAULT_SPRITE_FILE_NAME
+} from '../../utils/svg-sprite';
+import { downloadGroupSVG } from '../../utils/group-svg-utils';
 import { symbolManager } from './SymbolManager';
 import { PluginButton } from '../../components/PluginButton';
 import { ElementPreview } from '../../components/ElementPreview';
-import { Plus, Box, Users, MousePointer2 } from 'lucide-react';
+import { Plus, Box, Users, MousePointer2, Download, Upload } from 'lucide-react';
 
 export const SymbolControls: React.FC = () => {
   const { 
@@ -21,10 +28,14 @@ export const SymbolControls: React.FC = () => {
     removeUse,
     duplicateUse,
     removePath,
-    removeSubPath
+    removeSubPath,
+    addSpriteSymbols,
+    pushToHistory
   } = useEditorStore();
   
   const [activeTab, setActiveTab] = useState<'symbols' | 'instances'>('symbols');
+  const [spriteUsage, setSpriteUsage] = useState('');
+  const spriteInputRef = useRef<HTMLInputElement>(null);
 
   const selectedSymbol = selection.selectedSymbols.length === 1 
     ? symbols.find(symbol => symbol.id === selection.selectedSymbols[0])
@@ -166,6 +177,45 @@ export const SymbolControls: React.FC = () => {
     }
   };
 
+  const spriteSourceCount = selection.selectedGroups.length + selection.selectedSymbols.length;
+
+  const handleExportSprite = () => {
+    if (spriteSourceCount === 0) return;
+    const sprite = generateSpriteSheet(useEditorStore.getState(), {
+      groupIds: selection.selectedGroups,
+      symbolIds: selection.selectedSymbols,
+      fileName: DEFAULT_SPRITE_FILE_NAME
+    });
+    downloadGroupSVG(sprite.svg, DEFAULT_SPRITE_FILE_NAME);
+    setSpriteUsage(sprite.usage);
+  };
+
+  const handleImportSprite = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const state = useEditorStore.getState();
+      const existingIds = new Set([
+        ...state.symbols.map(symbol => symbol.id),
+        ...state.paths.map(path => path.id),
+        ...state.gradients.map(gradient => gradient.id)
+      ]);
+      const { symbols: importedSymbols, gradients } = parseSpriteSheet(await file.text(), existingIds);
+      if (importedSymbols.length === 0) {
+        alert('No symbols with drawable content were found in this file.');
+        return;
+      }
+      const origin = { x: viewport.viewBox.x + 20, y: viewport.viewBox.y + 20 };
+      pushToHistory('Import sprite sheet');
+      addSpriteSymbols(importedSymbols, createSpritePreviewUses(importedSymbols, origin), gradients);
+    } catch (error) {
+      console.error('Error importing sprite sheet:', error);
+      alert(`Error importing sprite sheet: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
   const handleCreateInstance = (symbolId: string) => {
     // Use default position (400, 300) for consistent placement
     const instanceData = createDefaultUse(`#${symbolId}`);
@@ -250,6 +300,70 @@ export const SymbolControls: React.FC = () => {
             </div>
           </div>
 
+          {/* Sprite Sheet */}
+          <div style={{ display: 'flex', flexDirection: 'column', gap: '6px' }}>
+            <span style={{ fontSize: '12px', color: '#666', fontWeight: '500' }}>
+              Sprite Sheet:
+            </span>
+            <div style={{ display: 'flex', flexDirection: 'column', gap: '6px' }}>
+              <PluginButton
+                icon={<Download size={12} />}
+                text={`Export Selected (${spriteSourceCount})`}
+                color={spriteSourceCount > 0 ? '#17a2b8' : '#6c757d'}
+                disabled={spriteSourceCount === 0}
+                tooltip="Selected groups and symbols become the symbols of one SVG file"
+                onPointerDown={handleExportSprite}
+              />
+              <PluginButton
+                icon={<Upload size={12} />}
+                text="Import Sprite"
+                color="#17a2b8"
+                onPointerDown={() => spriteInputRef.current?.click()}
+              />
+              <input
+                ref={spriteInputRef}
+                type="file"
+                accept=".svg,image/svg+xml"
+                onChange={handleImportSprite}
+                style={{ display: 'none' }}
+              />
+            </div>
+            {spriteUsage && (
+              <div style={{ display: 'flex', flexDirection: 'column', gap: '4px' }}>
+                <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+                  <span style={{ fontSize: '10px', color: '#666' }}>Usage</span>
+                  <button
+                    onClick={() => navigator.clipboard.writeText(spriteUsage).catch(error => console.error('Failed to copy:', error))}
+                    style={{
+                      padding: '2px 6px',
+                      fontSize: '10px',
+                      border: '1px solid #ddd',
+                      backgroundColor: '#fff',
+                      borderRadius: '3px',
+                      cursor: 'pointer'
+                    }}
+                  >
+                    Copy
+                  </button>
+                </div>
+                <textarea
+                  readOnly
+                  value={spriteUsage}
+                  rows={4}
+                  style={{
+                    width: '100%',
+                    padding: '4px',
+                    fontSize: '10px',
+                    fontFamily: 'monospace',
+                    border: '1px solid #ddd',
+                    borderRadius: '3px',
+                    resize: 'vertical'
+                  }}
+                />
+              </div>
+            )}
+          </div>
+
           {/* Symbol List */}
           {symbols.length > 0 && (
             <div style={{ display: 'flex', flexDirection: 'column', gap: '8px' }}>
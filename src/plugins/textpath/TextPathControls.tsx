@@ -2,6 +2,7 @@ import React, { useState, useEffect } from 'react';
 import { useEditorStore } from '../../store/editorStore';
 import { PluginButton } from '../../components/PluginButton';
 import { Type, Plus, Trash2, Link, RotateCcw, Settings, AlignLeft, AlignCenter, AlignRight } from 'lucide-react';
+import { getPathLength, getSubPathLength } from '../../utils/path-geometry-utils';
 
 export const TextPathControls: React.FC = () => {
   const { 
@@ -30,6 +31,17 @@ export const TextPathControls: React.FC = () => {
   const selectedTextPaths = textPaths.filter(tp => selection.selectedTextPaths.includes(tp.id));
   const selectedTextPath = selectedTextPaths.length === 1 ? selectedTextPaths[0] : null;
 
+  // Length of the referenced path (or subpath), used to bound the start offset
+  const referencedPathLength = (() => {
+    if (!selectedTextPath) return null;
+    const referencedPath = paths.find(path => path.id === selectedTextPath.pathRef);
+    if (referencedPath) return getPathLength(referencedPath);
+    const referencedSubPath = paths
+      .flatMap(path => path.subPaths)
+      .find(subPath => subPath.id === selectedTextPath.pathRef);
+    return referencedSubPath ? getSubPathLength(referencedSubPath) : null;
+  })();
+
   // Get available paths that can be used for textPath
   const availablePaths = paths.filter(path => path.subPaths.length > 0);
 
@@ -229,13 +241,16 @@ export const TextPathControls: React.FC = () => {
             )}
           </select>
 
-          <label style={labelStyle}>Start Offset:</label>
+          <label style={labelStyle}>
+            Start Offset{referencedPathLength !== null ? ` (path length: ${referencedPathLength.toFixed(1)})` : ''}:
+          </label>
           <input
             type="number"
             value={selectedTextPath.startOffset || 0}
             onChange={(e) => updateTextPathOffset(selectedTextPath.id, parseFloat(e.target.value) || 0)}
             style={inputStyle}
             min="0"
+            max={referencedPathLength !== null ? Math.floor(referencedPathLength) : undefined}
             step="1"
           />
 
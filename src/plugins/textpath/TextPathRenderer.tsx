@@ -2,6 +2,7 @@ import React, { useCallback } from 'react';
 import { useEditorStore } from '../../store/editorStore';
 import { SVGTextPath } from '../../types';
 import { subPathToString } from '../../utils/path-utils';
+import { getPathTransformAttribute } from '../../utils/path-transform-utils';
 import { useAnimationsForElement } from '../../components/AnimationRenderer';
 import { useTextEditMode } from '../../hooks/useTextEditMode';
 import { TextPathEditOverlay } from '../../components/TextPathEditOverlay';
@@ -132,7 +133,7 @@ const TextPathItem: React.FC<{ textPath: SVGTextPath }> = ({ textPath }) => {
     <g key={`textpath-${textPath.id}-v${renderVersion}`}>
       {/* Hidden path for text to follow */}
       <defs>
-        <path id={pathId} d={pathData} />
+        <path id={pathId} d={pathData} transform={getPathTransformAttribute(referencedPath)} />
       </defs>
 
       {/* Text following the path */}
@@ -1,9 +1,12 @@
 import { PointerEvent } from 'react';
 import { PointerEventHandler, PointerEventContext } from '../../core/PluginSystem';
 import { useEditorStore } from '../../store/editorStore';
-import { SVGCommand, Point } from '../../types';
+import { SVGCommand, SVGPath, Point } from '../../types';
 import { calculateGlobalViewBox } from '../../utils/viewbox-utils';
 import { subPathToString } from '../../utils/path-utils';
+import { transformArcParameters, matrixFromPointTransform } from '../../utils/arc-utils';
+import { invertMatrix, multiplyMatrices, transformPoint } from '../../utils/transform-utils';
+import { getPathTransformAttribute } from '../../utils/path-transform-utils';
 import { getControlPointSize, getMobileDetectionValues } from '../../hooks/useMobileDetection';
 import { calculateTextBoundsDOM } from '../../utils/text-utils';
 
@@ -57,6 +60,8 @@ interface TransformState {
   currentPoint: Point | null; // Track current pointer position during transform
   initialBounds: TransformBounds | null;
   initialCommands: { [commandId: string]: SVGCommand };
+  initialPathTransforms: { [pathId: string]: TransformMatrix }; // Whole paths transformed through their own matrix
+  commandPathTransforms: { [commandId: string]: TransformMatrix }; // Matrix of the path each transformed command is in
   initialTexts: { [textId: string]: any }; // Store initial text positions and properties
   initialTextPaths: { [textPathId: string]: any }; // Store initial textPath positions and properties
   initialImages: { [imageId: string]: any }; // Store initial image positions and properties
@@ -77,6 +82,8 @@ export class TransformManager {
     currentPoint: null,
     initialBounds: null,
     initialCommands: {},
+    initialPathTransforms: {},
+    commandPathTransforms: {},
     initialTexts: {},
     initialTextPaths: {},
     initialImages: {},
@@ -175,6 +182,7 @@ export class TransformManager {
           const pathData = subPathToString(subPath);
           if (pathData) {
             pathElement.setAttribute('d', pathData);
+            this.setPathTransformAttribute(pathElement, subPath.id, paths);
             tempSvg.appendChild(pathElement);
             hasContent = true;
           }
@@ -238,6 +246,7 @@ export class TransformManager {
           const pathData = subPathToString(tempSubPath);
           if (pathData) {
             pathElement.setAttribute('d', pathData);
+            this.setPathTransformAttribute(pathElement, subPathId, paths);
             tempSvg.appendChild(pathElement);
             hasContent = true;
           }
@@ -255,6 +264,7 @@ export class TransformManager {
           const pathData = subPathToString(subPath);
           if (pathData) {
             pathElement.setAttribute('d', pathData);
+            this.setPathTransformAttribute(pathElement, subPathId, paths);
             tempSvg.appendChild(pathElement);
             hasContent = true;
           }
@@ -760,6 +770,30 @@ export class TransformManager {
     return null;
   }
 
+  private findPathBySubPathId(subPathId: string, paths: SVGPath[]): SVGPath | null {
+    return paths.find(path => path.subPaths.some(subPath => subPath.id === subPathId)) || null;
+  }
+
+  // Subpaths of paths with their own matrix are measured through it
+  private setPathTransformAttribute(element: Element, subPathId: string, paths: SVGPath[]) {
+    const path = this.findPathBySubPathId(subPathId, paths);
+    const transform = path ? getPathTransformAttribute(path) : undefined;
+    if (transform) {
+      element.setAttribute('transform', transform);
+    }
+  }
+
+  // Express a canvas point transform in the local space of a path matrix
+  private toLocalTransform(transform: (x: number, y: number) => Point, matrix: TransformMatrix): (x: number, y: number) => Point {
+    const inverse = invertMatrix(matrix);
+    if (!inverse) return transform;
+    return (x: number, y: number) => {
+      const canvasPoint = transformPoint(x, y, matrix);
+      const transformed = transform(canvasPoint.x, canvasPoint.y);
+      return transformPoint(transformed.x, transformed.y, inverse);
+    };
+  }
+
   private findSubPathByCommandId(commandId: string, paths: any[]): any | null {
     for (const path of paths) {
       for (const subPath of path.subPaths) {
@@ -835,9 +869,12 @@ export class TransformManager {
     
     // Store initial command positions
     this.state.initialCommands = {};
+    this.state.initialPathTransforms = {};
+    this.state.commandPathTransforms = {};
     this.storeInitialCommands();
 
-    // Save to history
+    // Save to history; the whole transformation is one undo step
+    store.beginTransaction(this.state.mode === 'rotate' ? 'Rotate selection' : 'Scale selection');
     store.pushToHistory();
     
     // Hide floating toolbar during transformation
@@ -1052,33 +1089,55 @@ export class TransformManager {
 
   private applyTransformToCommands(transform: (x: number, y: number) => Point) {
     const store = this.editorStore || useEditorStore.getState();
-    const { updateCommand, updateText, updateTextPathStyle, updateImage, updateUse } = store;
+    const { updateCommand, updateText, updateTextPathStyle, updateImage, updateUse, setPathTransform } = store;
+
+    // Whole paths keep their commands and compose the transform onto their matrix
+    const pathIds = Object.keys(this.state.initialPathTransforms);
+    if (pathIds.length > 0) {
+      const operation = matrixFromPointTransform(transform);
+      for (const pathId of pathIds) {
+        setPathTransform(pathId, multiplyMatrices(operation, this.state.initialPathTransforms[pathId]));
+      }
+    }
 
     // Transform selected commands
     for (const commandId of Object.keys(this.state.initialCommands)) {
       const initialCommand = this.state.initialCommands[commandId];
       const updates: Partial<SVGCommand> = {};
+      const pathTransform = this.state.commandPathTransforms[commandId];
+      const commandTransform = pathTransform ? this.toLocalTransform(transform, pathTransform) : transform;
 
       // Transform main point
       if (initialCommand.x !== undefined && initialCommand.y !== undefined) {
-        const transformed = transform(initialCommand.x, initialCommand.y);
+        const transformed = commandTransform(initialCommand.x, initialCommand.y);
         updates.x = transformed.x;
         updates.y = transformed.y;
       }
 
       // Transform control points
       if (initialCommand.x1 !== undefined && initialCommand.y1 !== undefined) {
-        const transformed = transform(initialCommand.x1, initialCommand.y1);
+        const transformed = commandTransform(initialCommand.x1, initialCommand.y1);
         updates.x1 = transformed.x;
         updates.y1 = transformed.y;
       }
 
       if (initialCommand.x2 !== undefined && initialCommand.y2 !== undefined) {
-        const transformed = transform(initialCommand.x2, initialCommand.y2);
+        const transformed = commandTransform(initialCommand.x2, initialCommand.y2);
         updates.x2 = transformed.x;
         updates.y2 = transformed.y;
       }
 
+      // Arc radii, rotation and sweep follow the linear part of the transform
+      if (initialCommand.command === 'A' && initialCommand.rx !== undefined && initialCommand.ry !== undefined) {
+        Object.assign(updates, transformArcParameters({
+          rx: initialCommand.rx,
+          ry: initialCommand.ry,
+          xAxisRotation: initialCommand.xAxisRotation ?? 0,
+          largeArcFlag: initialCommand.largeArcFlag ? 1 : 0,
+          sweepFlag: initialCommand.sweepFlag ? 1 : 0
+        }, matrixFromPointTransform(commandTransform)));
+      }
+
       // Apply updates
       if (Object.keys(updates).length > 0) {
         updateCommand(commandId, updates);
@@ -1534,6 +1593,8 @@ export class TransformManager {
       // Any transformations should be applied to the path itself
     }
 
+    store.commitTransaction();
+
     this.state.isTransforming = false;
     this.state.mode = null;
     this.state.activeHandle = null;
@@ -1541,6 +1602,8 @@ export class TransformManager {
     this.state.currentPoint = null;
     this.state.initialBounds = null;
     this.state.initialCommands = {};
+    this.state.initialPathTransforms = {};
+    this.state.commandPathTransforms = {};
     this.state.initialTexts = {};
     this.state.initialTextPaths = {};
     this.state.initialImages = {};
@@ -1557,6 +1620,15 @@ export class TransformManager {
     const store = this.editorStore || useEditorStore.getState();
     const { selection, paths, texts, textPaths, images, uses } = store;
 
+    // Fully selected paths that already have a matrix keep using it, and so do
+    // rotated live shapes, which would otherwise turn into plain paths
+    for (const path of paths as SVGPath[]) {
+      const usesMatrix = path.transform || (path.shape && this.state.mode === 'rotate');
+      if (usesMatrix && path.subPaths.every(subPath => selection.selectedSubPaths.includes(subPath.id))) {
+        this.state.initialPathTransforms[path.id] = path.transform ?? { a: 1, b: 0, c: 0, d: 1, e: 0, f: 0 };
+      }
+    }
+
     // Store selected commands
     for (const commandId of selection.selectedCommands) {
       const command = this.findCommandById(commandId, paths);
@@ -1568,13 +1640,23 @@ export class TransformManager {
     // Store commands from selected subpaths
     for (const subPathId of selection.selectedSubPaths) {
       const subPath = this.findSubPathById(subPathId, paths);
-      if (subPath) {
+      const path = this.findPathBySubPathId(subPathId, paths);
+      if (subPath && !(path && this.state.initialPathTransforms[path.id])) {
         for (const command of subPath.commands) {
           this.state.initialCommands[command.id] = { ...command };
         }
       }
     }
 
+    // Commands of paths with a matrix are transformed in its local space
+    for (const commandId of Object.keys(this.state.initialCommands)) {
+      const subPath = this.findSubPathByCommandId(commandId, paths);
+      const path = subPath ? this.findPathBySubPathId(subPath.id, paths) : null;
+      if (path?.transform) {
+        this.state.commandPathTransforms[commandId] = path.transform;
+      }
+    }
+
     // Store selected texts
     if (selection.selectedTexts) {
       for (const textId of selection.selectedTexts) {
@@ -3,8 +3,9 @@ import { Plugin } from '../../core/PluginSystem';
 import { useEditorStore } from '../../store/editorStore';
 import { Undo2, Redo2, Clock, Eye } from 'lucide-react';
 import { PluginButton } from '../../components/PluginButton';
-import { EditorState } from '../../types';
+import { HistoryState } from '../../types';
 import { HistoryModal } from '../../components/HistoryModal';
+import { getHistoryTimeline, takeHistorySnapshot } from '../../utils/history-utils';
 import { CONFIG } from '../../config/constants';
 import { useMobileDetection } from '../../hooks/useMobileDetection';
 
@@ -16,23 +17,14 @@ interface UndoRedoControlsProps {
 }
 
 interface HistoryItem {
-  state: EditorState;
+  label?: string;
   timestamp: number;
   isCurrent: boolean;
   index: number;
 }
 
 interface HistoryViewerProps {
-  history: {
-    past: EditorState[];
-    present: EditorState;
-    future: EditorState[];
-    timestamps?: {
-      past: number[];
-      present: number;
-      future: number[];
-    };
-  };
+  history: HistoryState;
   onJumpToState: (index: number) => void;
 }
 
@@ -116,6 +108,11 @@ const HistoryItemComponent = React.memo<HistoryItemComponentProps>(({
             color: item.isCurrent ? '#1f2937' : '#4b5563'
           }}>
             #{item.index + 1}
+            {item.label && (
+              <span style={{ marginLeft: '6px', fontWeight: 400 }}>
+                {item.label}
+              </span>
+            )}
             {item.isCurrent && (
               <span style={{ 
                 marginLeft: '6px',
@@ -174,6 +171,7 @@ const HistoryItemComponent = React.memo<HistoryItemComponentProps>(({
 }, (prevProps, nextProps) => {
   return (
     prevProps.item.index === nextProps.item.index &&
+    prevProps.item.label === nextProps.item.label &&
     prevProps.item.timestamp === nextProps.item.timestamp &&
     prevProps.item.isCurrent === nextProps.item.isCurrent &&
     prevProps.index === nextProps.index &&
@@ -192,15 +190,11 @@ const HistoryViewerCore: React.FC<HistoryViewerProps> = ({ history, onJumpToStat
   // Combine all states with metadata
   const allStates: HistoryItem[] = React.useMemo(() => {
     const items: HistoryItem[] = [];
-    const timestamps = history.timestamps;
-    const now = Date.now();
-    
     // Add future states (in reverse order since they're ahead of current)
-    history.future.forEach((state, index) => {
-      const timestamp = timestamps?.future[index] || (now + (index + 1) * 1000);
+    history.future.forEach((entry, index) => {
       items.unshift({
-        state,
-        timestamp,
+        label: entry.label,
+        timestamp: entry.timestamp,
         isCurrent: false,
         index: history.past.length + 1 + index
       });
@@ -208,31 +202,37 @@ const HistoryViewerCore: React.FC<HistoryViewerProps> = ({ history, onJumpToStat
     
     // Add current state
     items.push({
-      state: history.present,
-      timestamp: timestamps?.present || now,
+      label: history.presentLabel,
+      timestamp: history.presentTimestamp,
       isCurrent: true,
       index: history.past.length
     });
     
     // Add past states (most recent first)
-    history.past.slice().reverse().forEach((state, index) => {
-      const timestampIndex = history.past.length - 1 - index;
-      const timestamp = timestamps?.past[timestampIndex] || (now - (index + 1) * 1000);
+    history.past.slice().reverse().forEach((entry, index) => {
       items.push({
-        state,
-        timestamp,
+        label: entry.label,
+        timestamp: entry.timestamp,
         isCurrent: false,
-        index: timestampIndex
+        index: history.past.length - 1 - index
       });
     });
     
     return items;
   }, [history]);
 
-  // Get all history states for modal (past + present + future)
+  // Rebuild the states for the modal (past + current + future) only while it is open
   const allHistoryStates = React.useMemo(() => {
-    return [...history.past, history.present, ...history.future];
-  }, [history]);
+    if (selectedStateIndex === null) return [];
+    return getHistoryTimeline(history, takeHistorySnapshot(useEditorStore.getState()));
+  }, [history, selectedStateIndex]);
+
+  // Labels of the same states, in timeline order
+  const allHistoryLabels = React.useMemo(() => [
+    ...history.past.map(entry => entry.label),
+    history.presentLabel,
+    ...history.future.map(entry => entry.label)
+  ], [history]);
 
   // Current state index in the complete history
   const currentStateIndex = history.past.length;
@@ -262,7 +262,9 @@ const HistoryViewerCore: React.FC<HistoryViewerProps> = ({ history, onJumpToStat
       {selectedStateIndex !== null && (
         <HistoryModal
           historyStates={allHistoryStates}
+          historyLabels={allHistoryLabels}
           currentStateIndex={currentStateIndex}
+          onJumpToState={onJumpToState}
           selectedStateIndex={selectedStateIndex}
           onClose={() => {
             setIsModalOpen(false);
@@ -318,11 +320,8 @@ export const HistoryViewer = React.memo(HistoryViewerCore, (prevProps, nextProps
     return false; // Re-render
   }
   
-  // Check if timestamps changed (shallow comparison should be sufficient)
-  const prevTimestamps = prevHistory.timestamps;
-  const nextTimestamps = nextHistory.timestamps;
-  
-  if (prevTimestamps?.present !== nextTimestamps?.present) {
+  // Check if the current timestamp changed
+  if (prevHistory.presentTimestamp !== nextHistory.presentTimestamp) {
     return false; // Re-render
   }
   
@@ -370,27 +369,7 @@ export const UndoRedoComponent: React.FC = () => {
   const { history, undo, redo } = useEditorStore();
   
   const handleJumpToState = (targetIndex: number) => {
-    const store = useEditorStore.getState();
-    const currentIndex = store.history.past.length;
-    
-    if (targetIndex === currentIndex) {
-      // Already at this state
-      return;
-    }
-    
-    if (targetIndex < currentIndex) {
-      // Need to undo to reach target
-      const undoSteps = currentIndex - targetIndex;
-      for (let i = 0; i < undoSteps; i++) {
-        store.undo();
-      }
-    } else {
-      // Need to redo to reach target
-      const redoSteps = targetIndex - currentIndex;
-      for (let i = 0; i < redoSteps; i++) {
-        store.redo();
-      }
-    }
+    useEditorStore.getState().jumpToHistoryStep(targetIndex);
   };
   
   return (
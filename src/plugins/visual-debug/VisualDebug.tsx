@@ -5,6 +5,7 @@ import { getAbsoluteCommandPosition } from '../../utils/path-utils';
 import { useMobileDetection, getControlPointSize, getInteractionRadius } from '../../hooks/useMobileDetection';
 import { stickyPointsManager } from '../pointer-interaction/StickyPointsManager';
 import { transformManager } from '../transform/TransformManager';
+import { getCanvasSubPaths } from '../../utils/path-transform-utils';
 
 // Memoized SVG components for command points optimization
 interface CommandPointCircleProps {
@@ -874,89 +875,103 @@ const CommandPointsRendererCore: React.FC = React.memo(() => {
     return null;
   }
 
+  // Points of a path with its own transform are drawn at their canvas position,
+  // so the markers keep their size and match the hit areas
+  const canvasPaths = paths.map(path => ({ ...path, subPaths: getCanvasSubPaths(path) }));
+
   return (
     <>
       <StickyVisualFeedback />
-      {paths.map((path) => 
-        path.subPaths.map((subPath) => {
-          // No mostrar puntos para subpaths bloqueados
-          if (subPath.locked) return null;
+      {canvasPaths.map((path) => (
+        <g key={`path-points-${path.id}`}>
+          {path.subPaths.map((subPath) => {
+            // No mostrar puntos para subpaths bloqueados
+            if (subPath.locked) return null;
           
-          // NEVER show command points for subpaths in groups during subpath-edit mode
-          if (isSubpathEditMode && isPathInGroup(path.id)) {
-            return null;
-          }
-          const isSubPathSelected = selection.selectedSubPaths.includes(subPath.id);
-          // Si hidePointsInSelect está activo y el subpath está seleccionado, no mostrar puntos
-          if (enabledFeatures.hidePointsInSelect && isSubPathSelected) return null;
-          // Check if any command in this subpath is selected
-          const hasSelectedCommandInSubPath = subPath.commands.some(cmd => 
-            selection.selectedCommands.includes(cmd.id)
-          );
+            // NEVER show command points for subpaths in groups during subpath-edit mode
+            if (isSubpathEditMode && isPathInGroup(path.id)) {
+              return null;
+            }
+            const isSubPathSelected = selection.selectedSubPaths.includes(subPath.id);
+            // Si hidePointsInSelect está activo y el subpath está seleccionado, no mostrar puntos
+            if (enabledFeatures.hidePointsInSelect && isSubPathSelected) return null;
+            // Check if any command in this subpath is selected
+            const hasSelectedCommandInSubPath = subPath.commands.some(cmd => 
+              selection.selectedCommands.includes(cmd.id)
+            );
           
-          // Check if first and last commands coincide (guard against empty commands array)
-          const firstCommand = subPath.commands.length > 0 ? subPath.commands[0] : null;
-          const lastCommand = subPath.commands.length > 0 ? subPath.commands[subPath.commands.length - 1] : null;
-          const firstPosition = firstCommand ? getAbsoluteCommandPosition(firstCommand, subPath, path.subPaths) : null;
-          const lastPosition = lastCommand ? getAbsoluteCommandPosition(lastCommand, subPath, path.subPaths) : null;
-          const pointsCoincide = firstPosition && lastPosition && 
-            Math.abs(firstPosition.x - lastPosition.x) < 0.1 && 
-            Math.abs(firstPosition.y - lastPosition.y) < 0.1;
+            // Check if first and last commands coincide (guard against empty commands array)
+            const firstCommand = subPath.commands.length > 0 ? subPath.commands[0] : null;
+            const lastCommand = subPath.commands.length > 0 ? subPath.commands[subPath.commands.length - 1] : null;
+            const firstPosition = firstCommand ? getAbsoluteCommandPosition(firstCommand, subPath, path.subPaths) : null;
+            const lastPosition = lastCommand ? getAbsoluteCommandPosition(lastCommand, subPath, path.subPaths) : null;
+            const pointsCoincide = firstPosition && lastPosition && 
+              Math.abs(firstPosition.x - lastPosition.x) < 0.1 && 
+              Math.abs(firstPosition.y - lastPosition.y) < 0.1;
 
-          // Check if there's a Z command in this subpath (declare early)
-          const hasZCommand = subPath.commands.some(cmd => cmd.command === 'Z');
+            // Check if there's a Z command in this subpath (declare early)
+            const hasZCommand = subPath.commands.some(cmd => cmd.command === 'Z');
 
-          return subPath.commands.map((command, commandIndex) => {
-            // Handle Z commands specially - they don't have their own position
-            const isZCommand = command.command === 'Z';
+            return subPath.commands.map((command, commandIndex) => {
+              // Handle Z commands specially - they don't have their own position
+              const isZCommand = command.command === 'Z';
             
-            // Get command selection status - needed for visibility rules and rendering
-            const isCommandSelected = selection.selectedCommands.includes(command.id);
+              // Get command selection status - needed for visibility rules and rendering
+              const isCommandSelected = selection.selectedCommands.includes(command.id);
             
-            let position = null;
-            if (isZCommand) {
-              // Show Z commands using consolidated visibility rules
-              const isZCommandSelected = isCommandSelected; // Use the same value
-              const shouldShowZCommand = shouldShowCommandPoint(command.id, subPath, isZCommandSelected, isSubPathSelected, hasSelectedCommandInSubPath);
-              if (!shouldShowZCommand) return null;
-              // Z commands don't have position, skip position-based checks
-            } else {
-              position = getAbsoluteCommandPosition(command, subPath, path.subPaths);
-              if (!position) return null;
+              let position = null;
+              if (isZCommand) {
+                // Show Z commands using consolidated visibility rules
+                const isZCommandSelected = isCommandSelected; // Use the same value
+                const shouldShowZCommand = shouldShowCommandPoint(command.id, subPath, isZCommandSelected, isSubPathSelected, hasSelectedCommandInSubPath);
+                if (!shouldShowZCommand) return null;
+                // Z commands don't have position, skip position-based checks
+              } else {
+                position = getAbsoluteCommandPosition(command, subPath, path.subPaths);
+                if (!position) return null;
               
-              // Use consolidated visibility rules FIRST
-              const shouldShowCommand = shouldShowCommandPoint(command.id, subPath, isCommandSelected, isSubPathSelected, hasSelectedCommandInSubPath);
-              if (!shouldShowCommand) return null;
+                // Use consolidated visibility rules FIRST
+                const shouldShowCommand = shouldShowCommandPoint(command.id, subPath, isCommandSelected, isSubPathSelected, hasSelectedCommandInSubPath);
+                if (!shouldShowCommand) return null;
               
-              // Viewport culling removed - keep all points visible to avoid issues during drag
-            }
+                // Viewport culling removed - keep all points visible to avoid issues during drag
+              }
             
-            // Determine if this is the first or last command in the subpath
-            const isFirstCommand = commandIndex === 0;
-            const isLastCommand = commandIndex === subPath.commands.length - 1;
+              // Determine if this is the first or last command in the subpath
+              const isFirstCommand = commandIndex === 0;
+              const isLastCommand = commandIndex === subPath.commands.length - 1;
             
-            // Handle Z commands specially - they close the path
-            if (isZCommand) {
-              // Z commands are positioned at the first command's position
-              if (!firstCommand) return null;
-              const firstCommandPosition = getAbsoluteCommandPosition(firstCommand, subPath, path.subPaths);
-              if (!firstCommandPosition) return null;
+              // Handle Z commands specially - they close the path
+              if (isZCommand) {
+                // Z commands are positioned at the first command's position
+                if (!firstCommand) return null;
+                const firstCommandPosition = getAbsoluteCommandPosition(firstCommand, subPath, path.subPaths);
+                if (!firstCommandPosition) return null;
               
-              // Calculate direction for Z command split using tangent calculation
-              let zDirectionAngle = 0;
-              if (subPath.commands.length >= 2) {
-                const secondCommand = subPath.commands[1];
+                // Calculate direction for Z command split using tangent calculation
+                let zDirectionAngle = 0;
+                if (subPath.commands.length >= 2) {
+                  const secondCommand = subPath.commands[1];
                 
-                // For different command types, calculate the tangent differently
-                if (secondCommand.command === 'C') {
-                  // For cubic Bézier curves, use the first control point to determine tangent
-                  if (secondCommand.x1 !== undefined && secondCommand.y1 !== undefined) {
-                    // Tangent direction from first point to first control point
-                    const dx = secondCommand.x1 - firstCommandPosition.x;
-                    const dy = secondCommand.y1 - firstCommandPosition.y;
-                    zDirectionAngle = Math.atan2(dy, dx);
+                  // For different command types, calculate the tangent differently
+                  if (secondCommand.command === 'C') {
+                    // For cubic Bézier curves, use the first control point to determine tangent
+                    if (secondCommand.x1 !== undefined && secondCommand.y1 !== undefined) {
+                      // Tangent direction from first point to first control point
+                      const dx = secondCommand.x1 - firstCommandPosition.x;
+                      const dy = secondCommand.y1 - firstCommandPosition.y;
+                      zDirectionAngle = Math.atan2(dy, dx);
+                    } else {
+                      // Fallback to end point if no control point
+                      const secondPosition = getAbsoluteCommandPosition(secondCommand, subPath, path.subPaths);
+                      if (secondPosition) {
+                        const dx = secondPosition.x - firstCommandPosition.x;
+                        const dy = secondPosition.y - firstCommandPosition.y;
+                        zDirectionAngle = Math.atan2(dy, dx);
+                      }
+                    }
                   } else {
-                    // Fallback to end point if no control point
+                    // For L, M, and other commands, use direct line to the point
                     const secondPosition = getAbsoluteCommandPosition(secondCommand, subPath, path.subPaths);
                     if (secondPosition) {
                       const dx = secondPosition.x - firstCommandPosition.x;
@@ -964,231 +979,231 @@ const CommandPointsRendererCore: React.FC = React.memo(() => {
                       zDirectionAngle = Math.atan2(dy, dx);
                     }
                   }
-                } else {
-                  // For L, M, and other commands, use direct line to the point
-                  const secondPosition = getAbsoluteCommandPosition(secondCommand, subPath, path.subPaths);
-                  if (secondPosition) {
-                    const dx = secondPosition.x - firstCommandPosition.x;
-                    const dy = secondPosition.y - firstCommandPosition.y;
-                    zDirectionAngle = Math.atan2(dy, dx);
-                  }
                 }
-              }
               
-              // Use same radius calculation as coincidence case (with 30% larger for initial)
-              let zRadius = baseRadius * visualDebugSizes.globalFactor * visualDebugSizes.commandPointsFactor;
-              zRadius *= 1.3; // Same 30% larger as initial points
+                // Use same radius calculation as coincidence case (with 30% larger for initial)
+                let zRadius = baseRadius * visualDebugSizes.globalFactor * visualDebugSizes.commandPointsFactor;
+                zRadius *= 1.3; // Same 30% larger as initial points
               
-              // Calculate perpendicular angle for the split line
-              const zSplitAngle = zDirectionAngle + Math.PI / 2;
+                // Calculate perpendicular angle for the split line
+                const zSplitAngle = zDirectionAngle + Math.PI / 2;
               
-              // Calculate split line endpoints
-              const zSplitX1 = firstCommandPosition.x + Math.cos(zSplitAngle) * zRadius;
-              const zSplitY1 = firstCommandPosition.y + Math.sin(zSplitAngle) * zRadius;
-              const zSplitX2 = firstCommandPosition.x - Math.cos(zSplitAngle) * zRadius;
-              const zSplitY2 = firstCommandPosition.y - Math.sin(zSplitAngle) * zRadius;
+                // Calculate split line endpoints
+                const zSplitX1 = firstCommandPosition.x + Math.cos(zSplitAngle) * zRadius;
+                const zSplitY1 = firstCommandPosition.y + Math.sin(zSplitAngle) * zRadius;
+                const zSplitX2 = firstCommandPosition.x - Math.cos(zSplitAngle) * zRadius;
+                const zSplitY2 = firstCommandPosition.y - Math.sin(zSplitAngle) * zRadius;
               
-              // Use the same split visual logic as coinciding points
-              const firstCommandSelected = selection.selectedCommands.includes(firstCommand.id);
-              const zCommandSelected = selection.selectedCommands.includes(command.id);
+                // Use the same split visual logic as coinciding points
+                const firstCommandSelected = selection.selectedCommands.includes(firstCommand.id);
+                const zCommandSelected = selection.selectedCommands.includes(command.id);
               
-              // Apply temporary hack logic for Z commands (same as other command points) - OPTIMIZED
-              const isDraggingFirstCommand = dragState.isMoving && dragState.draggingCommandId === firstCommand.id;
-              const isDraggingZCommand = dragState.isMoving && dragState.draggingCommandId === command.id;
-              const isDraggingMultipleFirst = dragState.isMoving && dragState.draggingCommandId && firstCommandSelected;
-              const isDraggingMultipleZ = dragState.isMoving && dragState.draggingCommandId && zCommandSelected;
+                // Apply temporary hack logic for Z commands (same as other command points) - OPTIMIZED
+                const isDraggingFirstCommand = dragState.isMoving && dragState.draggingCommandId === firstCommand.id;
+                const isDraggingZCommand = dragState.isMoving && dragState.draggingCommandId === command.id;
+                const isDraggingMultipleFirst = dragState.isMoving && dragState.draggingCommandId && firstCommandSelected;
+                const isDraggingMultipleZ = dragState.isMoving && dragState.draggingCommandId && zCommandSelected;
               
-              const needsTemporaryHackFirst = isDraggingFirstCommand || isDraggingMultipleFirst;
-              const needsTemporaryHackZ = isDraggingZCommand || isDraggingMultipleZ;
-              const needsTemporaryHackEither = needsTemporaryHackFirst || needsTemporaryHackZ;
+                const needsTemporaryHackFirst = isDraggingFirstCommand || isDraggingMultipleFirst;
+                const needsTemporaryHackZ = isDraggingZCommand || isDraggingMultipleZ;
+                const needsTemporaryHackEither = needsTemporaryHackFirst || needsTemporaryHackZ;
               
-              return (
-                <g key={`command-z-${command.id}`}>
-                  <g transform={`translate(${firstCommandPosition.x},${firstCommandPosition.y}) scale(${1 / viewport.zoom}) translate(${-firstCommandPosition.x},${-firstCommandPosition.y})`}>
-                    {/* Normal rendering - hide during drag to avoid sync issues */}
-                    {!needsTemporaryHackEither && (
-                      <>
-                        {/* Visual first half (red) for Z command */}
-                        <path
-                          d={`M ${firstCommandPosition.x} ${firstCommandPosition.y} L ${zSplitX1} ${zSplitY1} A ${zRadius} ${zRadius} 0 0 1 ${zSplitX2} ${zSplitY2} Z`}
-                          fill="#ef4444"
-                          stroke="#dc2626"
-                          strokeWidth={1}
-                          vectorEffect="non-scaling-stroke"
-                          style={{ 
-                            pointerEvents: 'none',
-                            opacity: 0.9
-                          }}
-                          className="command-point"
-                        />
-                        {/* Visual second half (green) for initial M command */}
-                        <path
-                          d={`M ${firstCommandPosition.x} ${firstCommandPosition.y} L ${zSplitX2} ${zSplitY2} A ${zRadius} ${zRadius} 0 0 1 ${zSplitX1} ${zSplitY1} Z`}
-                          fill="#22c55e"
-                          stroke="#16a34a"
-                          strokeWidth={1}
-                          vectorEffect="non-scaling-stroke"
-                          style={{ 
-                            pointerEvents: 'none',
-                            opacity: 0.9
-                          }}
-                          className="command-point"
-                        />
-                      </>
-                    )}
+                return (
+                  <g key={`command-z-${command.id}`}>
+                    <g transform={`translate(${firstCommandPosition.x},${firstCommandPosition.y}) scale(${1 / viewport.zoom}) translate(${-firstCommandPosition.x},${-firstCommandPosition.y})`}>
+                      {/* Normal rendering - hide during drag to avoid sync issues */}
+                      {!needsTemporaryHackEither && (
+                        <>
+                          {/* Visual first half (red) for Z command */}
+                          <path
+                            d={`M ${firstCommandPosition.x} ${firstCommandPosition.y} L ${zSplitX1} ${zSplitY1} A ${zRadius} ${zRadius} 0 0 1 ${zSplitX2} ${zSplitY2} Z`}
+                            fill="#ef4444"
+                            stroke="#dc2626"
+                            strokeWidth={1}
+                            vectorEffect="non-scaling-stroke"
+                            style={{ 
+                              pointerEvents: 'none',
+                              opacity: 0.9
+                            }}
+                            className="command-point"
+                          />
+                          {/* Visual second half (green) for initial M command */}
+                          <path
+                            d={`M ${firstCommandPosition.x} ${firstCommandPosition.y} L ${zSplitX2} ${zSplitY2} A ${zRadius} ${zRadius} 0 0 1 ${zSplitX1} ${zSplitY1} Z`}
+                            fill="#22c55e"
+                            stroke="#16a34a"
+                            strokeWidth={1}
+                            vectorEffect="non-scaling-stroke"
+                            style={{ 
+                              pointerEvents: 'none',
+                              opacity: 0.9
+                            }}
+                            className="command-point"
+                          />
+                        </>
+                      )}
                     
-                    {/* Temporary sync-friendly rendering during drag (hack!) */}
-                    {needsTemporaryHackEither && (
-                      <>
-                        {/* Visual first half (red) for Z command - DEBUG: café si necesita hack */}
-                        <path
-                          key={`temp-z-visual-${command.id}-${Date.now()}`}
-                          d={`M ${firstCommandPosition.x} ${firstCommandPosition.y} L ${zSplitX1} ${zSplitY1} A ${zRadius} ${zRadius} 0 0 1 ${zSplitX2} ${zSplitY2} Z`}
-                          fill={needsTemporaryHackZ ? "#8B4513" : "#ef4444"} // Café si Z necesita hack, rojo normal
-                          stroke={needsTemporaryHackZ ? "#654321" : "#dc2626"} // Borde café oscuro si Z necesita hack
-                          strokeWidth={1}
-                          vectorEffect="non-scaling-stroke"
-                          style={{ 
-                            pointerEvents: 'none',
-                            opacity: 0.9
-                          }}
-                          data-temp-hack="true"
-                          data-command-id={command.id}
-                          data-temp-type="z-visual"
-                        />
-                        {/* Visual second half (green) for initial M command - DEBUG: amarillo si necesita hack */}
-                        <path
-                          key={`temp-m-visual-${command.id}-${Date.now()}`}
-                          d={`M ${firstCommandPosition.x} ${firstCommandPosition.y} L ${zSplitX2} ${zSplitY2} A ${zRadius} ${zRadius} 0 0 1 ${zSplitX1} ${zSplitY1} Z`}
-                          fill={needsTemporaryHackFirst ? "#FFD700" : "#22c55e"} // Amarillo si M necesita hack, verde normal
-                          stroke={needsTemporaryHackFirst ? "#FFA500" : "#16a34a"} // Borde naranja si M necesita hack
-                          strokeWidth={1}
-                          vectorEffect="non-scaling-stroke"
-                          style={{ 
-                            pointerEvents: 'none',
-                            opacity: 0.9
-                          }}
-                          data-temp-hack="true"
-                          data-command-id={command.id}
-                          data-temp-type="m-visual"
-                        />
-                      </>
-                    )}
+                      {/* Temporary sync-friendly rendering during drag (hack!) */}
+                      {needsTemporaryHackEither && (
+                        <>
+                          {/* Visual first half (red) for Z command - DEBUG: café si necesita hack */}
+                          <path
+                            key={`temp-z-visual-${command.id}-${Date.now()}`}
+                            d={`M ${firstCommandPosition.x} ${firstCommandPosition.y} L ${zSplitX1} ${zSplitY1} A ${zRadius} ${zRadius} 0 0 1 ${zSplitX2} ${zSplitY2} Z`}
+                            fill={needsTemporaryHackZ ? "#8B4513" : "#ef4444"} // Café si Z necesita hack, rojo normal
+                            stroke={needsTemporaryHackZ ? "#654321" : "#dc2626"} // Borde café oscuro si Z necesita hack
+                            strokeWidth={1}
+                            vectorEffect="non-scaling-stroke"
+                            style={{ 
+                              pointerEvents: 'none',
+                              opacity: 0.9
+                            }}
+                            data-temp-hack="true"
+                            data-command-id={command.id}
+                            data-temp-type="z-visual"
+                          />
+                          {/* Visual second half (green) for initial M command - DEBUG: amarillo si necesita hack */}
+                          <path
+                            key={`temp-m-visual-${command.id}-${Date.now()}`}
+                            d={`M ${firstCommandPosition.x} ${firstCommandPosition.y} L ${zSplitX2} ${zSplitY2} A ${zRadius} ${zRadius} 0 0 1 ${zSplitX1} ${zSplitY1} Z`}
+                            fill={needsTemporaryHackFirst ? "#FFD700" : "#22c55e"} // Amarillo si M necesita hack, verde normal
+                            stroke={needsTemporaryHackFirst ? "#FFA500" : "#16a34a"} // Borde naranja si M necesita hack
+                            strokeWidth={1}
+                            vectorEffect="non-scaling-stroke"
+                            style={{ 
+                              pointerEvents: 'none',
+                              opacity: 0.9
+                            }}
+                            data-temp-hack="true"
+                            data-command-id={command.id}
+                            data-temp-type="m-visual"
+                          />
+                        </>
+                      )}
                     
-                    {/* Interaction overlays - always present */}
-                    <path
-                      d={`M ${firstCommandPosition.x} ${firstCommandPosition.y} L ${firstCommandPosition.x + Math.cos(zSplitAngle) * getInteractionRadius(zRadius, isMobile, isTablet)} ${firstCommandPosition.y + Math.sin(zSplitAngle) * getInteractionRadius(zRadius, isMobile, isTablet)} A ${getInteractionRadius(zRadius, isMobile, isTablet)} ${getInteractionRadius(zRadius, isMobile, isTablet)} 0 0 1 ${firstCommandPosition.x - Math.cos(zSplitAngle) * getInteractionRadius(zRadius, isMobile, isTablet)} ${firstCommandPosition.y - Math.sin(zSplitAngle) * getInteractionRadius(zRadius, isMobile, isTablet)} Z`}
-                      fill="transparent"
-                      stroke="none"
-                      className="command-point-interaction-overlay"
-                      data-command-id={command.id}
-                      style={{ cursor: 'default' }}
-                    />
-                    {/* Interaction overlay second half (green) for initial M command */}
-                    <path
-                      d={`M ${firstCommandPosition.x} ${firstCommandPosition.y} L ${firstCommandPosition.x - Math.cos(zSplitAngle) * getInteractionRadius(zRadius, isMobile, isTablet)} ${firstCommandPosition.y - Math.sin(zSplitAngle) * getInteractionRadius(zRadius, isMobile, isTablet)} A ${getInteractionRadius(zRadius, isMobile, isTablet)} ${getInteractionRadius(zRadius, isMobile, isTablet)} 0 0 1 ${firstCommandPosition.x + Math.cos(zSplitAngle) * getInteractionRadius(zRadius, isMobile, isTablet)} ${firstCommandPosition.y + Math.sin(zSplitAngle) * getInteractionRadius(zRadius, isMobile, isTablet)} Z`}
-                      fill="transparent"
-                      stroke="none"
-                      className="command-point-interaction-overlay"
-                      data-command-id={firstCommand.id}
-                      style={{ cursor: 'default' }}
-                    />
+                      {/* Interaction overlays - always present */}
+                      <path
+                        d={`M ${firstCommandPosition.x} ${firstCommandPosition.y} L ${firstCommandPosition.x + Math.cos(zSplitAngle) * getInteractionRadius(zRadius, isMobile, isTablet)} ${firstCommandPosition.y + Math.sin(zSplitAngle) * getInteractionRadius(zRadius, isMobile, isTablet)} A ${getInteractionRadius(zRadius, isMobile, isTablet)} ${getInteractionRadius(zRadius, isMobile, isTablet)} 0 0 1 ${firstCommandPosition.x - Math.cos(zSplitAngle) * getInteractionRadius(zRadius, isMobile, isTablet)} ${firstCommandPosition.y - Math.sin(zSplitAngle) * getInteractionRadius(zRadius, isMobile, isTablet)} Z`}
+                        fill="transparent"
+                        stroke="none"
+                        className="command-point-interaction-overlay"
+                        data-command-id={command.id}
+                        style={{ cursor: 'default' }}
+                      />
+                      {/* Interaction overlay second half (green) for initial M command */}
+                      <path
+                        d={`M ${firstCommandPosition.x} ${firstCommandPosition.y} L ${firstCommandPosition.x - Math.cos(zSplitAngle) * getInteractionRadius(zRadius, isMobile, isTablet)} ${firstCommandPosition.y - Math.sin(zSplitAngle) * getInteractionRadius(zRadius, isMobile, isTablet)} A ${getInteractionRadius(zRadius, isMobile, isTablet)} ${getInteractionRadius(zRadius, isMobile, isTablet)} 0 0 1 ${firstCommandPosition.x + Math.cos(zSplitAngle) * getInteractionRadius(zRadius, isMobile, isTablet)} ${firstCommandPosition.y + Math.sin(zSplitAngle) * getInteractionRadius(zRadius, isMobile, isTablet)} Z`}
+                        fill="transparent"
+                        stroke="none"
+                        className="command-point-interaction-overlay"
+                        data-command-id={firstCommand.id}
+                        style={{ cursor: 'default' }}
+                      />
+                    </g>
+                    {/* Inner circle for selected Z command */}
+                    {zCommandSelected && (
+                      <circle
+                        cx={firstCommandPosition.x - Math.cos(zDirectionAngle) * zRadius * 0.3}
+                        cy={firstCommandPosition.y - Math.sin(zDirectionAngle) * zRadius * 0.3}
+                        r={zRadius * 0.2}
+                        fill="#ffffff"
+                        stroke="none"
+                        style={{ 
+                          pointerEvents: 'none',
+                          opacity: 0.8
+                        }}
+                      />
+                    )}
+                    {/* Inner circle for selected initial command */}
+                    {firstCommandSelected && (
+                      <circle
+                        cx={firstCommandPosition.x + Math.cos(zDirectionAngle) * zRadius * 0.3}
+                        cy={firstCommandPosition.y + Math.sin(zDirectionAngle) * zRadius * 0.3}
+                        r={zRadius * 0.2}
+                        fill="#ffffff"
+                        stroke="none"
+                        style={{ 
+                          pointerEvents: 'none',
+                          opacity: 0.8
+                        }}
+                      />
+                    )}
                   </g>
-                  {/* Inner circle for selected Z command */}
-                  {zCommandSelected && (
-                    <circle
-                      cx={firstCommandPosition.x - Math.cos(zDirectionAngle) * zRadius * 0.3}
-                      cy={firstCommandPosition.y - Math.sin(zDirectionAngle) * zRadius * 0.3}
-                      r={zRadius * 0.2}
-                      fill="#ffffff"
-                      stroke="none"
-                      style={{ 
-                        pointerEvents: 'none',
-                        opacity: 0.8
-                      }}
-                    />
-                  )}
-                  {/* Inner circle for selected initial command */}
-                  {firstCommandSelected && (
-                    <circle
-                      cx={firstCommandPosition.x + Math.cos(zDirectionAngle) * zRadius * 0.3}
-                      cy={firstCommandPosition.y + Math.sin(zDirectionAngle) * zRadius * 0.3}
-                      r={zRadius * 0.2}
-                      fill="#ffffff"
-                      stroke="none"
-                      style={{ 
-                        pointerEvents: 'none',
-                        opacity: 0.8
-                      }}
-                    />
-                  )}
-                </g>
-              );
-            }
-            
-            // Skip rendering last command if it coincides with first (will render split visual instead)
-            if (isLastCommand && pointsCoincide && subPath.commands.length > 1) {
-              return null;
-            }
+                );
+              }
             
-            // Skip rendering first command if there's a Z command (will render split visual instead)
-            // UNLESS the first command is specifically selected in a multi-command selection
-            if (isFirstCommand && hasZCommand) {
-              if (!firstCommand) return null;
-              const isFirstCommandSelected = selection.selectedCommands.includes(firstCommand.id);
-              const hasMultipleCommandsSelected = selection.selectedCommands.length > 1;
-              // Only skip if the first command is NOT selected in a multi-command selection
-              if (!(isFirstCommandSelected && hasMultipleCommandsSelected)) {
+              // Skip rendering last command if it coincides with first (will render split visual instead)
+              if (isLastCommand && pointsCoincide && subPath.commands.length > 1) {
                 return null;
               }
-            }
             
-            let radius = baseRadius * visualDebugSizes.globalFactor * visualDebugSizes.commandPointsFactor;
+              // Skip rendering first command if there's a Z command (will render split visual instead)
+              // UNLESS the first command is specifically selected in a multi-command selection
+              if (isFirstCommand && hasZCommand) {
+                if (!firstCommand) return null;
+                const isFirstCommandSelected = selection.selectedCommands.includes(firstCommand.id);
+                const hasMultipleCommandsSelected = selection.selectedCommands.length > 1;
+                // Only skip if the first command is NOT selected in a multi-command selection
+                if (!(isFirstCommandSelected && hasMultipleCommandsSelected)) {
+                  return null;
+                }
+              }
             
-            // Make initial point 30% larger
-            if (isFirstCommand) {
-              radius *= 1.3;
-            }
+              let radius = baseRadius * visualDebugSizes.globalFactor * visualDebugSizes.commandPointsFactor;
             
-            // Determine colors based on position and selection
-            let fill: string, stroke: string;
+              // Make initial point 30% larger
+              if (isFirstCommand) {
+                radius *= 1.3;
+              }
             
-            if (isFirstCommand) {
-              // Initial point is green (always, even when selected)
-              fill = '#22c55e';
-              stroke = '#16a34a';
-            } else if (isLastCommand) {
-              // Final point is red (always, even when selected)
-              fill = '#ef4444';
-              stroke = '#dc2626';
-            } else if (isCommandSelected) {
-              // Selected commands (only middle points) keep their blue color
-              fill = '#007acc';
-              stroke = '#005299';
-            } else {
-              // All other points are white with black outline
-              fill = '#ffffff';
-              stroke = '#000000';
-            }
+              // Determine colors based on position and selection
+              let fill: string, stroke: string;
+            
+              if (isFirstCommand) {
+                // Initial point is green (always, even when selected)
+                fill = '#22c55e';
+                stroke = '#16a34a';
+              } else if (isLastCommand) {
+                // Final point is red (always, even when selected)
+                fill = '#ef4444';
+                stroke = '#dc2626';
+              } else if (isCommandSelected) {
+                // Selected commands (only middle points) keep their blue color
+                fill = '#007acc';
+                stroke = '#005299';
+              } else {
+                // All other points are white with black outline
+                fill = '#ffffff';
+                stroke = '#000000';
+              }
             
-            // Check if this is the first command and points coincide (but skip if there's a Z command)
-            if (isFirstCommand && pointsCoincide && subPath.commands.length > 1 && !hasZCommand && position) {
-              // Calculate direction angle for the split using tangent calculation
-              let directionAngle = 0;
+              // Check if this is the first command and points coincide (but skip if there's a Z command)
+              if (isFirstCommand && pointsCoincide && subPath.commands.length > 1 && !hasZCommand && position) {
+                // Calculate direction angle for the split using tangent calculation
+                let directionAngle = 0;
               
-              if (subPath.commands.length >= 2) {
-                const secondCommand = subPath.commands[1];
+                if (subPath.commands.length >= 2) {
+                  const secondCommand = subPath.commands[1];
                 
-                // For different command types, calculate the tangent differently
-                if (secondCommand.command === 'C') {
-                  // For cubic Bézier curves, use the first control point to determine tangent
-                  if (secondCommand.x1 !== undefined && secondCommand.y1 !== undefined) {
-                    // Tangent direction from current point to first control point
-                    const dx = secondCommand.x1 - position.x;
-                    const dy = secondCommand.y1 - position.y;
-                    directionAngle = Math.atan2(dy, dx);
+                  // For different command types, calculate the tangent differently
+                  if (secondCommand.command === 'C') {
+                    // For cubic Bézier curves, use the first control point to determine tangent
+                    if (secondCommand.x1 !== undefined && secondCommand.y1 !== undefined) {
+                      // Tangent direction from current point to first control point
+                      const dx = secondCommand.x1 - position.x;
+                      const dy = secondCommand.y1 - position.y;
+                      directionAngle = Math.atan2(dy, dx);
+                    } else {
+                      // Fallback to end point if no control point
+                      const secondPosition = getAbsoluteCommandPosition(secondCommand, subPath, path.subPaths);
+                      if (secondPosition) {
+                        const dx = secondPosition.x - position.x;
+                        const dy = secondPosition.y - position.y;
+                        directionAngle = Math.atan2(dy, dx);
+                      }
+                    }
                   } else {
-                    // Fallback to end point if no control point
+                    // For L, M, and other commands, use direct line to the point
                     const secondPosition = getAbsoluteCommandPosition(secondCommand, subPath, path.subPaths);
                     if (secondPosition) {
                       const dx = secondPosition.x - position.x;
@@ -1196,72 +1211,64 @@ const CommandPointsRendererCore: React.FC = React.memo(() => {
                       directionAngle = Math.atan2(dy, dx);
                     }
                   }
-                } else {
-                  // For L, M, and other commands, use direct line to the point
-                  const secondPosition = getAbsoluteCommandPosition(secondCommand, subPath, path.subPaths);
-                  if (secondPosition) {
-                    const dx = secondPosition.x - position.x;
-                    const dy = secondPosition.y - position.y;
-                    directionAngle = Math.atan2(dy, dx);
-                  }
                 }
-              }
               
-              // Calculate perpendicular angle for the split line (add 90 degrees)
-              const splitAngle = directionAngle + Math.PI / 2;
+                // Calculate perpendicular angle for the split line (add 90 degrees)
+                const splitAngle = directionAngle + Math.PI / 2;
               
-              // Calculate split line endpoints
-              const splitX1 = position.x + Math.cos(splitAngle) * radius;
-              const splitY1 = position.y + Math.sin(splitAngle) * radius;
-              const splitX2 = position.x - Math.cos(splitAngle) * radius;
-              const splitY2 = position.y - Math.sin(splitAngle) * radius;
+                // Calculate split line endpoints
+                const splitX1 = position.x + Math.cos(splitAngle) * radius;
+                const splitY1 = position.y + Math.sin(splitAngle) * radius;
+                const splitX2 = position.x - Math.cos(splitAngle) * radius;
+                const splitY2 = position.y - Math.sin(splitAngle) * radius;
               
-              // Render split visual for coinciding points
-              if (!firstCommand || !lastCommand) return null;
-              const firstCommandSelected = selection.selectedCommands.includes(firstCommand.id);
-              const lastCommandSelected = selection.selectedCommands.includes(lastCommand.id);
+                // Render split visual for coinciding points
+                if (!firstCommand || !lastCommand) return null;
+                const firstCommandSelected = selection.selectedCommands.includes(firstCommand.id);
+                const lastCommandSelected = selection.selectedCommands.includes(lastCommand.id);
               
+                return (
+                  <SplitCommandPoint
+                    key={`split-${firstCommand.id}-${lastCommand.id}`}
+                    position={position}
+                    radius={radius}
+                    directionAngle={directionAngle}
+                    firstCommandId={firstCommand.id}
+                    lastCommandId={lastCommand.id}
+                    firstCommandSelected={firstCommandSelected}
+                    lastCommandSelected={lastCommandSelected}
+                    zoom={viewport.zoom}
+                    isMobile={isMobile}
+                    isTablet={isTablet}
+                    dragState={dragState}
+                  />
+                );
+              }
+
+              // Regular rendering for non-coinciding points (skip if position is null)
+              if (!position) return null;
+            
               return (
-                <SplitCommandPoint
-                  key={`split-${firstCommand.id}-${lastCommand.id}`}
+                <SimpleCommandPoint
+                  key={`command-${command.id}`}
                   position={position}
                   radius={radius}
-                  directionAngle={directionAngle}
-                  firstCommandId={firstCommand.id}
-                  lastCommandId={lastCommand.id}
-                  firstCommandSelected={firstCommandSelected}
-                  lastCommandSelected={lastCommandSelected}
+                  fill={fill}
+                  stroke={stroke}
+                  commandId={command.id}
                   zoom={viewport.zoom}
+                  isSelected={isCommandSelected}
+                  isFirst={isFirstCommand}
+                  isLast={isLastCommand}
                   isMobile={isMobile}
                   isTablet={isTablet}
                   dragState={dragState}
                 />
               );
-            }
-
-            // Regular rendering for non-coinciding points (skip if position is null)
-            if (!position) return null;
-            
-            return (
-              <SimpleCommandPoint
-                key={`command-${command.id}`}
-                position={position}
-                radius={radius}
-                fill={fill}
-                stroke={stroke}
-                commandId={command.id}
-                zoom={viewport.zoom}
-                isSelected={isCommandSelected}
-                isFirst={isFirstCommand}
-                isLast={isLastCommand}
-                isMobile={isMobile}
-                isTablet={isTablet}
-                dragState={dragState}
-              />
-            );
-          });
-        })
-      )}
+            });
+          })}
+        </g>
+      ))}
     </>
   );
 });
@@ -3,6 +3,8 @@
  * Atomic state operations to prevent race conditions
  */
 
+import { useEditorStore } from './editorStore';
+
 export interface FormatCopyState {
   isFormatCopyActive?: () => boolean;
   isTextFormatCopyActive?: () => boolean;
@@ -74,6 +76,40 @@ export class StateTransaction {
   }
 }
 
+/**
+ * State transaction recorded as a single undo step
+ * Every history push made by the operations folds into one step named after the label,
+ * and a failed commit leaves no step behind
+ */
+export class HistoryTransaction extends StateTransaction {
+  constructor(private readonly label: string) {
+    super();
+  }
+
+  /**
+   * Execute all operations inside a history transaction
+   */
+  commit(): void {
+    useEditorStore.getState().beginTransaction(this.label, { nested: true });
+    try {
+      super.commit();
+    } catch (error) {
+      useEditorStore.getState().cancelTransaction();
+      throw error;
+    }
+    useEditorStore.getState().commitTransaction();
+  }
+}
+
+/**
+ * Run an operation as a single, labelled undo step
+ */
+export const runInHistoryTransaction = (label: string, operation: () => void): void => {
+  const transaction = new HistoryTransaction(label);
+  transaction.addOperation(operation);
+  transaction.commit();
+};
+
 /**
  * Lock manager for preventing concurrent state modifications
  */
@@ -4,6 +4,8 @@ import { generateId } from '../utils/id-utils.js';
 import { getCommandBoundingBox } from '../utils/bbox-utils';
 import { transformManager } from '../plugins/transform/TransformManager';
 import { isCommandArrangeable, getUniqueCommandPositions } from '../utils/command-point-utils';
+import { getNearestLocationOnSubPath } from '../utils/path-geometry-utils';
+import { splitCommandAt, removeAnchorAt, getSplitParameter } from '../utils/anchor-point-utils';
 
 export interface CommandActions {
   addCommand: (subPathId: string, command: Omit<SVGCommand, 'id'>) => string;
@@ -12,6 +14,8 @@ export interface CommandActions {
   removeCommand: (commandId: string) => void;
   moveCommand: (commandId: string, position: Point) => void;
   replaceSubPathCommands: (subPathId: string, commands: Omit<SVGCommand, 'id'>[]) => void;
+  insertAnchorPoint: (subPathId: string, point: Point) => string | null;
+  removeAnchorPoint: (commandId: string) => boolean;
   
   // Command point arranging actions
   alignCommandsLeft: (commandIds: string[]) => void;
@@ -28,6 +32,29 @@ function roundToPrecision(val: number | undefined, precision: number): number |
   return typeof val === 'number' ? Number(val.toFixed(precision)) : val;
 }
 
+function roundCommandToPrecision(cmd: SVGCommand, precision: number): SVGCommand {
+  return {
+    ...cmd,
+    x: roundToPrecision(cmd.x, precision),
+    y: roundToPrecision(cmd.y, precision),
+    x1: roundToPrecision(cmd.x1, precision),
+    y1: roundToPrecision(cmd.y1, precision),
+    x2: roundToPrecision(cmd.x2, precision),
+    y2: roundToPrecision(cmd.y2, precision),
+  };
+}
+
+function setSubPathCommands(state: EditorState, subPathId: string, commands: SVGCommand[]): Partial<EditorState> {
+  return {
+    paths: state.paths.map((path) => ({
+      ...path,
+      subPaths: path.subPaths.map((subPath) =>
+        subPath.id === subPathId ? { ...subPath, commands } : subPath
+      ),
+    })),
+  };
+}
+
 // Calculate bounding box for currently selected commands
 function calculateSelectedCommandsBoundingBox(state: EditorState): { x: number; y: number; width: number; height: number } | null {
   if (state.selection.selectedCommands.length === 0) {
@@ -396,7 +423,8 @@ export const createCommandActions: StateCreator<
             ...subPath,
             commands: subPath.commands.map((cmd, cmdIndex) => {
               if (cmd.id === commandId) {
-                if (cmd.command === 'C') {
+                // The incoming control point travels with its anchor
+                if (cmd.command === 'C' || cmd.command === 'S') {
                   return {
                     ...cmd,
                     x: roundToPrecision(position.x, precision),
@@ -492,6 +520,53 @@ export const createCommandActions: StateCreator<
     });
   },
 
+  insertAnchorPoint: (subPathId, point) => {
+    const state = get();
+    const subPath = state.paths.flatMap(path => path.subPaths).find(sp => sp.id === subPathId);
+    if (!subPath) return null;
+
+    // Split the segment at the exact parameter under the point, so the curve keeps its shape
+    const location = getNearestLocationOnSubPath(subPath, point);
+    if (!location) return null;
+    const t = getSplitParameter(subPath.commands, location.commandIndex, location.point, location.t);
+    if (t < 1e-3 || t > 1 - 1e-3) return null;
+    const split = splitCommandAt(subPath.commands, location.commandIndex, t);
+    if (!split) return null;
+
+    set((state) => setSubPathCommands(
+      state,
+      subPathId,
+      split.commands.map(cmd => roundCommandToPrecision(cmd, state.precision))
+    ));
+    return split.anchorId;
+  },
+
+  removeAnchorPoint: (commandId) => {
+    const state = get();
+    const subPath = state.paths
+      .flatMap(path => path.subPaths)
+      .find(sp => sp.commands.some(cmd => cmd.id === commandId));
+    if (!subPath) return false;
+
+    // Merge the segments on both sides of the anchor into one refitted segment
+    const index = subPath.commands.findIndex(cmd => cmd.id === commandId);
+    const commands = removeAnchorAt(subPath.commands, index);
+    if (!commands) return false;
+
+    set((state) => ({
+      ...setSubPathCommands(
+        state,
+        subPath.id,
+        commands.map(cmd => roundCommandToPrecision(cmd, state.precision))
+      ),
+      selection: {
+        ...state.selection,
+        selectedCommands: state.selection.selectedCommands.filter(id => id !== commandId),
+      },
+    }));
+    return true;
+  },
+
   // Command point arranging actions
   alignCommandsLeft: (commandIds) => {
     const state = get();
@@ -0,0 +1,196 @@
+import { StateCreator } from 'zustand';
+import { EditorState, EditorDocumentState } from '../types';
+import { generateId } from '../utils/id-utils';
+import { saveDocumentState, loadDocumentState, removeDocumentState } from '../utils/persistence';
+import {
+  saveProjectDocument,
+  loadProjectDocument,
+  deleteProjectDocument,
+  loadAutosaveVersion
+} from '../utils/project-storage';
+import {
+  extractDocumentState,
+  toPersistedDocumentState,
+  createEmptyDocumentState,
+  getNextDocumentName
+} from '../utils/document-utils';
+import { SSPEProjectFile } from '../utils/project-file';
+import { AnimationActions } from './animationActions';
+import { HistoryActions } from './historyActions';
+
+export interface DocumentActions {
+  createDocument: (name?: string) => string;
+  openProjectDocument: (project: SSPEProjectFile) => string;
+  switchDocument: (documentId: string) => void;
+  renameDocument: (documentId: string, name: string) => void;
+  closeDocument: (documentId: string) => void;
+  hydrateDocument: (documentId: string) => Promise<void>;
+  restoreAutosaveVersion: (versionId: string) => Promise<boolean>;
+}
+
+const logStorageError = (error: unknown) => {
+  console.warn('Project storage operation failed:', error);
+};
+
+export const createDocumentActions: StateCreator<
+  EditorState & DocumentActions & AnimationActions & HistoryActions,
+  [],
+  [],
+  DocumentActions
+> = (set, get) => {
+  // Inactive documents keep their undo history here, so switching back is instant
+  const openDocuments = new Map<string, EditorDocumentState>();
+  // Bumped whenever the active document is left, so late project storage loads can tell
+  let activation = 0;
+
+  // Move the active document out of the editor state, keeping a stored copy for reloads
+  const parkActiveDocument = () => {
+    const state = get();
+    if (state.animationState.isPlaying) {
+      state.stopAnimations();
+    }
+    // A gesture still open at this point keeps what it changed so far
+    while (get().history.transaction) {
+      get().commitTransaction();
+    }
+    activation++;
+    const documentState = extractDocumentState(get());
+    openDocuments.set(state.documents.activeDocumentId, documentState);
+    saveDocumentState(state.documents.activeDocumentId, toPersistedDocumentState(documentState));
+    saveProjectDocument(state.documents.activeDocumentId, documentState).catch(logStorageError);
+  };
+
+  const takeDocument = (documentId: string): EditorDocumentState => {
+    const documentState = openDocuments.get(documentId);
+    openDocuments.delete(documentId);
+    if (documentState) return documentState;
+    // Opened in an earlier session: restore the stored copy with a fresh history
+    const stored = loadDocumentState(documentId);
+    if (!stored) {
+      // Too large for localStorage, so only project storage has it
+      queueMicrotask(() => get().hydrateDocument(documentId));
+    }
+    return { ...createEmptyDocumentState(), ...(stored ?? {}) };
+  };
+
+  return {
+    createDocument: (name) => {
+      const id = generateId();
+      parkActiveDocument();
+      set((state) => ({
+        ...createEmptyDocumentState(),
+        documents: {
+          tabs: [
+            ...state.documents.tabs,
+            { id, name: name?.trim() || getNextDocumentName(state.documents.tabs), createdAt: Date.now() }
+          ],
+          activeDocumentId: id
+        },
+      }));
+      return id;
+    },
+
+    openProjectDocument: (project) => {
+      const id = get().createDocument(project.name);
+      set((state) => ({
+        ...project.document,
+        grid: project.editor.grid ? { ...state.grid, ...project.editor.grid } : state.grid,
+        precision: project.editor.precision ?? state.precision,
+      }));
+      return id;
+    },
+
+    switchDocument: (documentId) => {
+      const { documents } = get();
+      if (documentId === documents.activeDocumentId || !documents.tabs.some(tab => tab.id === documentId)) return;
+
+      parkActiveDocument();
+      set((state) => ({
+        ...takeDocument(documentId),
+        documents: {
+          ...state.documents,
+          activeDocumentId: documentId
+        },
+      }));
+    },
+
+    renameDocument: (documentId, name) =>
+      set((state) => {
+        const trimmed = name.trim();
+        if (!trimmed) return state;
+        return {
+          documents: {
+            ...state.documents,
+            tabs: state.documents.tabs.map(tab => tab.id === documentId ? { ...tab, name: trimmed } : tab)
+          },
+        };
+      }),
+
+    closeDocument: (documentId) => {
+      const { documents } = get();
+      const index = documents.tabs.findIndex(tab => tab.id === documentId);
+      if (index === -1) return;
+      const tabs = documents.tabs.filter(tab => tab.id !== documentId);
+
+      openDocuments.delete(documentId);
+      removeDocumentState(documentId);
+      deleteProjectDocument(documentId).catch(logStorageError);
+
+      if (documentId !== documents.activeDocumentId) {
+        set((state) => ({ documents: { ...state.documents, tabs } }));
+        return;
+      }
+
+      if (get().animationState.isPlaying) {
+        get().stopAnimations();
+      }
+      activation++;
+
+      if (tabs.length === 0) {
+        // Closing the last document leaves an empty one
+        const id = generateId();
+        set({
+          ...createEmptyDocumentState(),
+          documents: {
+            tabs: [{ id, name: getNextDocumentName([]), createdAt: Date.now() }],
+            activeDocumentId: id
+          },
+        });
+        return;
+      }
+
+      const next = tabs[Math.min(index, tabs.length - 1)];
+      set({
+        ...takeDocument(next.id),
+        documents: { tabs, activeDocumentId: next.id },
+      });
+    },
+
+    hydrateDocument: async (documentId) => {
+      const requested = activation;
+      try {
+        const stored = await loadProjectDocument(documentId);
+        // The user may have switched away, possibly back again, or started editing while it loaded
+        const { documents, history } = get();
+        if (!stored || activation !== requested || documents.activeDocumentId !== documentId) return;
+        if (history.past.length > 0 || history.transaction) return;
+        set(stored);
+      } catch (error) {
+        logStorageError(error);
+      }
+    },
+
+    restoreAutosaveVersion: async (versionId) => {
+      try {
+        const version = await loadAutosaveVersion(versionId);
+        if (!version) return false;
+        get().pushToHistory('Restore autosave version');
+        set(version);
+        return true;
+      } catch (error) {
+        logStorageError(error);
+        return false;
+      }
+    },
+  };
+};
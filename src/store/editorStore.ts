@@ -1,7 +1,7 @@
 import { create } from 'zustand';
 import { subscribeWithSelector } from 'zustand/middleware';
 import { EditorState } from '../types';
-import { saveEditorState, loadEditorState, debounce } from '../utils/persistence';
+import { saveEditorState, loadEditorState, hasDocumentContent, debounce } from '../utils/persistence';
 
 // Import action creators
 import { ViewportActions, createViewportActions } from './viewportActions';
@@ -23,7 +23,17 @@ import { ImageFormatCopyActions, createImageFormatCopyActions } from './imageFor
 import { UseFormatCopyActions, createUseFormatCopyActions } from './useFormatCopyActions';
 import { DeepSelectionActions, createDeepSelectionActions } from './deepSelectionActions';
 import { ToolSettingsActions, createToolSettingsActions } from './toolSettingsActions';
+import { DocumentActions, createDocumentActions } from './documentActions';
 import { handleManager } from '../plugins/handles/HandleManager';
+import { createInitialHistoryState } from '../utils/history-utils';
+import { DEFAULT_DOCUMENT_ID, createEmptyDocumentState, extractDocumentState, isSameDocumentContent } from '../utils/document-utils';
+import {
+  saveProjectDocument,
+  saveAutosaveVersion,
+  beginEditorSession,
+  endEditorSession
+} from '../utils/project-storage';
+import { CONFIG } from '../config/constants';
 
 // Combined actions interface
 interface EditorActions extends 
@@ -45,11 +55,10 @@ interface EditorActions extends
   ImageFormatCopyActions,
   UseFormatCopyActions,
   DeepSelectionActions,
-  ToolSettingsActions {}
+  ToolSettingsActions,
+  DocumentActions {}
 
-const loadInitialState = (): EditorState => {
-  const savedState = loadEditorState();
-  
+const loadInitialState = (savedState: any): EditorState => {
   const baseState: EditorState = {
     paths: [
       {
@@ -424,17 +433,10 @@ const loadInitialState = (): EditorState => {
     mode: {
       current: 'select' as const,
     },
-    history: {
-      past: [],
-      present: {} as EditorState,
-      future: [],
-      canUndo: false,
-      canRedo: false,
-      timestamps: {
-        past: [],
-        present: Date.now(),
-        future: []
-      }
+    history: createInitialHistoryState(),
+    documents: {
+      tabs: [{ id: DEFAULT_DOCUMENT_ID, name: 'Untitled 1', createdAt: Date.now() }],
+      activeDocumentId: DEFAULT_DOCUMENT_ID
     },
     isFullscreen: false,
     textEditState: {
@@ -512,6 +514,8 @@ const loadInitialState = (): EditorState => {
   if (savedState && typeof savedState === 'object') {
     return {
       ...baseState,
+      // Documents too large for localStorage start empty until project storage loads them
+      ...(hasDocumentContent(savedState) ? {} : createEmptyDocumentState()),
       ...savedState,
       mode: { current: 'select' as const }
     };
@@ -520,7 +524,8 @@ const loadInitialState = (): EditorState => {
   return baseState;
 };
 
-const initialState = loadInitialState();
+const savedEditorState = loadEditorState();
+const initialState = loadInitialState(savedEditorState);
 
 export const useEditorStore = create<EditorState & EditorActions>()(
   subscribeWithSelector((set, get, api) => ({
@@ -544,6 +549,7 @@ export const useEditorStore = create<EditorState & EditorActions>()(
     ...createUseFormatCopyActions(set, get, api),
     ...createDeepSelectionActions(set, get, api),
     ...createToolSettingsActions(set, get, api),
+    ...createDocumentActions(set, get, api),
   }))
 );
 
@@ -551,9 +557,35 @@ export const useEditorStore = create<EditorState & EditorActions>()(
 const debouncedSave = debounce('editor-autosave', (state: EditorState) => {
   const { history, ...rest } = state;
   saveEditorState({ ...rest });
+  saveProjectDocument(state.documents.activeDocumentId, extractDocumentState(state)).catch(error => {
+    console.warn('Failed to save document to project storage:', error);
+  });
 }, 500);
 
+// Periodic autosave versions, taken only when the document changed since the last one
+let lastVersionedDocument: ReturnType<typeof extractDocumentState> | null = null;
+const saveAutosaveVersionIfChanged = () => {
+  const state = useEditorStore.getState();
+  const documentState = extractDocumentState(state);
+  if (lastVersionedDocument && isSameDocumentContent(lastVersionedDocument, documentState)) return;
+  lastVersionedDocument = documentState;
+  const tab = state.documents.tabs.find(item => item.id === state.documents.activeDocumentId);
+  saveAutosaveVersion(state.documents.activeDocumentId, tab?.name ?? '', documentState).catch(error => {
+    console.warn('Failed to save autosave version:', error);
+  });
+};
+
 if (typeof window !== 'undefined') {
+  // An open session marker left behind means the last session crashed
+  beginEditorSession();
+  window.addEventListener('pagehide', endEditorSession);
+
+  if (!hasDocumentContent(savedEditorState)) {
+    useEditorStore.getState().hydrateDocument(initialState.documents.activeDocumentId);
+  }
+
+  setInterval(saveAutosaveVersionIfChanged, CONFIG.PERFORMANCE.AUTOSAVE_VERSION_INTERVAL_MS);
+
   setTimeout(() => {
     useEditorStore.subscribe(
       state => state,
@@ -53,7 +53,7 @@ export interface GroupActions {
   replaceGroups: (groups: SVGGroup[]) => void;
   
   // SVG export
-  exportGroupSVG: (groupId: string, autoDownload?: boolean) => string | null;
+  exportGroupSVG: (groupId: string, autoDownload?: boolean, padding?: number) => string | null;
 }
 
 export const createGroupActions: StateCreator<
@@ -890,7 +890,7 @@ export const createGroupActions: StateCreator<
     }));
   },
 
-  exportGroupSVG: (groupId: string, autoDownload: boolean = false) => {
+  exportGroupSVG: (groupId: string, autoDownload: boolean = false, padding?: number) => {
     const state = get();
     const group = state.groups.find(g => g.id === groupId);
     
@@ -916,7 +916,8 @@ export const createGroupActions: StateCreator<
         allGradients,
         allFilters,
         state.animations,
-        state.precision || 2
+        state.precision || 2,
+        padding
       );
 
       // Auto-download if requested
@@ -1,13 +1,84 @@
 import { StateCreator } from 'zustand';
-import { EditorState } from '../types';
-import { cleanStateForHistory, mergeCleanStateIntoCurrentState } from '../utils/history-utils';
+import { EditorState, HistoryEntry, HistorySnapshot } from '../types';
+import { CONFIG } from '../config/constants';
+import {
+  takeHistorySnapshot,
+  diffHistorySnapshots,
+  applyHistoryPatches,
+  estimatePatchesSize,
+  mergeCleanStateIntoCurrentState
+} from '../utils/history-utils';
 
 export interface HistoryActions {
   undo: () => void;
   redo: () => void;
-  pushToHistory: () => void;
+  pushToHistory: (label?: string) => void;
+  beginTransaction: (label: string, options?: { nested?: boolean }) => void;
+  commitTransaction: () => void;
+  cancelTransaction: () => void;
+  jumpToHistoryStep: (index: number) => void;
+  setHistoryMemoryBudget: (bytes: number) => void;
 }
 
+const createHistoryEntry = (
+  from: HistorySnapshot,
+  to: HistorySnapshot,
+  timestamp: number,
+  label?: string
+): HistoryEntry => {
+  const { patches, inversePatches } = diffHistorySnapshots(from, to);
+  return {
+    patches,
+    inversePatches,
+    size: estimatePatchesSize(patches) + estimatePatchesSize(inversePatches),
+    timestamp,
+    label
+  };
+};
+
+/**
+ * Drop the oldest steps until the history fits the step limit and the
+ * memory budget. The oldest remaining step becomes the base of the
+ * timeline, so its patches are no longer needed.
+ */
+const trimPast = (past: HistoryEntry[], memoryUsage: number, memoryBudget: number) => {
+  let trimmed = past;
+  let usage = memoryUsage;
+  while (
+    trimmed.length > 1 &&
+    (trimmed.length > CONFIG.PERFORMANCE.UNDO_HISTORY_LIMIT || usage > memoryBudget)
+  ) {
+    const [removed, first, ...rest] = trimmed;
+    usage -= removed.size + first.size;
+    trimmed = [{ ...first, patches: [], inversePatches: [], size: 0 }, ...rest];
+  }
+  return { past: trimmed, memoryUsage: Math.max(0, usage) };
+};
+
+/**
+ * Put the editor back at the newest past step and drop that step. The
+ * caller decides whether the state it leaves becomes a redo step.
+ */
+const restorePreviousStep = (state: EditorState) => {
+  const { past, checkpoint } = state.history;
+  const previous = past[past.length - 1];
+  const newPast = past.slice(0, -1);
+  return {
+    ...mergeCleanStateIntoCurrentState(state, checkpoint),
+    history: {
+      ...state.history,
+      past: newPast,
+      checkpoint: checkpoint && newPast.length > 0 ? applyHistoryPatches(checkpoint, previous.inversePatches) : null,
+      present: checkpoint,
+      presentTimestamp: previous.timestamp,
+      presentLabel: previous.label,
+      transaction: null,
+      canUndo: newPast.length > 0,
+      memoryUsage: state.history.memoryUsage - previous.size
+    },
+  };
+};
+
 export const createHistoryActions: StateCreator<
   EditorState & HistoryActions,
   [],
@@ -16,96 +87,157 @@ export const createHistoryActions: StateCreator<
 > = (set, get) => ({
   undo: () =>
     set((state) => {
-      if (state.history.past.length === 0) return state;
-      const previous = state.history.past[state.history.past.length - 1];
-      const newPast = state.history.past.slice(0, state.history.past.length - 1);
-      
-      // Handle timestamps
-      const pastTimestamps = state.history.timestamps?.past || [];
-      const newPastTimestamps = pastTimestamps.slice(0, pastTimestamps.length - 1);
-      const currentTimestamp = state.history.timestamps?.present || Date.now();
-      const futureTimestamps = state.history.timestamps?.future || [];
-      
-      // Clean the current state before adding to future
-      const cleanedCurrentState = cleanStateForHistory(state);
-      
-      // Merge the clean previous state with current functions/history
-      const restoredState = mergeCleanStateIntoCurrentState(state, previous);
-      
+      const { past, checkpoint, presentTimestamp, presentLabel } = state.history;
+      if (past.length === 0 || !checkpoint) return state;
+
+      // Record how to get back from the restored step to the current state
+      const redoEntry = createHistoryEntry(checkpoint, takeHistorySnapshot(state), presentTimestamp, presentLabel);
+      const restored = restorePreviousStep(state);
+
       return {
-        ...restoredState,
+        ...restored,
         history: {
-          past: newPast,
-          present: cleanedCurrentState,
-          future: [cleanedCurrentState, ...state.history.future],
-          canUndo: newPast.length > 0,
+          ...restored.history,
+          future: [redoEntry, ...state.history.future],
           canRedo: true,
-          timestamps: {
-            past: newPastTimestamps,
-            present: pastTimestamps[pastTimestamps.length - 1] || Date.now(),
-            future: [currentTimestamp, ...futureTimestamps]
-          }
+          memoryUsage: restored.history.memoryUsage + redoEntry.size
         },
       };
     }),
 
   redo: () =>
     set((state) => {
-      if (state.history.future.length === 0) return state;
-      const next = state.history.future[0];
-      const newFuture = state.history.future.slice(1);
-      
-      // Handle timestamps
-      const pastTimestamps = state.history.timestamps?.past || [];
-      const currentTimestamp = state.history.timestamps?.present || Date.now();
-      const futureTimestamps = state.history.timestamps?.future || [];
-      const newFutureTimestamps = futureTimestamps.slice(1);
-      
-      // Clean the current state before adding to past
-      const cleanedCurrentState = cleanStateForHistory(state);
-      
-      // Merge the clean next state with current functions/history
-      const restoredState = mergeCleanStateIntoCurrentState(state, next);
-      
+      const { future, checkpoint, present, presentTimestamp, presentLabel } = state.history;
+      if (future.length === 0) return state;
+      const next = future[0];
+
+      const current = takeHistorySnapshot(state);
+      const undoEntry = createHistoryEntry(checkpoint ?? current, current, presentTimestamp, presentLabel);
+      const nextSnapshot = applyHistoryPatches(present ?? current, next.patches);
+      const newFuture = future.slice(1);
+      const { past, memoryUsage } = trimPast(
+        [...state.history.past, undoEntry],
+        state.history.memoryUsage - next.size + undoEntry.size,
+        state.history.memoryBudget
+      );
+
       return {
-        ...restoredState,
+        ...mergeCleanStateIntoCurrentState(state, nextSnapshot),
         history: {
-          past: [...state.history.past, cleanedCurrentState],
-          present: next,
+          ...state.history,
+          past,
           future: newFuture,
+          checkpoint: current,
+          present: nextSnapshot,
+          presentTimestamp: next.timestamp,
+          presentLabel: next.label,
+          transaction: null,
           canUndo: true,
           canRedo: newFuture.length > 0,
-          timestamps: {
-            past: [...pastTimestamps, currentTimestamp],
-            present: futureTimestamps[0] || Date.now(),
-            future: newFutureTimestamps
-          }
+          memoryUsage
         },
       };
     }),
 
-  pushToHistory: () =>
+  pushToHistory: (label) =>
     set((state) => {
+      const { checkpoint, memoryBudget, transaction } = state.history;
+      // Everything after the first step of a transaction folds into that step
+      if (transaction?.recorded) return state;
+
       const currentTimestamp = Date.now();
-      const pastTimestamps = state.history.timestamps?.past || [];
-      const presentTimestamp = state.history.timestamps?.present || currentTimestamp;
-      
-      // Clean the current state before saving to history
-      const cleanedState = cleanStateForHistory(state);
-      
+      const current = takeHistorySnapshot(state);
+      const entry = createHistoryEntry(checkpoint ?? current, current, currentTimestamp, state.history.presentLabel);
+
+      // Redo steps are discarded along with the memory they held
+      const futureUsage = state.history.future.reduce((usage, step) => usage + step.size, 0);
+      const { past, memoryUsage } = trimPast(
+        [...state.history.past, entry],
+        state.history.memoryUsage - futureUsage + entry.size,
+        memoryBudget
+      );
+
       return {
         history: {
-          past: [...state.history.past, cleanedState].slice(-50),
-          present: cleanedState,
+          ...state.history,
+          past,
           future: [],
+          checkpoint: current,
+          present: current,
+          presentTimestamp: currentTimestamp,
+          presentLabel: transaction?.label ?? label,
+          transaction: transaction ? { ...transaction, recorded: true } : null,
           canUndo: true,
           canRedo: false,
-          timestamps: {
-            past: [...pastTimestamps, presentTimestamp].slice(-50),
-            present: currentTimestamp,
-            future: []
-          }
+          memoryUsage
+        },
+      };
+    }),
+
+  beginTransaction: (label, options = {}) =>
+    set((state) => {
+      // Only nested transactions fold into an open one; any other open
+      // transaction was left behind by an unfinished gesture and is closed
+      const { transaction } = state.history;
+      return {
+        history: {
+          ...state.history,
+          transaction: transaction && options.nested
+            ? { ...transaction, depth: transaction.depth + 1 }
+            : { label, depth: 1, recorded: false }
+        },
+      };
+    }),
+
+  commitTransaction: () =>
+    set((state) => {
+      const { transaction } = state.history;
+      if (!transaction) return state;
+      return {
+        history: {
+          ...state.history,
+          transaction: transaction.depth > 1 ? { ...transaction, depth: transaction.depth - 1 } : null
+        },
+      };
+    }),
+
+  cancelTransaction: () =>
+    set((state) => {
+      const { transaction } = state.history;
+      if (!transaction) return state;
+      // Go back to where the transaction started and forget its step
+      const restored = transaction.recorded ? restorePreviousStep(state) : state;
+      return {
+        ...restored,
+        history: {
+          ...restored.history,
+          transaction: null
+        },
+      };
+    }),
+
+  jumpToHistoryStep: (index) => {
+    const steps = index - get().history.past.length;
+    for (let i = 0; i < Math.abs(steps); i++) {
+      if (steps < 0) {
+        get().undo();
+      } else {
+        get().redo();
+      }
+    }
+  },
+
+  setHistoryMemoryBudget: (bytes) =>
+    set((state) => {
+      const memoryBudget = Math.max(0, bytes);
+      const { past, memoryUsage } = trimPast(state.history.past, state.history.memoryUsage, memoryBudget);
+      return {
+        history: {
+          ...state.history,
+          past,
+          memoryUsage,
+          memoryBudget
         },
       };
     }),
-});
\ No newline at end of file
+});
@@ -1,10 +1,18 @@
 import { StateCreator } from 'zustand';
-import { EditorState, SVGPath, PathStyle, Point, SVGSubPath, SVGCommand } from '../types';
+import { EditorState, SVGPath, PathStyle, Point, SVGSubPath, SVGCommand, ControlPointType, ShapeParameters } from '../types';
 import { generateId } from '../utils/id-utils.js';
 import { duplicatePath, duplicateSubPath, duplicateCommand } from '../utils/duplicate-utils';
 import { createNewPath } from '../utils/subpath-utils';
 import { snapToGrid } from '../utils/path-utils';
 import { calculateSmartDuplicationOffset } from '../utils/duplication-positioning';
+import { BooleanOperation, BooleanRegion, applyBooleanOperation, computeBooleanRegions } from '../utils/boolean-path-utils';
+import { outlineStroke, getStrokeOutlineOptions } from '../utils/stroke-outline-utils';
+import { cutSubPathWithLine } from '../utils/knife-cut-utils';
+import { JoinMode, getSubPathEnd, joinSubPaths, weldSubPaths } from '../utils/join-path-utils';
+import { SubPathWinding, reverseSubPathCommands, setClosedSubPathStart, setSubPathWinding } from '../utils/path-direction-utils';
+import { createShapeSubPath, matchShapeToPath } from '../utils/shape-utils';
+import { getCanvasSubPaths, toPathLocalDelta, toPathLocalPoint, toPathLocalSubPaths, transformPathStyle, transformSubPaths } from '../utils/path-transform-utils';
+import { TransformMatrix, invertMatrix, isIdentityMatrix } from '../utils/transform-utils';
 
 export interface PathActions {
   addPath: (style?: PathStyle, x?: number, y?: number) => string;
@@ -16,12 +24,34 @@ export interface PathActions {
   updatePathStyle: (pathId: string, style: Partial<PathStyle>) => void;
   replacePaths: (newPaths: SVGPath[]) => void;
   duplicateSelection: () => void;
+  applyBooleanOperationToSelection: (operation: BooleanOperation) => boolean;
+  outlinePathStrokes: (pathIds: string[]) => string[];
+  cutPathsWithLine: (from: Point, to: Point, pathIds?: string[]) => string[];
+  applyShapeBuilder: (pathIds: string[], regions: BooleanRegion[], mergeIndices: number[], deleteIndices: number[]) => string[] | null;
+  joinEndpoints: (commandIdA: string, commandIdB: string, mode: JoinMode, handleType?: ControlPointType) => string | null;
+  weldAnchors: (pathIds: string[], tolerance: number, handleType?: ControlPointType) => number;
+  reverseSubPaths: (subPathIds: string[]) => void;
+  setSubPathStartPoint: (commandId: string) => boolean;
+  setSubPathsWinding: (subPathIds: string[], winding: SubPathWinding) => void;
   lockSelectedSubPaths: () => void;
   lockAllSubPaths: () => void;
   unlockAllSubPaths: () => void;
   invertAllSubPaths: () => void;
+  updatePathShape: (pathId: string, shape: ShapeParameters) => void;
+  convertShapeToPath: (pathId: string) => void;
+  setPathTransform: (pathId: string, transform: TransformMatrix | undefined) => void;
+  flattenPathTransform: (pathId: string) => void;
 }
 
+// Drop selected commands that a geometry rewrite removed
+const withExistingCommands = (selection: EditorState['selection'], paths: SVGPath[]): EditorState['selection'] => {
+  const commandIds = new Set(paths.flatMap(path => path.subPaths.flatMap(sp => sp.commands.map(cmd => cmd.id))));
+  return {
+    ...selection,
+    selectedCommands: selection.selectedCommands.filter(id => commandIds.has(id)),
+  };
+};
+
 export const createPathActions: StateCreator<
   EditorState & PathActions & { moveGroup: (groupId: string, delta: Point) => void; shouldMoveSyncGroup: (elementId: string, elementType: 'path' | 'text' | 'group') => any; moveSyncGroupByElement: (elementId: string, elementType: 'path' | 'text' | 'group', delta: Point) => boolean; },
   [],
@@ -169,6 +199,9 @@ export const createPathActions: StateCreator<
         }
       }
       
+      // Paths with their own transform move in local space, where the grid does not apply
+      const localDelta = toPathLocalDelta(parentPath, delta);
+      
       return {
         paths: state.paths.map((path) => ({
           ...path,
@@ -177,13 +210,13 @@ export const createPathActions: StateCreator<
               ? {
                 ...subPath,
                 commands: subPath.commands.map((cmd) => {
-                  let newX = cmd.x !== undefined ? cmd.x + delta.x : cmd.x;
-                  let newY = cmd.y !== undefined ? cmd.y + delta.y : cmd.y;
-                  let newX1 = cmd.x1 !== undefined ? cmd.x1 + delta.x : cmd.x1;
-                  let newY1 = cmd.y1 !== undefined ? cmd.y1 + delta.y : cmd.y1;
-                  let newX2 = cmd.x2 !== undefined ? cmd.x2 + delta.x : cmd.x2;
-                  let newY2 = cmd.y2 !== undefined ? cmd.y2 + delta.y : cmd.y2;
-                  if (state.grid.snapToGrid && !skipGridSnapping) {
+                  let newX = cmd.x !== undefined ? cmd.x + localDelta.x : cmd.x;
+                  let newY = cmd.y !== undefined ? cmd.y + localDelta.y : cmd.y;
+                  let newX1 = cmd.x1 !== undefined ? cmd.x1 + localDelta.x : cmd.x1;
+                  let newY1 = cmd.y1 !== undefined ? cmd.y1 + localDelta.y : cmd.y1;
+                  let newX2 = cmd.x2 !== undefined ? cmd.x2 + localDelta.x : cmd.x2;
+                  let newY2 = cmd.y2 !== undefined ? cmd.y2 + localDelta.y : cmd.y2;
+                  if (state.grid.snapToGrid && !skipGridSnapping && !parentPath?.transform) {
                     if (newX !== undefined && newY !== undefined) {
                       const snapped = snapToGrid({ x: newX, y: newY }, state.grid.size);
                       newX = snapped.x;
@@ -487,6 +520,400 @@ export const createPathActions: StateCreator<
     });
   },
 
+  applyBooleanOperationToSelection: (operation) => {
+    const { selection, paths } = get();
+    const zOrder = (path: SVGPath) => path.zIndex ?? paths.indexOf(path);
+    const orderedPaths = [...paths].sort((a, b) => zOrder(a) - zOrder(b));
+
+    if (selection.selectedSubPaths.length >= 2) {
+      // Subpath operands, ordered back to front
+      const operands = orderedPaths.flatMap(path =>
+        path.subPaths
+          .filter(subPath => selection.selectedSubPaths.includes(subPath.id))
+          .map(subPath => ({ path, subPath }))
+      );
+      if (operands.length < 2) return false;
+
+      // Operands are combined in canvas space
+      const booleanOperands = operands.map(({ path, subPath }) => ({
+        subPaths: getCanvasSubPaths({ subPaths: [subPath], transform: path.transform }),
+        fillRule: path.style.fillRule
+      }));
+      const canvasSubPaths = operation === 'divide'
+        ? computeBooleanRegions(booleanOperands).flatMap(region => region.subPaths)
+        : applyBooleanOperation(operation, booleanOperands);
+
+      // and the result goes back into the local space of the base path
+      const base = operands[0];
+      const baseInverse = base.path.transform ? invertMatrix(base.path.transform) : null;
+      const resultSubPaths = baseInverse ? transformSubPaths(canvasSubPaths, baseInverse) : canvasSubPaths;
+      const operandIds = operands.map(operand => operand.subPath.id);
+      const affectedPathIds = new Set(operands.map(operand => operand.path.id));
+
+      const newPaths = paths
+        .map(path => {
+          if (!affectedPathIds.has(path.id)) return path;
+          const subPaths = path.subPaths.flatMap(subPath => {
+            if (subPath.id === base.subPath.id) return resultSubPaths;
+            return operandIds.includes(subPath.id) ? [] : [subPath];
+          });
+          return { ...path, subPaths };
+        })
+        .filter(path => path.subPaths.length > 0);
+      const removedPathIds = [...affectedPathIds].filter(id => !newPaths.some(path => path.id === id));
+
+      set((state) => ({
+        paths: newPaths,
+        textPaths: state.textPaths.filter(tp => !removedPathIds.includes(tp.pathRef)),
+        selection: {
+          ...state.selection,
+          selectedPaths: [],
+          selectedSubPaths: resultSubPaths.map(subPath => subPath.id),
+          selectedCommands: [],
+          selectedControlPoints: [],
+        },
+      }));
+      return true;
+    }
+
+    if (selection.selectedPaths.length >= 2) {
+      const operandPaths = orderedPaths.filter(path => selection.selectedPaths.includes(path.id));
+      if (operandPaths.length < 2) return false;
+
+      const booleanOperands = operandPaths.map(path => ({
+        subPaths: getCanvasSubPaths(path),
+        fillRule: path.style.fillRule
+      }));
+      const base = operandPaths[0];
+      const operandIds = operandPaths.map(path => path.id);
+      let resultPaths: SVGPath[];
+
+      if (operation === 'divide') {
+        // One path per region, styled like the topmost operand covering it
+        resultPaths = computeBooleanRegions(booleanOperands).map(region => {
+          const source = operandPaths[region.operandIndices[region.operandIndices.length - 1]];
+          return {
+            id: generateId(),
+            subPaths: region.subPaths,
+            style: { ...source.style },
+            zIndex: source.zIndex,
+          };
+        });
+      } else {
+        // The result is in canvas space, so the base loses its own transform
+        const { transform: _transform, ...plainBase } = base;
+        const subPaths = applyBooleanOperation(operation, booleanOperands);
+        resultPaths = subPaths.length > 0 ? [{ ...plainBase, subPaths }] : [];
+      }
+
+      const newPaths = paths.flatMap(path => {
+        if (path.id === base.id) return resultPaths;
+        return operandIds.includes(path.id) ? [] : [path];
+      });
+      const removedPathIds = operandIds.filter(id => !resultPaths.some(path => path.id === id));
+
+      set((state) => ({
+        paths: newPaths,
+        textPaths: state.textPaths.filter(tp => !removedPathIds.includes(tp.pathRef)),
+        selection: {
+          ...state.selection,
+          selectedPaths: resultPaths.map(path => path.id),
+          selectedSubPaths: [],
+          selectedCommands: [],
+          selectedControlPoints: [],
+        },
+      }));
+      return true;
+    }
+
+    return false;
+  },
+
+  outlinePathStrokes: (pathIds) => {
+    const { paths } = get();
+    const outlinedIds: string[] = [];
+    const removedPathIds: string[] = [];
+
+    const newPaths = paths.flatMap(path => {
+      const { style } = path;
+      const hasStroke = style.stroke !== undefined && style.stroke !== 'none' && (style.strokeWidth ?? 1) > 0;
+      if (!pathIds.includes(path.id) || !hasStroke) return [path];
+
+      const subPaths = outlineStroke(path.subPaths, getStrokeOutlineOptions(style));
+      if (subPaths.length === 0) return [path];
+
+      // The outline is filled with the old stroke paint
+      const outlinePath: SVGPath = {
+        id: generateId(),
+        subPaths,
+        style: {
+          ...style,
+          fill: style.stroke,
+          fillOpacity: style.strokeOpacity,
+          fillRule: 'nonzero',
+          stroke: 'none',
+          strokeWidth: undefined,
+          strokeOpacity: undefined,
+          strokeDasharray: undefined,
+          strokeDashoffset: undefined,
+          strokeLinecap: undefined,
+          strokeLinejoin: undefined,
+          strokeMiterlimit: undefined,
+        },
+        zIndex: path.zIndex,
+        ...(path.transform ? { transform: path.transform } : {}),
+      };
+      outlinedIds.push(outlinePath.id);
+
+      // Keep the original only when it still paints a fill (an unset fill paints black)
+      const hasFill = style.fill !== 'none' && style.fill !== 'transparent';
+      if (!hasFill) {
+        removedPathIds.push(path.id);
+        return [outlinePath];
+      }
+      return [{ ...path, style: { ...style, stroke: 'none' } }, outlinePath];
+    });
+
+    if (outlinedIds.length === 0) return [];
+
+    set((state) => ({
+      paths: newPaths,
+      textPaths: state.textPaths.filter(tp => !removedPathIds.includes(tp.pathRef)),
+      selection: {
+        ...state.selection,
+        selectedPaths: outlinedIds,
+        selectedSubPaths: [],
+        selectedCommands: [],
+        selectedControlPoints: [],
+      },
+    }));
+    return outlinedIds;
+  },
+
+  cutPathsWithLine: (from, to, pathIds) => {
+    const state = get();
+    const pieceIds: string[] = [];
+
+    const newPaths = state.paths.map(path => {
+      if (path.locked || (pathIds && !pathIds.includes(path.id))) return path;
+
+      let changed = false;
+      const subPaths = path.subPaths.flatMap(subPath => {
+        if (subPath.locked) return [subPath];
+        const pieces = cutSubPathWithLine(subPath, toPathLocalPoint(path, from), toPathLocalPoint(path, to));
+        if (!pieces) return [subPath];
+
+        changed = true;
+        // The first piece keeps the original id so references to the subpath survive
+        const [first, ...rest] = pieces;
+        const result = [{ ...first, id: subPath.id }, ...rest];
+        pieceIds.push(...result.map(piece => piece.id));
+        return result;
+      });
+
+      return changed ? { ...path, subPaths } : path;
+    });
+
+    if (pieceIds.length === 0) return [];
+
+    set({ paths: newPaths });
+    return pieceIds;
+  },
+
+  applyShapeBuilder: (pathIds, regions, mergeIndices, deleteIndices) => {
+    // pathIds are the operands the regions were computed from, back to front
+    const { paths } = get();
+    const operandPaths = pathIds
+      .map(id => paths.find(path => path.id === id))
+      .filter((path): path is SVGPath => !!path);
+    // Operands changed since the regions were computed: nothing is applied
+    if (operandPaths.length !== pathIds.length || regions.length === 0) return null;
+
+    const styleRegion = (region: BooleanRegion): SVGPath => {
+      const source = operandPaths[region.operandIndices[region.operandIndices.length - 1]];
+      return {
+        id: generateId(),
+        subPaths: region.subPaths,
+        style: { ...source.style },
+        zIndex: source.zIndex,
+      };
+    };
+
+    // Untouched regions become separate shapes, merged ones a single shape
+    const resultPaths: SVGPath[] = regions
+      .filter((_, index) => !mergeIndices.includes(index) && !deleteIndices.includes(index))
+      .map(styleRegion);
+    const mergeRegions = mergeIndices.map(index => regions[index]).filter(Boolean);
+    if (mergeRegions.length > 0) {
+      const merged = mergeRegions.length === 1
+        ? mergeRegions[0].subPaths
+        : applyBooleanOperation('union', mergeRegions.map(region => ({ subPaths: region.subPaths })));
+      if (merged.length > 0) {
+        resultPaths.push({ ...styleRegion(mergeRegions[0]), subPaths: merged });
+      }
+    }
+
+    // Results take the place of the back-most operand
+    const base = operandPaths[0];
+    const newPaths = paths.flatMap(path => {
+      if (path.id === base.id) return resultPaths;
+      return pathIds.includes(path.id) ? [] : [path];
+    });
+
+    set((state) => ({
+      paths: newPaths,
+      textPaths: state.textPaths.filter(tp => !pathIds.includes(tp.pathRef)),
+      selection: {
+        ...state.selection,
+        selectedPaths: resultPaths.map(path => path.id),
+        selectedSubPaths: [],
+        selectedCommands: [],
+        selectedControlPoints: [],
+      },
+    }));
+    return resultPaths.map(path => path.id);
+  },
+
+  joinEndpoints: (commandIdA, commandIdB, mode, handleType) => {
+    const { paths } = get();
+    const findEndpoint = (commandId: string) => {
+      for (const path of paths) {
+        for (const subPath of path.subPaths) {
+          const end = getSubPathEnd(subPath, commandId);
+          if (end) return { path, subPath, end };
+        }
+      }
+      return null;
+    };
+
+    const first = findEndpoint(commandIdA);
+    const second = findEndpoint(commandIdB);
+    if (!first || !second) return null;
+    if (first.path.locked || second.path.locked || first.subPath.locked || second.subPath.locked) return null;
+
+    // The second subpath joins in the first path's local space
+    const secondSubPath = second.path.id === first.path.id
+      ? second.subPath
+      : toPathLocalSubPaths(first.path, getCanvasSubPaths({ ...second.path, subPaths: [second.subPath] }))[0];
+    const commands = joinSubPaths(first.subPath, first.end, secondSubPath, second.end, mode, handleType);
+    if (!commands) return null;
+
+    // The joined subpath lives in the first path; the second path goes away once it's empty
+    const newPaths = paths.flatMap(path => {
+      const subPaths = path.subPaths
+        .filter(subPath => subPath.id === first.subPath.id || subPath.id !== second.subPath.id)
+        .map(subPath => (subPath.id === first.subPath.id ? { ...subPath, commands } : subPath));
+      if (subPaths.length === 0) return [];
+      return subPaths.length === path.subPaths.length && path.id !== first.path.id ? [path] : [{ ...path, subPaths }];
+    });
+    const removedPathIds = paths.filter(path => !newPaths.some(p => p.id === path.id)).map(path => path.id);
+    // Merging keeps the first anchor, a line keeps both ends
+    const selectedCommands = [commandIdA, commandIdB].filter(id => commands.some(cmd => cmd.id === id));
+
+    set((state) => ({
+      paths: newPaths,
+      textPaths: state.textPaths.filter(tp => !removedPathIds.includes(tp.pathRef)),
+      selection: {
+        ...state.selection,
+        selectedPaths: state.selection.selectedPaths.filter(id => !removedPathIds.includes(id)),
+        selectedSubPaths: second.subPath.id === first.subPath.id
+          ? state.selection.selectedSubPaths
+          : state.selection.selectedSubPaths.filter(id => id !== second.subPath.id),
+        selectedCommands,
+      },
+    }));
+    return first.subPath.id;
+  },
+
+  weldAnchors: (pathIds, tolerance, handleType) => {
+    const { paths } = get();
+    const targetPaths = paths.filter(path => pathIds.includes(path.id) && !path.locked);
+    const owned = targetPaths.flatMap(path => path.subPaths);
+    // Anchors of differently transformed paths are welded in canvas space
+    const { subPaths, welded } = weldSubPaths(targetPaths.flatMap(path => getCanvasSubPaths(path)), tolerance, handleType);
+    if (welded === 0) return 0;
+
+    // Survivors stay in the path they came from, back in its local space
+    const survivors = new Map(subPaths.map(subPath => [subPath.id, subPath]));
+    const newPaths = paths.flatMap(path => {
+      if (!targetPaths.includes(path)) return [path];
+      const remaining = toPathLocalSubPaths(path, path.subPaths
+        .filter(subPath => survivors.has(subPath.id))
+        .map(subPath => survivors.get(subPath.id)!));
+      return remaining.length > 0 ? [{ ...path, subPaths: remaining }] : [];
+    });
+    const removedPathIds = paths.filter(path => !newPaths.some(p => p.id === path.id)).map(path => path.id);
+
+    set((state) => ({
+      paths: newPaths,
+      textPaths: state.textPaths.filter(tp => !removedPathIds.includes(tp.pathRef)),
+      selection: {
+        ...state.selection,
+        selectedPaths: state.selection.selectedPaths.filter(id => !removedPathIds.includes(id)),
+        selectedSubPaths: state.selection.selectedSubPaths.filter(id => survivors.has(id) || !owned.some(sp => sp.id === id)),
+        selectedCommands: [],
+      },
+    }));
+    return welded;
+  },
+
+  reverseSubPaths: (subPathIds) => {
+    set((state) => {
+      const newPaths = state.paths.map(path => {
+        if (path.locked || !path.subPaths.some(subPath => subPathIds.includes(subPath.id))) return path;
+        return {
+          ...path,
+          subPaths: path.subPaths.map(subPath =>
+            subPathIds.includes(subPath.id) && !subPath.locked
+              ? { ...subPath, commands: reverseSubPathCommands(subPath.commands) }
+              : subPath
+          ),
+        };
+      });
+      return { paths: newPaths, selection: withExistingCommands(state.selection, newPaths) };
+    });
+  },
+
+  setSubPathStartPoint: (commandId) => {
+    const { paths } = get();
+    const path = paths.find(p => p.subPaths.some(sp => sp.commands.some(cmd => cmd.id === commandId)));
+    const subPath = path?.subPaths.find(sp => sp.commands.some(cmd => cmd.id === commandId));
+    if (!path || !subPath || path.locked || subPath.locked) return false;
+
+    const index = subPath.commands.findIndex(cmd => cmd.id === commandId);
+    const commands = setClosedSubPathStart(subPath.commands, index);
+    if (!commands) return false;
+
+    set((state) => ({
+      paths: state.paths.map(p => p.id !== path.id ? p : {
+        ...p,
+        subPaths: p.subPaths.map(sp => (sp.id === subPath.id ? { ...sp, commands } : sp)),
+      }),
+      selection: {
+        ...state.selection,
+        selectedCommands: [commands[0].id],
+      },
+    }));
+    return true;
+  },
+
+  setSubPathsWinding: (subPathIds, winding) => {
+    set((state) => {
+      const newPaths = state.paths.map(path => {
+        if (path.locked || !path.subPaths.some(subPath => subPathIds.includes(subPath.id))) return path;
+        return {
+          ...path,
+          subPaths: path.subPaths.map(subPath =>
+            subPathIds.includes(subPath.id) && !subPath.locked
+              ? setSubPathWinding(subPath, winding)
+              : subPath
+          ),
+        };
+      });
+      return { paths: newPaths, selection: withExistingCommands(state.selection, newPaths) };
+    });
+  },
+
   lockSelectedSubPaths: () => {
     set((state) => {
       const selectedIds = state.selection.selectedSubPaths;
@@ -532,4 +959,53 @@ export const createPathActions: StateCreator<
       return { paths: newPaths };
     });
   },
+
+  updatePathShape: (pathId, shape) => {
+    set((state) => {
+      // The geometry is regenerated from the parameters, keeping the subpath id
+      const newPaths = state.paths.map(path => path.id === pathId
+        ? { ...path, shape, subPaths: [createShapeSubPath(shape, path.subPaths[0]?.id)] }
+        : path
+      );
+      return { paths: newPaths, selection: withExistingCommands(state.selection, newPaths) };
+    });
+  },
+
+  convertShapeToPath: (pathId) => {
+    set((state) => ({
+      paths: state.paths.map(path => {
+        if (path.id !== pathId || !path.shape) return path;
+        const { shape, ...plainPath } = path;
+        return plainPath;
+      }),
+    }));
+  },
+
+  setPathTransform: (pathId, transform) => {
+    set((state) => ({
+      paths: state.paths.map(path => {
+        if (path.id !== pathId) return path;
+        const { transform: previous, ...plainPath } = path;
+        return transform && !isIdentityMatrix(transform) ? { ...plainPath, transform } : plainPath;
+      }),
+    }));
+  },
+
+  flattenPathTransform: (pathId) => {
+    set((state) => ({
+      paths: state.paths.map(path => {
+        if (path.id !== pathId || !path.transform) return path;
+        const { transform, shape, ...plainPath } = path;
+        const subPaths = transformSubPaths(path.subPaths, transform);
+        // A live shape survives a matrix that only moves or resizes it along the axes
+        const flattenedShape = shape ? matchShapeToPath(shape, subPaths) : null;
+        return {
+          ...plainPath,
+          subPaths,
+          style: transformPathStyle(path.style, transform),
+          ...(flattenedShape ? { shape: flattenedShape } : {})
+        };
+      }),
+    }));
+  },
 });
\ No newline at end of file
@@ -1,5 +1,5 @@
 import { StateCreator } from 'zustand';
-import { EditorState, SVGImage, SVGClipPath, SVGMask, SVGFilter, SVGMarker, SVGSymbol, SVGUse, Point, PathStyle } from '../types';
+import { EditorState, SVGImage, SVGClipPath, SVGMask, SVGFilter, SVGMarker, SVGSymbol, SVGUse, Point, PathStyle, GradientOrPattern } from '../types';
 import { generateId } from '../utils/id-utils';
 import { calculateSmartDuplicationOffset } from '../utils/duplication-positioning';
 import { HistoryActions } from './historyActions';
@@ -38,6 +38,7 @@ export interface SVGElementActions {
   
   // Symbol actions
   addSymbol: (symbol: Omit<SVGSymbol, 'id'>) => void;
+  addSpriteSymbols: (symbols: SVGSymbol[], uses: SVGUse[], gradients?: GradientOrPattern[]) => void;
   updateSymbol: (id: string, updates: Partial<SVGSymbol>) => void;
   removeSymbol: (id: string) => void;
   
@@ -289,6 +290,15 @@ export const createSVGElementActions: StateCreator<
       renderVersion: state.renderVersion + 1,
     })),
 
+  // Symbols keep their ids here, the instances already reference them
+  addSpriteSymbols: (symbols, uses, gradients = []) =>
+    set((state) => ({
+      symbols: [...state.symbols, ...symbols],
+      uses: [...state.uses, ...uses],
+      gradients: [...state.gradients, ...gradients],
+      renderVersion: state.renderVersion + 1,
+    })),
+
   updateSymbol: (id, updates) =>
     set((state) => ({
       symbols: state.symbols.map((symbol) =>
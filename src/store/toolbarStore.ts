@@ -1,5 +1,6 @@
 import { create } from 'zustand';
 import { subscribeWithSelector } from 'zustand/middleware';
+import type { DrawingUnit } from '../utils/format-geometry-utils';
 
 // Interface for persisted toolbar states
 interface ToolbarState {
@@ -12,6 +13,14 @@ interface ToolbarState {
   
   // File actions states
   isFileActionsSubmenuOpen: boolean;
+  isAutosaveVersionsOpen: boolean;
+  isRasterExportOpen: boolean;
+  isBatchExportOpen: boolean;
+  isFormatExportOpen: boolean;
+  
+  // CAD / plotter units, shared by imports and exports
+  formatCanvasUnit: DrawingUnit; // Physical size of one canvas unit
+  formatFileUnit: DrawingUnit; // Unit of written files, and of read files that declare none
   
   // General toolbar states
   lastActiveTools: Record<string, any>;
@@ -27,6 +36,11 @@ interface ToolbarActions {
   
   // File actions
   setFileActionsSubmenuOpen: (isOpen: boolean) => void;
+  setAutosaveVersionsOpen: (isOpen: boolean) => void;
+  setRasterExportOpen: (isOpen: boolean) => void;
+  setBatchExportOpen: (isOpen: boolean) => void;
+  setFormatExportOpen: (isOpen: boolean) => void;
+  setFormatUnits: (units: Partial<Pick<ToolbarState, 'formatCanvasUnit' | 'formatFileUnit'>>) => void;
   
   // General actions
   setLastActiveTool: (toolType: string, state: any) => void;
@@ -58,6 +72,8 @@ const saveToolbarState = (state: ToolbarState) => {
       isCreationSubmenuOpen: state.isCreationSubmenuOpen,
       isZoomSubmenuOpen: state.isZoomSubmenuOpen,
       lastActiveTools: state.lastActiveTools,
+      formatCanvasUnit: state.formatCanvasUnit,
+      formatFileUnit: state.formatFileUnit,
     };
     localStorage.setItem('sspe-toolbar-state', JSON.stringify(stateToSave));
   } catch {}
@@ -74,6 +90,12 @@ export const useToolbarStore = create<ToolbarStore>()(
       isCreationSubmenuOpen: false, // Don't persist open menus
       isZoomSubmenuOpen: false, // Don't persist open menus
       isFileActionsSubmenuOpen: false, // Don't persist open menus
+      isAutosaveVersionsOpen: false,
+      isRasterExportOpen: false,
+      isBatchExportOpen: false,
+      isFormatExportOpen: false,
+      formatCanvasUnit: savedState.formatCanvasUnit || 'px',
+      formatFileUnit: savedState.formatFileUnit || 'mm',
       lastActiveTools: savedState.lastActiveTools || {},
       
       // Creation tool actions
@@ -99,6 +121,27 @@ export const useToolbarStore = create<ToolbarStore>()(
         // Don't persist submenu open states
       },
       
+      setAutosaveVersionsOpen: (isOpen) => {
+        set({ isAutosaveVersionsOpen: isOpen });
+      },
+      
+      setRasterExportOpen: (isOpen) => {
+        set({ isRasterExportOpen: isOpen });
+      },
+      
+      setBatchExportOpen: (isOpen) => {
+        set({ isBatchExportOpen: isOpen });
+      },
+      
+      setFormatExportOpen: (isOpen) => {
+        set({ isFormatExportOpen: isOpen });
+      },
+      
+      setFormatUnits: (units) => {
+        set(units);
+        saveToolbarState(get());
+      },
+      
       // General actions
       setLastActiveTool: (toolType, state) => {
         set((current) => ({
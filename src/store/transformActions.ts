@@ -2,6 +2,7 @@ import { StateCreator } from 'zustand';
 import { EditorState, Point } from '../types';
 import { scaleSubPath, rotateSubPath, translateSubPath, getSubPathCenter, mirrorSubPathHorizontal, mirrorSubPathVertical } from '../utils/transform-subpath-utils';
 import { HistoryActions } from './historyActions';
+import { toPathLocalDelta } from '../utils/path-transform-utils';
 
 export interface TransformActions {
   scaleSubPath: (subPathId: string, scaleX: number, scaleY: number, center?: Point) => void;
@@ -77,7 +78,8 @@ export const createTransformActions: StateCreator<
         ...path,
         subPaths: path.subPaths.map((subPath) =>
           subPath.id === subPathId
-            ? translateSubPath(subPath, delta)
+            // Paths with their own transform move in local space
+            ? translateSubPath(subPath, toPathLocalDelta(path, delta))
             : subPath
         ),
       })),
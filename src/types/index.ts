@@ -1,8 +1,14 @@
-export type SVGCommandType = 'M' | 'L' | 'C' | 'Z';
+import type { Patch } from 'immer';
+import type { TransformMatrix } from '../utils/transform-utils';
+
+export type SVGCommandType = 'M' | 'L' | 'H' | 'V' | 'C' | 'S' | 'Q' | 'T' | 'A' | 'Z';
 
 // Extended command types for editor modes (not actual SVG commands)
 export type EditorCommandType = SVGCommandType | 'PENCIL' | 'NEW_PATH';
 
+// All coordinates are absolute. x/y always hold the end point, also for H and V.
+// Q uses x1/y1 as its single control point, S only stores x2/y2 (its first
+// control point is the reflection of the previous one) and T stores none.
 export interface SVGCommand {
   id: string;
   command: SVGCommandType;
@@ -12,6 +18,12 @@ export interface SVGCommand {
   y1?: number;  // Control point 1 y for curves
   x2?: number;  // Control point 2 x for curves
   y2?: number;  // Control point 2 y for curves
+  // Elliptical arc parameters (A command only)
+  rx?: number;
+  ry?: number;
+  xAxisRotation?: number; // Degrees
+  largeArcFlag?: 0 | 1;
+  sweepFlag?: 0 | 1;
   locked?: boolean; // If true, command is locked and unselectable
 }
 
@@ -28,8 +40,71 @@ export interface SVGPath {
   pathLength?: number; // For animation normalization
   locked?: boolean; // If true, path is locked and unselectable
   zIndex?: number; // Z-order for global layering across all element types
+  shape?: ShapeParameters; // Live primitive the subpaths are generated from
+  transform?: TransformMatrix; // Own transform; the commands are in its local space
+}
+
+// Live primitive shapes: the path geometry is generated from these parameters
+export interface RectShape {
+  kind: 'rect';
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  rx: number; // Corner radii
+  ry: number;
+}
+
+export interface CircleShape {
+  kind: 'circle';
+  cx: number;
+  cy: number;
+  r: number;
+}
+
+export interface EllipseShape {
+  kind: 'ellipse';
+  cx: number;
+  cy: number;
+  rx: number;
+  ry: number;
+}
+
+export interface LineShape {
+  kind: 'line';
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+}
+
+export interface PolygonShape {
+  kind: 'polygon';
+  points: Point[];
 }
 
+export interface RegularPolygonShape {
+  kind: 'regular-polygon';
+  cx: number;
+  cy: number;
+  radius: number; // Center to vertex
+  sides: number;
+  rotation: number; // Degrees; the first vertex sits at this angle
+}
+
+export interface StarShape {
+  kind: 'star';
+  cx: number;
+  cy: number;
+  radius: number; // Center to outer points
+  innerRadius: number; // Center to inner corners
+  points: number;
+  rotation: number; // Degrees; the first outer point sits at this angle
+}
+
+export type ShapeParameters = RectShape | CircleShape | EllipseShape | LineShape | PolygonShape | RegularPolygonShape | StarShape;
+export type ShapeKind = ShapeParameters['kind'];
+
 export interface GradientStop {
   id: string;
   offset: number; // 0-1
@@ -218,17 +293,35 @@ export interface SelectionState {
   selectionBox?: BoundingBox;
 }
 
+// Data part of the editor state, shared by reference with the live state
+export type HistorySnapshot = Partial<Omit<EditorState, 'history' | 'documents'>>;
+
+export interface HistoryEntry {
+  patches: Patch[]; // From the previous step to this one
+  inversePatches: Patch[]; // Back from this step to the previous one
+  size: number; // Estimated bytes held by the patches
+  timestamp: number;
+  label?: string; // The edit that led to this step
+}
+
+export interface HistoryTransactionState {
+  label: string;
+  depth: number; // Nested transactions fold into the outermost one
+  recorded: boolean; // Whether the transaction has recorded its step yet
+}
+
 export interface HistoryState {
-  past: EditorState[];
-  present: EditorState;
-  future: EditorState[];
+  past: HistoryEntry[];
+  future: HistoryEntry[];
+  checkpoint: HistorySnapshot | null; // The newest past step, which undo restores
+  present: HistorySnapshot | null; // Where the editor was when history last recorded or restored it
+  presentTimestamp: number;
+  presentLabel?: string;
+  transaction: HistoryTransactionState | null;
   canUndo: boolean;
   canRedo: boolean;
-  timestamps?: {
-    past: number[];
-    present: number;
-    future: number[];
-  };
+  memoryUsage: number; // Estimated bytes held by all entries
+  memoryBudget: number;
 }
 
 export interface GridState {
@@ -264,7 +357,7 @@ export interface ToolSettings {
 export interface EditorMode {
   // Added 'subpath-edit' for the new specialized editing mode where subpaths are
   // editable but should not be selected by pointer taps.
-  current: 'select' | 'create' | 'edit' | 'pan' | 'zoom' | 'curves' | 'subpath-edit' | 'smooth';
+  current: 'select' | 'create' | 'edit' | 'pan' | 'zoom' | 'curves' | 'subpath-edit' | 'smooth' | 'offset' | 'knife' | 'shape-builder';
   createMode?: {
     commandType: EditorCommandType;
     isDrawing: boolean;
@@ -272,6 +365,25 @@ export interface EditorMode {
   };
 }
 
+export interface DocumentTab {
+  id: string;
+  name: string;
+  createdAt: number;
+}
+
+export interface DocumentWorkspace {
+  tabs: DocumentTab[];
+  activeDocumentId: string;
+}
+
+// Editor state that belongs to one document; everything else is shared by all documents
+export type EditorDocumentKey =
+  | 'paths' | 'texts' | 'textPaths' | 'groups' | 'gradients' | 'images'
+  | 'clipPaths' | 'masks' | 'filters' | 'markers' | 'symbols' | 'uses'
+  | 'animations' | 'animationSync' | 'selection' | 'viewport' | 'history';
+
+export type EditorDocumentState = Pick<EditorState, EditorDocumentKey>;
+
 export interface EditorState {
   shapeSize?: number;
   toolSettings: ToolSettings; // Tool configuration settings
@@ -294,6 +406,7 @@ export interface EditorState {
   grid: GridState;
   mode: EditorMode;
   history: HistoryState;
+  documents: DocumentWorkspace; // Open documents; the active one lives in the fields above
   isFullscreen: boolean;
   textEditState: {
     editingTextId: string | null;
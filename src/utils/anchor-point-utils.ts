@@ -0,0 +1,260 @@
+import { Point, SVGCommand } from '../types';
+import { generateId } from './id-utils';
+import { getArcParameters, getReflectedControlPoint } from './path-utils';
+import { getArcCenterParameters, getArcPointAtAngle } from './arc-utils';
+import {
+  CubicSegment,
+  createCubicSegment,
+  splitCubic,
+  subPathToCubicContours,
+  fitCubicToSegments
+} from './cubic-segment-utils';
+
+/**
+ * Anchor point editing that keeps the drawn shape: splitting a command at a
+ * parameter traces the identical curve with two commands, and removing an
+ * anchor refits the two neighbouring commands as one.
+ */
+
+const lerp = (a: Point, b: Point, t: number): Point => ({
+  x: a.x + (b.x - a.x) * t,
+  y: a.y + (b.y - a.y) * t
+});
+
+// Start point of every command (the end point of the previous one; Z returns to the subpath start)
+export const getStartPoints = (commands: SVGCommand[]): Point[] => {
+  const starts: Point[] = [];
+  let current: Point = { x: 0, y: 0 };
+  let subPathStart: Point = { x: 0, y: 0 };
+  for (const cmd of commands) {
+    starts.push(current);
+    if (cmd.command === 'Z') {
+      current = subPathStart;
+    } else {
+      current = { x: cmd.x ?? current.x, y: cmd.y ?? current.y };
+      if (cmd.command === 'M') subPathStart = current;
+    }
+  }
+  return starts;
+};
+
+const getEndPoint = (commands: SVGCommand[], index: number, starts: Point[]): Point =>
+  index + 1 < starts.length ? starts[index + 1] : {
+    x: commands[index].x ?? starts[index].x,
+    y: commands[index].y ?? starts[index].y
+  };
+
+/**
+ * Smooth commands (S/T) take their first control point from the previous
+ * command. When that command changes, write the control point explicitly so
+ * the smooth command keeps its shape.
+ */
+export const freezeSmoothCommand = (commands: SVGCommand[], index: number, starts: Point[]): SVGCommand | null => {
+  const cmd = commands[index];
+  if (!cmd || (cmd.command !== 'S' && cmd.command !== 'T')) return null;
+  const control = getReflectedControlPoint(commands, index, starts[index]);
+  return cmd.command === 'S'
+    ? { ...cmd, command: 'C', x1: control.x, y1: control.y }
+    : { ...cmd, command: 'Q', x1: control.x, y1: control.y };
+};
+
+/**
+ * Parameter for splitCommandAt of a point found at parameter t of the
+ * command's drawn cubics. Arcs are drawn with cubics that don't advance
+ * evenly with the angle, so their parameter comes from the point's angle.
+ */
+export function getSplitParameter(commands: SVGCommand[], index: number, point: Point, t: number): number {
+  const cmd = commands[index];
+  if (!cmd || cmd.command !== 'A') return t;
+
+  const starts = getStartPoints(commands);
+  const center = getArcCenterParameters(starts[index], getEndPoint(commands, index, starts), getArcParameters(cmd));
+  if (!center) return t;
+
+  // Angle of the point on the unrotated ellipse, measured from the start in the sweep direction
+  const dx = point.x - center.cx;
+  const dy = point.y - center.cy;
+  const x = (Math.cos(center.phi) * dx + Math.sin(center.phi) * dy) / center.rx;
+  const y = (-Math.sin(center.phi) * dx + Math.cos(center.phi) * dy) / center.ry;
+  const turn = 2 * Math.PI;
+  const offset = ((Math.sign(center.deltaAngle) * (Math.atan2(y, x) - center.startAngle)) % turn + turn) % turn;
+  const sweep = Math.abs(center.deltaAngle);
+  if (offset <= sweep) return offset / sweep;
+  // Past the end: snap to whichever end is closer
+  return offset - sweep < turn - offset ? 1 : 0;
+}
+
+/**
+ * Split the command at `index` at parameter t (0..1, the angle fraction for
+ * arcs). Returns the new command list and the id of the inserted anchor, or
+ * null when the command cannot be split.
+ */
+export function splitCommandAt(
+  commands: SVGCommand[],
+  index: number,
+  t: number
+): { commands: SVGCommand[]; anchorId: string } | null {
+  const cmd = commands[index];
+  if (!cmd || cmd.command === 'M' || index === 0 || t <= 0 || t >= 1) return null;
+
+  const starts = getStartPoints(commands);
+  const p0 = starts[index];
+  const end = getEndPoint(commands, index, starts);
+  const anchorId = generateId();
+  let replacement: SVGCommand[];
+
+  switch (cmd.command) {
+    case 'L':
+    case 'H':
+    case 'V': {
+      const point = lerp(p0, end, t);
+      replacement = [{ ...cmd, id: anchorId, x: point.x, y: point.y }, cmd];
+      break;
+    }
+    case 'Z': {
+      // The closing line gets an explicit first half
+      const point = lerp(p0, end, t);
+      replacement = [{ id: anchorId, command: 'L', x: point.x, y: point.y }, cmd];
+      break;
+    }
+    case 'C':
+    case 'S': {
+      const control1 = cmd.command === 'C'
+        ? { x: cmd.x1 ?? p0.x, y: cmd.y1 ?? p0.y }
+        : getReflectedControlPoint(commands, index, p0);
+      const segment = createCubicSegment(p0, control1, { x: cmd.x2 ?? end.x, y: cmd.y2 ?? end.y }, end);
+      const [left, right] = splitCubic(segment, t);
+      replacement = [
+        { id: anchorId, command: 'C', x1: left.p1.x, y1: left.p1.y, x2: left.p2.x, y2: left.p2.y, x: left.p3.x, y: left.p3.y },
+        { ...cmd, command: 'C', x1: right.p1.x, y1: right.p1.y, x2: right.p2.x, y2: right.p2.y }
+      ];
+      break;
+    }
+    case 'Q':
+    case 'T': {
+      const control = cmd.command === 'Q'
+        ? { x: cmd.x1 ?? p0.x, y: cmd.y1 ?? p0.y }
+        : getReflectedControlPoint(commands, index, p0);
+      const q01 = lerp(p0, control, t);
+      const q12 = lerp(control, end, t);
+      const point = lerp(q01, q12, t);
+      replacement = [
+        { id: anchorId, command: 'Q', x1: q01.x, y1: q01.y, x: point.x, y: point.y },
+        { ...cmd, command: 'Q', x1: q12.x, y1: q12.y }
+      ];
+      break;
+    }
+    case 'A': {
+      const center = getArcCenterParameters(p0, end, getArcParameters(cmd));
+      if (!center) {
+        // Degenerate arcs are drawn as straight lines
+        const point = lerp(p0, end, t);
+        replacement = [{ id: anchorId, command: 'L', x: point.x, y: point.y }, cmd];
+        break;
+      }
+      const sweep = center.deltaAngle * t;
+      const point = getArcPointAtAngle(center, center.startAngle + sweep);
+      replacement = [
+        {
+          ...cmd,
+          id: anchorId,
+          rx: center.rx,
+          ry: center.ry,
+          largeArcFlag: Math.abs(sweep) > Math.PI ? 1 : 0,
+          x: point.x,
+          y: point.y
+        },
+        {
+          ...cmd,
+          rx: center.rx,
+          ry: center.ry,
+          largeArcFlag: Math.abs(center.deltaAngle - sweep) > Math.PI ? 1 : 0
+        }
+      ];
+      break;
+    }
+    default:
+      return null;
+  }
+
+  // A following S or T reflected the last control point of the command that was split
+  const following = commands[index + 1];
+  const reflectsSplit = following && (
+    ((cmd.command === 'C' || cmd.command === 'S') && following.command === 'S') ||
+    ((cmd.command === 'Q' || cmd.command === 'T') && following.command === 'T')
+  );
+  const frozen = reflectsSplit ? freezeSmoothCommand(commands, index + 1, starts) : null;
+  const result = [...commands.slice(0, index), ...replacement, ...commands.slice(index + 1)];
+  if (frozen) {
+    result[index + 2] = frozen;
+  }
+  return { commands: result, anchorId };
+}
+
+const isStraight = (cmd: SVGCommand): boolean =>
+  cmd.command === 'L' || cmd.command === 'H' || cmd.command === 'V' || cmd.command === 'Z';
+
+// Cubic pieces that draw a command (arcs expand to several)
+const getCommandSegments = (commands: SVGCommand[], index: number): CubicSegment[] =>
+  subPathToCubicContours({ id: '', commands })
+    .flatMap(contour => contour.segments)
+    .filter(segment => segment.commandIndex === index);
+
+/**
+ * Remove the anchor at the end of the command at `index`, replacing it and
+ * the following command with a single command that follows both as closely
+ * as possible. Returns the new command list, or null when the anchor can't
+ * be removed.
+ */
+export function removeAnchorAt(commands: SVGCommand[], index: number): SVGCommand[] | null {
+  const cmd = commands[index];
+  if (!cmd || cmd.command === 'Z') return null;
+  const isClosed = commands.some(command => command.command === 'Z');
+  const starts = getStartPoints(commands);
+
+  if (cmd.command === 'M') {
+    // The start of an open subpath: the second anchor becomes the start
+    const next = commands[index + 1];
+    if (isClosed || !next || next.command === 'M' || next.command === 'Z') return null;
+    const end = getEndPoint(commands, index + 1, starts);
+    const rest = commands.slice(index + 2);
+    const frozen = freezeSmoothCommand(commands, index + 2, starts);
+    if (frozen) rest[0] = frozen;
+    return [...commands.slice(0, index), { id: next.id, command: 'M', x: end.x, y: end.y }, ...rest];
+  }
+
+  const next = commands[index + 1];
+  if (!next || next.command === 'M') {
+    // Last anchor of an open subpath
+    return commands.length > 2 ? [...commands.slice(0, index), ...commands.slice(index + 1)] : null;
+  }
+
+  const first = getCommandSegments(commands, index);
+  const second = getCommandSegments(commands, index + 1);
+  const end = getEndPoint(commands, index + 1, starts);
+  let merged: SVGCommand[];
+
+  if (next.command === 'Z') {
+    // The closing line absorbs the anchor
+    if (isStraight(cmd) || first.length === 0) {
+      merged = [next];
+    } else {
+      const fitted = fitCubicToSegments([...first, ...second]);
+      merged = fitted.isLine
+        ? [next]
+        : [{ id: cmd.id, command: 'C', x1: fitted.p1.x, y1: fitted.p1.y, x2: fitted.p2.x, y2: fitted.p2.y, x: end.x, y: end.y }, next];
+    }
+  } else if ((isStraight(cmd) && isStraight(next)) || first.length === 0 || second.length === 0) {
+    merged = [{ id: next.id, command: 'L', x: end.x, y: end.y }];
+  } else {
+    const fitted = fitCubicToSegments([...first, ...second]);
+    merged = fitted.isLine
+      ? [{ id: next.id, command: 'L', x: end.x, y: end.y }]
+      : [{ id: next.id, command: 'C', x1: fitted.p1.x, y1: fitted.p1.y, x2: fitted.p2.x, y2: fitted.p2.y, x: end.x, y: end.y }];
+  }
+
+  const rest = commands.slice(index + 2);
+  const frozen = freezeSmoothCommand(commands, index + 2, starts);
+  if (frozen) rest[0] = frozen;
+  return [...commands.slice(0, index), ...merged, ...rest];
+}
@@ -0,0 +1,281 @@
+import { Point, BoundingBox } from '../types';
+import { TransformMatrix } from './transform-utils';
+
+/**
+ * Elliptical arc helpers based on the SVG implementation notes (Appendix F.6)
+ */
+
+export interface ArcParameters {
+  rx: number;
+  ry: number;
+  xAxisRotation: number; // degrees
+  largeArcFlag: 0 | 1;
+  sweepFlag: 0 | 1;
+}
+
+export interface ArcCenterParameters {
+  cx: number;
+  cy: number;
+  rx: number; // Radii corrected so the arc can reach its endpoint
+  ry: number;
+  phi: number; // x-axis rotation in radians
+  startAngle: number; // radians
+  deltaAngle: number; // signed sweep in radians
+}
+
+const TWO_PI = Math.PI * 2;
+
+const vectorAngle = (ux: number, uy: number, vx: number, vy: number): number => {
+  const sign = ux * vy - uy * vx < 0 ? -1 : 1;
+  const dot = ux * vx + uy * vy;
+  const len = Math.sqrt(ux * ux + uy * uy) * Math.sqrt(vx * vx + vy * vy);
+  const cos = Math.max(-1, Math.min(1, dot / len));
+  return sign * Math.acos(cos);
+};
+
+/**
+ * Convert endpoint arc parameterization to center parameterization.
+ * Returns null for degenerate arcs, which must be rendered as straight lines.
+ */
+export function getArcCenterParameters(start: Point, end: Point, arc: ArcParameters): ArcCenterParameters | null {
+  let rx = Math.abs(arc.rx);
+  let ry = Math.abs(arc.ry);
+  if (rx === 0 || ry === 0) return null;
+  if (start.x === end.x && start.y === end.y) return null;
+
+  const phi = (arc.xAxisRotation * Math.PI) / 180;
+  const cosPhi = Math.cos(phi);
+  const sinPhi = Math.sin(phi);
+
+  // Step 1: compute (x1', y1')
+  const dx = (start.x - end.x) / 2;
+  const dy = (start.y - end.y) / 2;
+  const x1p = cosPhi * dx + sinPhi * dy;
+  const y1p = -sinPhi * dx + cosPhi * dy;
+
+  // Correct out-of-range radii
+  const lambda = (x1p * x1p) / (rx * rx) + (y1p * y1p) / (ry * ry);
+  if (lambda > 1) {
+    const scale = Math.sqrt(lambda);
+    rx *= scale;
+    ry *= scale;
+  }
+
+  // Step 2: compute (cx', cy')
+  const rx2 = rx * rx;
+  const ry2 = ry * ry;
+  const numerator = rx2 * ry2 - rx2 * y1p * y1p - ry2 * x1p * x1p;
+  const denominator = rx2 * y1p * y1p + ry2 * x1p * x1p;
+  const sign = arc.largeArcFlag === arc.sweepFlag ? -1 : 1;
+  const coefficient = sign * Math.sqrt(Math.max(0, numerator / denominator));
+  const cxp = coefficient * ((rx * y1p) / ry);
+  const cyp = coefficient * (-(ry * x1p) / rx);
+
+  // Step 3: compute (cx, cy)
+  const cx = cosPhi * cxp - sinPhi * cyp + (start.x + end.x) / 2;
+  const cy = sinPhi * cxp + cosPhi * cyp + (start.y + end.y) / 2;
+
+  // Step 4: compute angles
+  const ux = (x1p - cxp) / rx;
+  const uy = (y1p - cyp) / ry;
+  const vx = (-x1p - cxp) / rx;
+  const vy = (-y1p - cyp) / ry;
+  const startAngle = vectorAngle(1, 0, ux, uy);
+  let deltaAngle = vectorAngle(ux, uy, vx, vy);
+
+  if (arc.sweepFlag === 0 && deltaAngle > 0) {
+    deltaAngle -= TWO_PI;
+  } else if (arc.sweepFlag === 1 && deltaAngle < 0) {
+    deltaAngle += TWO_PI;
+  }
+
+  return { cx, cy, rx, ry, phi, startAngle, deltaAngle };
+}
+
+/**
+ * Point on the ellipse described by center parameters at the given angle
+ */
+export function getArcPointAtAngle(center: ArcCenterParameters, angle: number): Point {
+  const cosPhi = Math.cos(center.phi);
+  const sinPhi = Math.sin(center.phi);
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  return {
+    x: center.cx + center.rx * cos * cosPhi - center.ry * sin * sinPhi,
+    y: center.cy + center.rx * cos * sinPhi + center.ry * sin * cosPhi
+  };
+}
+
+/**
+ * Sample points along an arc (the start point is excluded, the end point included)
+ */
+export function sampleArcPoints(start: Point, end: Point, arc: ArcParameters, steps: number): Point[] {
+  const center = getArcCenterParameters(start, end, arc);
+  const points: Point[] = [];
+
+  for (let i = 1; i <= steps; i++) {
+    const t = i / steps;
+    if (!center) {
+      points.push({ x: start.x + (end.x - start.x) * t, y: start.y + (end.y - start.y) * t });
+    } else if (i === steps) {
+      points.push({ x: end.x, y: end.y });
+    } else {
+      points.push(getArcPointAtAngle(center, center.startAngle + center.deltaAngle * t));
+    }
+  }
+
+  return points;
+}
+
+/**
+ * Approximate an arc with cubic Bézier segments (one per quarter turn at most)
+ */
+export function arcToCubicCurves(
+  start: Point,
+  end: Point,
+  arc: ArcParameters
+): Array<{ x1: number; y1: number; x2: number; y2: number; x: number; y: number }> {
+  const center = getArcCenterParameters(start, end, arc);
+  if (!center) {
+    // Degenerate arc: straight line expressed as a cubic
+    return [{
+      x1: start.x + (end.x - start.x) / 3,
+      y1: start.y + (end.y - start.y) / 3,
+      x2: start.x + ((end.x - start.x) * 2) / 3,
+      y2: start.y + ((end.y - start.y) * 2) / 3,
+      x: end.x,
+      y: end.y
+    }];
+  }
+
+  const segmentCount = Math.max(1, Math.ceil(Math.abs(center.deltaAngle) / (Math.PI / 2) - 1e-9));
+  const delta = center.deltaAngle / segmentCount;
+  const alpha = (4 / 3) * Math.tan(delta / 4);
+  const cosPhi = Math.cos(center.phi);
+  const sinPhi = Math.sin(center.phi);
+
+  // Derivative of the ellipse at an angle, scaled by alpha
+  const derivative = (angle: number): Point => {
+    const sin = Math.sin(angle);
+    const cos = Math.cos(angle);
+    return {
+      x: alpha * (-center.rx * sin * cosPhi - center.ry * cos * sinPhi),
+      y: alpha * (-center.rx * sin * sinPhi + center.ry * cos * cosPhi)
+    };
+  };
+
+  const curves: Array<{ x1: number; y1: number; x2: number; y2: number; x: number; y: number }> = [];
+  let angle = center.startAngle;
+  let from = start;
+
+  for (let i = 0; i < segmentCount; i++) {
+    const nextAngle = angle + delta;
+    const to = i === segmentCount - 1 ? end : getArcPointAtAngle(center, nextAngle);
+    const d1 = derivative(angle);
+    const d2 = derivative(nextAngle);
+    curves.push({
+      x1: from.x + d1.x,
+      y1: from.y + d1.y,
+      x2: to.x - d2.x,
+      y2: to.y - d2.y,
+      x: to.x,
+      y: to.y
+    });
+    angle = nextAngle;
+    from = to;
+  }
+
+  return curves;
+}
+
+/**
+ * Tight bounding box of an arc, including its extrema on the ellipse
+ */
+export function getArcBounds(start: Point, end: Point, arc: ArcParameters): BoundingBox {
+  let minX = Math.min(start.x, end.x);
+  let maxX = Math.max(start.x, end.x);
+  let minY = Math.min(start.y, end.y);
+  let maxY = Math.max(start.y, end.y);
+
+  const center = getArcCenterParameters(start, end, arc);
+  if (center) {
+    const cosPhi = Math.cos(center.phi);
+    const sinPhi = Math.sin(center.phi);
+    // Angles where dx/dθ = 0 and dy/dθ = 0
+    const thetaX = Math.atan2(-center.ry * sinPhi, center.rx * cosPhi);
+    const thetaY = Math.atan2(center.ry * cosPhi, center.rx * sinPhi);
+    const candidates = [thetaX, thetaX + Math.PI, thetaY, thetaY + Math.PI];
+
+    const from = Math.min(center.startAngle, center.startAngle + center.deltaAngle);
+    const to = Math.max(center.startAngle, center.startAngle + center.deltaAngle);
+
+    for (const candidate of candidates) {
+      // Shift the candidate into the swept interval if any of its turns falls there
+      let angle = candidate + Math.ceil((from - candidate) / TWO_PI) * TWO_PI;
+      while (angle <= to) {
+        const point = getArcPointAtAngle(center, angle);
+        minX = Math.min(minX, point.x);
+        maxX = Math.max(maxX, point.x);
+        minY = Math.min(minY, point.y);
+        maxY = Math.max(maxY, point.y);
+        angle += TWO_PI;
+      }
+    }
+  }
+
+  return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+}
+
+/**
+ * Apply the linear part of an affine matrix to arc radii and rotation.
+ * Endpoints are transformed separately by the caller.
+ */
+export function transformArcParameters(arc: ArcParameters, matrix: TransformMatrix): ArcParameters {
+  const phi = (arc.xAxisRotation * Math.PI) / 180;
+  const cos = Math.cos(phi);
+  const sin = Math.sin(phi);
+
+  // Columns of the transformed ellipse basis: M * R(phi) * diag(rx, ry)
+  const ax = (matrix.a * cos + matrix.c * sin) * arc.rx;
+  const ay = (matrix.b * cos + matrix.d * sin) * arc.rx;
+  const bx = (matrix.a * -sin + matrix.c * cos) * arc.ry;
+  const by = (matrix.b * -sin + matrix.d * cos) * arc.ry;
+
+  // Singular values of [[ax, bx], [ay, by]] give the new radii
+  const e = (ax + by) / 2;
+  const f = (ax - by) / 2;
+  const g = (ay + bx) / 2;
+  const h = (ay - bx) / 2;
+  const q = Math.sqrt(e * e + h * h);
+  const r = Math.sqrt(f * f + g * g);
+  const a1 = Math.atan2(g, f);
+  const a2 = Math.atan2(h, e);
+
+  const determinant = matrix.a * matrix.d - matrix.b * matrix.c;
+
+  return {
+    rx: q + r,
+    ry: Math.abs(q - r),
+    xAxisRotation: (((a2 + a1) / 2) * 180) / Math.PI,
+    largeArcFlag: arc.largeArcFlag,
+    sweepFlag: determinant < 0 ? (arc.sweepFlag ? 0 : 1) : arc.sweepFlag
+  };
+}
+
+/**
+ * Recover the affine matrix behind a point transform function by probing it.
+ * Useful to update arc radii when only a point mapping is available.
+ */
+export function matrixFromPointTransform(transform: (x: number, y: number) => Point): TransformMatrix {
+  const origin = transform(0, 0);
+  const unitX = transform(1, 0);
+  const unitY = transform(0, 1);
+  return {
+    a: unitX.x - origin.x,
+    b: unitX.y - origin.y,
+    c: unitY.x - origin.x,
+    d: unitY.y - origin.y,
+    e: origin.x,
+    f: origin.y
+  };
+}
@@ -0,0 +1,112 @@
+import { EditorState, SVGGroup, SVGSymbol } from '../types';
+import { getSymbolSpriteEntry } from './svg-sprite';
+import { ZipEntry, createZipArchive } from './zip-utils';
+
+export type BatchExportSource = 'groups' | 'symbols';
+
+export interface BatchExportOptions {
+  source: BatchExportSource;
+  padding: number;
+  nameTemplate: string; // Tokens: {name}, {id}, {index}
+}
+
+export interface BatchExportItem {
+  id: string;
+  name: string;
+}
+
+export const DEFAULT_BATCH_NAME_TEMPLATE = '{name}';
+
+/**
+ * Groups that aren't nested in another group
+ */
+export function getTopLevelGroups(groups: SVGGroup[]): SVGGroup[] {
+  const nested = new Set(groups.flatMap(group => group.children.filter(child => child.type === 'group').map(child => child.id)));
+  return groups.filter(group => !nested.has(group.id));
+}
+
+export function getBatchExportItems(state: EditorState, source: BatchExportSource): BatchExportItem[] {
+  return source === 'groups'
+    ? getTopLevelGroups(state.groups).map(group => ({ id: group.id, name: group.name || group.id }))
+    : state.symbols.map(symbol => ({ id: symbol.id, name: symbol.id }));
+}
+
+const sanitizeFileName = (name: string): string =>
+  name.trim().replace(/[\\/:*?"<>|\s]+/g, '_').replace(/^\.+/, '');
+
+/**
+ * File names for the items from the naming template. Names that come out
+ * the same get a numeric suffix so no file overwrites another in the zip.
+ */
+export function getBatchFileNames(items: BatchExportItem[], nameTemplate: string): string[] {
+  const used = new Set<string>();
+  return items.map((item, index) => {
+    const base = sanitizeFileName(
+      (nameTemplate || DEFAULT_BATCH_NAME_TEMPLATE)
+        .replace(/\{name\}/g, item.name)
+        .replace(/\{id\}/g, item.id)
+        .replace(/\{index\}/g, String(index + 1))
+    ) || item.id;
+
+    let fileName = `${base}.svg`;
+    for (let suffix = 2; used.has(fileName.toLowerCase()); suffix++) {
+      fileName = `${base}-${suffix}.svg`;
+    }
+    used.add(fileName.toLowerCase());
+    return fileName;
+  });
+}
+
+/**
+ * A symbol on its own, drawn the same way as in a sprite sheet
+ */
+const generateSymbolSVG = (state: EditorState, symbol: SVGSymbol, padding: number): string => {
+  const entry = getSymbolSpriteEntry(state, symbol, padding);
+  return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="${entry.viewBox}">
+${entry.defs ? `  <defs>\n${entry.defs}\n  </defs>\n` : ''}${entry.content}
+</svg>`;
+};
+
+/**
+ * One SVG file per top-level group or per symbol, cropped to its bounds
+ */
+export function createBatchExportFiles(
+  state: EditorState & { exportGroupSVG: (groupId: string, autoDownload?: boolean, padding?: number) => string | null },
+  options: BatchExportOptions
+): ZipEntry[] {
+  const items = getBatchExportItems(state, options.source);
+  const fileNames = getBatchFileNames(items, options.nameTemplate);
+
+  return items.flatMap((item, index) => {
+    let content: string | null;
+    if (options.source === 'groups') {
+      content = state.exportGroupSVG(item.id, false, options.padding);
+    } else {
+      const symbol = state.symbols.find(candidate => candidate.id === item.id);
+      content = symbol ? generateSymbolSVG(state, symbol, options.padding) : null;
+    }
+    return content ? [{ name: fileNames[index], content }] : [];
+  });
+}
+
+export function createBatchExportZip(
+  state: Parameters<typeof createBatchExportFiles>[0],
+  options: BatchExportOptions
+): Blob | null {
+  const files = createBatchExportFiles(state, options);
+  return files.length > 0 ? createZipArchive(files) : null;
+}
+
+export const downloadZipFile = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+
+  // Clean up the object URL
+  URL.revokeObjectURL(url);
+};
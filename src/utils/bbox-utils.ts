@@ -1,4 +1,7 @@
 import { BoundingBox, Point, SVGPath, SVGSubPath, SVGCommand, TextElementType, SVGGroup, SVGImage } from '../types';
+import { getArcBounds } from './arc-utils';
+import { getArcParameters } from './path-utils';
+import { getCanvasSubPaths } from './path-transform-utils';
 
 /**
  * Calculate bounding box for a single SVG command
@@ -49,6 +52,8 @@ export function getSubPathBoundingBox(subPath: SVGSubPath): BoundingBox | null {
   let minY = Infinity;
   let maxY = -Infinity;
 
+  let currentPoint: Point | null = null;
+
   for (const command of subPath.commands) {
     const bbox = getCommandBoundingBox(command);
     if (bbox) {
@@ -57,6 +62,19 @@ export function getSubPathBoundingBox(subPath: SVGSubPath): BoundingBox | null {
       minY = Math.min(minY, bbox.y);
       maxY = Math.max(maxY, bbox.y + bbox.height);
     }
+
+    // Arcs need their start point to include the extrema of the ellipse
+    if (command.command === 'A' && currentPoint && command.x !== undefined && command.y !== undefined) {
+      const arcBox = getArcBounds(currentPoint, { x: command.x, y: command.y }, getArcParameters(command));
+      minX = Math.min(minX, arcBox.x);
+      maxX = Math.max(maxX, arcBox.x + arcBox.width);
+      minY = Math.min(minY, arcBox.y);
+      maxY = Math.max(maxY, arcBox.y + arcBox.height);
+    }
+
+    if (command.x !== undefined && command.y !== undefined) {
+      currentPoint = { x: command.x, y: command.y };
+    }
   }
 
   if (minX === Infinity) {
@@ -72,7 +90,7 @@ export function getSubPathBoundingBox(subPath: SVGSubPath): BoundingBox | null {
 }
 
 /**
- * Calculate bounding box for a path (includes all sub-paths)
+ * Calculate bounding box for a path (includes all sub-paths and its own transform)
  */
 export function getPathBoundingBox(path: SVGPath): BoundingBox | null {
   if (path.subPaths.length === 0) {
@@ -84,7 +102,7 @@ export function getPathBoundingBox(path: SVGPath): BoundingBox | null {
   let minY = Infinity;
   let maxY = -Infinity;
 
-  for (const subPath of path.subPaths) {
+  for (const subPath of getCanvasSubPaths(path)) {
     if (subPath.locked) continue;
     
     const bbox = getSubPathBoundingBox(subPath);
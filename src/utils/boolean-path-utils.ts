@@ -0,0 +1,390 @@
+import { Point, SVGSubPath } from '../types';
+import { generateId } from './id-utils';
+import {
+  CubicContour,
+  CubicSegment,
+  subPathToCubicContours,
+  cubicContoursToCommands,
+  intersectCubicSegments,
+  getCubicPortion,
+  getCubicHullBounds,
+  evaluateCubic,
+  cubicTangent,
+  reverseCubic,
+  getContoursWindingNumber,
+  getContourArea,
+  createLineSegment
+} from './cubic-segment-utils';
+
+/**
+ * Boolean operations (pathfinder) on cubic geometry.
+ *
+ * Every operand is a set of filled contours with its own fill rule. All segments
+ * are split where they cross, each resulting edge is classified by sampling the
+ * result on both of its sides, and the edges that separate inside from outside
+ * are chained back into closed contours with the inside on their left.
+ */
+
+export type BooleanOperation = 'union' | 'subtract' | 'intersect' | 'exclude' | 'divide';
+
+export interface BooleanOperand {
+  subPaths: SVGSubPath[];
+  fillRule?: 'nonzero' | 'evenodd';
+}
+
+export interface BooleanRegion {
+  subPaths: SVGSubPath[];
+  operandIndices: number[]; // Operands that cover this region
+}
+
+interface GraphEdge {
+  segment: CubicSegment;
+  from: number; // Vertex index
+  to: number;
+}
+
+const VERTEX_TOLERANCE = 1e-3;
+const SIDE_SAMPLE_DISTANCE = 1e-2;
+
+const toContours = (operand: BooleanOperand): CubicContour[] =>
+  operand.subPaths
+    .flatMap(subPath => subPathToCubicContours(subPath))
+    .map(contour => {
+      // Fill semantics: open contours are closed with a straight segment
+      const first = contour.segments[0].p0;
+      const last = contour.segments[contour.segments.length - 1].p3;
+      if (Math.hypot(first.x - last.x, first.y - last.y) > VERTEX_TOLERANCE) {
+        return { segments: [...contour.segments, createLineSegment(last, first)], closed: true };
+      }
+      return { ...contour, closed: true };
+    });
+
+const isInside = (contours: CubicContour[], fillRule: 'nonzero' | 'evenodd', point: Point): boolean => {
+  const winding = getContoursWindingNumber(contours, point);
+  return fillRule === 'evenodd' ? winding % 2 !== 0 : winding !== 0;
+};
+
+/**
+ * Split every segment at its intersections with every other segment
+ * (including segments of the same operand) and snap shared vertices.
+ */
+const buildEdges = (segments: CubicSegment[]): { edges: GraphEdge[]; vertices: Point[] } => {
+  const splits: number[][] = segments.map(() => []);
+  const bounds = segments.map(getCubicHullBounds);
+
+  for (let i = 0; i < segments.length; i++) {
+    for (let j = i + 1; j < segments.length; j++) {
+      const a = bounds[i];
+      const b = bounds[j];
+      if (a.x > b.x + b.width + VERTEX_TOLERANCE || b.x > a.x + a.width + VERTEX_TOLERANCE ||
+          a.y > b.y + b.height + VERTEX_TOLERANCE || b.y > a.y + a.height + VERTEX_TOLERANCE) {
+        continue;
+      }
+      for (const intersection of intersectCubicSegments(segments[i], segments[j], VERTEX_TOLERANCE / 10)) {
+        splits[i].push(intersection.t1);
+        splits[j].push(intersection.t2);
+      }
+    }
+  }
+
+  const vertices: Point[] = [];
+  const findVertex = (point: Point): number => {
+    for (let i = 0; i < vertices.length; i++) {
+      if (Math.hypot(vertices[i].x - point.x, vertices[i].y - point.y) <= VERTEX_TOLERANCE) {
+        return i;
+      }
+    }
+    vertices.push({ ...point });
+    return vertices.length - 1;
+  };
+
+  const edges: GraphEdge[] = [];
+  segments.forEach((segment, index) => {
+    const params = [0, ...splits[index].filter(t => t > 1e-9 && t < 1 - 1e-9).sort((a, b) => a - b), 1];
+    for (let k = 0; k < params.length - 1; k++) {
+      if (params[k + 1] - params[k] < 1e-9) continue;
+      const piece = getCubicPortion(segment, params[k], params[k + 1]);
+      const from = findVertex(piece.p0);
+      const to = findVertex(piece.p3);
+      if (from === to && Math.hypot(piece.p1.x - piece.p0.x, piece.p1.y - piece.p0.y) <= VERTEX_TOLERANCE &&
+          Math.hypot(piece.p2.x - piece.p0.x, piece.p2.y - piece.p0.y) <= VERTEX_TOLERANCE) {
+        continue; // Degenerate sliver
+      }
+      edges.push({ segment: piece, from, to });
+    }
+  });
+
+  // Snap edge ends to their vertex, moving the adjacent control point along
+  for (const edge of edges) {
+    const start = vertices[edge.from];
+    const end = vertices[edge.to];
+    const segment = edge.segment;
+    edge.segment = {
+      p0: { ...start },
+      p1: { x: segment.p1.x + start.x - segment.p0.x, y: segment.p1.y + start.y - segment.p0.y },
+      p2: { x: segment.p2.x + end.x - segment.p3.x, y: segment.p2.y + end.y - segment.p3.y },
+      p3: { ...end },
+      isLine: segment.isLine
+    };
+  }
+
+  // Coincident edges (shared boundaries) are kept once
+  const unique: GraphEdge[] = [];
+  for (const edge of edges) {
+    const mid = evaluateCubic(edge.segment, 0.5);
+    const duplicate = unique.some(other => {
+      const sameEnds = (other.from === edge.from && other.to === edge.to) || (other.from === edge.to && other.to === edge.from);
+      if (!sameEnds) return false;
+      const otherMid = evaluateCubic(other.segment, 0.5);
+      return Math.hypot(otherMid.x - mid.x, otherMid.y - mid.y) <= VERTEX_TOLERANCE * 10;
+    });
+    if (!duplicate) unique.push(edge);
+  }
+
+  return { edges: unique, vertices };
+};
+
+/**
+ * Chain directed edges into closed loops. At each vertex the walk takes the
+ * outgoing edge with the smallest turn from the reversed incoming direction,
+ * which keeps every loop around a single face.
+ */
+const chainLoops = (edges: GraphEdge[]): CubicContour[] => {
+  const outgoing = new Map<number, number[]>();
+  edges.forEach((edge, index) => {
+    if (!outgoing.has(edge.from)) outgoing.set(edge.from, []);
+    outgoing.get(edge.from)!.push(index);
+  });
+
+  const used = new Array(edges.length).fill(false);
+  const contours: CubicContour[] = [];
+  const angleOf = (vector: Point) => Math.atan2(vector.y, vector.x);
+
+  for (let startIndex = 0; startIndex < edges.length; startIndex++) {
+    if (used[startIndex]) continue;
+    const loop: CubicSegment[] = [];
+    let edgeIndex = startIndex;
+    let closed = false;
+
+    while (!used[edgeIndex]) {
+      used[edgeIndex] = true;
+      const edge = edges[edgeIndex];
+      loop.push(edge.segment);
+      if (edge.to === edges[startIndex].from) {
+        closed = true;
+        break;
+      }
+
+      const candidates = (outgoing.get(edge.to) || []).filter(index => !used[index]);
+      if (candidates.length === 0) break;
+
+      const incoming = cubicTangent(edge.segment, 1);
+      const reference = angleOf({ x: -incoming.x, y: -incoming.y });
+      let best = candidates[0];
+      let bestTurn = Infinity;
+      for (const candidate of candidates) {
+        const tangent = cubicTangent(edges[candidate].segment, 0);
+        let turn = reference - angleOf(tangent);
+        while (turn <= 1e-9) turn += Math.PI * 2;
+        while (turn > Math.PI * 2 + 1e-9) turn -= Math.PI * 2;
+        if (turn < bestTurn) {
+          bestTurn = turn;
+          best = candidate;
+        }
+      }
+      edgeIndex = best;
+    }
+
+    if (closed) {
+      contours.push({ segments: loop, closed: true });
+    }
+  }
+
+  return contours;
+};
+
+const sampleSides = (segment: CubicSegment): { left: Point; right: Point } => {
+  // Slightly off-center to avoid landing on symmetric features
+  const t = 0.5123;
+  const point = evaluateCubic(segment, t);
+  const tangent = cubicTangent(segment, t);
+  const normal = { x: -tangent.y, y: tangent.x };
+  return {
+    left: { x: point.x + normal.x * SIDE_SAMPLE_DISTANCE, y: point.y + normal.y * SIDE_SAMPLE_DISTANCE },
+    right: { x: point.x - normal.x * SIDE_SAMPLE_DISTANCE, y: point.y - normal.y * SIDE_SAMPLE_DISTANCE }
+  };
+};
+
+// Collinear straight edges left behind by the splitting are merged back
+const mergeCollinearLines = (contour: CubicContour): CubicContour => {
+  const isContinuation = (a: CubicSegment, b: CubicSegment): boolean => {
+    if (!a.isLine || !b.isLine) return false;
+    const ax = a.p3.x - a.p0.x;
+    const ay = a.p3.y - a.p0.y;
+    const bx = b.p3.x - b.p0.x;
+    const by = b.p3.y - b.p0.y;
+    const cross = ax * by - ay * bx;
+    return ax * bx + ay * by > 0 && Math.abs(cross) <= 1e-9 * Math.hypot(ax, ay) * Math.hypot(bx, by);
+  };
+
+  const segments: CubicSegment[] = [];
+  for (const segment of contour.segments) {
+    const previous = segments[segments.length - 1];
+    if (previous && isContinuation(previous, segment)) {
+      segments[segments.length - 1] = createLineSegment(previous.p0, segment.p3);
+    } else {
+      segments.push(segment);
+    }
+  }
+  while (segments.length > 2 && isContinuation(segments[segments.length - 1], segments[0])) {
+    const last = segments.pop()!;
+    segments[0] = createLineSegment(last.p0, segments[0].p3);
+  }
+
+  return { ...contour, segments };
+};
+
+const contoursToSubPaths = (contours: CubicContour[]): SVGSubPath[] =>
+  contours.map(contour => ({
+    id: generateId(),
+    commands: cubicContoursToCommands([mergeCollinearLines(contour)])
+  }));
+
+/**
+ * Membership key of a point: which operands cover it
+ */
+const getMembership = (operands: Array<{ contours: CubicContour[]; fillRule: 'nonzero' | 'evenodd' }>, point: Point): boolean[] =>
+  operands.map(operand => isInside(operand.contours, operand.fillRule, point));
+
+const isInResult = (operation: Exclude<BooleanOperation, 'divide'>, membership: boolean[]): boolean => {
+  switch (operation) {
+    case 'union':
+      return membership.some(Boolean);
+    case 'intersect':
+      return membership.every(Boolean);
+    case 'subtract':
+      // The first (back-most) operand minus everything above it
+      return membership[0] && !membership.slice(1).some(Boolean);
+    case 'exclude':
+      return membership.filter(Boolean).length % 2 === 1;
+  }
+};
+
+// Closed loops bounding each group of operands, keyed by membership
+const collectRegionLoops = (operands: BooleanOperand[]): Array<{ operandIndices: number[]; contours: CubicContour[] }> => {
+  const prepared = operands.map(operand => ({
+    contours: toContours(operand),
+    fillRule: operand.fillRule || 'nonzero'
+  }));
+  const segments = prepared.flatMap(operand => operand.contours.flatMap(contour => contour.segments));
+  if (segments.length === 0) return [];
+
+  const { edges } = buildEdges(segments);
+  const edgesByKey = new Map<string, GraphEdge[]>();
+  const addEdge = (key: string, edge: GraphEdge) => {
+    if (!edgesByKey.has(key)) edgesByKey.set(key, []);
+    edgesByKey.get(key)!.push(edge);
+  };
+
+  for (const edge of edges) {
+    const { left, right } = sampleSides(edge.segment);
+    const leftKey = getMembership(prepared, left).map(Number).join('');
+    const rightKey = getMembership(prepared, right).map(Number).join('');
+    if (leftKey === rightKey) continue;
+    if (leftKey.includes('1')) addEdge(leftKey, edge);
+    if (rightKey.includes('1')) {
+      addEdge(rightKey, { segment: reverseCubic(edge.segment), from: edge.to, to: edge.from });
+    }
+  }
+
+  const loops: Array<{ operandIndices: number[]; contours: CubicContour[] }> = [];
+  edgesByKey.forEach((regionEdges, key) => {
+    const contours = chainLoops(regionEdges);
+    if (contours.length === 0) return;
+    loops.push({
+      operandIndices: key.split('').map((flag, index) => (flag === '1' ? index : -1)).filter(index => index >= 0),
+      contours
+    });
+  });
+  return loops;
+};
+
+/**
+ * Group the loops of a region into connected faces: every outer loop with the
+ * holes directly inside it.
+ */
+const splitIntoFaces = (contours: CubicContour[]): CubicContour[][] => {
+  const areas = contours.map(getContourArea);
+  const largest = areas.reduce((best, area, index) => (Math.abs(area) > Math.abs(areas[best]) ? index : best), 0);
+  const outerSign = Math.sign(areas[largest]);
+  const outers = contours.map((_, index) => index).filter(index => Math.sign(areas[index]) === outerSign);
+  const faces = new Map<number, CubicContour[]>(outers.map(index => [index, [contours[index]]]));
+
+  contours.forEach((contour, index) => {
+    if (Math.sign(areas[index]) === outerSign) return;
+    const probe = evaluateCubic(contour.segments[0], 0.5);
+    // The smallest outer loop around the hole owns it
+    const owner = outers
+      .filter(outer => getContoursWindingNumber([contours[outer]], probe) !== 0)
+      .sort((a, b) => Math.abs(areas[a]) - Math.abs(areas[b]))[0];
+    if (owner !== undefined) faces.get(owner)!.push(contour);
+  });
+
+  return [...faces.values()];
+};
+
+/**
+ * Split the operands into the planar regions of their arrangement, grouped by
+ * the set of operands covering them.
+ */
+export function computeBooleanRegions(operands: BooleanOperand[]): BooleanRegion[] {
+  return collectRegionLoops(operands).map(({ operandIndices, contours }) => ({
+    subPaths: contoursToSubPaths(contours),
+    operandIndices
+  }));
+}
+
+/**
+ * Like computeBooleanRegions, but every connected face of the arrangement is
+ * its own region (regions covered by the same operands are not merged).
+ */
+export function computeBooleanFaces(operands: BooleanOperand[]): BooleanRegion[] {
+  return collectRegionLoops(operands).flatMap(({ operandIndices, contours }) =>
+    splitIntoFaces(contours).map(faceContours => ({
+      subPaths: contoursToSubPaths(faceContours),
+      operandIndices
+    }))
+  );
+}
+
+/**
+ * Apply a boolean operation to the operands (ordered back to front) and return
+ * the resulting subpaths. The result is oriented so it renders the same with
+ * either fill rule.
+ */
+export function applyBooleanOperation(
+  operation: Exclude<BooleanOperation, 'divide'>,
+  operands: BooleanOperand[]
+): SVGSubPath[] {
+  const prepared = operands.map(operand => ({
+    contours: toContours(operand),
+    fillRule: operand.fillRule || 'nonzero'
+  }));
+  const segments = prepared.flatMap(operand => operand.contours.flatMap(contour => contour.segments));
+  if (segments.length === 0) return [];
+
+  const { edges } = buildEdges(segments);
+  const resultEdges: GraphEdge[] = [];
+
+  for (const edge of edges) {
+    const { left, right } = sampleSides(edge.segment);
+    const insideLeft = isInResult(operation, getMembership(prepared, left));
+    const insideRight = isInResult(operation, getMembership(prepared, right));
+    if (insideLeft === insideRight) continue;
+    resultEdges.push(insideLeft
+      ? edge
+      : { segment: reverseCubic(edge.segment), from: edge.to, to: edge.from });
+  }
+
+  return contoursToSubPaths(chainLoops(resultEdges));
+}
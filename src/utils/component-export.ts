@@ -0,0 +1,179 @@
+import { SVGMarkupElement, SVGMarkupNode, parseSVGMarkup, serializeSVGMarkup } from './svg-serializer';
+
+/**
+ * Export targets besides plain SVG: framework components and data URIs,
+ * all written from the markup generateSVGCode produces.
+ */
+
+export type ExportTarget = 'svg' | 'react' | 'vue' | 'data-uri' | 'css';
+
+export interface ComponentExportOptions {
+  componentName?: string;
+  useCurrentColor?: boolean; // Solid fill and stroke colors follow the color prop
+  defaultSize?: number;
+}
+
+export const EXPORT_TARGETS: Array<{ value: ExportTarget; label: string; extension: string }> = [
+  { value: 'svg', label: 'SVG', extension: 'svg' },
+  { value: 'react', label: 'React component (TSX)', extension: 'tsx' },
+  { value: 'vue', label: 'Vue component (SFC)', extension: 'vue' },
+  { value: 'data-uri', label: 'Data URI', extension: 'txt' },
+  { value: 'css', label: 'CSS background-image', extension: 'css' }
+];
+
+const DEFAULT_COMPONENT_NAME = 'SvgIcon';
+const DEFAULT_SIZE = 24;
+
+// Paint values that aren't a color to replace
+const KEPT_PAINT_VALUES = new Set(['none', 'currentcolor', 'transparent', 'inherit']);
+const PAINT_ATTRIBUTES = new Set(['fill', 'stroke']);
+
+/**
+ * PascalCase name that is a valid component identifier
+ */
+export function toComponentName(name: string): string {
+  const pascal = name
+    .split(/[^a-zA-Z0-9]+/)
+    .filter(Boolean)
+    .map(word => word[0].toUpperCase() + word.slice(1))
+    .join('');
+  if (!pascal) return DEFAULT_COMPONENT_NAME;
+  return /^[0-9]/.test(pascal) ? `Svg${pascal}` : pascal;
+}
+
+const isReplaceablePaint = (value: string): boolean => {
+  const normalized = value.trim().toLowerCase();
+  return !!normalized && !KEPT_PAINT_VALUES.has(normalized) && !normalized.startsWith('url(');
+};
+
+const replaceStylePaint = (style: string): string =>
+  style.replace(/(^|;)(\s*(?:fill|stroke)\s*:)([^;]*)/g, (match, separator: string, property: string, value: string) =>
+    isReplaceablePaint(value) ? `${separator}${property} currentColor` : match
+  );
+
+/**
+ * Swap solid fill and stroke colors for currentColor, leaving gradients,
+ * patterns and "none" alone
+ */
+export function applyCurrentColor(node: SVGMarkupElement): SVGMarkupElement {
+  return {
+    ...node,
+    attributes: node.attributes.map(([name, value]): [string, string] => {
+      if (PAINT_ATTRIBUTES.has(name) && isReplaceablePaint(value)) return [name, 'currentColor'];
+      if (name === 'style') return [name, replaceStylePaint(value)];
+      return [name, value];
+    }),
+    children: node.children.map((child: SVGMarkupNode) => typeof child === 'string' ? child : applyCurrentColor(child))
+  };
+}
+
+// The size comes from props, so fixed dimensions on the root are dropped
+const withoutRootSize = (root: SVGMarkupElement): SVGMarkupElement => ({
+  ...root,
+  attributes: root.attributes.filter(([name]) => name !== 'width' && name !== 'height')
+});
+
+const prepareMarkup = (svg: string, options: ComponentExportOptions): SVGMarkupElement => {
+  const root = withoutRootSize(parseSVGMarkup(svg));
+  return options.useCurrentColor ? applyCurrentColor(root) : root;
+};
+
+const indentLines = (text: string, prefix: string): string =>
+  text.split('\n').map(line => prefix + line).join('\n');
+
+export function generateReactComponent(svg: string, options: ComponentExportOptions = {}): string {
+  const name = toComponentName(options.componentName || DEFAULT_COMPONENT_NAME);
+  const size = options.defaultSize ?? DEFAULT_SIZE;
+  const markup = serializeSVGMarkup(prepareMarkup(svg, options), {
+    dialect: 'jsx',
+    rootAttributes: [
+      'width={size}',
+      'height={size}',
+      ...(options.useCurrentColor ? ['color={color}'] : []),
+      '{...props}'
+    ]
+  });
+
+  return `import * as React from 'react';
+
+export interface ${name}Props extends React.SVGProps<SVGSVGElement> {
+  size?: number | string;${options.useCurrentColor ? '\n  color?: string;' : ''}
+}
+
+export const ${name} = ({ size = ${size}${options.useCurrentColor ? ", color = 'currentColor'" : ''}, ...props }: ${name}Props) => (
+${indentLines(markup, '  ')}
+);
+
+export default ${name};
+`;
+}
+
+export function generateVueComponent(svg: string, options: ComponentExportOptions = {}): string {
+  const size = options.defaultSize ?? DEFAULT_SIZE;
+  const markup = serializeSVGMarkup(prepareMarkup(svg, options), {
+    dialect: 'svg',
+    rootAttributes: [':width="size"', ':height="size"', ...(options.useCurrentColor ? [':color="color"'] : [])]
+  });
+  const props = options.useCurrentColor
+    ? `withDefaults(defineProps<{ size?: number | string; color?: string }>(), {\n  size: ${size},\n  color: 'currentColor'\n});`
+    : `withDefaults(defineProps<{ size?: number | string }>(), {\n  size: ${size}\n});`;
+
+  return `<template>
+${indentLines(markup, '  ')}
+</template>
+
+<script setup lang="ts">
+${props}
+</script>
+`;
+}
+
+/**
+ * SVG as a data URI. Only the characters that break URIs or CSS url() are
+ * escaped, which keeps the result much shorter than base64.
+ */
+export function generateSVGDataUri(svg: string, options: ComponentExportOptions = {}): string {
+  const root = parseSVGMarkup(svg);
+  const markup = serializeSVGMarkup(options.useCurrentColor ? applyCurrentColor(root) : root, { indent: '' });
+  return `data:image/svg+xml,${markup.replace(/[\r\n\t%#"<>{}|\\^`[\]]/g, character => encodeURIComponent(character))}`;
+}
+
+export function generateCSSBackground(svg: string, options: ComponentExportOptions = {}): string {
+  return `background-image: url("${generateSVGDataUri(svg, options)}");`;
+}
+
+export function generateExportTarget(svg: string, target: ExportTarget, options: ComponentExportOptions = {}): string {
+  switch (target) {
+    case 'react':
+      return generateReactComponent(svg, options);
+    case 'vue':
+      return generateVueComponent(svg, options);
+    case 'data-uri':
+      return generateSVGDataUri(svg, options);
+    case 'css':
+      return generateCSSBackground(svg, options);
+    default:
+      return svg;
+  }
+}
+
+export function getExportTargetFileName(target: ExportTarget, baseName: string): string {
+  const extension = EXPORT_TARGETS.find(item => item.value === target)?.extension || 'svg';
+  const name = target === 'react' || target === 'vue' ? toComponentName(baseName) : baseName;
+  return `${name}.${extension}`;
+}
+
+export const downloadExportTarget = (content: string, target: ExportTarget, filename: string) => {
+  const blob = new Blob([content], { type: target === 'svg' ? 'image/svg+xml' : 'text/plain' });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+
+  // Clean up the object URL
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,919 @@
+import { Point, SVGCommand, SVGSubPath, BoundingBox } from '../types';
+import { generateId } from './id-utils';
+import { arcToCubicCurves } from './arc-utils';
+import { getArcParameters, getReflectedControlPoint } from './path-utils';
+
+/**
+ * Cubic Bézier geometry shared by the path algorithms (boolean operations,
+ * outlining, offsetting...). Every drawing command is expressed as a cubic
+ * segment so the algorithms only need to deal with one kind of curve.
+ */
+
+export interface CubicSegment {
+  p0: Point;
+  p1: Point;
+  p2: Point;
+  p3: Point;
+  isLine: boolean; // Straight segment (control points lie on the chord)
+  commandIndex?: number; // Index of the subpath command the segment was built from
+}
+
+export interface CubicContour {
+  segments: CubicSegment[];
+  closed: boolean;
+}
+
+export interface CubicIntersection {
+  t1: number; // Parameter on the first segment
+  t2: number; // Parameter on the second segment
+  point: Point;
+}
+
+const EPSILON = 1e-9;
+const FLATNESS_TOLERANCE = 1e-7;
+const MAX_SUBDIVISION_DEPTH = 50;
+
+const lerp = (a: Point, b: Point, t: number): Point => ({
+  x: a.x + (b.x - a.x) * t,
+  y: a.y + (b.y - a.y) * t
+});
+
+const samePoint = (a: Point, b: Point, tolerance: number = EPSILON): boolean =>
+  Math.abs(a.x - b.x) <= tolerance && Math.abs(a.y - b.y) <= tolerance;
+
+/**
+ * Straight segment expressed as a cubic with control points at thirds
+ */
+export function createLineSegment(from: Point, to: Point): CubicSegment {
+  return {
+    p0: { ...from },
+    p1: lerp(from, to, 1 / 3),
+    p2: lerp(from, to, 2 / 3),
+    p3: { ...to },
+    isLine: true
+  };
+}
+
+export function createCubicSegment(p0: Point, p1: Point, p2: Point, p3: Point): CubicSegment {
+  return { p0: { ...p0 }, p1: { ...p1 }, p2: { ...p2 }, p3: { ...p3 }, isLine: false };
+}
+
+/**
+ * Convert a subpath into cubic contours. Every M starts a new contour; Z closes it
+ * with a straight segment when the last point does not already match the start.
+ */
+export function subPathToCubicContours(subPath: SVGSubPath): CubicContour[] {
+  const contours: CubicContour[] = [];
+  const commands = subPath.commands;
+  let current: CubicContour | null = null;
+  let currentPoint: Point = { x: 0, y: 0 };
+  let startPoint: Point = { x: 0, y: 0 };
+  // Last quadratic control point, needed to expand T after Q/T
+  let lastQuadControl: Point | null = null;
+
+  for (let i = 0; i < commands.length; i++) {
+    const cmd = commands[i];
+    const end: Point = { x: cmd.x ?? currentPoint.x, y: cmd.y ?? currentPoint.y };
+    let quadControl: Point | null = null;
+
+    if (cmd.command !== 'M' && !current) {
+      current = { segments: [], closed: false };
+      contours.push(current);
+    }
+    const firstNewSegment = current ? current.segments.length : 0;
+
+    switch (cmd.command) {
+      case 'M':
+        current = { segments: [], closed: false };
+        contours.push(current);
+        startPoint = end;
+        currentPoint = end;
+        break;
+      case 'L':
+      case 'H':
+      case 'V':
+        if (!samePoint(currentPoint, end)) {
+          current!.segments.push(createLineSegment(currentPoint, end));
+        }
+        currentPoint = end;
+        break;
+      case 'C':
+        current!.segments.push(createCubicSegment(
+          currentPoint,
+          { x: cmd.x1 ?? currentPoint.x, y: cmd.y1 ?? currentPoint.y },
+          { x: cmd.x2 ?? end.x, y: cmd.y2 ?? end.y },
+          end
+        ));
+        currentPoint = end;
+        break;
+      case 'S': {
+        const control1 = getReflectedControlPoint(commands, i, currentPoint);
+        current!.segments.push(createCubicSegment(
+          currentPoint,
+          control1,
+          { x: cmd.x2 ?? end.x, y: cmd.y2 ?? end.y },
+          end
+        ));
+        currentPoint = end;
+        break;
+      }
+      case 'Q':
+      case 'T': {
+        const control: Point = cmd.command === 'Q'
+          ? { x: cmd.x1 ?? currentPoint.x, y: cmd.y1 ?? currentPoint.y }
+          : lastQuadControl
+            ? { x: 2 * currentPoint.x - lastQuadControl.x, y: 2 * currentPoint.y - lastQuadControl.y }
+            : currentPoint;
+        // Degree elevation: quadratic to cubic
+        current!.segments.push(createCubicSegment(
+          currentPoint,
+          lerp(currentPoint, control, 2 / 3),
+          lerp(end, control, 2 / 3),
+          end
+        ));
+        quadControl = control;
+        currentPoint = end;
+        break;
+      }
+      case 'A': {
+        const curves = arcToCubicCurves(currentPoint, end, getArcParameters(cmd));
+        let from = currentPoint;
+        for (const curve of curves) {
+          const to = { x: curve.x, y: curve.y };
+          current!.segments.push(createCubicSegment(from, { x: curve.x1, y: curve.y1 }, { x: curve.x2, y: curve.y2 }, to));
+          from = to;
+        }
+        currentPoint = end;
+        break;
+      }
+      case 'Z':
+        if (!samePoint(currentPoint, startPoint)) {
+          current!.segments.push(createLineSegment(currentPoint, startPoint));
+        }
+        current!.closed = true;
+        currentPoint = startPoint;
+        break;
+    }
+
+    if (current) {
+      for (let k = firstNewSegment; k < current.segments.length; k++) {
+        current.segments[k].commandIndex = i;
+      }
+    }
+    lastQuadControl = quadControl;
+  }
+
+  return contours.filter(contour => contour.segments.length > 0);
+}
+
+/**
+ * Convert cubic contours back to editor commands. Straight segments become L
+ * and the closing segment of a closed contour is folded into Z.
+ */
+export function cubicContoursToCommands(contours: CubicContour[]): SVGCommand[] {
+  const commands: SVGCommand[] = [];
+
+  for (const contour of contours) {
+    if (contour.segments.length === 0) continue;
+    const start = contour.segments[0].p0;
+    commands.push({ id: generateId(), command: 'M', x: start.x, y: start.y });
+
+    contour.segments.forEach((segment, index) => {
+      const isLast = index === contour.segments.length - 1;
+      if (contour.closed && isLast && segment.isLine && samePoint(segment.p3, start, 1e-6)) {
+        return; // Z draws it
+      }
+      if (segment.isLine) {
+        commands.push({ id: generateId(), command: 'L', x: segment.p3.x, y: segment.p3.y });
+      } else {
+        commands.push({
+          id: generateId(),
+          command: 'C',
+          x1: segment.p1.x,
+          y1: segment.p1.y,
+          x2: segment.p2.x,
+          y2: segment.p2.y,
+          x: segment.p3.x,
+          y: segment.p3.y
+        });
+      }
+    });
+
+    if (contour.closed) {
+      commands.push({ id: generateId(), command: 'Z' });
+    }
+  }
+
+  return commands;
+}
+
+/**
+ * Point on a cubic segment at parameter t
+ */
+export function evaluateCubic(segment: CubicSegment, t: number): Point {
+  const mt = 1 - t;
+  const a = mt * mt * mt;
+  const b = 3 * mt * mt * t;
+  const c = 3 * mt * t * t;
+  const d = t * t * t;
+  return {
+    x: a * segment.p0.x + b * segment.p1.x + c * segment.p2.x + d * segment.p3.x,
+    y: a * segment.p0.y + b * segment.p1.y + c * segment.p2.y + d * segment.p3.y
+  };
+}
+
+/**
+ * First derivative of a cubic segment at parameter t
+ */
+export function cubicDerivative(segment: CubicSegment, t: number): Point {
+  const mt = 1 - t;
+  const a = 3 * mt * mt;
+  const b = 6 * mt * t;
+  const c = 3 * t * t;
+  return {
+    x: a * (segment.p1.x - segment.p0.x) + b * (segment.p2.x - segment.p1.x) + c * (segment.p3.x - segment.p2.x),
+    y: a * (segment.p1.y - segment.p0.y) + b * (segment.p2.y - segment.p1.y) + c * (segment.p3.y - segment.p2.y)
+  };
+}
+
+/**
+ * Unit tangent at t. Falls back to neighbouring control points when the
+ * derivative vanishes (coincident control points at the ends).
+ */
+export function cubicTangent(segment: CubicSegment, t: number): Point {
+  let d = cubicDerivative(segment, t);
+  let length = Math.hypot(d.x, d.y);
+  if (length < EPSILON) {
+    d = t < 0.5
+      ? { x: segment.p2.x - segment.p0.x, y: segment.p2.y - segment.p0.y }
+      : { x: segment.p3.x - segment.p1.x, y: segment.p3.y - segment.p1.y };
+    length = Math.hypot(d.x, d.y);
+  }
+  if (length < EPSILON) {
+    d = { x: segment.p3.x - segment.p0.x, y: segment.p3.y - segment.p0.y };
+    length = Math.hypot(d.x, d.y);
+  }
+  return length < EPSILON ? { x: 1, y: 0 } : { x: d.x / length, y: d.y / length };
+}
+
+// Gauss-Legendre abscissae and weights (order 12) for arc length integration
+const GAUSS_ABSCISSAE = [
+  -0.1252334085114689, 0.1252334085114689, -0.3678314989981802, 0.3678314989981802,
+  -0.5873179542866175, 0.5873179542866175, -0.7699026741943047, 0.7699026741943047,
+  -0.9041172563704749, 0.9041172563704749, -0.9815606342467192, 0.9815606342467192
+];
+const GAUSS_WEIGHTS = [
+  0.2491470458134028, 0.2491470458134028, 0.2334925365383548, 0.2334925365383548,
+  0.2031674267230659, 0.2031674267230659, 0.1600783285433462, 0.1600783285433462,
+  0.1069393259953184, 0.1069393259953184, 0.0471753363865118, 0.0471753363865118
+];
+
+/**
+ * Arc length of a cubic segment between 0 and t
+ */
+export function getCubicLength(segment: CubicSegment, t: number = 1): number {
+  if (t <= 0) return 0;
+  if (segment.isLine) {
+    return Math.hypot(segment.p3.x - segment.p0.x, segment.p3.y - segment.p0.y) * Math.min(1, t);
+  }
+  const half = t / 2;
+  let length = 0;
+  for (let i = 0; i < GAUSS_ABSCISSAE.length; i++) {
+    const d = cubicDerivative(segment, half * GAUSS_ABSCISSAE[i] + half);
+    length += GAUSS_WEIGHTS[i] * Math.hypot(d.x, d.y);
+  }
+  return length * half;
+}
+
+/**
+ * Parameter t where the arc length from the start of the segment reaches the given length
+ */
+export function getCubicParameterAtLength(segment: CubicSegment, length: number, totalLength?: number): number {
+  const total = totalLength ?? getCubicLength(segment);
+  if (length <= 0 || total <= 0) return 0;
+  if (length >= total) return 1;
+  if (segment.isLine) return length / total;
+
+  // Newton iterations guarded by bisection
+  let lo = 0;
+  let hi = 1;
+  let t = length / total;
+  for (let i = 0; i < 30; i++) {
+    const error = getCubicLength(segment, t) - length;
+    if (Math.abs(error) < 1e-6) break;
+    if (error > 0) hi = t; else lo = t;
+    const d = cubicDerivative(segment, t);
+    const speed = Math.hypot(d.x, d.y);
+    let next = speed > EPSILON ? t - error / speed : (lo + hi) / 2;
+    if (next <= lo || next >= hi) next = (lo + hi) / 2;
+    t = next;
+  }
+  return t;
+}
+
+/**
+ * Split a cubic segment at t using de Casteljau's algorithm
+ */
+export function splitCubic(segment: CubicSegment, t: number): [CubicSegment, CubicSegment] {
+  const p01 = lerp(segment.p0, segment.p1, t);
+  const p12 = lerp(segment.p1, segment.p2, t);
+  const p23 = lerp(segment.p2, segment.p3, t);
+  const p012 = lerp(p01, p12, t);
+  const p123 = lerp(p12, p23, t);
+  const mid = lerp(p012, p123, t);
+  return [
+    { p0: { ...segment.p0 }, p1: p01, p2: p012, p3: mid, isLine: segment.isLine },
+    { p0: { ...mid }, p1: p123, p2: p23, p3: { ...segment.p3 }, isLine: segment.isLine }
+  ];
+}
+
+/**
+ * Portion of a cubic segment between two parameters
+ */
+export function getCubicPortion(segment: CubicSegment, from: number, to: number): CubicSegment {
+  if (from <= 0 && to >= 1) return segment;
+  let portion = segment;
+  if (from > 0) {
+    portion = splitCubic(portion, from)[1];
+  }
+  if (to < 1) {
+    const local = from > 0 ? (to - from) / (1 - from) : to;
+    portion = splitCubic(portion, local)[0];
+  }
+  return portion;
+}
+
+export function reverseCubic(segment: CubicSegment): CubicSegment {
+  return {
+    p0: { ...segment.p3 },
+    p1: { ...segment.p2 },
+    p2: { ...segment.p1 },
+    p3: { ...segment.p0 },
+    isLine: segment.isLine
+  };
+}
+
+/**
+ * Bounding box of the control polygon, which always contains the curve
+ */
+export function getCubicHullBounds(segment: CubicSegment): BoundingBox {
+  const xs = [segment.p0.x, segment.p1.x, segment.p2.x, segment.p3.x];
+  const ys = [segment.p0.y, segment.p1.y, segment.p2.y, segment.p3.y];
+  const minX = Math.min(...xs);
+  const minY = Math.min(...ys);
+  return { x: minX, y: minY, width: Math.max(...xs) - minX, height: Math.max(...ys) - minY };
+}
+
+/**
+ * Tight bounding box of a cubic segment using its extrema
+ */
+export function getCubicBounds(segment: CubicSegment): BoundingBox {
+  const candidates = [0, 1, ...getCubicExtremaParameters(segment, 'x'), ...getCubicExtremaParameters(segment, 'y')];
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+  for (const t of candidates) {
+    const point = evaluateCubic(segment, t);
+    minX = Math.min(minX, point.x);
+    minY = Math.min(minY, point.y);
+    maxX = Math.max(maxX, point.x);
+    maxY = Math.max(maxY, point.y);
+  }
+  return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+}
+
+/**
+ * Parameters in (0, 1) where the derivative along one axis vanishes
+ */
+export function getCubicExtremaParameters(segment: CubicSegment, axis: 'x' | 'y'): number[] {
+  const p0 = segment.p0[axis];
+  const p1 = segment.p1[axis];
+  const p2 = segment.p2[axis];
+  const p3 = segment.p3[axis];
+  // Derivative / 3 = a t^2 + b t + c
+  const a = -p0 + 3 * p1 - 3 * p2 + p3;
+  const b = 2 * (p0 - 2 * p1 + p2);
+  const c = p1 - p0;
+  return solveQuadratic(a, b, c).filter(t => t > EPSILON && t < 1 - EPSILON);
+}
+
+/**
+ * Real roots of a t^2 + b t + c = 0
+ */
+export function solveQuadratic(a: number, b: number, c: number): number[] {
+  const scale = Math.max(Math.abs(a), Math.abs(b), Math.abs(c));
+  if (scale === 0) return [];
+  if (Math.abs(a) < scale * 1e-12) {
+    return Math.abs(b) < scale * 1e-12 ? [] : [-c / b];
+  }
+  const discriminant = b * b - 4 * a * c;
+  if (discriminant < 0) {
+    // Treat tiny negative discriminants as a double root
+    return discriminant > -scale * scale * 1e-12 ? [-b / (2 * a)] : [];
+  }
+  const sqrt = Math.sqrt(discriminant);
+  // Numerically stable form
+  const q = -0.5 * (b + (b < 0 ? -sqrt : sqrt));
+  const roots = [q / a];
+  if (q !== 0) roots.push(c / q);
+  return roots;
+}
+
+/**
+ * Real roots of a t^3 + b t^2 + c t + d = 0
+ */
+export function solveCubic(a: number, b: number, c: number, d: number): number[] {
+  const scale = Math.max(Math.abs(a), Math.abs(b), Math.abs(c), Math.abs(d));
+  if (scale === 0) return [];
+  if (Math.abs(a) < scale * 1e-12) {
+    return solveQuadratic(b, c, d);
+  }
+
+  // Depressed cubic t = u - b / 3a
+  const A = b / a;
+  const B = c / a;
+  const C = d / a;
+  const p = (3 * B - A * A) / 3;
+  const q = (2 * A * A * A - 9 * A * B + 27 * C) / 27;
+  const offset = A / 3;
+  const discriminant = (q * q) / 4 + (p * p * p) / 27;
+  let roots: number[];
+
+  if (Math.abs(discriminant) < 1e-14) {
+    const u = Math.cbrt(-q / 2);
+    roots = [2 * u - offset, -u - offset];
+  } else if (discriminant > 0) {
+    const sqrt = Math.sqrt(discriminant);
+    roots = [Math.cbrt(-q / 2 + sqrt) + Math.cbrt(-q / 2 - sqrt) - offset];
+  } else {
+    const r = Math.sqrt(-p / 3);
+    const phi = Math.acos(Math.max(-1, Math.min(1, (3 * q) / (2 * p * r))));
+    roots = [0, 1, 2].map(k => 2 * r * Math.cos((phi - 2 * Math.PI * k) / 3) - offset);
+  }
+
+  // Polish with a couple of Newton steps
+  return roots.map(root => {
+    let t = root;
+    for (let i = 0; i < 2; i++) {
+      const f = ((a * t + b) * t + c) * t + d;
+      const df = (3 * a * t + 2 * b) * t + c;
+      if (Math.abs(df) < EPSILON) break;
+      t -= f / df;
+    }
+    return t;
+  });
+}
+
+/**
+ * Polynomial coefficients [a, b, c, d] of one axis of a cubic segment
+ */
+export function getCubicCoefficients(segment: CubicSegment, axis: 'x' | 'y'): [number, number, number, number] {
+  const p0 = segment.p0[axis];
+  const p1 = segment.p1[axis];
+  const p2 = segment.p2[axis];
+  const p3 = segment.p3[axis];
+  return [
+    -p0 + 3 * p1 - 3 * p2 + p3,
+    3 * p0 - 6 * p1 + 3 * p2,
+    -3 * p0 + 3 * p1,
+    p0
+  ];
+}
+
+/**
+ * Parameter of the point on the segment closest to the given point
+ */
+export function getCubicNearestParameter(segment: CubicSegment, point: Point): number {
+  const samples = segment.isLine ? 1 : 16;
+  let bestT = 0;
+  let bestDistance = Infinity;
+
+  if (segment.isLine) {
+    const dx = segment.p3.x - segment.p0.x;
+    const dy = segment.p3.y - segment.p0.y;
+    const lengthSquared = dx * dx + dy * dy;
+    if (lengthSquared < EPSILON) return 0;
+    return Math.max(0, Math.min(1, ((point.x - segment.p0.x) * dx + (point.y - segment.p0.y) * dy) / lengthSquared));
+  }
+
+  for (let i = 0; i <= samples; i++) {
+    const t = i / samples;
+    const p = evaluateCubic(segment, t);
+    const distance = (p.x - point.x) ** 2 + (p.y - point.y) ** 2;
+    if (distance < bestDistance) {
+      bestDistance = distance;
+      bestT = t;
+    }
+  }
+
+  // Newton refinement on (B(t) - P) · B'(t) = 0
+  let t = bestT;
+  for (let i = 0; i < 8; i++) {
+    const p = evaluateCubic(segment, t);
+    const d1 = cubicDerivative(segment, t);
+    const mt = 1 - t;
+    const d2 = {
+      x: 6 * mt * (segment.p2.x - 2 * segment.p1.x + segment.p0.x) + 6 * t * (segment.p3.x - 2 * segment.p2.x + segment.p1.x),
+      y: 6 * mt * (segment.p2.y - 2 * segment.p1.y + segment.p0.y) + 6 * t * (segment.p3.y - 2 * segment.p2.y + segment.p1.y)
+    };
+    const dx = p.x - point.x;
+    const dy = p.y - point.y;
+    const numerator = dx * d1.x + dy * d1.y;
+    const denominator = d1.x * d1.x + d1.y * d1.y + dx * d2.x + dy * d2.y;
+    if (Math.abs(denominator) < EPSILON) break;
+    const next = Math.max(0, Math.min(1, t - numerator / denominator));
+    if (Math.abs(next - t) < 1e-12) break;
+    t = next;
+  }
+
+  return t;
+}
+
+const boundsOverlap = (a: BoundingBox, b: BoundingBox, tolerance: number): boolean =>
+  a.x <= b.x + b.width + tolerance &&
+  b.x <= a.x + a.width + tolerance &&
+  a.y <= b.y + b.height + tolerance &&
+  b.y <= a.y + a.height + tolerance;
+
+const isFlat = (segment: CubicSegment, tolerance: number): boolean => {
+  const dx = segment.p3.x - segment.p0.x;
+  const dy = segment.p3.y - segment.p0.y;
+  const length = Math.hypot(dx, dy);
+  if (length < tolerance) {
+    return Math.hypot(segment.p1.x - segment.p0.x, segment.p1.y - segment.p0.y) < tolerance &&
+      Math.hypot(segment.p2.x - segment.p0.x, segment.p2.y - segment.p0.y) < tolerance;
+  }
+  const d1 = Math.abs((segment.p1.x - segment.p0.x) * dy - (segment.p1.y - segment.p0.y) * dx) / length;
+  const d2 = Math.abs((segment.p2.x - segment.p0.x) * dy - (segment.p2.y - segment.p0.y) * dx) / length;
+  return d1 < tolerance && d2 < tolerance;
+};
+
+/**
+ * Intersection parameters of two straight chords. Collinear overlapping chords
+ * return the parameters of the overlap ends.
+ */
+const intersectChords = (a0: Point, a1: Point, b0: Point, b1: Point, tolerance: number): Array<[number, number]> => {
+  const rx = a1.x - a0.x;
+  const ry = a1.y - a0.y;
+  const sx = b1.x - b0.x;
+  const sy = b1.y - b0.y;
+  const denominator = rx * sy - ry * sx;
+  const qpx = b0.x - a0.x;
+  const qpy = b0.y - a0.y;
+  const lengthA = Math.hypot(rx, ry);
+  const lengthB = Math.hypot(sx, sy);
+  if (lengthA < EPSILON || lengthB < EPSILON) return [];
+
+  if (Math.abs(denominator) <= EPSILON * lengthA * lengthB) {
+    // Parallel: only collinear chords can share points
+    const distance = Math.abs(qpx * ry - qpy * rx) / lengthA;
+    if (distance > tolerance) return [];
+    const rr = rx * rx + ry * ry;
+    const ss = sx * sx + sy * sy;
+    const result: Array<[number, number]> = [];
+    const tB0 = (qpx * rx + qpy * ry) / rr;
+    const tB1 = ((b1.x - a0.x) * rx + (b1.y - a0.y) * ry) / rr;
+    const uA0 = ((a0.x - b0.x) * sx + (a0.y - b0.y) * sy) / ss;
+    const uA1 = ((a1.x - b0.x) * sx + (a1.y - b0.y) * sy) / ss;
+    const slackA = tolerance / lengthA;
+    const slackB = tolerance / lengthB;
+    if (tB0 >= -slackA && tB0 <= 1 + slackA) result.push([tB0, 0]);
+    if (tB1 >= -slackA && tB1 <= 1 + slackA) result.push([tB1, 1]);
+    if (uA0 >= -slackB && uA0 <= 1 + slackB) result.push([0, uA0]);
+    if (uA1 >= -slackB && uA1 <= 1 + slackB) result.push([1, uA1]);
+    return result;
+  }
+
+  const t = (qpx * sy - qpy * sx) / denominator;
+  const u = (qpx * ry - qpy * rx) / denominator;
+  const slackA = tolerance / lengthA;
+  const slackB = tolerance / lengthB;
+  if (t < -slackA || t > 1 + slackA || u < -slackB || u > 1 + slackB) return [];
+  return [[t, u]];
+};
+
+/**
+ * Intersections of a straight segment with a curve, solving the curve against the line
+ */
+const intersectLineCurve = (line: CubicSegment, curve: CubicSegment, tolerance: number): Array<[number, number]> => {
+  const dx = line.p3.x - line.p0.x;
+  const dy = line.p3.y - line.p0.y;
+  const length = Math.hypot(dx, dy);
+  if (length < EPSILON) return [];
+
+  // Signed distance of the curve to the line as a cubic polynomial
+  const nx = -dy / length;
+  const ny = dx / length;
+  const cx = getCubicCoefficients(curve, 'x');
+  const cy = getCubicCoefficients(curve, 'y');
+  const coefficients = cx.map((value, i) => value * nx + cy[i] * ny);
+  coefficients[3] -= line.p0.x * nx + line.p0.y * ny;
+
+  const result: Array<[number, number]> = [];
+  const slackCurve = 1e-7;
+  const slackLine = tolerance / length;
+  for (const root of solveCubic(coefficients[0], coefficients[1], coefficients[2], coefficients[3])) {
+    if (root < -slackCurve || root > 1 + slackCurve) continue;
+    const u = Math.max(0, Math.min(1, root));
+    const point = evaluateCubic(curve, u);
+    const t = ((point.x - line.p0.x) * dx + (point.y - line.p0.y) * dy) / (length * length);
+    if (t < -slackLine || t > 1 + slackLine) continue;
+    result.push([Math.max(0, Math.min(1, t)), u]);
+  }
+  return result;
+};
+
+/**
+ * Detect two curves running along each other. Returns the parameter pairs of
+ * the overlap ends, or null when the curves only cross.
+ */
+const findCurveOverlap = (a: CubicSegment, b: CubicSegment, tolerance: number): Array<[number, number]> | null => {
+  const pairs: Array<[number, number]> = [];
+  const onCurve = (segment: CubicSegment, point: Point): number | null => {
+    const t = getCubicNearestParameter(segment, point);
+    const p = evaluateCubic(segment, t);
+    return Math.hypot(p.x - point.x, p.y - point.y) <= tolerance ? t : null;
+  };
+
+  const tb0 = onCurve(a, b.p0);
+  const tb1 = onCurve(a, b.p3);
+  const ua0 = onCurve(b, a.p0);
+  const ua1 = onCurve(b, a.p3);
+  if (tb0 !== null) pairs.push([tb0, 0]);
+  if (tb1 !== null) pairs.push([tb1, 1]);
+  if (ua0 !== null) pairs.push([0, ua0]);
+  if (ua1 !== null) pairs.push([1, ua1]);
+  if (pairs.length < 2) return null;
+
+  // The curves overlap when points between the candidate ends also lie on both curves
+  const tValues = pairs.map(pair => pair[0]);
+  const tMin = Math.min(...tValues);
+  const tMax = Math.max(...tValues);
+  if (tMax - tMin < 1e-6) return null;
+  for (const fraction of [0.25, 0.5, 0.75]) {
+    const sample = evaluateCubic(a, tMin + (tMax - tMin) * fraction);
+    if (onCurve(b, sample) === null) return null;
+  }
+  return pairs;
+};
+
+const subdivideIntersections = (
+  a: CubicSegment,
+  aFrom: number,
+  aTo: number,
+  b: CubicSegment,
+  bFrom: number,
+  bTo: number,
+  depth: number,
+  tolerance: number,
+  budget: { calls: number },
+  out: Array<[number, number]>
+): void => {
+  if (--budget.calls < 0) return;
+  if (!boundsOverlap(getCubicHullBounds(a), getCubicHullBounds(b), tolerance)) return;
+
+  if (depth >= MAX_SUBDIVISION_DEPTH || (isFlat(a, FLATNESS_TOLERANCE) && isFlat(b, FLATNESS_TOLERANCE))) {
+    for (const [t, u] of intersectChords(a.p0, a.p3, b.p0, b.p3, tolerance)) {
+      const clampedT = Math.max(0, Math.min(1, t));
+      const clampedU = Math.max(0, Math.min(1, u));
+      out.push([aFrom + (aTo - aFrom) * clampedT, bFrom + (bTo - bFrom) * clampedU]);
+    }
+    return;
+  }
+
+  // Split the larger curve to converge evenly
+  const aBounds = getCubicHullBounds(a);
+  const bBounds = getCubicHullBounds(b);
+  if (Math.max(aBounds.width, aBounds.height) >= Math.max(bBounds.width, bBounds.height)) {
+    const [left, right] = splitCubic(a, 0.5);
+    const mid = (aFrom + aTo) / 2;
+    subdivideIntersections(left, aFrom, mid, b, bFrom, bTo, depth + 1, tolerance, budget, out);
+    subdivideIntersections(right, mid, aTo, b, bFrom, bTo, depth + 1, tolerance, budget, out);
+  } else {
+    const [left, right] = splitCubic(b, 0.5);
+    const mid = (bFrom + bTo) / 2;
+    subdivideIntersections(a, aFrom, aTo, left, bFrom, mid, depth + 1, tolerance, budget, out);
+    subdivideIntersections(a, aFrom, aTo, right, mid, bTo, depth + 1, tolerance, budget, out);
+  }
+};
+
+/**
+ * All intersections between two cubic segments. Straight segments are solved
+ * analytically, curve pairs by recursive subdivision. Overlapping segments
+ * report the ends of the shared stretch.
+ */
+export function intersectCubicSegments(a: CubicSegment, b: CubicSegment, tolerance: number = 1e-6): CubicIntersection[] {
+  if (!boundsOverlap(getCubicHullBounds(a), getCubicHullBounds(b), tolerance)) {
+    return [];
+  }
+
+  let pairs: Array<[number, number]>;
+  if (a.isLine && b.isLine) {
+    pairs = intersectChords(a.p0, a.p3, b.p0, b.p3, tolerance);
+  } else {
+    const overlap = findCurveOverlap(a, b, tolerance);
+    if (overlap) {
+      pairs = overlap;
+    } else if (a.isLine) {
+      pairs = intersectLineCurve(a, b, tolerance);
+    } else if (b.isLine) {
+      pairs = intersectLineCurve(b, a, tolerance).map(([t, u]) => [u, t] as [number, number]);
+    } else {
+      pairs = [];
+      subdivideIntersections(a, 0, 1, b, 0, 1, 0, tolerance, { calls: 20000 }, pairs);
+    }
+  }
+
+  // Remove duplicates produced by subdivision around the same crossing
+  const result: CubicIntersection[] = [];
+  for (const [rawT, rawU] of pairs) {
+    const t1 = Math.max(0, Math.min(1, rawT));
+    const t2 = Math.max(0, Math.min(1, rawU));
+    const point = evaluateCubic(a, t1);
+    const duplicate = result.some(existing =>
+      (Math.abs(existing.t1 - t1) < 1e-6 && Math.abs(existing.t2 - t2) < 1e-6) ||
+      samePoint(existing.point, point, tolerance * 10)
+    );
+    if (!duplicate) {
+      result.push({ t1, t2, point });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Winding number contribution of a segment for a horizontal ray cast from the
+ * point towards +x. Uses a half-open rule on y so shared vertices count once.
+ */
+export function getCubicWindingContribution(segment: CubicSegment, point: Point): number {
+  const minY = Math.min(segment.p0.y, segment.p1.y, segment.p2.y, segment.p3.y);
+  const maxY = Math.max(segment.p0.y, segment.p1.y, segment.p2.y, segment.p3.y);
+  if (point.y < minY || point.y > maxY) return 0;
+  if (Math.max(segment.p0.x, segment.p1.x, segment.p2.x, segment.p3.x) <= point.x) return 0;
+
+  // Walk the y-monotonic pieces of the segment
+  const splits = [0, ...getCubicExtremaParameters(segment, 'y').sort((a, b) => a - b), 1];
+  let winding = 0;
+
+  for (let i = 0; i < splits.length - 1; i++) {
+    const t0 = splits[i];
+    const t1 = splits[i + 1];
+    const y0 = evaluateCubic(segment, t0).y;
+    const y1 = evaluateCubic(segment, t1).y;
+    if (y0 === y1) continue;
+
+    const goingDown = y1 > y0;
+    const crosses = goingDown ? point.y >= y0 && point.y < y1 : point.y >= y1 && point.y < y0;
+    if (!crosses) continue;
+
+    // Bisection is robust on a monotonic piece
+    let lo = t0;
+    let hi = t1;
+    for (let k = 0; k < 60; k++) {
+      const mid = (lo + hi) / 2;
+      const y = evaluateCubic(segment, mid).y;
+      if ((y < point.y) === goingDown) {
+        lo = mid;
+      } else {
+        hi = mid;
+      }
+    }
+    const x = evaluateCubic(segment, (lo + hi) / 2).x;
+    if (x > point.x) {
+      winding += goingDown ? 1 : -1;
+    }
+  }
+
+  return winding;
+}
+
+/**
+ * Winding number of a set of closed contours around a point
+ */
+export function getContoursWindingNumber(contours: CubicContour[], point: Point): number {
+  let winding = 0;
+  for (const contour of contours) {
+    for (const segment of contour.segments) {
+      winding += getCubicWindingContribution(segment, point);
+    }
+    // Open contours are filled as if closed
+    if (!contour.closed && contour.segments.length > 0) {
+      const first = contour.segments[0].p0;
+      const last = contour.segments[contour.segments.length - 1].p3;
+      if (!samePoint(first, last)) {
+        winding += getCubicWindingContribution(createLineSegment(last, first), point);
+      }
+    }
+  }
+  return winding;
+}
+
+/**
+ * Signed area of a contour (implicitly closed) from a polyline through its
+ * segments. Positive is clockwise on screen, where y points down.
+ */
+export function getContourArea(contour: CubicContour): number {
+  const points = contour.segments.flatMap(segment =>
+    segment.isLine ? [segment.p0] : [0, 0.25, 0.5, 0.75].map(t => evaluateCubic(segment, t))
+  );
+  let area = 0;
+  for (let i = 0; i < points.length; i++) {
+    const a = points[i];
+    const b = points[(i + 1) % points.length];
+    area += a.x * b.y - b.x * a.y;
+  }
+  return area / 2;
+}
+
+/**
+ * Least-squares fit of a single cubic to a chain of segments (Schneider's
+ * method). The end points and end tangent directions are kept; only the
+ * handle lengths are solved for, refining the sample parameters a few times.
+ */
+export function fitCubicToSegments(segments: CubicSegment[], samples: number = 24): CubicSegment {
+  const first = segments[0];
+  const last = segments[segments.length - 1];
+  const p0 = first.p0;
+  const p3 = last.p3;
+  const chord = Math.hypot(p3.x - p0.x, p3.y - p0.y);
+
+  if (segments.every(segment => segment.isLine) && chord > EPSILON) {
+    const direction = { x: (p3.x - p0.x) / chord, y: (p3.y - p0.y) / chord };
+    const through = segments.every(segment => {
+      const offset = (segment.p3.x - p0.x) * direction.y - (segment.p3.y - p0.y) * direction.x;
+      return Math.abs(offset) < 1e-6;
+    });
+    if (through) return createLineSegment(p0, p3);
+  }
+
+  const startTangent = cubicTangent(first, 0);
+  const endTangent = cubicTangent(last, 1);
+  const t1 = startTangent;
+  const t2 = { x: -endTangent.x, y: -endTangent.y };
+
+  // Points spread evenly by arc length, parameterized by length fraction
+  const lengths = segments.map(segment => getCubicLength(segment));
+  const total = lengths.reduce((sum, length) => sum + length, 0);
+  const points: Point[] = [];
+  const params: number[] = [];
+  for (let i = 0; i <= samples; i++) {
+    let target = (i / samples) * total;
+    let index = 0;
+    while (index < segments.length - 1 && target > lengths[index]) {
+      target -= lengths[index];
+      index++;
+    }
+    const t = getCubicParameterAtLength(segments[index], target, lengths[index]);
+    points.push(evaluateCubic(segments[index], t));
+    params.push(i / samples);
+  }
+
+  const build = (alpha1: number, alpha2: number): CubicSegment => createCubicSegment(
+    p0,
+    { x: p0.x + t1.x * alpha1, y: p0.y + t1.y * alpha1 },
+    { x: p3.x + t2.x * alpha2, y: p3.y + t2.y * alpha2 },
+    p3
+  );
+
+  let fitted = build(chord / 3, chord / 3);
+  for (let iteration = 0; iteration < 6; iteration++) {
+    let c00 = 0, c01 = 0, c11 = 0, x0 = 0, x1 = 0;
+    params.forEach((u, i) => {
+      const mu = 1 - u;
+      const b0 = mu * mu * mu;
+      const b1 = 3 * mu * mu * u;
+      const b2 = 3 * mu * u * u;
+      const b3 = u * u * u;
+      const a1 = { x: t1.x * b1, y: t1.y * b1 };
+      const a2 = { x: t2.x * b2, y: t2.y * b2 };
+      c00 += a1.x * a1.x + a1.y * a1.y;
+      c01 += a1.x * a2.x + a1.y * a2.y;
+      c11 += a2.x * a2.x + a2.y * a2.y;
+      const rest = {
+        x: points[i].x - (p0.x * (b0 + b1) + p3.x * (b2 + b3)),
+        y: points[i].y - (p0.y * (b0 + b1) + p3.y * (b2 + b3))
+      };
+      x0 += a1.x * rest.x + a1.y * rest.y;
+      x1 += a2.x * rest.x + a2.y * rest.y;
+    });
+
+    const det = c00 * c11 - c01 * c01;
+    let alpha1 = Math.abs(det) > EPSILON ? (x0 * c11 - x1 * c01) / det : chord / 3;
+    let alpha2 = Math.abs(det) > EPSILON ? (c00 * x1 - c01 * x0) / det : chord / 3;
+    // Handles pointing backwards are not a usable fit
+    if (alpha1 < EPSILON || alpha2 < EPSILON) {
+      alpha1 = chord / 3;
+      alpha2 = chord / 3;
+    }
+    fitted = build(alpha1, alpha2);
+
+    // Move every parameter to the closest point of the new curve
+    for (let i = 1; i < params.length - 1; i++) {
+      params[i] = getCubicNearestParameter(fitted, points[i]);
+    }
+  }
+
+  return fitted;
+}
@@ -0,0 +1,115 @@
+import { EditorDocumentKey, EditorDocumentState, EditorState, DocumentTab } from '../types';
+import { createInitialHistoryState } from './history-utils';
+
+export const DEFAULT_DOCUMENT_ID = 'document-1';
+
+export const DOCUMENT_STATE_KEYS: EditorDocumentKey[] = [
+  'paths',
+  'texts',
+  'textPaths',
+  'groups',
+  'gradients',
+  'images',
+  'clipPaths',
+  'masks',
+  'filters',
+  'markers',
+  'symbols',
+  'uses',
+  'animations',
+  'animationSync',
+  'selection',
+  'viewport',
+  'history'
+];
+
+/**
+ * The active document's part of the editor state, by reference
+ */
+export function extractDocumentState(state: EditorState): EditorDocumentState {
+  const documentState = {} as Record<EditorDocumentKey, unknown>;
+  for (const key of DOCUMENT_STATE_KEYS) {
+    documentState[key] = state[key];
+  }
+  return documentState as EditorDocumentState;
+}
+
+/**
+ * A document as written to storage: undo history stays in memory
+ */
+export function toPersistedDocumentState(documentState: EditorDocumentState): Omit<EditorDocumentState, 'history'> {
+  const { history, ...persisted } = documentState;
+  return persisted;
+}
+
+export function createEmptyDocumentState(): EditorDocumentState {
+  return {
+    paths: [],
+    texts: [],
+    textPaths: [],
+    groups: [],
+    gradients: [],
+    images: [],
+    clipPaths: [],
+    masks: [],
+    filters: [],
+    markers: [],
+    symbols: [],
+    uses: [],
+    animations: [],
+    animationSync: {
+      chains: [],
+      events: [],
+    },
+    selection: {
+      selectedPaths: [],
+      selectedSubPaths: [],
+      selectedCommands: [],
+      selectedControlPoints: [],
+      selectedTexts: [],
+      selectedTextSpans: [],
+      selectedTextPaths: [],
+      selectedGroups: [],
+      selectedImages: [],
+      selectedClipPaths: [],
+      selectedMasks: [],
+      selectedFilters: [],
+      selectedFilterPrimitives: [],
+      selectedMarkers: [],
+      selectedSymbols: [],
+      selectedUses: [],
+      selectedAnimations: [],
+      selectedGradients: [],
+      selectedGradientStops: [],
+    },
+    viewport: {
+      zoom: 1,
+      pan: { x: 0, y: 0 },
+      viewBox: { x: 0, y: 0, width: 800, height: 600 },
+    },
+    history: createInitialHistoryState(),
+  };
+}
+
+/**
+ * Whether two states of a document have the same content; selection,
+ * viewport and history don't count. Store updates replace what they change,
+ * so comparing references is enough.
+ */
+export function isSameDocumentContent(a: EditorDocumentState, b: EditorDocumentState): boolean {
+  return DOCUMENT_STATE_KEYS
+    .filter(key => key !== 'selection' && key !== 'viewport' && key !== 'history')
+    .every(key => a[key] === b[key]);
+}
+
+/**
+ * First "Untitled N" name not used by an open document
+ */
+export function getNextDocumentName(tabs: DocumentTab[]): string {
+  const names = new Set(tabs.map(tab => tab.name));
+  let index = tabs.length + 1;
+  while (names.has(`Untitled ${index}`)) {
+    index++;
+  }
+  return `Untitled ${index}`;
+}
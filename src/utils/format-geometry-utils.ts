@@ -0,0 +1,160 @@
+import { BoundingBox, PathStyle, Point, SVGGroup, SVGPath, SVGSubPath } from '../types';
+import { generateId } from './id-utils';
+import { getPathBoundingBox } from './bbox-utils';
+import { CubicSegment, splitCubic, subPathToCubicContours } from './cubic-segment-utils';
+import { getCanvasSubPaths, transformSubPaths } from './path-transform-utils';
+import { IDENTITY_MATRIX, TransformMatrix, getAncestorTransforms, multiplyMatrices } from './transform-utils';
+
+/**
+ * Geometry shared by the CAD and plotter format handlers. Those formats
+ * measure in physical units and count y upwards, while the canvas counts
+ * y downwards.
+ */
+
+export type DrawingUnit = 'px' | 'mm' | 'cm' | 'in';
+
+// Millimeters per unit; a px is 1/96 in, as in CSS
+export const DRAWING_UNIT_MILLIMETERS: Record<DrawingUnit, number> = {
+  px: 25.4 / 96,
+  mm: 1,
+  cm: 10,
+  in: 25.4
+};
+
+export const DRAWING_UNIT_LABELS: Record<DrawingUnit, string> = {
+  px: 'Pixels',
+  mm: 'Millimeters',
+  cm: 'Centimeters',
+  in: 'Inches'
+};
+
+// Default flattening tolerance of exports, in canvas units
+export const DEFAULT_EXPORT_TOLERANCE = 0.1;
+
+export interface Polyline {
+  points: Point[];
+  closed: boolean;
+}
+
+const MAX_FLATTEN_DEPTH = 16;
+
+const distanceToLine = (point: Point, from: Point, to: Point): number => {
+  const dx = to.x - from.x;
+  const dy = to.y - from.y;
+  const length = Math.hypot(dx, dy);
+  if (length === 0) return Math.hypot(point.x - from.x, point.y - from.y);
+  return Math.abs((point.x - from.x) * dy - (point.y - from.y) * dx) / length;
+};
+
+const flattenCubic = (segment: CubicSegment, tolerance: number, points: Point[], depth: number = 0): void => {
+  const flat = segment.isLine || depth >= MAX_FLATTEN_DEPTH || (
+    distanceToLine(segment.p1, segment.p0, segment.p3) <= tolerance &&
+    distanceToLine(segment.p2, segment.p0, segment.p3) <= tolerance
+  );
+  if (flat) {
+    points.push({ ...segment.p3 });
+    return;
+  }
+  const [first, second] = splitCubic(segment, 0.5);
+  flattenCubic(first, tolerance, points, depth + 1);
+  flattenCubic(second, tolerance, points, depth + 1);
+};
+
+/**
+ * Approximate a subpath with polylines, one per contour. Curves deviate from
+ * their polyline by at most the tolerance.
+ */
+export function flattenSubPath(subPath: SVGSubPath, tolerance: number): Polyline[] {
+  return subPathToCubicContours(subPath)
+    .filter(contour => contour.segments.length > 0)
+    .map(contour => {
+      const points: Point[] = [{ ...contour.segments[0].p0 }];
+      contour.segments.forEach(segment => flattenCubic(segment, tolerance, points));
+
+      // Closed polylines do not repeat their first point
+      const first = points[0];
+      const last = points[points.length - 1];
+      if (contour.closed && points.length > 2 && Math.hypot(last.x - first.x, last.y - first.y) < 1e-9) {
+        points.pop();
+      }
+      return { points, closed: contour.closed };
+    })
+    .filter(polyline => polyline.points.length >= 2);
+}
+
+/**
+ * Paths with the transforms of their enclosing groups folded into their own,
+ * so exports place grouped geometry where the canvas shows it
+ */
+export function applyGroupTransforms(paths: SVGPath[], groups: SVGGroup[]): SVGPath[] {
+  const ancestors = getAncestorTransforms(groups);
+  return paths.map(path => {
+    const ancestor = ancestors.get(path.id);
+    if (!ancestor) return path;
+    return { ...path, transform: multiplyMatrices(ancestor, path.transform ?? IDENTITY_MATRIX) };
+  });
+}
+
+/**
+ * Polylines of every path in canvas coordinates
+ */
+export function getPathPolylines(paths: SVGPath[], tolerance: number): Polyline[] {
+  return paths.flatMap(path =>
+    getCanvasSubPaths(path).flatMap(subPath => flattenSubPath(subPath, tolerance))
+  );
+}
+
+export function getPolylinesBounds(polylines: Polyline[]): BoundingBox | null {
+  const points = polylines.flatMap(polyline => polyline.points);
+  if (points.length === 0) return null;
+
+  const xs = points.map(point => point.x);
+  const ys = points.map(point => point.y);
+  const minX = Math.min(...xs);
+  const minY = Math.min(...ys);
+  return { x: minX, y: minY, width: Math.max(...xs) - minX, height: Math.max(...ys) - minY };
+}
+
+/**
+ * Scale between y-down canvas and y-up file coordinates. The drawing is
+ * mirrored within its own vertical bounds so it stays in place, which makes
+ * the same matrix work in both directions.
+ */
+export function createYFlipMatrix(bounds: Pick<BoundingBox, 'y' | 'height'>, scale: number): TransformMatrix {
+  return { a: scale, b: 0, c: 0, d: -scale, e: 0, f: scale * (2 * bounds.y + bounds.height) };
+}
+
+/**
+ * Factor turning lengths in one unit into another
+ */
+export function getUnitScale(from: DrawingUnit, to: DrawingUnit): number {
+  return DRAWING_UNIT_MILLIMETERS[from] / DRAWING_UNIT_MILLIMETERS[to];
+}
+
+// CAD and plotter files carry no paint, so imports get a plain outline
+const IMPORTED_PATH_STYLE: PathStyle = {
+  fill: 'none',
+  stroke: '#000000',
+  strokeWidth: 1
+};
+
+/**
+ * Turn subpaths read from a y-up file into canvas paths, one path per
+ * non-empty group (layer, pen...). The scale converts file units to
+ * canvas units.
+ */
+export function createImportedPaths(groups: SVGSubPath[][], scale: number): SVGPath[] {
+  const paths: SVGPath[] = groups
+    .filter(subPaths => subPaths.length > 0)
+    .map(subPaths => ({ id: generateId(), subPaths, style: { ...IMPORTED_PATH_STYLE } }));
+
+  const boxes = paths
+    .map(path => getPathBoundingBox(path))
+    .filter((box): box is BoundingBox => !!box);
+  if (boxes.length === 0) return paths;
+
+  const minY = Math.min(...boxes.map(box => box.y));
+  const maxY = Math.max(...boxes.map(box => box.y + box.height));
+  const matrix = createYFlipMatrix({ y: minY, height: maxY - minY }, scale);
+  return paths.map(path => ({ ...path, subPaths: transformSubPaths(path.subPaths, matrix) }));
+}
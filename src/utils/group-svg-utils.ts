@@ -4,6 +4,35 @@
 
 import { SVGGroup, SVGPath, TextElementType, GradientOrPattern, SVGFilter, SVGImage, SVGAnimation, SVGSymbol, SVGUse } from '../types';
 import { subPathToString } from './path-utils';
+import { getLiveShape, getShapeElement, isPathElementRequired } from './shape-utils';
+import { getPathTransformAttribute } from './path-transform-utils';
+
+/**
+ * Definition markup of a gradient or pattern
+ */
+export function generateGradientDef(gradient: GradientOrPattern): string {
+  switch (gradient.type) {
+    case 'linear':
+      const linearStops = gradient.stops.map(stop => 
+        `    <stop offset="${stop.offset}%" stop-color="${stop.color}" stop-opacity="${stop.opacity ?? 1}" />`
+      ).join('\n');
+      return `  <linearGradient id="${gradient.id}" x1="${gradient.x1}%" y1="${gradient.y1}%" x2="${gradient.x2}%" y2="${gradient.y2}%" gradientUnits="${gradient.gradientUnits || 'objectBoundingBox'}">\n${linearStops}\n  </linearGradient>`;
+    
+    case 'radial':
+      const radialStops = gradient.stops.map(stop => 
+        `    <stop offset="${stop.offset}%" stop-color="${stop.color}" stop-opacity="${stop.opacity ?? 1}" />`
+      ).join('\n');
+      const fxAttr = (gradient.fx !== undefined && gradient.fx !== gradient.cx) ? ` fx="${gradient.fx}%"` : '';
+      const fyAttr = (gradient.fy !== undefined && gradient.fy !== gradient.cy) ? ` fy="${gradient.fy}%"` : '';
+      return `  <radialGradient id="${gradient.id}" cx="${gradient.cx}%" cy="${gradient.cy}%" r="${gradient.r}%"${fxAttr}${fyAttr} gradientUnits="${gradient.gradientUnits || 'objectBoundingBox'}">\n${radialStops}\n  </radialGradient>`;
+    
+    case 'pattern':
+      return `  <pattern id="${gradient.id}" width="${gradient.width}" height="${gradient.height}" patternUnits="${gradient.patternUnits || 'userSpaceOnUse'}"${gradient.patternContentUnits ? ` patternContentUnits="${gradient.patternContentUnits}"` : ''}${gradient.patternTransform ? ` patternTransform="${gradient.patternTransform}"` : ''}>\n    ${gradient.content}\n  </pattern>`;
+    
+    default:
+      return '';
+  }
+}
 
 /**
  * Generates SVG content for a specific group
@@ -19,7 +48,8 @@ export function generateGroupSVG(
   allGradients: GradientOrPattern[] = [],
   allFilters: SVGFilter[] = [],
   allAnimations: SVGAnimation[] = [],
-  precision: number = 2
+  precision: number = 2,
+  padding?: number // Space around the bounds; defaults to 10% of the larger side
 ): string {
   
   // Helper function to convert fill/stroke values to SVG format
@@ -257,11 +287,11 @@ export function generateGroupSVG(
   });
 
   // Add padding and create viewBox
-  const padding = Math.max(10, Math.max(maxX - minX, maxY - minY) * 0.1);
-  const viewBoxX = minX - padding;
-  const viewBoxY = minY - padding;
-  const viewBoxWidth = (maxX - minX) + (padding * 2);
-  const viewBoxHeight = (maxY - minY) + (padding * 2);
+  const viewBoxPadding = padding ?? Math.max(10, Math.max(maxX - minX, maxY - minY) * 0.1);
+  const viewBoxX = minX - viewBoxPadding;
+  const viewBoxY = minY - viewBoxPadding;
+  const viewBoxWidth = (maxX - minX) + (viewBoxPadding * 2);
+  const viewBoxHeight = (maxY - minY) + (viewBoxPadding * 2);
 
   // Round to specified precision
   const roundToPrecision = (num: number): number => {
@@ -273,29 +303,7 @@ export function generateGroupSVG(
 
   // Generate gradient definitions for used gradients
   const relevantGradients = allGradients.filter(grad => usedGradients.has(grad.id));
-  const gradientDefs = relevantGradients.map(gradient => {
-    switch (gradient.type) {
-      case 'linear':
-        const linearStops = gradient.stops.map(stop => 
-          `    <stop offset="${stop.offset}%" stop-color="${stop.color}" stop-opacity="${stop.opacity ?? 1}" />`
-        ).join('\n');
-        return `  <linearGradient id="${gradient.id}" x1="${gradient.x1}%" y1="${gradient.y1}%" x2="${gradient.x2}%" y2="${gradient.y2}%" gradientUnits="${gradient.gradientUnits || 'objectBoundingBox'}">\n${linearStops}\n  </linearGradient>`;
-      
-      case 'radial':
-        const radialStops = gradient.stops.map(stop => 
-          `    <stop offset="${stop.offset}%" stop-color="${stop.color}" stop-opacity="${stop.opacity ?? 1}" />`
-        ).join('\n');
-        const fxAttr = (gradient.fx !== undefined && gradient.fx !== gradient.cx) ? ` fx="${gradient.fx}%"` : '';
-        const fyAttr = (gradient.fy !== undefined && gradient.fy !== gradient.cy) ? ` fy="${gradient.fy}%"` : '';
-        return `  <radialGradient id="${gradient.id}" cx="${gradient.cx}%" cy="${gradient.cy}%" r="${gradient.r}%"${fxAttr}${fyAttr} gradientUnits="${gradient.gradientUnits || 'objectBoundingBox'}">\n${radialStops}\n  </radialGradient>`;
-      
-      case 'pattern':
-        return `  <pattern id="${gradient.id}" width="${gradient.width}" height="${gradient.height}" patternUnits="${gradient.patternUnits || 'userSpaceOnUse'}"${gradient.patternContentUnits ? ` patternContentUnits="${gradient.patternContentUnits}"` : ''}${gradient.patternTransform ? ` patternTransform="${gradient.patternTransform}"` : ''}>\n    ${gradient.content}\n  </pattern>`;
-      
-      default:
-        return '';
-    }
-  }).filter(Boolean);
+  const gradientDefs = relevantGradients.map(generateGradientDef).filter(Boolean);
 
   // Generate filter definitions for used filters
   const relevantFilters = allFilters.filter(filter => usedFilters.has(filter.id));
@@ -446,9 +454,17 @@ ${symbolContent}
     const fillValue = convertStyleValue(style.fill);
     const strokeValue = convertStyleValue(style.stroke);
     
+    // Live shapes are written as their native element
+    const shape = isPathElementRequired(path.id, [], allAnimations) ? null : getLiveShape(path);
+    const formatNumber = (value: number) => Number(value.toFixed(precision)).toString();
+    const shapeElement = shape ? getShapeElement(shape, formatNumber) : null;
+    const tag = shapeElement ? shapeElement.tag : 'path';
+    const transform = getPathTransformAttribute(path, formatNumber);
+    
     const attributes = [
       `id="${path.id}"`,
-      `d="${pathData}"`,
+      ...(shapeElement ? shapeElement.attributes : [`d="${pathData}"`]),
+      transform ? `transform="${transform}"` : '',
       fillValue !== 'none' ? `fill="${fillValue}"` : 'fill="none"',
       strokeValue !== 'none' ? `stroke="${strokeValue}"` : '',
       style.strokeWidth ? `stroke-width="${style.strokeWidth}"` : '',
@@ -468,11 +484,11 @@ ${symbolContent}
     const hasAnimations = animations.length > 0;
     
     if (hasAnimations) {
-      return `  <path ${attributes}>
+      return `  <${tag} ${attributes}>
     ${animations}
-  </path>`;
+  </${tag}>`;
     } else {
-      return `  <path ${attributes} />`;
+      return `  <${tag} ${attributes} />`;
     }
   }).join('\n');
 
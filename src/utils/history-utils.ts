@@ -1,4 +1,11 @@
-import { EditorState } from '../types';
+import { Immer, Patch, enablePatches } from 'immer';
+import { EditorState, HistorySnapshot, HistoryState } from '../types';
+import { CONFIG } from '../config/constants';
+
+enablePatches();
+
+// Restored states stay unfrozen: the rest of the store updates them immutably, but not through immer
+const historyImmer = new Immer({ autoFreeze: false });
 
 /**
  * Safely clones a value handling edge cases for JSON serialization
@@ -94,3 +101,175 @@ export function mergeCleanStateIntoCurrentState(
     history: currentState.history,
   };
 }
+
+/**
+ * Empty undo history, as a new or freshly loaded document starts with
+ */
+export function createInitialHistoryState(): HistoryState {
+  return {
+    past: [],
+    future: [],
+    checkpoint: null,
+    present: null,
+    presentTimestamp: Date.now(),
+    transaction: null,
+    canUndo: false,
+    canRedo: false,
+    memoryUsage: 0,
+    memoryBudget: CONFIG.PERFORMANCE.UNDO_HISTORY_MEMORY_BUDGET
+  };
+}
+
+/**
+ * Takes the data part of the editor state by reference. Store updates never
+ * mutate in place, so unchanged branches stay shared with the live state and
+ * a snapshot costs nothing until something changes.
+ */
+export function takeHistorySnapshot(state: any): HistorySnapshot {
+  const snapshot: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(state)) {
+    // Open documents aren't part of any one document's undo history
+    if (key !== 'history' && key !== 'documents' && typeof value !== 'function') {
+      snapshot[key] = value;
+    }
+  }
+  return snapshot as HistorySnapshot;
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> => {
+  if (value === null || typeof value !== 'object' || Array.isArray(value)) return false;
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+};
+
+function diffArrays(base: unknown[], next: unknown[], path: (string | number)[], patches: Patch[], inversePatches: Patch[]) {
+  // Unchanged elements at both ends are shared by reference
+  let start = 0;
+  while (start < base.length && start < next.length && Object.is(base[start], next[start])) start++;
+  let baseEnd = base.length;
+  let nextEnd = next.length;
+  while (baseEnd > start && nextEnd > start && Object.is(base[baseEnd - 1], next[nextEnd - 1])) {
+    baseEnd--;
+    nextEnd--;
+  }
+
+  if (baseEnd - start === nextEnd - start) {
+    for (let i = start; i < baseEnd; i++) {
+      diffValues(base[i], next[i], [...path, i], patches, inversePatches);
+    }
+    return;
+  }
+
+  // Elements were inserted or removed: swap the changed run as a whole
+  for (let i = baseEnd - 1; i >= start; i--) {
+    patches.push({ op: 'remove', path: [...path, i] });
+    inversePatches.push({ op: 'add', path: [...path, i], value: base[i] });
+  }
+  for (let i = start; i < nextEnd; i++) {
+    patches.push({ op: 'add', path: [...path, i], value: next[i] });
+    inversePatches.push({ op: 'remove', path: [...path, i] });
+  }
+}
+
+function diffValues(base: unknown, next: unknown, path: (string | number)[], patches: Patch[], inversePatches: Patch[]) {
+  if (Object.is(base, next)) return;
+
+  if (Array.isArray(base) && Array.isArray(next)) {
+    diffArrays(base, next, path, patches, inversePatches);
+    return;
+  }
+
+  if (isPlainObject(base) && isPlainObject(next)) {
+    for (const key of Object.keys(next)) {
+      if (!(key in base)) {
+        patches.push({ op: 'add', path: [...path, key], value: next[key] });
+        inversePatches.push({ op: 'remove', path: [...path, key] });
+      } else {
+        diffValues(base[key], next[key], [...path, key], patches, inversePatches);
+      }
+    }
+    for (const key of Object.keys(base)) {
+      if (!(key in next)) {
+        patches.push({ op: 'remove', path: [...path, key] });
+        inversePatches.push({ op: 'add', path: [...path, key], value: base[key] });
+      }
+    }
+    return;
+  }
+
+  patches.push({ op: 'replace', path, value: next });
+  inversePatches.push({ op: 'replace', path, value: base });
+}
+
+/**
+ * Immer patches that turn `base` into `next`, and the inverse patches that
+ * turn it back. Branches shared by reference are skipped without a visit.
+ */
+export function diffHistorySnapshots(
+  base: HistorySnapshot,
+  next: HistorySnapshot
+): { patches: Patch[]; inversePatches: Patch[] } {
+  const patches: Patch[] = [];
+  const inversePatches: Patch[] = [];
+  diffValues(base, next, [], patches, inversePatches);
+  // Undoing replays the steps backwards
+  inversePatches.reverse();
+  return { patches, inversePatches };
+}
+
+export function applyHistoryPatches(snapshot: HistorySnapshot, patches: Patch[]): HistorySnapshot {
+  return patches.length === 0 ? snapshot : historyImmer.applyPatches(snapshot, patches);
+}
+
+const estimateValueSize = (value: unknown): number => {
+  if (value === null || value === undefined) return 8;
+  switch (typeof value) {
+    case 'string':
+      return 16 + value.length * 2;
+    case 'boolean':
+      return 4;
+    case 'object':
+      if (Array.isArray(value)) {
+        return value.reduce<number>((size, item) => size + estimateValueSize(item), 16);
+      }
+      return Object.entries(value as Record<string, unknown>).reduce<number>(
+        (size, [key, item]) => size + key.length * 2 + estimateValueSize(item),
+        32
+      );
+    default:
+      return 8;
+  }
+};
+
+/**
+ * Rough number of bytes held by a list of patches
+ */
+export function estimatePatchesSize(patches: Patch[]): number {
+  return patches.reduce(
+    (size, patch) => size + 32 + patch.path.length * 8 + ('value' in patch ? estimateValueSize(patch.value) : 0),
+    0
+  );
+}
+
+/**
+ * Every state in the history timeline, oldest first: the past steps, the
+ * live state and the redo steps. Rebuilt from the patches on demand.
+ */
+export function getHistoryTimeline(history: HistoryState, live: HistorySnapshot): HistorySnapshot[] {
+  const past: HistorySnapshot[] = [];
+  let snapshot = history.checkpoint;
+  for (let i = history.past.length - 1; i >= 0 && snapshot; i--) {
+    past.unshift(snapshot);
+    snapshot = i > 0 ? applyHistoryPatches(snapshot, history.past[i].inversePatches) : null;
+  }
+
+  const future: HistorySnapshot[] = [];
+  snapshot = history.present;
+  for (const entry of history.future) {
+    if (!snapshot) break;
+    snapshot = applyHistoryPatches(snapshot, entry.patches);
+    future.push(snapshot);
+  }
+
+  return [...past, live, ...future];
+}
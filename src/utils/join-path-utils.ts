@@ -0,0 +1,350 @@
+import { ControlPointType, Point, SVGCommand, SVGSubPath } from '../types';
+import { generateId } from './id-utils';
+import { getStartPoints, freezeSmoothCommand } from './anchor-point-utils';
+import { reverseOpenSubPathCommands } from './path-direction-utils';
+
+/**
+ * Joining and welding of open subpath endpoints. Joins either bridge the gap
+ * with a line or merge both endpoints into one anchor at their average, and
+ * keep the control handles on either side of the joined anchor.
+ */
+
+export type SubPathEnd = 'start' | 'end';
+export type JoinMode = 'line' | 'merge';
+
+// Handle pairs closer than this to collinear / equal length are treated as aligned / mirrored
+const ALIGNMENT_THRESHOLD = 0.966;
+const MIRROR_RATIO = 0.9;
+
+const isOpenSubPath = (subPath: SVGSubPath): boolean =>
+  subPath.commands.length >= 2 &&
+  subPath.commands[0].command === 'M' &&
+  !subPath.commands.some((cmd, index) => cmd.command === 'Z' || (index > 0 && cmd.command === 'M'));
+
+/**
+ * Which end of an open subpath a command is, or null when it is not an endpoint
+ */
+export function getSubPathEnd(subPath: SVGSubPath, commandId: string): SubPathEnd | null {
+  if (!isOpenSubPath(subPath)) return null;
+  const index = subPath.commands.findIndex(cmd => cmd.id === commandId);
+  if (index === 0) return 'start';
+  if (index === subPath.commands.length - 1) return 'end';
+  return null;
+}
+
+const getEndPointOf = (commands: SVGCommand[], end: SubPathEnd): Point => {
+  const cmd = end === 'start' ? commands[0] : commands[commands.length - 1];
+  return { x: cmd.x ?? 0, y: cmd.y ?? 0 };
+};
+
+const translateEnd = (cmd: SVGCommand, delta: Point): SVGCommand => {
+  const moved: SVGCommand = { ...cmd, x: (cmd.x ?? 0) + delta.x, y: (cmd.y ?? 0) + delta.y };
+  // The incoming handle travels with the anchor
+  if (cmd.command === 'C' || cmd.command === 'S') {
+    moved.x2 = (cmd.x2 ?? cmd.x ?? 0) + delta.x;
+    moved.y2 = (cmd.y2 ?? cmd.y ?? 0) + delta.y;
+  }
+  return moved;
+};
+
+const translateOutgoingHandle = (cmd: SVGCommand, delta: Point): SVGCommand =>
+  cmd.command === 'C' && cmd.x1 !== undefined && cmd.y1 !== undefined
+    ? { ...cmd, x1: cmd.x1 + delta.x, y1: cmd.y1 + delta.y }
+    : cmd;
+
+const length = (v: Point): number => Math.sqrt(v.x * v.x + v.y * v.y);
+
+/**
+ * Make the handles on both sides of the anchor ending command `index`
+ * satisfy `type`. Without a type, handles that are already close to aligned
+ * or mirrored are snapped to it and independent ones are left alone. Lines
+ * can't turn, so a curve handle next to a line follows the line direction.
+ */
+export function applyAnchorHandleType(
+  commands: SVGCommand[],
+  index: number,
+  type?: ControlPointType
+): SVGCommand[] {
+  const incoming = commands[index];
+  const outgoing = commands[index + 1];
+  if (!incoming || !outgoing || type === 'independent') return commands;
+  if (outgoing.command === 'M' || outgoing.command === 'Z') return commands;
+
+  const starts = getStartPoints(commands);
+  const anchor = starts[index + 1];
+  const inHandle: Point | null = incoming.command === 'C' && incoming.x2 !== undefined && incoming.y2 !== undefined
+    ? { x: incoming.x2, y: incoming.y2 }
+    : null;
+  const outHandle: Point | null = outgoing.command === 'C' && outgoing.x1 !== undefined && outgoing.y1 !== undefined
+    ? { x: outgoing.x1, y: outgoing.y1 }
+    : null;
+  if (!inHandle && !outHandle) return commands;
+
+  // Travel direction through the anchor on each side
+  const isLine = (cmd: SVGCommand) => cmd.command === 'L' || cmd.command === 'H' || cmd.command === 'V';
+  const inVector = inHandle
+    ? { x: anchor.x - inHandle.x, y: anchor.y - inHandle.y }
+    : isLine(incoming) ? { x: anchor.x - starts[index].x, y: anchor.y - starts[index].y } : null;
+  const outEnd = { x: outgoing.x ?? anchor.x, y: outgoing.y ?? anchor.y };
+  const outVector = outHandle
+    ? { x: outHandle.x - anchor.x, y: outHandle.y - anchor.y }
+    : isLine(outgoing) ? { x: outEnd.x - anchor.x, y: outEnd.y - anchor.y } : null;
+  if (!inVector || !outVector) return commands;
+
+  const inLength = length(inVector);
+  const outLength = length(outVector);
+  if (inLength === 0 || outLength === 0) return commands;
+  const inUnit = { x: inVector.x / inLength, y: inVector.y / inLength };
+  const outUnit = { x: outVector.x / outLength, y: outVector.y / outLength };
+
+  let target = type;
+  if (!target) {
+    if (!inHandle || !outHandle) return commands;
+    const dot = inUnit.x * outUnit.x + inUnit.y * outUnit.y;
+    if (dot <= ALIGNMENT_THRESHOLD) return commands;
+    target = Math.min(inLength, outLength) / Math.max(inLength, outLength) > MIRROR_RATIO ? 'mirrored' : 'aligned';
+  }
+
+  let direction: Point;
+  if (inHandle && outHandle) {
+    const sum = { x: inUnit.x + outUnit.x, y: inUnit.y + outUnit.y };
+    const sumLength = length(sum);
+    if (sumLength === 0) return commands;
+    direction = { x: sum.x / sumLength, y: sum.y / sumLength };
+  } else {
+    direction = inHandle ? outUnit : inUnit;
+  }
+
+  const mirrored = target === 'mirrored' && inHandle && outHandle;
+  const inHandleLength = mirrored ? (inLength + outLength) / 2 : inLength;
+  const outHandleLength = mirrored ? (inLength + outLength) / 2 : outLength;
+
+  const result = [...commands];
+  if (inHandle) {
+    result[index] = {
+      ...incoming,
+      x2: anchor.x - direction.x * inHandleLength,
+      y2: anchor.y - direction.y * inHandleLength
+    };
+  }
+  if (outHandle) {
+    result[index + 1] = {
+      ...outgoing,
+      x1: anchor.x + direction.x * outHandleLength,
+      y1: anchor.y + direction.y * outHandleLength
+    };
+  }
+  return result;
+}
+
+/**
+ * Join an endpoint of one open subpath to an endpoint of another (or to the
+ * other end of itself, which closes it). The result runs from the start of
+ * `first` through the joined ends to the far end of `second`.
+ */
+export function joinSubPaths(
+  first: SVGSubPath,
+  firstEnd: SubPathEnd,
+  second: SVGSubPath,
+  secondEnd: SubPathEnd,
+  mode: JoinMode,
+  handleType?: ControlPointType
+): SVGCommand[] | null {
+  if (!isOpenSubPath(first) || !isOpenSubPath(second)) return null;
+
+  if (first.id === second.id) {
+    if (firstEnd === secondEnd) return null;
+    return closeSubPath(first.commands, mode, handleType);
+  }
+
+  const head = firstEnd === 'end' ? first.commands : reverseOpenSubPathCommands(first.commands);
+  let tail = secondEnd === 'start' ? second.commands : reverseOpenSubPathCommands(second.commands);
+  // The command after the old start reflected nothing; keep its shape once it follows the join
+  const frozen = freezeSmoothCommand(tail, 1, getStartPoints(tail));
+  if (frozen) {
+    tail = [tail[0], frozen, ...tail.slice(2)];
+  }
+
+  const headPoint = getEndPointOf(head, 'end');
+  const tailPoint = getEndPointOf(tail, 'start');
+
+  if (mode === 'line') {
+    const joined = [...head, { id: tail[0].id, command: 'L' as const, x: tailPoint.x, y: tailPoint.y }, ...tail.slice(1)];
+    if (!handleType) return joined;
+    const aligned = applyAnchorHandleType(joined, head.length - 1, handleType);
+    return applyAnchorHandleType(aligned, head.length, handleType);
+  }
+
+  const average = { x: (headPoint.x + tailPoint.x) / 2, y: (headPoint.y + tailPoint.y) / 2 };
+  const headDelta = { x: average.x - headPoint.x, y: average.y - headPoint.y };
+  const tailDelta = { x: average.x - tailPoint.x, y: average.y - tailPoint.y };
+  const joined = [
+    ...head.slice(0, -1),
+    translateEnd(head[head.length - 1], headDelta),
+    translateOutgoingHandle(tail[1], tailDelta),
+    ...tail.slice(2)
+  ];
+  return applyAnchorHandleType(joined, head.length - 1, handleType);
+}
+
+/**
+ * Close an open subpath by joining its end back to its start
+ */
+function closeSubPath(commands: SVGCommand[], mode: JoinMode, handleType?: ControlPointType): SVGCommand[] {
+  const closing: SVGCommand = { id: generateId(), command: 'Z' };
+  if (mode === 'line') {
+    return [...commands, closing];
+  }
+
+  const start = getEndPointOf(commands, 'start');
+  const end = getEndPointOf(commands, 'end');
+  const average = { x: (start.x + end.x) / 2, y: (start.y + end.y) / 2 };
+  const closed = [
+    { ...commands[0], x: average.x, y: average.y },
+    translateOutgoingHandle(commands[1], { x: average.x - start.x, y: average.y - start.y }),
+    ...commands.slice(2)
+  ];
+  const lastIndex = closed.length - 1;
+  closed[lastIndex] = translateEnd(closed[lastIndex], { x: average.x - end.x, y: average.y - end.y });
+
+  // The handles meet across the start: the last command comes in, the first one goes out
+  if (lastIndex > 1) {
+    const previousEnd = getStartPoints(closed)[lastIndex];
+    const around = applyAnchorHandleType([
+      { id: '', command: 'M', x: previousEnd.x, y: previousEnd.y },
+      closed[lastIndex],
+      closed[1]
+    ], 1, handleType);
+    closed[lastIndex] = around[1];
+    closed[1] = around[2];
+  }
+
+  return [...closed, closing];
+}
+
+const distance = (a: Point, b: Point): number => length({ x: a.x - b.x, y: a.y - b.y });
+
+/**
+ * Merge consecutive anchors of a subpath that are within `tolerance` of each
+ * other into one anchor at their average. Returns the new commands and the
+ * number of anchors removed.
+ */
+export function weldCoincidentAnchors(
+  commands: SVGCommand[],
+  tolerance: number,
+  handleType?: ControlPointType
+): { commands: SVGCommand[]; welded: number } {
+  let result = commands;
+  let welded = 0;
+  let index = 0;
+
+  while (index < result.length - 1) {
+    const next = result[index + 1];
+    if (next.command === 'M' || next.command === 'Z') {
+      index++;
+      continue;
+    }
+
+    const starts = getStartPoints(result);
+    const anchor = starts[index + 1];
+    const nextAnchor = { x: next.x ?? anchor.x, y: next.y ?? anchor.y };
+    if (distance(anchor, nextAnchor) > tolerance) {
+      index++;
+      continue;
+    }
+
+    // The short command disappears; whatever followed it keeps its shape
+    const average = { x: (anchor.x + nextAnchor.x) / 2, y: (anchor.y + nextAnchor.y) / 2 };
+    const afterNext = freezeSmoothCommand(result, index + 2, starts) ?? result[index + 2];
+    const merged = [
+      ...result.slice(0, index),
+      translateEnd(result[index], { x: average.x - anchor.x, y: average.y - anchor.y }),
+      ...(afterNext ? [translateOutgoingHandle(afterNext, { x: average.x - nextAnchor.x, y: average.y - nextAnchor.y })] : []),
+      ...result.slice(index + 3)
+    ];
+    result = applyAnchorHandleType(merged, index, handleType);
+    welded++;
+  }
+
+  // The last anchor of a closed subpath may sit on its start, so the closing segment is the short one
+  const lastIndex = result.length - 2;
+  const closing = result[lastIndex + 1];
+  if (result[0]?.command === 'M' && closing?.command === 'Z' && lastIndex >= 2) {
+    const start = { x: result[0].x ?? 0, y: result[0].y ?? 0 };
+    const end = getStartPoints(result)[lastIndex + 1];
+    const last = result[lastIndex];
+    const isLine = last.command === 'L' || last.command === 'H' || last.command === 'V';
+    const gap = distance(start, end);
+
+    if (gap <= tolerance && isLine) {
+      // The closing line takes over from the last line
+      const average = { x: (start.x + end.x) / 2, y: (start.y + end.y) / 2 };
+      result = [
+        { ...result[0], x: average.x, y: average.y },
+        translateOutgoingHandle(result[1], { x: average.x - start.x, y: average.y - start.y }),
+        ...result.slice(2, lastIndex),
+        closing
+      ];
+      welded++;
+    } else if (gap > 0 && gap <= tolerance) {
+      // A closing curve ends exactly on the start, as closing an open subpath leaves it
+      result = [...closeSubPath(result.slice(0, -1), 'merge', handleType).slice(0, -1), closing];
+      welded++;
+    }
+  }
+
+  return { commands: result, welded };
+}
+
+/**
+ * Weld a set of subpaths: coincident anchors inside each subpath merge, open
+ * subpaths whose endpoints meet are joined, and open subpaths whose two ends
+ * meet are closed. A joined subpath keeps the id of the one it started from.
+ */
+export function weldSubPaths(
+  subPaths: SVGSubPath[],
+  tolerance: number,
+  handleType?: ControlPointType
+): { subPaths: SVGSubPath[]; welded: number } {
+  let welded = 0;
+  let result = subPaths.map(subPath => {
+    if (subPath.locked) return subPath;
+    const weldedSubPath = weldCoincidentAnchors(subPath.commands, tolerance, handleType);
+    welded += weldedSubPath.welded;
+    return weldedSubPath.welded > 0 ? { ...subPath, commands: weldedSubPath.commands } : subPath;
+  });
+
+  const findJoin = (): [number, SubPathEnd, number, SubPathEnd] | null => {
+    for (let i = 0; i < result.length; i++) {
+      if (result[i].locked || !isOpenSubPath(result[i])) continue;
+      for (let j = i; j < result.length; j++) {
+        if (result[j].locked || !isOpenSubPath(result[j])) continue;
+        const ends: Array<[SubPathEnd, SubPathEnd]> = i === j
+          ? [['end', 'start']]
+          : [['end', 'start'], ['end', 'end'], ['start', 'start'], ['start', 'end']];
+        for (const [firstEnd, secondEnd] of ends) {
+          const firstPoint = getEndPointOf(result[i].commands, firstEnd);
+          const secondPoint = getEndPointOf(result[j].commands, secondEnd);
+          if (distance(firstPoint, secondPoint) <= tolerance) {
+            return [i, firstEnd, j, secondEnd];
+          }
+        }
+      }
+    }
+    return null;
+  };
+
+  let join = findJoin();
+  while (join) {
+    const [i, firstEnd, j, secondEnd] = join;
+    const commands = joinSubPaths(result[i], firstEnd, result[j], secondEnd, 'merge', handleType);
+    if (!commands) break;
+    result = result
+      .map((subPath, index) => (index === i ? { ...subPath, commands } : subPath))
+      .filter((_, index) => index === i || index !== j);
+    welded++;
+    join = findJoin();
+  }
+
+  return { subPaths: result, welded };
+}
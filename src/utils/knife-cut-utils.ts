@@ -0,0 +1,185 @@
+import { Point, SVGSubPath } from '../types';
+import { generateId } from './id-utils';
+import {
+  CubicSegment,
+  CubicContour,
+  subPathToCubicContours,
+  cubicContoursToCommands,
+  createLineSegment,
+  intersectCubicSegments,
+  getCubicPortion,
+  getContoursWindingNumber
+} from './cubic-segment-utils';
+
+/**
+ * Knife cuts: split subpaths where a straight line crosses them. Open contours
+ * fall apart into separate open pieces; closed contours are split into closed
+ * pieces joined along the knife line.
+ */
+
+interface CutPosition {
+  segment: number; // Segment index in the contour
+  t: number; // Parameter on that segment
+  knifeT: number; // Parameter along the knife line
+  point: Point;
+}
+
+const POSITION_EPSILON = 1e-6;
+const CHORD_EPSILON = 1e-6;
+
+// Crossings of the knife with a contour, sorted along the contour
+function findContourCuts(contour: CubicContour, knife: CubicSegment): CutPosition[] {
+  const count = contour.segments.length;
+  const cuts: CutPosition[] = [];
+
+  contour.segments.forEach((segment, index) => {
+    for (const hit of intersectCubicSegments(segment, knife)) {
+      let segmentIndex = index;
+      let t = hit.t1;
+      // A crossing at the end of a segment is the start of the next one
+      if (t >= 1 - POSITION_EPSILON) {
+        segmentIndex++;
+        t = 0;
+      }
+      if (segmentIndex === count) {
+        if (!contour.closed) continue; // Cutting an open end changes nothing
+        segmentIndex = 0;
+      }
+      if (!contour.closed && segmentIndex === 0 && t <= POSITION_EPSILON) continue;
+      cuts.push({ segment: segmentIndex, t: t <= POSITION_EPSILON ? 0 : t, knifeT: hit.t2, point: hit.point });
+    }
+  });
+
+  cuts.sort((a, b) => a.segment - b.segment || a.t - b.t);
+  // Crossings through a vertex are found on both adjacent segments
+  return cuts.filter((cut, i) =>
+    i === 0 || cut.segment !== cuts[i - 1].segment || Math.abs(cut.t - cuts[i - 1].t) > POSITION_EPSILON
+  );
+}
+
+// Segments of a contour between two positions, following the drawing direction
+function extractRun(contour: CubicContour, from: CutPosition, to: CutPosition): CubicSegment[] {
+  const segments = contour.segments;
+  const run: CubicSegment[] = [];
+
+  if (from.segment === to.segment && to.t > from.t) {
+    return [getCubicPortion(segments[from.segment], from.t, to.t)];
+  }
+
+  if (from.t < 1 - POSITION_EPSILON) {
+    run.push(getCubicPortion(segments[from.segment], from.t, 1));
+  }
+  let index = (from.segment + 1) % segments.length;
+  let guard = segments.length;
+  while (index !== to.segment && guard-- > 0) {
+    run.push(segments[index]);
+    index = (index + 1) % segments.length;
+  }
+  if (to.t > POSITION_EPSILON) {
+    run.push(getCubicPortion(segments[to.segment], 0, to.t));
+  }
+  return run;
+}
+
+function cutOpenContour(contour: CubicContour, cuts: CutPosition[]): CubicContour[] {
+  const last = contour.segments.length - 1;
+  const start: CutPosition = { segment: 0, t: 0, knifeT: 0, point: contour.segments[0].p0 };
+  const end: CutPosition = { segment: last, t: 1, knifeT: 0, point: contour.segments[last].p3 };
+  const stops = [start, ...cuts, end];
+  const pieces: CubicContour[] = [];
+
+  for (let i = 0; i < stops.length - 1; i++) {
+    const segments = extractRun(contour, stops[i], stops[i + 1]);
+    if (segments.length > 0) {
+      pieces.push({ segments, closed: false });
+    }
+  }
+  return pieces;
+}
+
+function cutClosedContour(contour: CubicContour, cuts: CutPosition[]): CubicContour[] | null {
+  if (cuts.length < 2) return null;
+
+  // Consecutive crossings along the knife bound a chord; it cuts when it lies inside the shape
+  const partner: Array<number | undefined> = [];
+  const alongKnife = cuts.map((_, index) => index).sort((a, b) => cuts[a].knifeT - cuts[b].knifeT);
+  for (let i = 0; i < alongKnife.length - 1; i++) {
+    const a = alongKnife[i];
+    const b = alongKnife[i + 1];
+    if (partner[a] !== undefined || partner[b] !== undefined) continue;
+    const from = cuts[a].point;
+    const to = cuts[b].point;
+    if (Math.hypot(to.x - from.x, to.y - from.y) < CHORD_EPSILON) continue;
+    const middle = { x: (from.x + to.x) / 2, y: (from.y + to.y) / 2 };
+    if (getContoursWindingNumber([contour], middle) !== 0) {
+      partner[a] = b;
+      partner[b] = a;
+    }
+  }
+  if (!partner.some(index => index !== undefined)) return null;
+
+  // Walk the arcs between crossings, jumping across the chords
+  const used: boolean[] = cuts.map(() => false);
+  const pieces: CubicContour[] = [];
+  for (let start = 0; start < cuts.length; start++) {
+    if (used[start]) continue;
+    const segments: CubicSegment[] = [];
+    let current = start;
+    do {
+      used[current] = true;
+      const next = (current + 1) % cuts.length;
+      segments.push(...extractRun(contour, cuts[current], cuts[next]));
+      const across = partner[next];
+      if (across !== undefined) {
+        segments.push(createLineSegment(cuts[next].point, cuts[across].point));
+        current = across;
+      } else {
+        current = next;
+      }
+    } while (current !== start && !used[current]);
+
+    if (segments.length > 0) {
+      pieces.push({ segments, closed: true });
+    }
+  }
+  return pieces;
+}
+
+/**
+ * Points where a knife line crosses a subpath
+ */
+export function findKnifeCutPoints(subPath: SVGSubPath, from: Point, to: Point): Point[] {
+  const knife = createLineSegment(from, to);
+  return subPathToCubicContours(subPath).flatMap(contour => findContourCuts(contour, knife).map(cut => cut.point));
+}
+
+/**
+ * Cut a subpath along a straight line. Returns the resulting subpaths (one per
+ * piece), or null when the line does not cut it.
+ */
+export function cutSubPathWithLine(subPath: SVGSubPath, from: Point, to: Point): SVGSubPath[] | null {
+  if (Math.hypot(to.x - from.x, to.y - from.y) < CHORD_EPSILON) return null;
+
+  const knife = createLineSegment(from, to);
+  const pieces: CubicContour[] = [];
+  let wasCut = false;
+
+  for (const contour of subPathToCubicContours(subPath)) {
+    const cuts = findContourCuts(contour, knife);
+    const contourPieces = cuts.length === 0
+      ? null
+      : contour.closed ? cutClosedContour(contour, cuts) : cutOpenContour(contour, cuts);
+    if (contourPieces) {
+      wasCut = true;
+      pieces.push(...contourPieces);
+    } else {
+      pieces.push(contour);
+    }
+  }
+
+  if (!wasCut) return null;
+  return pieces.map(piece => ({
+    id: generateId(),
+    commands: cubicContoursToCommands([piece])
+  }));
+}
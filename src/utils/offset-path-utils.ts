@@ -0,0 +1,98 @@
+import { Point, SVGSubPath } from '../types';
+import { generateId } from './id-utils';
+import {
+  subPathToCubicContours,
+  cubicContoursToCommands,
+  evaluateCubic,
+  cubicTangent,
+  getCubicNearestParameter,
+  getContoursWindingNumber
+} from './cubic-segment-utils';
+import { StrokeLinejoin, offsetSegmentChain, outlineStroke } from './stroke-outline-utils';
+import { applyBooleanOperation } from './boolean-path-utils';
+
+export interface OffsetOptions {
+  linejoin: StrokeLinejoin;
+  miterLimit: number;
+  fillRule?: 'nonzero' | 'evenodd';
+}
+
+const isClosedSubPath = (subPath: SVGSubPath): boolean =>
+  subPath.commands.some(cmd => cmd.command === 'Z');
+
+/**
+ * Offset subpaths by a distance: positive grows closed shapes outward,
+ * negative shrinks them. Closed shapes are offset as a region (shape plus or
+ * minus a stroke of twice the distance), so holes and self-overlaps are
+ * handled and the joins only appear on the new corners. Open subpaths get a
+ * parallel curve, positive to the left of the drawing direction.
+ */
+export function offsetSubPaths(subPaths: SVGSubPath[], distance: number, options: OffsetOptions): SVGSubPath[] {
+  if (Math.abs(distance) < 1e-6) return [];
+
+  const closed = subPaths.filter(isClosedSubPath);
+  const open = subPaths.filter(subPath => !isClosedSubPath(subPath));
+  const result: SVGSubPath[] = [];
+
+  if (closed.length > 0) {
+    const band = outlineStroke(closed, {
+      width: Math.abs(distance) * 2,
+      linejoin: options.linejoin,
+      linecap: 'butt',
+      miterLimit: options.miterLimit,
+      dashArray: [],
+      dashOffset: 0
+    });
+    result.push(...applyBooleanOperation(distance > 0 ? 'union' : 'subtract', [
+      { subPaths: closed, fillRule: options.fillRule || 'nonzero' },
+      { subPaths: band, fillRule: 'nonzero' }
+    ]));
+  }
+
+  for (const subPath of open) {
+    for (const contour of subPathToCubicContours(subPath)) {
+      const segments = offsetSegmentChain(contour.segments, distance, false, options.linejoin, options.miterLimit, true);
+      if (segments.length === 0) continue;
+      result.push({
+        id: generateId(),
+        commands: cubicContoursToCommands([{ segments, closed: false }])
+      });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Signed distance from a point to subpaths, using the same sign convention as
+ * offsetSubPaths: outside closed shapes (or left of open ones) is positive.
+ */
+export function getSignedOffsetDistance(subPaths: SVGSubPath[], point: Point, fillRule: 'nonzero' | 'evenodd' = 'nonzero'): number {
+  const contours = subPaths.flatMap(subPath => subPathToCubicContours(subPath));
+  let best = Infinity;
+  let bestSide = 1;
+
+  for (const contour of contours) {
+    for (const segment of contour.segments) {
+      const t = getCubicNearestParameter(segment, point);
+      const nearest = evaluateCubic(segment, t);
+      const distance = Math.hypot(point.x - nearest.x, point.y - nearest.y);
+      if (distance < best) {
+        best = distance;
+        const tangent = cubicTangent(segment, t);
+        const cross = tangent.x * (point.y - nearest.y) - tangent.y * (point.x - nearest.x);
+        bestSide = cross >= 0 ? 1 : -1;
+      }
+    }
+  }
+
+  if (!isFinite(best)) return 0;
+
+  const closedContours = contours.filter(contour => contour.closed);
+  if (closedContours.length > 0) {
+    const winding = getContoursWindingNumber(closedContours, point);
+    const inside = fillRule === 'evenodd' ? winding % 2 !== 0 : winding !== 0;
+    return inside ? -best : best;
+  }
+  return best * bestSide;
+}
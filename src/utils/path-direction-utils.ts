@@ -0,0 +1,166 @@
+import { Point, SVGCommand, SVGSubPath } from '../types';
+import { generateId } from './id-utils';
+import { getReflectedControlPoint } from './path-utils';
+import { getStartPoints, freezeSmoothCommand } from './anchor-point-utils';
+import { subPathToCubicContours, getContourArea } from './cubic-segment-utils';
+
+/**
+ * Direction of subpaths: reversing, choosing the start anchor of a closed
+ * subpath and reading or setting the winding. Direction decides where markers
+ * and text on a path start and which way draw animations run, and with the
+ * nonzero fill rule opposite windings are what make holes.
+ */
+
+export type SubPathWinding = 'clockwise' | 'counterclockwise';
+
+const samePoint = (a: Point, b: Point): boolean =>
+  Math.abs(a.x - b.x) < 1e-9 && Math.abs(a.y - b.y) < 1e-9;
+
+const isLineCommand = (cmd: SVGCommand): boolean =>
+  cmd.command === 'L' || cmd.command === 'H' || cmd.command === 'V';
+
+const isClosedCommands = (commands: SVGCommand[]): boolean =>
+  commands.length > 2 && commands[0].command === 'M' && commands[commands.length - 1].command === 'Z';
+
+/**
+ * Reverse the direction of an open subpath. Every anchor keeps its id, so a
+ * selection of anchors survives the reversal.
+ */
+export function reverseOpenSubPathCommands(commands: SVGCommand[]): SVGCommand[] {
+  if (commands.length === 0) return [];
+  const starts = getStartPoints(commands);
+  const last = commands[commands.length - 1];
+  const reversed: SVGCommand[] = [
+    { id: last.id, command: 'M', x: last.x ?? 0, y: last.y ?? 0 }
+  ];
+
+  for (let index = commands.length - 1; index > 0; index--) {
+    const cmd = commands[index];
+    const start = starts[index];
+    const id = commands[index - 1].id;
+
+    switch (cmd.command) {
+      case 'C':
+      case 'S': {
+        const control1 = cmd.command === 'C'
+          ? { x: cmd.x1 ?? start.x, y: cmd.y1 ?? start.y }
+          : getReflectedControlPoint(commands, index, start);
+        reversed.push({
+          id,
+          command: 'C',
+          x1: cmd.x2 ?? cmd.x ?? start.x,
+          y1: cmd.y2 ?? cmd.y ?? start.y,
+          x2: control1.x,
+          y2: control1.y,
+          x: start.x,
+          y: start.y
+        });
+        break;
+      }
+      case 'Q':
+      case 'T': {
+        const control = cmd.command === 'Q'
+          ? { x: cmd.x1 ?? start.x, y: cmd.y1 ?? start.y }
+          : getReflectedControlPoint(commands, index, start);
+        reversed.push({ id, command: 'Q', x1: control.x, y1: control.y, x: start.x, y: start.y });
+        break;
+      }
+      case 'A':
+        reversed.push({
+          ...cmd,
+          id,
+          sweepFlag: cmd.sweepFlag === 1 ? 0 : 1,
+          x: start.x,
+          y: start.y
+        });
+        break;
+      default:
+        reversed.push({ id, command: 'L', x: start.x, y: start.y });
+    }
+  }
+
+  return reversed;
+}
+
+/**
+ * Reverse the direction of a subpath. A closed subpath keeps its start
+ * anchor and runs the other way around.
+ */
+export function reverseSubPathCommands(commands: SVGCommand[]): SVGCommand[] {
+  if (commands.length < 2 || commands[0].command !== 'M') return commands;
+  if (!isClosedCommands(commands)) return reverseOpenSubPathCommands(commands);
+
+  const closing = commands[commands.length - 1];
+  const body = commands.slice(0, -1);
+  const start = { x: commands[0].x ?? 0, y: commands[0].y ?? 0 };
+  const last = getStartPoints(commands)[commands.length - 1];
+
+  // The closing line becomes an explicit segment that the reversal walks first
+  const open = samePoint(start, last)
+    ? body
+    : [...body, { id: body[0].id, command: 'L' as const, x: start.x, y: start.y }];
+  const reversed = reverseOpenSubPathCommands(open);
+
+  // The reversed walk ends on the start anchor again, where Z takes over
+  const final = reversed[reversed.length - 1];
+  if (isLineCommand(final)) {
+    reversed.pop();
+  } else if (final.id === reversed[0].id) {
+    reversed[reversed.length - 1] = { ...final, id: generateId() };
+  }
+  return [...reversed, closing];
+}
+
+/**
+ * Make the anchor at the end of command `index` the start of a closed
+ * subpath. The outline is unchanged; only where it starts moves.
+ */
+export function setClosedSubPathStart(commands: SVGCommand[], index: number): SVGCommand[] | null {
+  if (!isClosedCommands(commands) || index <= 0 || index >= commands.length - 1) return null;
+
+  // Commands that get a new predecessor must not reflect it
+  const starts = getStartPoints(commands);
+  const explicit = commands.map((cmd, i) =>
+    i === 1 || i === index + 1 ? freezeSmoothCommand(commands, i, starts) ?? cmd : cmd
+  );
+  const closing = explicit[explicit.length - 1];
+  const body = explicit.slice(0, -1);
+  const start = { x: commands[0].x ?? 0, y: commands[0].y ?? 0 };
+  const last = starts[commands.length - 1];
+
+  // Segments around the loop, the closing line included when it has length
+  const loop = samePoint(start, last)
+    ? body.slice(1)
+    : [...body.slice(1), { id: body[0].id, command: 'L' as const, x: start.x, y: start.y }];
+  const rotated = [...loop.slice(index), ...loop.slice(0, index)];
+
+  // The last segment arrives at the new start; a line there is drawn by Z
+  const newStart = starts[index + 1];
+  const final = rotated[rotated.length - 1];
+  const finalIsLine = isLineCommand(final);
+  const moveTo: SVGCommand = {
+    id: finalIsLine ? final.id : generateId(),
+    command: 'M',
+    x: newStart.x,
+    y: newStart.y
+  };
+  return [moveTo, ...(finalIsLine ? rotated.slice(0, -1) : rotated), closing];
+}
+
+/**
+ * Winding of a subpath as drawn on screen, or null when it encloses no area
+ */
+export function getSubPathWinding(subPath: SVGSubPath): SubPathWinding | null {
+  const area = subPathToCubicContours(subPath).reduce((sum, contour) => sum + getContourArea(contour), 0);
+  if (Math.abs(area) < 1e-9) return null;
+  return area > 0 ? 'clockwise' : 'counterclockwise';
+}
+
+/**
+ * The subpath running in the given direction, reversed only when needed
+ */
+export function setSubPathWinding(subPath: SVGSubPath, winding: SubPathWinding): SVGSubPath {
+  const current = getSubPathWinding(subPath);
+  if (!current || current === winding) return subPath;
+  return { ...subPath, commands: reverseSubPathCommands(subPath.commands) };
+}
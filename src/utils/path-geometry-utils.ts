@@ -0,0 +1,204 @@
+import { Point, SVGPath, SVGSubPath } from '../types';
+import {
+  CubicSegment,
+  subPathToCubicContours,
+  evaluateCubic,
+  cubicTangent,
+  getCubicLength,
+  getCubicParameterAtLength,
+  getCubicNearestParameter
+} from './cubic-segment-utils';
+
+/**
+ * DOM-free path measurement on the command model: lengths, point/tangent/normal
+ * at a distance along a subpath and nearest point on a path. Replaces
+ * getTotalLength/getPointAtLength on temporary DOM elements.
+ */
+
+export interface PathLocation {
+  subPathId: string;
+  commandIndex: number; // Command of the subpath that draws the location
+  t: number; // Parameter within that command (0 at its start point, 1 at its end point)
+  length: number; // Distance from the start of the subpath
+  point: Point;
+  tangent: Point; // Unit vector in the drawing direction
+  normal: Point; // Unit vector pointing to the left of the drawing direction on screen
+}
+
+export interface NearestPathLocation extends PathLocation {
+  distance: number; // Distance from the query point
+}
+
+interface MeasuredSegment {
+  segment: CubicSegment;
+  commandIndex: number;
+  piece: number; // Position among the cubics of the same command (arcs expand to several)
+  pieces: number;
+  start: number; // Subpath length where the segment starts
+  length: number;
+}
+
+interface SubPathMeasure {
+  subPathId: string;
+  segments: MeasuredSegment[];
+  length: number;
+}
+
+function measureSubPath(subPath: SVGSubPath): SubPathMeasure {
+  const segments: MeasuredSegment[] = [];
+  let length = 0;
+
+  for (const contour of subPathToCubicContours(subPath)) {
+    contour.segments.forEach((segment, index) => {
+      const commandIndex = segment.commandIndex ?? 0;
+      const first = contour.segments.findIndex(s => s.commandIndex === commandIndex);
+      const pieces = contour.segments.filter(s => s.commandIndex === commandIndex).length;
+      const segmentLength = getCubicLength(segment);
+      segments.push({
+        segment,
+        commandIndex,
+        piece: index - first,
+        pieces,
+        start: length,
+        length: segmentLength
+      });
+      length += segmentLength;
+    });
+  }
+
+  return { subPathId: subPath.id, segments, length };
+}
+
+function createLocation(measure: SubPathMeasure, measured: MeasuredSegment, t: number): PathLocation {
+  const tangent = cubicTangent(measured.segment, t);
+  return {
+    subPathId: measure.subPathId,
+    commandIndex: measured.commandIndex,
+    t: (measured.piece + t) / measured.pieces,
+    length: measured.start + getCubicLength(measured.segment, t),
+    point: evaluateCubic(measured.segment, t),
+    tangent,
+    normal: { x: tangent.y, y: -tangent.x }
+  };
+}
+
+/**
+ * Total drawn length of a subpath
+ */
+export function getSubPathLength(subPath: SVGSubPath): number {
+  return measureSubPath(subPath).length;
+}
+
+/**
+ * Total drawn length of a path (sum of its subpaths), like SVGPathElement.getTotalLength
+ */
+export function getPathLength(path: SVGPath): number {
+  return path.subPaths.reduce((total, subPath) => total + getSubPathLength(subPath), 0);
+}
+
+/**
+ * Location at a distance along a subpath. The distance is clamped to the
+ * subpath length; null when the subpath draws nothing.
+ */
+export function getLocationAtLength(subPath: SVGSubPath, length: number): PathLocation | null {
+  const measure = measureSubPath(subPath);
+  if (measure.segments.length === 0) return null;
+
+  const target = Math.max(0, Math.min(measure.length, length));
+  const measured = measure.segments.find(s => target <= s.start + s.length) ?? measure.segments[measure.segments.length - 1];
+  const t = getCubicParameterAtLength(measured.segment, target - measured.start, measured.length);
+  return createLocation(measure, measured, t);
+}
+
+/**
+ * Point at a distance along a subpath
+ */
+export function getPointAtLength(subPath: SVGSubPath, length: number): Point | null {
+  return getLocationAtLength(subPath, length)?.point ?? null;
+}
+
+/**
+ * Unit tangent at a distance along a subpath
+ */
+export function getTangentAtLength(subPath: SVGSubPath, length: number): Point | null {
+  return getLocationAtLength(subPath, length)?.tangent ?? null;
+}
+
+/**
+ * Unit normal at a distance along a subpath
+ */
+export function getNormalAtLength(subPath: SVGSubPath, length: number): Point | null {
+  return getLocationAtLength(subPath, length)?.normal ?? null;
+}
+
+/**
+ * Closest location on a subpath to a point
+ */
+export function getNearestLocationOnSubPath(subPath: SVGSubPath, point: Point): NearestPathLocation | null {
+  const measure = measureSubPath(subPath);
+  let best: NearestPathLocation | null = null;
+
+  for (const measured of measure.segments) {
+    const t = getCubicNearestParameter(measured.segment, point);
+    const candidate = evaluateCubic(measured.segment, t);
+    const distance = Math.hypot(candidate.x - point.x, candidate.y - point.y);
+    if (!best || distance < best.distance) {
+      best = { ...createLocation(measure, measured, t), distance };
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Closest location on any subpath of a path to a point
+ */
+export function getNearestLocationOnPath(path: SVGPath, point: Point): NearestPathLocation | null {
+  let best: NearestPathLocation | null = null;
+  for (const subPath of path.subPaths) {
+    const location = getNearestLocationOnSubPath(subPath, point);
+    if (location && (!best || location.distance < best.distance)) {
+      best = location;
+    }
+  }
+  return best;
+}
+
+/**
+ * Evenly spaced points along subpaths, treating them as one continuous run
+ * like sampling a path element with getPointAtLength. Returns `count` points
+ * including both ends; empty when nothing is drawn.
+ */
+export function samplePointsAlongSubPaths(subPaths: SVGSubPath[], count: number): Point[] {
+  const measures = subPaths.map(measureSubPath).filter(measure => measure.segments.length > 0);
+  const total = measures.reduce((sum, measure) => sum + measure.length, 0);
+  if (measures.length === 0 || count <= 0) return [];
+
+  const points: Point[] = [];
+  let measureIndex = 0;
+  let segmentIndex = 0;
+  let offset = 0; // Length of the subpaths before the current one
+
+  for (let i = 0; i < count; i++) {
+    const target = count === 1 ? 0 : (i / (count - 1)) * total;
+
+    // Targets only grow, so the walk never goes back
+    while (measureIndex < measures.length - 1 && target > offset + measures[measureIndex].length) {
+      offset += measures[measureIndex].length;
+      measureIndex++;
+      segmentIndex = 0;
+    }
+    const measure = measures[measureIndex];
+    const local = Math.min(measure.length, target - offset);
+    while (segmentIndex < measure.segments.length - 1 &&
+           local > measure.segments[segmentIndex].start + measure.segments[segmentIndex].length) {
+      segmentIndex++;
+    }
+
+    const measured = measure.segments[segmentIndex];
+    const t = getCubicParameterAtLength(measured.segment, local - measured.start, measured.length);
+    points.push(evaluateCubic(measured.segment, t));
+  }
+
+  return points;
+}
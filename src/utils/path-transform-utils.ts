@@ -0,0 +1,140 @@
+import { PathStyle, Point, SVGCommand, SVGPath, SVGSubPath } from '../types';
+import { transformArcParameters } from './arc-utils';
+import { TransformMatrix, invertMatrix, isIdentityMatrix, matrixToString, parseTransformString, transformPoint } from './transform-utils';
+
+/**
+ * Paths can keep their own transform matrix instead of having it baked into
+ * the commands. Commands then live in the path's local space: the matrix is
+ * applied on render and export, and pointer input is mapped back through it.
+ */
+
+/**
+ * Matrix for a transform attribute, or undefined when it does nothing
+ */
+export function readPathTransform(transform: string | null | undefined): TransformMatrix | undefined {
+  if (!transform) return undefined;
+  const matrix = parseTransformString(transform);
+  return isIdentityMatrix(matrix) ? undefined : matrix;
+}
+
+/**
+ * Value for the transform attribute of a rendered or exported path
+ */
+export function getPathTransformAttribute(
+  path: Pick<SVGPath, 'transform'>,
+  formatNumber?: (value: number) => string
+): string | undefined {
+  if (!path.transform) return undefined;
+  if (!formatNumber) return matrixToString(path.transform);
+  // Rounding the linear part to the coordinate precision would visibly distort it
+  const { a, b, c, d, e, f } = path.transform;
+  const linear = [a, b, c, d].map(value => Number(value.toFixed(6)).toString());
+  return `matrix(${[...linear, formatNumber(e), formatNumber(f)].join(',')})`;
+}
+
+/**
+ * Map a canvas point into the local space of a path
+ */
+export function toPathLocalPoint(path: Pick<SVGPath, 'transform'> | undefined, point: Point): Point {
+  const inverse = path?.transform ? invertMatrix(path.transform) : null;
+  return inverse ? transformPoint(point.x, point.y, inverse) : point;
+}
+
+/**
+ * Map a canvas offset into the local space of a path (translation ignored)
+ */
+export function toPathLocalDelta(path: Pick<SVGPath, 'transform'> | undefined, delta: Point): Point {
+  const inverse = path?.transform ? invertMatrix(path.transform) : null;
+  if (!inverse) return delta;
+  return {
+    x: inverse.a * delta.x + inverse.c * delta.y,
+    y: inverse.b * delta.x + inverse.d * delta.y
+  };
+}
+
+/**
+ * Apply a matrix to one command. H and V become L since they do not
+ * survive rotation or skew, and arcs get new radii and rotation.
+ */
+export function transformCommand(command: SVGCommand, matrix: TransformMatrix): SVGCommand {
+  const transformed: SVGCommand = { ...command };
+  if (command.command === 'H' || command.command === 'V') {
+    transformed.command = 'L';
+  }
+  if (command.x !== undefined && command.y !== undefined) {
+    const point = transformPoint(command.x, command.y, matrix);
+    transformed.x = point.x;
+    transformed.y = point.y;
+  }
+  if (command.x1 !== undefined && command.y1 !== undefined) {
+    const point = transformPoint(command.x1, command.y1, matrix);
+    transformed.x1 = point.x;
+    transformed.y1 = point.y;
+  }
+  if (command.x2 !== undefined && command.y2 !== undefined) {
+    const point = transformPoint(command.x2, command.y2, matrix);
+    transformed.x2 = point.x;
+    transformed.y2 = point.y;
+  }
+  if (command.command === 'A' && command.rx !== undefined && command.ry !== undefined) {
+    Object.assign(transformed, transformArcParameters({
+      rx: command.rx,
+      ry: command.ry,
+      xAxisRotation: command.xAxisRotation ?? 0,
+      largeArcFlag: command.largeArcFlag ? 1 : 0,
+      sweepFlag: command.sweepFlag ? 1 : 0
+    }, matrix));
+  }
+  return transformed;
+}
+
+/**
+ * Apply a matrix to every command of the given subpaths, keeping ids
+ */
+export function transformSubPaths(subPaths: SVGSubPath[], matrix: TransformMatrix): SVGSubPath[] {
+  return subPaths.map(subPath => ({
+    ...subPath,
+    commands: subPath.commands.map(command => transformCommand(command, matrix))
+  }));
+}
+
+/**
+ * Subpaths of a path in canvas coordinates
+ */
+export function getCanvasSubPaths(path: Pick<SVGPath, 'subPaths' | 'transform'>): SVGSubPath[] {
+  return path.transform ? transformSubPaths(path.subPaths, path.transform) : path.subPaths;
+}
+
+/**
+ * Map canvas subpaths into the local space of a path
+ */
+export function toPathLocalSubPaths(path: Pick<SVGPath, 'transform'> | undefined, subPaths: SVGSubPath[]): SVGSubPath[] {
+  const inverse = path?.transform ? invertMatrix(path.transform) : null;
+  return inverse ? transformSubPaths(subPaths, inverse) : subPaths;
+}
+
+/**
+ * Style for a path whose transform gets baked into its commands: stroke
+ * width and dashes scale with the area scale of the matrix, so the stroke
+ * looks the same
+ */
+export function transformPathStyle(style: PathStyle, matrix: TransformMatrix): PathStyle {
+  const scale = Math.sqrt(Math.abs(matrix.a * matrix.d - matrix.b * matrix.c));
+  if (scale === 1) return style;
+
+  const transformed: PathStyle = { ...style };
+  if (style.strokeWidth !== undefined || (style.stroke && style.stroke !== 'none')) {
+    transformed.strokeWidth = (style.strokeWidth ?? 1) * scale;
+  }
+  if (style.strokeDasharray) {
+    // Lists with percentages or other units are left alone
+    const dashes = style.strokeDasharray.split(/[\s,]+/).filter(Boolean).map(Number);
+    if (dashes.every(Number.isFinite)) {
+      transformed.strokeDasharray = dashes.map(dash => dash * scale).join(',');
+    }
+  }
+  if (style.strokeDashoffset !== undefined) {
+    transformed.strokeDashoffset = style.strokeDashoffset * scale;
+  }
+  return transformed;
+}
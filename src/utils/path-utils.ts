@@ -1,5 +1,6 @@
 import { SVGPath, SVGCommand, SVGSubPath, Point, BoundingBox } from "../types";
 import { parsePathData } from "./svg-parser";
+import { getArcBounds, sampleArcPoints, ArcParameters } from "./arc-utils";
 
 export const pathToString = (path: SVGPath, precision: number = 2): string => {
   return path.subPaths
@@ -18,8 +19,22 @@ export const subPathToString = (subPath: SVGSubPath, precision: number = 2): str
     return '';
   }
   
+  // Track the current point so H and V can be validated against it
+  let currentPoint: Point | undefined;
+  let subPathStart: Point | undefined;
   const commands = subPath.commands
-    .map((command) => commandToString(command, precision))
+    .map((command) => {
+      const result = commandToString(command, precision, currentPoint);
+      if (command.command === 'Z') {
+        currentPoint = subPathStart;
+      } else if (command.x !== undefined && command.y !== undefined) {
+        currentPoint = { x: command.x, y: command.y };
+        if (command.command === 'M') {
+          subPathStart = currentPoint;
+        }
+      }
+      return result;
+    })
     .join(' ')
     .trim();
   
@@ -373,6 +388,10 @@ const getDistanceToSubPathContour = (subPath: SVGSubPath, point: Point): number
             );
             break;
             
+          case 'A':
+            segmentDistance = distanceToArc(point, currentPoint, absolutePos, getArcParameters(command));
+            break;
+            
           default:
             // For other commands, fall back to line segment
             segmentDistance = distanceToLineSegment(point, currentPoint, absolutePos);
@@ -515,7 +534,11 @@ export const getContrastColor = (color: string): string => {
   }
 };
 
-export const commandToString = (command: SVGCommand, precision: number = 2): string => {
+/**
+ * Serializes a single command. When the current point is known, H and V commands
+ * whose end point no longer lies on the same axis are written as L instead.
+ */
+export const commandToString = (command: SVGCommand, precision: number = 2, currentPoint?: Point): string => {
   const { id, command: cmd, ...params } = command;
   
   // Helper function to format numbers with precision
@@ -529,9 +552,26 @@ export const commandToString = (command: SVGCommand, precision: number = 2): str
   switch (cmd) {
     case 'M':
     case 'L':
+    case 'T':
       return `${cmd} ${formatNumber(params.x)} ${formatNumber(params.y)}`;
+    case 'H':
+      if (currentPoint && formatNumber(currentPoint.y) !== formatNumber(params.y)) {
+        return `L ${formatNumber(params.x)} ${formatNumber(params.y)}`;
+      }
+      return `${cmd} ${formatNumber(params.x)}`;
+    case 'V':
+      if (currentPoint && formatNumber(currentPoint.x) !== formatNumber(params.x)) {
+        return `L ${formatNumber(params.x)} ${formatNumber(params.y)}`;
+      }
+      return `${cmd} ${formatNumber(params.y)}`;
     case 'C':
       return `${cmd} ${formatNumber(params.x1)} ${formatNumber(params.y1)} ${formatNumber(params.x2)} ${formatNumber(params.y2)} ${formatNumber(params.x)} ${formatNumber(params.y)}`;
+    case 'S':
+      return `${cmd} ${formatNumber(params.x2)} ${formatNumber(params.y2)} ${formatNumber(params.x)} ${formatNumber(params.y)}`;
+    case 'Q':
+      return `${cmd} ${formatNumber(params.x1)} ${formatNumber(params.y1)} ${formatNumber(params.x)} ${formatNumber(params.y)}`;
+    case 'A':
+      return `${cmd} ${formatNumber(params.rx)} ${formatNumber(params.ry)} ${formatNumber(params.xAxisRotation)} ${params.largeArcFlag ? 1 : 0} ${params.sweepFlag ? 1 : 0} ${formatNumber(params.x)} ${formatNumber(params.y)}`;
     case 'Z':
       return cmd;
     default:
@@ -539,6 +579,17 @@ export const commandToString = (command: SVGCommand, precision: number = 2): str
   }
 };
 
+/**
+ * Extracts the arc parameters of an A command
+ */
+export const getArcParameters = (command: SVGCommand): ArcParameters => ({
+  rx: command.rx ?? 0,
+  ry: command.ry ?? 0,
+  xAxisRotation: command.xAxisRotation ?? 0,
+  largeArcFlag: command.largeArcFlag ? 1 : 0,
+  sweepFlag: command.sweepFlag ? 1 : 0,
+});
+
 export const parsePathString = (d: string): SVGPath => {
   const commands = parsePathData(d); // Use the normalized path parser
   const subPaths = [];
@@ -577,7 +628,19 @@ export const getPathBounds = (path: SVGPath): BoundingBox => {
   let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
   
   path.subPaths.forEach(subPath => {
+    let currentPoint: Point | null = null;
     subPath.commands.forEach(command => {
+      // Arcs can bulge beyond their end points
+      if (command.command === 'A' && currentPoint && command.x !== undefined && command.y !== undefined) {
+        const arcBounds = getArcBounds(currentPoint, { x: command.x, y: command.y }, getArcParameters(command));
+        minX = Math.min(minX, arcBounds.x);
+        maxX = Math.max(maxX, arcBounds.x + arcBounds.width);
+        minY = Math.min(minY, arcBounds.y);
+        maxY = Math.max(maxY, arcBounds.y + arcBounds.height);
+      }
+      if (command.x !== undefined && command.y !== undefined) {
+        currentPoint = { x: command.x, y: command.y };
+      }
       if (command.x !== undefined) {
         minX = Math.min(minX, command.x);
         maxX = Math.max(maxX, command.x);
@@ -696,121 +759,17 @@ const distanceToQuadraticBezier = (point: Point, p0: Point, p1: Point, p2: Point
 };
 
 // Helper function to calculate distance from a point to an arc
-const distanceToArc = (
-  point: Point, 
-  start: Point, 
-  end: Point, 
-  rx: number, 
-  ry: number, 
-  xAxisRotation: number, 
-  largeArcFlag: number, 
-  sweepFlag: number
-): number => {
-  let minDistance = Infinity;
+const distanceToArc = (point: Point, start: Point, end: Point, arc: ArcParameters): number => {
+  let minDistance = distance(point, start);
   const steps = 50; // Number of points to sample along the arc
   
-  // Convert SVG arc parameters to center parameterization
-  const arcParams = convertToArcCenter(start, end, rx, ry, xAxisRotation, largeArcFlag, sweepFlag);
-  
-  if (!arcParams) {
-    // Fallback to line segment if arc conversion fails
-    return distanceToLineSegment(point, start, end);
-  }
-  
-  const { cx, cy, startAngle, endAngle, rx: actualRx, ry: actualRy } = arcParams;
-  
-  // Sample points along the arc
-  for (let i = 0; i <= steps; i++) {
-    const t = i / steps;
-    let angle;
-    
-    if (sweepFlag === 1) {
-      // Positive direction
-      angle = startAngle + t * (endAngle - startAngle);
-    } else {
-      // Negative direction
-      angle = startAngle - t * (startAngle - endAngle);
-    }
-    
-    // Calculate point on ellipse
-    const cos_angle = Math.cos(angle);
-    const sin_angle = Math.sin(angle);
-    const cos_rotation = Math.cos(xAxisRotation * Math.PI / 180);
-    const sin_rotation = Math.sin(xAxisRotation * Math.PI / 180);
-    
-    const x = cx + actualRx * cos_angle * cos_rotation - actualRy * sin_angle * sin_rotation;
-    const y = cy + actualRx * cos_angle * sin_rotation + actualRy * sin_angle * cos_rotation;
-    
-    const arcPoint = { x, y };
-    const dist = distance(point, arcPoint);
-    minDistance = Math.min(minDistance, dist);
+  for (const arcPoint of sampleArcPoints(start, end, arc, steps)) {
+    minDistance = Math.min(minDistance, distance(point, arcPoint));
   }
   
   return minDistance;
 };
 
-// Convert SVG arc parameters to center parameterization
-const convertToArcCenter = (
-  start: Point, 
-  end: Point, 
-  rx: number, 
-  ry: number, 
-  xAxisRotation: number, 
-  largeArcFlag: number, 
-  sweepFlag: number
-): { cx: number; cy: number; startAngle: number; endAngle: number; rx: number; ry: number } | null => {
-  // Handle degenerate cases
-  if (rx === 0 || ry === 0) return null;
-  if (start.x === end.x && start.y === end.y) return null;
-  
-  const phi = xAxisRotation * Math.PI / 180;
-  const cos_phi = Math.cos(phi);
-  const sin_phi = Math.sin(phi);
-  
-  // Step 1: Compute (x1', y1')
-  const dx = (start.x - end.x) / 2;
-  const dy = (start.y - end.y) / 2;
-  const x1_prime = cos_phi * dx + sin_phi * dy;
-  const y1_prime = -sin_phi * dx + cos_phi * dy;
-  
-  // Ensure radii are large enough
-  const rx_sq = rx * rx;
-  const ry_sq = ry * ry;
-  const x1_prime_sq = x1_prime * x1_prime;
-  const y1_prime_sq = y1_prime * y1_prime;
-  
-  const lambda = x1_prime_sq / rx_sq + y1_prime_sq / ry_sq;
-  if (lambda > 1) {
-    const sqrt_lambda = Math.sqrt(lambda);
-    rx *= sqrt_lambda;
-    ry *= sqrt_lambda;
-  }
-  
-  // Step 2: Compute (cx', cy')
-  const sign = largeArcFlag === sweepFlag ? -1 : 1;
-  const sq = Math.max(0, (rx_sq * ry_sq - rx_sq * y1_prime_sq - ry_sq * x1_prime_sq) / (rx_sq * y1_prime_sq + ry_sq * x1_prime_sq));
-  const coeff = sign * Math.sqrt(sq);
-  const cx_prime = coeff * (rx * y1_prime / ry);
-  const cy_prime = coeff * -(ry * x1_prime / rx);
-  
-  // Step 3: Compute (cx, cy)
-  const cx = cos_phi * cx_prime - sin_phi * cy_prime + (start.x + end.x) / 2;
-  const cy = sin_phi * cx_prime + cos_phi * cy_prime + (start.y + end.y) / 2;
-  
-  // Step 4: Compute angles
-  const startAngle = Math.atan2((y1_prime - cy_prime) / ry, (x1_prime - cx_prime) / rx);
-  const endAngle = Math.atan2((-y1_prime - cy_prime) / ry, (-x1_prime - cx_prime) / rx);
-  
-  return {
-    cx,
-    cy,
-    startAngle,
-    endAngle,
-    rx,
-    ry
-  };
-};
-
 // Calculate a point on a cubic Bézier curve at parameter t
 const cubicBezierPoint = (p0: Point, p1: Point, p2: Point, p3: Point, t: number): Point => {
   const mt = 1 - t;
@@ -837,33 +796,48 @@ const quadraticBezierPoint = (p0: Point, p1: Point, p2: Point, t: number): Point
   };
 };
 
-// Get reflected control point for smooth curves (S and T commands) - simplified
-const getReflectedControlPoint = (commands: SVGCommand[], currentIndex: number, currentPoint: Point): Point => {
+/**
+ * Resolves the implicit first control point of an S or T command by reflecting
+ * the previous command's control point about the current point, as the SVG spec
+ * defines. When the previous command is not of a matching kind, the current
+ * point itself is used.
+ */
+export const getReflectedControlPoint = (commands: SVGCommand[], currentIndex: number, currentPoint: Point): Point => {
   if (currentIndex <= 0) {
     return currentPoint;
   }
   
+  const command = commands[currentIndex];
   const prevCommand = commands[currentIndex - 1];
   const prevCommandType = prevCommand.command.toUpperCase();
-  
-  // For S command, reflect the second control point of the previous C command
-  if (prevCommandType === 'C' && prevCommand.x2 !== undefined && prevCommand.y2 !== undefined) {
-    const prevAbsolutePos = getAbsoluteCommandPosition(prevCommand);
-    if (prevAbsolutePos) {
-      return {
-        x: 2 * prevAbsolutePos.x - prevCommand.x2,
-        y: 2 * prevAbsolutePos.y - prevCommand.y2
-      };
-    }
+  const commandType = command ? command.command.toUpperCase() : 'S';
+  
+  // For S command, reflect the second control point of the previous C or S command
+  if (commandType === 'S' && (prevCommandType === 'C' || prevCommandType === 'S') &&
+      prevCommand.x2 !== undefined && prevCommand.y2 !== undefined) {
+    return {
+      x: 2 * currentPoint.x - prevCommand.x2,
+      y: 2 * currentPoint.y - prevCommand.y2
+    };
   }
   
   // For T command, reflect the control point of the previous Q command
-  if (prevCommandType === 'Q' && prevCommand.x1 !== undefined && prevCommand.y1 !== undefined) {
-    const prevAbsolutePos = getAbsoluteCommandPosition(prevCommand);
-    if (prevAbsolutePos) {
+  if (commandType === 'T' && prevCommandType === 'Q' &&
+      prevCommand.x1 !== undefined && prevCommand.y1 !== undefined) {
+    return {
+      x: 2 * currentPoint.x - prevCommand.x1,
+      y: 2 * currentPoint.y - prevCommand.y1
+    };
+  }
+  
+  // Chained T commands reflect the implicit control point of the previous T
+  if (commandType === 'T' && prevCommandType === 'T' && currentIndex >= 2) {
+    const prevStart = getAbsoluteCommandPosition(commands[currentIndex - 2]);
+    if (prevStart) {
+      const prevControl = getReflectedControlPoint(commands, currentIndex - 1, prevStart);
       return {
-        x: 2 * prevAbsolutePos.x - prevCommand.x1,
-        y: 2 * prevAbsolutePos.y - prevCommand.y1
+        x: 2 * currentPoint.x - prevControl.x,
+        y: 2 * currentPoint.y - prevControl.y
       };
     }
   }
@@ -983,6 +957,11 @@ const getSubPathPolygonPoints = (subPath: SVGSubPath, allSubPaths?: SVGSubPath[]
         points.push(...curvePoints);
         break;
         
+      case 'A':
+        // Elliptical arc
+        points.push(...sampleArcPoints(currentPoint, absolutePos, getArcParameters(command), 10));
+        break;
+        
       case 'Z':
         // Close path - don't add point as it should connect to start
         break;
@@ -1014,58 +993,6 @@ const sampleQuadraticBezier = (p0: Point, p1: Point, p2: Point, steps: number):
   return points;
 };
 
-// Sample points along an arc
-const sampleArc = (
-  start: Point, 
-  end: Point, 
-  rx: number, 
-  ry: number, 
-  xAxisRotation: number, 
-  largeArcFlag: number, 
-  sweepFlag: number, 
-  steps: number
-): Point[] => {
-  const points: Point[] = [];
-  const arcParams = convertToArcCenter(start, end, rx, ry, xAxisRotation, largeArcFlag, sweepFlag);
-  
-  if (!arcParams) {
-    // Fallback to linear interpolation
-    for (let i = 1; i <= steps; i++) {
-      const t = i / steps;
-      points.push({
-        x: start.x + (end.x - start.x) * t,
-        y: start.y + (end.y - start.y) * t
-      });
-    }
-    return points;
-  }
-  
-  const { cx, cy, startAngle, endAngle, rx: actualRx, ry: actualRy } = arcParams;
-  const cos_rotation = Math.cos(xAxisRotation * Math.PI / 180);
-  const sin_rotation = Math.sin(xAxisRotation * Math.PI / 180);
-  
-  for (let i = 1; i <= steps; i++) {
-    const t = i / steps;
-    let angle;
-    
-    if (sweepFlag === 1) {
-      angle = startAngle + t * (endAngle - startAngle);
-    } else {
-      angle = startAngle - t * (startAngle - endAngle);
-    }
-    
-    const cos_angle = Math.cos(angle);
-    const sin_angle = Math.sin(angle);
-    
-    const x = cx + actualRx * cos_angle * cos_rotation - actualRy * sin_angle * sin_rotation;
-    const y = cy + actualRx * cos_angle * sin_rotation + actualRy * sin_angle * cos_rotation;
-    
-    points.push({ x, y });
-  }
-  
-  return points;
-};
-
 // Point-in-polygon test using even-odd rule
 const isPointInsidePolygonEvenOdd = (point: Point, polygon: Point[]): boolean => {
   let inside = false;
@@ -1210,11 +1137,21 @@ export const getSubPathBounds = (subPath: SVGSubPath, allSubPaths?: SVGSubPath[]
   
   let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
   let hasValidBounds = false;
+  let currentPoint: Point | null = null;
   
   subPath.commands.forEach(command => {
     // Get absolute position (simplified since everything is already absolute)
     const position = getAbsoluteCommandPosition(command);
+    if (position && currentPoint && command.command === 'A') {
+      // Arcs can bulge beyond their end points
+      const arcBounds = getArcBounds(currentPoint, position, getArcParameters(command));
+      minX = Math.min(minX, arcBounds.x);
+      maxX = Math.max(maxX, arcBounds.x + arcBounds.width);
+      minY = Math.min(minY, arcBounds.y);
+      maxY = Math.max(maxY, arcBounds.y + arcBounds.height);
+    }
     if (position) {
+      currentPoint = position;
       minX = Math.min(minX, position.x);
       maxX = Math.max(maxX, position.x);
       minY = Math.min(minY, position.y);
@@ -1,3 +1,5 @@
+import { DOCUMENT_STATE_KEYS } from './document-utils';
+
 const EDITOR_STATE_KEY = 'sspe-editor-state';
 
 // Simple debounce util (per key)
@@ -17,8 +19,27 @@ export function saveEditorState(state: any): void {
   try {
     localStorage.setItem(EDITOR_STATE_KEY, JSON.stringify(state));
   } catch (error) {
-    console.warn('Failed to save editor state to localStorage:', error);
+    // Usually the quota, filled by embedded images: keep the settings and open
+    // documents here and leave the document itself to project storage
+    try {
+      localStorage.setItem(EDITOR_STATE_KEY, JSON.stringify(withoutDocumentContent(state)));
+    } catch (fallbackError) {
+      console.warn('Failed to save editor state to localStorage:', fallbackError);
+    }
+  }
+}
+
+function withoutDocumentContent(state: any): any {
+  const settings = { ...state };
+  for (const key of DOCUMENT_STATE_KEYS) {
+    if (key !== 'viewport') delete settings[key];
   }
+  return settings;
+}
+
+// Whether a saved editor state left its document to project storage
+export function hasDocumentContent(savedState: any): boolean {
+  return !!savedState && Array.isArray(savedState.paths);
 }
 
 // Load editor state from localStorage
@@ -30,4 +51,34 @@ export function loadEditorState(): any | null {
     console.warn('Failed to load editor state from localStorage:', error);
     return null;
   }
-}
\ No newline at end of file
+}
+const DOCUMENT_STATE_KEY_PREFIX = 'sspe-document-';
+
+// Save a document that is open but not active
+export function saveDocumentState(documentId: string, state: any): void {
+  try {
+    localStorage.setItem(DOCUMENT_STATE_KEY_PREFIX + documentId, JSON.stringify(state));
+  } catch (error) {
+    console.warn(`Failed to save document ${documentId} to localStorage:`, error);
+  }
+}
+
+// Load a document that is open but not active
+export function loadDocumentState(documentId: string): any | null {
+  try {
+    const stored = localStorage.getItem(DOCUMENT_STATE_KEY_PREFIX + documentId);
+    return stored ? JSON.parse(stored) : null;
+  } catch (error) {
+    console.warn(`Failed to load document ${documentId} from localStorage:`, error);
+    return null;
+  }
+}
+
+// Forget a closed document
+export function removeDocumentState(documentId: string): void {
+  try {
+    localStorage.removeItem(DOCUMENT_STATE_KEY_PREFIX + documentId);
+  } catch (error) {
+    console.warn(`Failed to remove document ${documentId} from localStorage:`, error);
+  }
+}
@@ -0,0 +1,290 @@
+import { EditorState, EditorDocumentState, GridState, SVGCommandType } from '../types';
+import type { StickyConfig } from '../plugins/sticky-guidelines/StickyManager';
+import { extractDocumentState, toPersistedDocumentState } from './document-utils';
+
+/**
+ * Native project files (.sspe.json). Unlike SVG export they keep
+ * editor-only data: lock flags and levels, group names, animation chains,
+ * grid and guideline settings. Files carry a format version; older files
+ * are migrated step by step on open and validated against the schema
+ * before anything reaches the store.
+ */
+
+export const PROJECT_FILE_FORMAT = 'sspe-project';
+export const PROJECT_FILE_VERSION = 1;
+export const PROJECT_FILE_EXTENSION = '.sspe.json';
+
+export type ProjectDocument = Omit<EditorDocumentState, 'history' | 'selection'>;
+
+export interface ProjectEditorSettings {
+  grid?: GridState;
+  precision?: number;
+  guides?: Partial<StickyConfig>; // Sticky guideline settings
+}
+
+export interface SSPEProjectFile {
+  format: typeof PROJECT_FILE_FORMAT;
+  version: number;
+  savedAt: number;
+  name: string;
+  document: ProjectDocument;
+  editor: ProjectEditorSettings;
+}
+
+export interface ProjectFileParseResult {
+  project: SSPEProjectFile | null;
+  errors: string[];
+}
+
+type SchemaNode =
+  | { type: 'string'; values?: readonly string[]; optional?: boolean } // values: the allowed strings
+  | { type: 'number' | 'boolean'; optional?: boolean }
+  | { type: 'array'; items?: SchemaNode; optional?: boolean }
+  | { type: 'object'; properties?: Record<string, SchemaNode>; optional?: boolean };
+
+const idList = (properties: Record<string, SchemaNode> = {}): SchemaNode => ({
+  type: 'array',
+  items: { type: 'object', properties: { id: { type: 'string' }, ...properties } }
+});
+
+const SVG_COMMAND_TYPES: readonly SVGCommandType[] = ['M', 'L', 'H', 'V', 'C', 'S', 'Q', 'T', 'A', 'Z'];
+
+const optionalNumber: SchemaNode = { type: 'number', optional: true };
+
+// Commands reach the renderer and the geometry code as they are
+const commandSchema: Record<string, SchemaNode> = {
+  command: { type: 'string', values: SVG_COMMAND_TYPES },
+  x: optionalNumber,
+  y: optionalNumber,
+  x1: optionalNumber,
+  y1: optionalNumber,
+  x2: optionalNumber,
+  y2: optionalNumber,
+  rx: optionalNumber,
+  ry: optionalNumber,
+  xAxisRotation: optionalNumber,
+  largeArcFlag: optionalNumber,
+  sweepFlag: optionalNumber,
+  locked: { type: 'boolean', optional: true }
+};
+
+/**
+ * Structure of the current version. Element fields beyond the ones the
+ * editor relies on to find and draw elements are left unchecked.
+ */
+export const PROJECT_FILE_SCHEMA: SchemaNode = {
+  type: 'object',
+  properties: {
+    format: { type: 'string' },
+    version: { type: 'number' },
+    savedAt: { type: 'number' },
+    name: { type: 'string' },
+    document: {
+      type: 'object',
+      properties: {
+        paths: idList({
+          subPaths: idList({
+            commands: idList(commandSchema),
+            locked: { type: 'boolean', optional: true }
+          }),
+          locked: { type: 'boolean', optional: true }
+        }),
+        texts: idList({ type: { type: 'string' } }),
+        textPaths: idList(),
+        groups: idList({
+          name: { type: 'string', optional: true },
+          children: {
+            type: 'array',
+            items: { type: 'object', properties: { type: { type: 'string' }, id: { type: 'string' } } }
+          },
+          locked: { type: 'boolean', optional: true },
+          lockLevel: { type: 'string', optional: true }
+        }),
+        gradients: idList(),
+        images: idList({ href: { type: 'string' } }),
+        clipPaths: idList(),
+        masks: idList(),
+        filters: idList(),
+        markers: idList(),
+        symbols: idList(),
+        uses: idList(),
+        animations: idList({ type: { type: 'string' } }),
+        animationSync: {
+          type: 'object',
+          properties: {
+            chains: idList({
+              name: { type: 'string', optional: true },
+              animations: {
+                type: 'array',
+                items: { type: 'object', properties: { animationId: { type: 'string' } } }
+              }
+            }),
+            events: { type: 'array' }
+          }
+        },
+        viewport: {
+          type: 'object',
+          optional: true,
+          properties: {
+            zoom: { type: 'number' },
+            pan: {
+              type: 'object',
+              properties: {
+                x: { type: 'number' },
+                y: { type: 'number' }
+              }
+            },
+            viewBox: {
+              type: 'object',
+              properties: {
+                x: { type: 'number' },
+                y: { type: 'number' },
+                width: { type: 'number' },
+                height: { type: 'number' }
+              }
+            }
+          }
+        }
+      }
+    },
+    editor: {
+      type: 'object',
+      properties: {
+        grid: {
+          type: 'object',
+          optional: true,
+          properties: {
+            enabled: { type: 'boolean' },
+            size: { type: 'number' },
+            snapToGrid: { type: 'boolean' }
+          }
+        },
+        precision: { type: 'number', optional: true },
+        guides: { type: 'object', optional: true }
+      }
+    }
+  }
+};
+
+const validateNode = (value: unknown, schema: SchemaNode, path: string, errors: string[]) => {
+  if (value === undefined) {
+    if (!schema.optional) errors.push(`${path} is missing`);
+    return;
+  }
+  switch (schema.type) {
+    case 'array':
+      if (!Array.isArray(value)) {
+        errors.push(`${path} should be an array`);
+        return;
+      }
+      if (schema.items) {
+        value.forEach((item, index) => validateNode(item, schema.items!, `${path}[${index}]`, errors));
+      }
+      return;
+    case 'object':
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        errors.push(`${path} should be an object`);
+        return;
+      }
+      Object.entries(schema.properties || {}).forEach(([key, property]) =>
+        validateNode((value as Record<string, unknown>)[key], property, `${path}.${key}`, errors)
+      );
+      return;
+    default:
+      if (typeof value !== schema.type || (schema.type === 'number' && !Number.isFinite(value))) {
+        errors.push(`${path} should be a ${schema.type}`);
+      } else if (schema.type === 'string' && schema.values && !schema.values.includes(value as string)) {
+        errors.push(`${path} should be one of ${schema.values.join(', ')}`);
+      }
+  }
+};
+
+// Stop listing after this many problems, a wrong file would produce thousands
+const MAX_REPORTED_ERRORS = 20;
+
+export function validateProjectFile(data: unknown): string[] {
+  const errors: string[] = [];
+  validateNode(data, PROJECT_FILE_SCHEMA, 'project', errors);
+  if (errors.length === 0 && (data as SSPEProjectFile).format !== PROJECT_FILE_FORMAT) {
+    errors.push(`project.format should be "${PROJECT_FILE_FORMAT}"`);
+  }
+  return errors.slice(0, MAX_REPORTED_ERRORS);
+}
+
+/**
+ * Upgrades keyed by the version they start from; each returns the file at
+ * the next version. Add one here whenever EditorState changes in a way
+ * that older files can't be loaded as they are, and bump
+ * PROJECT_FILE_VERSION.
+ */
+const PROJECT_MIGRATIONS: Record<number, (file: any) => any> = {};
+
+export function migrateProjectFile(data: any): any {
+  let file = data;
+  while (typeof file?.version === 'number' && file.version < PROJECT_FILE_VERSION) {
+    const migrate = PROJECT_MIGRATIONS[file.version];
+    if (!migrate) {
+      throw new Error(`Project files of version ${file.version} can no longer be opened`);
+    }
+    file = { ...migrate(file), version: file.version + 1 };
+  }
+  if (typeof file?.version === 'number' && file.version > PROJECT_FILE_VERSION) {
+    throw new Error(`This project was saved by a newer version of the editor (format version ${file.version})`);
+  }
+  return file;
+}
+
+export function createProjectFile(
+  state: EditorState,
+  name: string,
+  guides?: Partial<StickyConfig>
+): SSPEProjectFile {
+  const { selection, ...document } = toPersistedDocumentState(extractDocumentState(state));
+  return {
+    format: PROJECT_FILE_FORMAT,
+    version: PROJECT_FILE_VERSION,
+    savedAt: Date.now(),
+    name,
+    document,
+    editor: {
+      grid: state.grid,
+      precision: state.precision,
+      guides
+    }
+  };
+}
+
+export function serializeProjectFile(project: SSPEProjectFile): string {
+  return JSON.stringify(project, null, 2);
+}
+
+/**
+ * Read a project file: parse, migrate to the current version, validate
+ */
+export function parseProjectFile(text: string): ProjectFileParseResult {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return { project: null, errors: ['The file is not valid JSON'] };
+  }
+  if ((data as any)?.format !== PROJECT_FILE_FORMAT) {
+    return { project: null, errors: ['The file is not an SSPE project'] };
+  }
+
+  try {
+    data = migrateProjectFile(data);
+  } catch (error) {
+    return { project: null, errors: [error instanceof Error ? error.message : 'Migration failed'] };
+  }
+
+  const errors = validateProjectFile(data);
+  return errors.length > 0
+    ? { project: null, errors }
+    : { project: data as SSPEProjectFile, errors: [] };
+}
+
+export function getProjectFileName(name: string): string {
+  const base = name.trim().replace(/[\\/:*?"<>|]+/g, '-') || 'project';
+  return `${base}${PROJECT_FILE_EXTENSION}`;
+}
@@ -0,0 +1,315 @@
+import { EditorDocumentState } from '../types';
+import { CONFIG } from '../config/constants';
+import { toPersistedDocumentState } from './document-utils';
+
+/**
+ * IndexedDB storage for documents, their embedded images and autosave
+ * versions. localStorage only holds a few megabytes, which a couple of
+ * embedded images fill; here each image is stored once as a Blob and
+ * documents refer to it by content hash.
+ */
+
+const DB_NAME = 'sspe-projects';
+const DB_VERSION = 1;
+const DOCUMENTS_STORE = 'documents';
+const ASSETS_STORE = 'assets';
+const VERSIONS_STORE = 'versions';
+const ASSET_REF_PREFIX = 'sspe-asset:';
+const SESSION_KEY = 'sspe-session';
+
+type PersistedDocument = Partial<Omit<EditorDocumentState, 'history'>>;
+
+interface DocumentRecord {
+  id: string;
+  savedAt: number;
+  state: PersistedDocument;
+}
+
+interface AssetRecord {
+  id: string;
+  blob: Blob;
+}
+
+interface VersionRecord extends AutosaveVersion {
+  state: PersistedDocument;
+}
+
+export interface AutosaveVersion {
+  id: string;
+  documentId: string;
+  documentName: string;
+  timestamp: number;
+}
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!databasePromise) {
+    databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const database = request.result;
+        if (!database.objectStoreNames.contains(DOCUMENTS_STORE)) {
+          database.createObjectStore(DOCUMENTS_STORE, { keyPath: 'id' });
+        }
+        if (!database.objectStoreNames.contains(ASSETS_STORE)) {
+          database.createObjectStore(ASSETS_STORE, { keyPath: 'id' });
+        }
+        if (!database.objectStoreNames.contains(VERSIONS_STORE)) {
+          database.createObjectStore(VERSIONS_STORE, { keyPath: 'id' }).createIndex('documentId', 'documentId');
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Allow a later retry when opening failed
+    databasePromise.catch(() => {
+      databasePromise = null;
+    });
+  }
+  return databasePromise;
+};
+
+const requestResult = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+const isDataUri = (href: string | undefined): href is string => !!href && href.startsWith('data:');
+
+// Hashes computed for data URIs already seen, so autosaves don't hash the same image again
+const assetIdCache = new Map<string, string>();
+
+const getAssetId = async (dataUri: string): Promise<string> => {
+  const cached = assetIdCache.get(dataUri);
+  if (cached) return cached;
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(dataUri));
+  const id = Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+  assetIdCache.set(dataUri, id);
+  return id;
+};
+
+const blobToDataUri = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+/**
+ * Replace embedded image data with asset references, writing new assets
+ */
+const extractAssets = async (documentState: EditorDocumentState): Promise<PersistedDocument> => {
+  const persisted = toPersistedDocumentState(documentState);
+  const embedded = (persisted.images || []).filter(image => isDataUri(image.href));
+  if (embedded.length === 0) return persisted;
+
+  const assetIds = await Promise.all(embedded.map(image => getAssetId(image.href)));
+  const database = await openDatabase();
+  const assets = database.transaction(ASSETS_STORE, 'readonly').objectStore(ASSETS_STORE);
+  const existing = new Set(await requestResult(assets.getAllKeys()));
+  const newAssets = embedded.filter((_, index) => !existing.has(assetIds[index]));
+
+  // Decode first: a transaction left idle while awaiting would commit early
+  if (newAssets.length > 0) {
+    const blobs = await Promise.all(newAssets.map(image => fetch(image.href).then(response => response.blob())));
+    const writeTransaction = database.transaction(ASSETS_STORE, 'readwrite');
+    newAssets.forEach((image, index) => {
+      const record: AssetRecord = { id: assetIds[embedded.indexOf(image)], blob: blobs[index] };
+      writeTransaction.objectStore(ASSETS_STORE).put(record);
+    });
+    await transactionDone(writeTransaction);
+  }
+
+  return {
+    ...persisted,
+    images: persisted.images?.map(image => {
+      const index = embedded.indexOf(image);
+      return index === -1 ? image : { ...image, href: ASSET_REF_PREFIX + assetIds[index] };
+    })
+  };
+};
+
+/**
+ * Put embedded image data back in place of asset references
+ */
+const resolveAssets = async (persisted: PersistedDocument): Promise<PersistedDocument> => {
+  const referenced = (persisted.images || []).filter(image => image.href?.startsWith(ASSET_REF_PREFIX));
+  if (referenced.length === 0) return persisted;
+
+  const database = await openDatabase();
+  const assets = database.transaction(ASSETS_STORE, 'readonly').objectStore(ASSETS_STORE);
+  const records = await Promise.all(
+    referenced.map(image => requestResult(assets.get(image.href.slice(ASSET_REF_PREFIX.length)) as IDBRequest<AssetRecord | undefined>))
+  );
+  const dataUris = await Promise.all(records.map(record => record ? blobToDataUri(record.blob) : Promise.resolve('')));
+  dataUris.forEach((dataUri, index) => {
+    if (dataUri) assetIdCache.set(dataUri, records[index]!.id);
+  });
+
+  return {
+    ...persisted,
+    images: persisted.images?.map(image => {
+      const index = referenced.indexOf(image);
+      return index === -1 ? image : { ...image, href: dataUris[index] };
+    })
+  };
+};
+
+const collectAssetIds = (persisted: PersistedDocument, ids: Set<string>) => {
+  for (const image of persisted.images || []) {
+    if (image.href?.startsWith(ASSET_REF_PREFIX)) {
+      ids.add(image.href.slice(ASSET_REF_PREFIX.length));
+    }
+  }
+};
+
+/**
+ * Delete assets no stored document or version refers to any more. Assets
+ * seen in this session are kept: a save may have written them but not yet
+ * the document that refers to them.
+ */
+const removeUnusedAssets = async (): Promise<void> => {
+  const database = await openDatabase();
+  const transaction = database.transaction([DOCUMENTS_STORE, VERSIONS_STORE, ASSETS_STORE], 'readwrite');
+  const [documents, versions, assetIds] = await Promise.all([
+    requestResult(transaction.objectStore(DOCUMENTS_STORE).getAll() as IDBRequest<DocumentRecord[]>),
+    requestResult(transaction.objectStore(VERSIONS_STORE).getAll() as IDBRequest<VersionRecord[]>),
+    requestResult(transaction.objectStore(ASSETS_STORE).getAllKeys())
+  ]);
+  const used = new Set<string>(assetIdCache.values());
+  [...documents, ...versions].forEach(record => collectAssetIds(record.state, used));
+  assetIds.forEach(id => {
+    if (!used.has(id as string)) {
+      transaction.objectStore(ASSETS_STORE).delete(id);
+    }
+  });
+  await transactionDone(transaction);
+};
+
+export async function saveProjectDocument(documentId: string, documentState: EditorDocumentState): Promise<void> {
+  const state = await extractAssets(documentState);
+  const database = await openDatabase();
+  const transaction = database.transaction(DOCUMENTS_STORE, 'readwrite');
+  const record: DocumentRecord = { id: documentId, savedAt: Date.now(), state };
+  transaction.objectStore(DOCUMENTS_STORE).put(record);
+  await transactionDone(transaction);
+}
+
+export async function loadProjectDocument(documentId: string): Promise<PersistedDocument | null> {
+  const database = await openDatabase();
+  const store = database.transaction(DOCUMENTS_STORE, 'readonly').objectStore(DOCUMENTS_STORE);
+  const record = await requestResult(store.get(documentId) as IDBRequest<DocumentRecord | undefined>);
+  return record ? resolveAssets(record.state) : null;
+}
+
+export async function deleteProjectDocument(documentId: string): Promise<void> {
+  const database = await openDatabase();
+  const transaction = database.transaction([DOCUMENTS_STORE, VERSIONS_STORE], 'readwrite');
+  transaction.objectStore(DOCUMENTS_STORE).delete(documentId);
+  const versions = transaction.objectStore(VERSIONS_STORE).index('documentId');
+  const versionIds = await requestResult(versions.getAllKeys(documentId));
+  versionIds.forEach(id => transaction.objectStore(VERSIONS_STORE).delete(id));
+  await transactionDone(transaction);
+  await removeUnusedAssets();
+}
+
+/**
+ * Store a timestamped copy of a document, keeping the newest
+ * MAX_AUTOSAVE_VERSIONS copies per document
+ */
+export async function saveAutosaveVersion(
+  documentId: string,
+  documentName: string,
+  documentState: EditorDocumentState
+): Promise<void> {
+  const state = await extractAssets(documentState);
+  const database = await openDatabase();
+  const transaction = database.transaction(VERSIONS_STORE, 'readwrite');
+  const store = transaction.objectStore(VERSIONS_STORE);
+  const timestamp = Date.now();
+  const record: VersionRecord = { id: `${documentId}-${timestamp}`, documentId, documentName, timestamp, state };
+  store.put(record);
+
+  const versions = await requestResult(store.index('documentId').getAll(documentId) as IDBRequest<VersionRecord[]>);
+  versions
+    .sort((a, b) => b.timestamp - a.timestamp)
+    .slice(CONFIG.PERFORMANCE.MAX_AUTOSAVE_VERSIONS)
+    .forEach(version => store.delete(version.id));
+  await transactionDone(transaction);
+  await removeUnusedAssets();
+}
+
+/**
+ * Autosave versions of a document, newest first
+ */
+export async function listAutosaveVersions(documentId: string): Promise<AutosaveVersion[]> {
+  const database = await openDatabase();
+  const store = database.transaction(VERSIONS_STORE, 'readonly').objectStore(VERSIONS_STORE);
+  const versions = await requestResult(store.index('documentId').getAll(documentId) as IDBRequest<VersionRecord[]>);
+  return versions
+    .map(({ id, documentId, documentName, timestamp }) => ({ id, documentId, documentName, timestamp }))
+    .sort((a, b) => b.timestamp - a.timestamp);
+}
+
+export async function loadAutosaveVersion(versionId: string): Promise<PersistedDocument | null> {
+  const database = await openDatabase();
+  const store = database.transaction(VERSIONS_STORE, 'readonly').objectStore(VERSIONS_STORE);
+  const record = await requestResult(store.get(versionId) as IDBRequest<VersionRecord | undefined>);
+  return record ? resolveAssets(record.state) : null;
+}
+
+interface SessionRecord {
+  open: boolean;
+  startedAt: number;
+}
+
+// Whether the previous session was still open when this one started, i.e. it crashed or was killed
+let previousSessionUnclean = false;
+
+const writeSession = (session: SessionRecord) => {
+  try {
+    localStorage.setItem(SESSION_KEY, JSON.stringify(session));
+  } catch (error) {
+    console.warn('Failed to write editor session marker:', error);
+  }
+};
+
+const readSession = (): SessionRecord | null => {
+  try {
+    const stored = localStorage.getItem(SESSION_KEY);
+    return stored ? JSON.parse(stored) : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Mark the session as open until endEditorSession runs. The marker is
+ * synchronous so that it can still be cleared while the page unloads.
+ */
+export function beginEditorSession(): void {
+  previousSessionUnclean = readSession()?.open === true;
+  writeSession({ open: true, startedAt: Date.now() });
+}
+
+export function endEditorSession(): void {
+  writeSession({ open: false, startedAt: readSession()?.startedAt ?? Date.now() });
+}
+
+export function wasPreviousSessionUnclean(): boolean {
+  return previousSessionUnclean;
+}
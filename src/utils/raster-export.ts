@@ -0,0 +1,257 @@
+import { EditorState, SVGGroup, SVGPath, SelectionState } from '../types';
+import { CONFIG } from '../config/constants';
+import { generateSVGCode } from './svg-export';
+
+export type RasterFormat = 'png' | 'jpeg' | 'webp';
+
+export type RasterExportScope =
+  | { type: 'document' }
+  | { type: 'selection' }
+  | { type: 'group'; groupId: string };
+
+export interface RasterExportOptions {
+  format: RasterFormat;
+  scale?: number; // Multiplier of the SVG size; ignored when width or height is given
+  width?: number; // Pixel size; the other side follows the aspect ratio when omitted
+  height?: number;
+  background?: string | null; // null keeps the background transparent (not possible for JPEG)
+  quality?: number; // 0-1, JPEG and WebP only
+}
+
+const MIME_TYPES: Record<RasterFormat, string> = {
+  png: 'image/png',
+  jpeg: 'image/jpeg',
+  webp: 'image/webp'
+};
+
+type ExportState = Pick<
+  EditorState,
+  'paths' | 'texts' | 'textPaths' | 'groups' | 'images' | 'uses'
+> & {
+  definitionPaths?: SVGPath[]; // Paths symbols and text on a path may refer to, rendered or not
+};
+
+const collectGroupTree = (groupId: string, groups: SVGGroup[], result: Set<string>) => {
+  if (result.has(groupId)) return;
+  result.add(groupId);
+  groups.find(group => group.id === groupId)?.children.forEach(child => {
+    if (child.type === 'group') collectGroupTree(child.id, groups, result);
+  });
+};
+
+// Groups around exported elements that are not exported themselves
+const collectAncestorGroups = (ids: Set<string>, groups: SVGGroup[]): Set<string> => {
+  const parents = new Map<string, string>();
+  groups.forEach(group => group.children.forEach(child => parents.set(child.id, group.id)));
+
+  const ancestors = new Set<string>();
+  ids.forEach(id => {
+    let parentId = parents.get(id);
+    while (parentId && !ids.has(parentId) && !ancestors.has(parentId)) {
+      ancestors.add(parentId);
+      parentId = parents.get(parentId);
+    }
+  });
+  return ancestors;
+};
+
+export function hasExportableSelection(selection: SelectionState): boolean {
+  return [
+    selection.selectedPaths,
+    selection.selectedSubPaths,
+    selection.selectedTexts,
+    selection.selectedTextPaths,
+    selection.selectedImages,
+    selection.selectedUses,
+    selection.selectedGroups
+  ].some(ids => ids.length > 0);
+}
+
+/**
+ * The part of the document an export covers. Groups bring their contents
+ * along; subpath selections export their whole path. Elements inside
+ * groups are exported where they appear on the canvas.
+ */
+export function getExportScopeState(state: EditorState, scope: RasterExportScope): ExportState {
+  if (scope.type === 'document') return state;
+
+  const groupIds = new Set<string>();
+  const elementIds = new Set<string>();
+
+  if (scope.type === 'group') {
+    collectGroupTree(scope.groupId, state.groups, groupIds);
+  } else {
+    const { selection } = state;
+    selection.selectedGroups.forEach(id => collectGroupTree(id, state.groups, groupIds));
+    [
+      ...selection.selectedPaths,
+      ...selection.selectedTexts,
+      ...selection.selectedTextPaths,
+      ...selection.selectedImages,
+      ...selection.selectedUses
+    ].forEach(id => elementIds.add(id));
+    state.paths
+      .filter(path => path.subPaths.some(subPath => selection.selectedSubPaths.includes(subPath.id)))
+      .forEach(path => elementIds.add(path.id));
+  }
+
+  state.groups
+    .filter(group => groupIds.has(group.id))
+    .forEach(group => group.children.forEach(child => elementIds.add(child.id)));
+
+  // Selected elements keep the transforms and styles of the groups they sit in,
+  // through copies of those groups holding only the exported children
+  const ids = new Set([...groupIds, ...elementIds]);
+  const ancestorIds = collectAncestorGroups(ids, state.groups);
+
+  return {
+    paths: state.paths.filter(path => elementIds.has(path.id)),
+    definitionPaths: state.paths,
+    texts: state.texts.filter(text => elementIds.has(text.id)),
+    textPaths: state.textPaths.filter(textPath => elementIds.has(textPath.id)),
+    images: state.images.filter(image => elementIds.has(image.id)),
+    uses: state.uses.filter(use => elementIds.has(use.id)),
+    groups: state.groups
+      .filter(group => groupIds.has(group.id) || ancestorIds.has(group.id))
+      .map(group => groupIds.has(group.id) ? group : {
+        ...group,
+        children: group.children.filter(child => ids.has(child.id) || ancestorIds.has(child.id))
+      })
+  };
+}
+
+/**
+ * SVG for an export scope, from the same generator as SVG downloads
+ */
+export function generateScopeSVGCode(
+  state: EditorState & { calculateChainDelays: () => Map<string, number> },
+  scope: RasterExportScope
+): string {
+  return generateSVGCode({ ...state, ...getExportScopeState(state, scope) });
+}
+
+const blobToDataUri = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+/**
+ * An SVG drawn as an image can't load external resources, so linked
+ * images are fetched and embedded first. Ones that fail to load are left
+ * out of the picture, as a browser would.
+ */
+const inlineLinkedImages = async (svgContent: string): Promise<string> => {
+  const hrefs = Array.from(
+    new Set(Array.from(svgContent.matchAll(/<image\b[^>]*?\shref="([^"]+)"/g), match => match[1]))
+  ).filter(href => !href.startsWith('data:'));
+  if (hrefs.length === 0) return svgContent;
+
+  const replacements = await Promise.all(hrefs.map(async href => {
+    try {
+      const response = await fetch(href);
+      return response.ok ? await blobToDataUri(await response.blob()) : null;
+    } catch {
+      return null;
+    }
+  }));
+
+  return hrefs.reduce((content, href, index) => {
+    const dataUri = replacements[index];
+    return dataUri ? content.split(`href="${href}"`).join(`href="${dataUri}"`) : content;
+  }, svgContent);
+};
+
+const getSVGSize = (svgContent: string): { width: number; height: number } => {
+  const viewBox = svgContent.match(/<svg\b[^>]*\sviewBox="([^"]+)"/)?.[1];
+  const [, , width, height] = (viewBox || '').trim().split(/[\s,]+/).map(Number);
+  return width > 0 && height > 0 ? { width, height } : { width: 800, height: 600 };
+};
+
+/**
+ * Pixel size of a raster export, capped at MAX_RASTER_EXPORT_SIZE per side
+ */
+export function getRasterSize(
+  svgContent: string,
+  options: Pick<RasterExportOptions, 'scale' | 'width' | 'height'>
+): { width: number; height: number } {
+  const size = getSVGSize(svgContent);
+  let width: number;
+  let height: number;
+  if (options.width || options.height) {
+    width = options.width || (options.height! * size.width) / size.height;
+    height = options.height || (options.width! * size.height) / size.width;
+  } else {
+    width = size.width * (options.scale || 1);
+    height = size.height * (options.scale || 1);
+  }
+  const limit = CONFIG.PERFORMANCE.MAX_RASTER_EXPORT_SIZE;
+  const fit = Math.min(1, limit / width, limit / height);
+  return {
+    width: Math.max(1, Math.round(width * fit)),
+    height: Math.max(1, Math.round(height * fit))
+  };
+}
+
+const loadImage = (url: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('The SVG could not be rendered'));
+    image.src = url;
+  });
+
+/**
+ * Render SVG markup to a PNG, JPEG or WebP blob
+ */
+export async function rasterizeSVG(svgContent: string, options: RasterExportOptions): Promise<Blob> {
+  const { width, height } = getRasterSize(svgContent, options);
+  // Without an intrinsic size some browsers draw the SVG at 300x150 or not at all
+  const content = (await inlineLinkedImages(svgContent))
+    .replace(/<svg\b(?![^>]*\swidth=)/, `<svg width="${width}" height="${height}" preserveAspectRatio="none"`);
+
+  const url = URL.createObjectURL(new Blob([content], { type: 'image/svg+xml' }));
+  try {
+    const image = await loadImage(url);
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const context = canvas.getContext('2d');
+    if (!context) throw new Error('Canvas rendering is not available');
+
+    // JPEG has no alpha channel: transparent areas would turn black
+    const background = options.background ?? (options.format === 'jpeg' ? '#ffffff' : null);
+    if (background) {
+      context.fillStyle = background;
+      context.fillRect(0, 0, width, height);
+    }
+    context.drawImage(image, 0, 0, width, height);
+
+    const mimeType = MIME_TYPES[options.format];
+    const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, mimeType, options.quality));
+    if (!blob) throw new Error('The image is too large to export');
+    // Browsers without an encoder for the format silently produce PNG
+    if (blob.type !== mimeType) throw new Error(`This browser can't export ${options.format.toUpperCase()} images`);
+    return blob;
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+export const downloadRasterFile = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+
+  // Clean up the object URL
+  URL.revokeObjectURL(url);
+};
+
+export const getRasterFileExtension = (format: RasterFormat): string => format === 'jpeg' ? 'jpg' : format;
@@ -0,0 +1,460 @@
+import { Point, SVGCommand, SVGPath, SVGSubPath, ShapeKind, ShapeParameters } from '../types';
+import { generateId } from './id-utils';
+
+/**
+ * Live primitive shapes. A path with shape parameters keeps subpaths that are
+ * generated from them, so every path tool keeps working on it. The shape stays
+ * live while the geometry still matches the parameters up to a move or an
+ * axis-aligned resize; any other edit turns it into a plain path.
+ */
+
+export interface ShapeHandle {
+  id: string;
+  point: Point;
+}
+
+export const SHAPE_KIND_LABELS: Record<ShapeKind, string> = {
+  rect: 'Rectangle',
+  circle: 'Circle',
+  ellipse: 'Ellipse',
+  line: 'Line',
+  polygon: 'Polygon',
+  'regular-polygon': 'Regular polygon',
+  star: 'Star'
+};
+
+// Carries parsed parameters from a converted element to the path parser
+export const SHAPE_PARAMETERS_ATTRIBUTE = 'data-sspe-shape';
+
+// Magic number for Bézier curves that approximate a quarter ellipse
+const KAPPA = 0.5522848;
+
+type ShapeCommand = Omit<SVGCommand, 'id'>;
+
+const toRadians = (degrees: number): number => degrees * Math.PI / 180;
+
+const ellipseCommands = (cx: number, cy: number, rx: number, ry: number): ShapeCommand[] => {
+  const ox = rx * KAPPA;
+  const oy = ry * KAPPA;
+  return [
+    { command: 'M', x: cx - rx, y: cy },
+    { command: 'C', x1: cx - rx, y1: cy - oy, x2: cx - ox, y2: cy - ry, x: cx, y: cy - ry },
+    { command: 'C', x1: cx + ox, y1: cy - ry, x2: cx + rx, y2: cy - oy, x: cx + rx, y: cy },
+    { command: 'C', x1: cx + rx, y1: cy + oy, x2: cx + ox, y2: cy + ry, x: cx, y: cy + ry },
+    { command: 'C', x1: cx - ox, y1: cy + ry, x2: cx - rx, y2: cy + oy, x: cx - rx, y: cy },
+    { command: 'Z' }
+  ];
+};
+
+const rectCommands = (x: number, y: number, width: number, height: number, radiusX: number, radiusY: number): ShapeCommand[] => {
+  const rx = Math.min(Math.max(radiusX, 0), width / 2);
+  const ry = Math.min(Math.max(radiusY, 0), height / 2);
+  if (rx <= 0 || ry <= 0) {
+    return [
+      { command: 'M', x, y },
+      { command: 'L', x: x + width, y },
+      { command: 'L', x: x + width, y: y + height },
+      { command: 'L', x, y: y + height },
+      { command: 'Z' }
+    ];
+  }
+
+  const ox = rx * (1 - KAPPA);
+  const oy = ry * (1 - KAPPA);
+  const right = x + width;
+  const bottom = y + height;
+  return [
+    { command: 'M', x: x + rx, y },
+    { command: 'L', x: right - rx, y },
+    { command: 'C', x1: right - ox, y1: y, x2: right, y2: y + oy, x: right, y: y + ry },
+    { command: 'L', x: right, y: bottom - ry },
+    { command: 'C', x1: right, y1: bottom - oy, x2: right - ox, y2: bottom, x: right - rx, y: bottom },
+    { command: 'L', x: x + rx, y: bottom },
+    { command: 'C', x1: x + ox, y1: bottom, x2: x, y2: bottom - oy, x, y: bottom - ry },
+    { command: 'L', x, y: y + ry },
+    { command: 'C', x1: x, y1: y + oy, x2: x + ox, y2: y, x: x + rx, y },
+    { command: 'Z' }
+  ];
+};
+
+/**
+ * Vertices of the shapes drawn as polygons
+ */
+export function getPolygonPoints(shape: ShapeParameters): Point[] {
+  switch (shape.kind) {
+    case 'polygon':
+      return shape.points;
+    case 'regular-polygon':
+      return Array.from({ length: shape.sides }, (_, index) => {
+        const angle = toRadians(shape.rotation + index * 360 / shape.sides);
+        return { x: shape.cx + shape.radius * Math.cos(angle), y: shape.cy + shape.radius * Math.sin(angle) };
+      });
+    case 'star':
+      return Array.from({ length: shape.points * 2 }, (_, index) => {
+        const angle = toRadians(shape.rotation + index * 180 / shape.points);
+        const radius = index % 2 === 0 ? shape.radius : shape.innerRadius;
+        return { x: shape.cx + radius * Math.cos(angle), y: shape.cy + radius * Math.sin(angle) };
+      });
+    default:
+      return [];
+  }
+}
+
+export function generateShapeCommands(shape: ShapeParameters): ShapeCommand[] {
+  switch (shape.kind) {
+    case 'rect':
+      return rectCommands(shape.x, shape.y, shape.width, shape.height, shape.rx, shape.ry);
+    case 'circle':
+      return ellipseCommands(shape.cx, shape.cy, shape.r, shape.r);
+    case 'ellipse':
+      return ellipseCommands(shape.cx, shape.cy, shape.rx, shape.ry);
+    case 'line':
+      return [
+        { command: 'M', x: shape.x1, y: shape.y1 },
+        { command: 'L', x: shape.x2, y: shape.y2 }
+      ];
+    default: {
+      const points = getPolygonPoints(shape);
+      return [
+        ...points.map((point, index): ShapeCommand => ({ command: index === 0 ? 'M' : 'L', x: point.x, y: point.y })),
+        { command: 'Z' }
+      ];
+    }
+  }
+}
+
+export function createShapeSubPath(shape: ShapeParameters, subPathId: string = generateId()): SVGSubPath {
+  return {
+    id: subPathId,
+    commands: generateShapeCommands(shape).map(command => ({ ...command, id: generateId() }))
+  };
+}
+
+/**
+ * Path data for the shape, used when converting imported elements
+ */
+export function shapeToPathData(shape: ShapeParameters): string {
+  return generateShapeCommands(shape).map(({ command, x1, y1, x2, y2, x, y }) => {
+    if (command === 'Z') return 'Z';
+    if (command === 'C') return `C ${x1},${y1} ${x2},${y2} ${x},${y}`;
+    return `${command} ${x},${y}`;
+  }).join(' ');
+}
+
+const getCommandPoints = (command: ShapeCommand): Point[] => {
+  const points: Point[] = [];
+  if (command.x1 !== undefined && command.y1 !== undefined) points.push({ x: command.x1, y: command.y1 });
+  if (command.x2 !== undefined && command.y2 !== undefined) points.push({ x: command.x2, y: command.y2 });
+  if (command.x !== undefined && command.y !== undefined) points.push({ x: command.x, y: command.y });
+  return points;
+};
+
+const getPointBounds = (points: Point[]) => {
+  const xs = points.map(point => point.x);
+  const ys = points.map(point => point.y);
+  const minX = Math.min(...xs);
+  const minY = Math.min(...ys);
+  return { minX, minY, width: Math.max(...xs) - minX, height: Math.max(...ys) - minY };
+};
+
+/**
+ * The shape scaled by (sx, sy) and then moved by (tx, ty). Circles, regular
+ * polygons and stars that are stretched unevenly become ellipses and polygons.
+ */
+export function transformShape(shape: ShapeParameters, sx: number, sy: number, tx: number, ty: number): ShapeParameters {
+  const map = (point: Point): Point => ({ x: point.x * sx + tx, y: point.y * sy + ty });
+  const isUniform = Math.abs(sx - sy) <= 1e-3 * Math.max(Math.abs(sx), Math.abs(sy));
+
+  switch (shape.kind) {
+    case 'rect':
+      return { ...shape, x: shape.x * sx + tx, y: shape.y * sy + ty, width: shape.width * sx, height: shape.height * sy, rx: shape.rx * sx, ry: shape.ry * sy };
+    case 'circle': {
+      const center = map({ x: shape.cx, y: shape.cy });
+      return isUniform
+        ? { ...shape, cx: center.x, cy: center.y, r: shape.r * sx }
+        : { kind: 'ellipse', cx: center.x, cy: center.y, rx: shape.r * sx, ry: shape.r * sy };
+    }
+    case 'ellipse': {
+      const center = map({ x: shape.cx, y: shape.cy });
+      return { ...shape, cx: center.x, cy: center.y, rx: shape.rx * sx, ry: shape.ry * sy };
+    }
+    case 'line': {
+      const start = map({ x: shape.x1, y: shape.y1 });
+      const end = map({ x: shape.x2, y: shape.y2 });
+      return { ...shape, x1: start.x, y1: start.y, x2: end.x, y2: end.y };
+    }
+    case 'polygon':
+      return { ...shape, points: shape.points.map(map) };
+    case 'regular-polygon':
+    case 'star': {
+      if (!isUniform) return { kind: 'polygon', points: getPolygonPoints(shape).map(map) };
+      const center = map({ x: shape.cx, y: shape.cy });
+      return shape.kind === 'star'
+        ? { ...shape, cx: center.x, cy: center.y, radius: shape.radius * sx, innerRadius: shape.innerRadius * sx }
+        : { ...shape, cx: center.x, cy: center.y, radius: shape.radius * sx };
+    }
+  }
+}
+
+/**
+ * Parameters describing the subpaths, or null when they no longer match the
+ * shape. The geometry may have been moved or resized along the axes since
+ * the parameters were last written; the result accounts for that.
+ */
+export function matchShapeToPath(shape: ShapeParameters, subPaths: SVGSubPath[]): ShapeParameters | null {
+  if (subPaths.length !== 1) return null;
+  const expected = generateShapeCommands(shape);
+  const actual = subPaths[0].commands;
+  if (expected.length !== actual.length || expected.some((command, index) => command.command !== actual[index].command)) {
+    return null;
+  }
+
+  const from = expected.flatMap(getCommandPoints);
+  const to = actual.flatMap(getCommandPoints);
+  if (from.length !== to.length || from.length === 0) return null;
+
+  const source = getPointBounds(from);
+  const target = getPointBounds(to);
+  const sx = source.width > 1e-9 ? target.width / source.width : 1;
+  const sy = source.height > 1e-9 ? target.height / source.height : 1;
+  const tx = target.minX - source.minX * sx;
+  const ty = target.minY - source.minY * sy;
+
+  // Rounding to the editor precision moves points by a little
+  const tolerance = 0.01 + 1e-4 * Math.max(target.width, target.height);
+  const matches = from.every((point, index) =>
+    Math.abs(point.x * sx + tx - to[index].x) <= tolerance && Math.abs(point.y * sy + ty - to[index].y) <= tolerance
+  );
+  if (!matches) return null;
+
+  const isUnchanged = from.every((point, index) =>
+    Math.abs(point.x - to[index].x) <= tolerance && Math.abs(point.y - to[index].y) <= tolerance
+  );
+  return isUnchanged ? shape : transformShape(shape, sx, sy, tx, ty);
+}
+
+/**
+ * Current shape parameters of a path, if it is still a live shape
+ */
+export function getLiveShape(path: SVGPath): ShapeParameters | null {
+  return path.shape ? matchShapeToPath(path.shape, path.subPaths) : null;
+}
+
+const distance = (a: Point, b: Point): number => Math.hypot(a.x - b.x, a.y - b.y);
+
+/**
+ * On-canvas points that edit the shape parameters
+ */
+export function getShapeHandles(shape: ShapeParameters): ShapeHandle[] {
+  switch (shape.kind) {
+    case 'rect':
+      return [
+        { id: 'corner-radius', point: { x: shape.x + Math.min(shape.rx, shape.width / 2), y: shape.y } },
+        { id: 'size', point: { x: shape.x + shape.width, y: shape.y + shape.height } }
+      ];
+    case 'circle':
+      return [{ id: 'radius', point: { x: shape.cx + shape.r, y: shape.cy } }];
+    case 'ellipse':
+      return [
+        { id: 'rx', point: { x: shape.cx + shape.rx, y: shape.cy } },
+        { id: 'ry', point: { x: shape.cx, y: shape.cy + shape.ry } }
+      ];
+    case 'line':
+      return [
+        { id: 'start', point: { x: shape.x1, y: shape.y1 } },
+        { id: 'end', point: { x: shape.x2, y: shape.y2 } }
+      ];
+    case 'polygon':
+      return shape.points.map((point, index) => ({ id: `point-${index}`, point }));
+    case 'regular-polygon':
+      return [{ id: 'radius', point: getPolygonPoints(shape)[0] }];
+    case 'star': {
+      const [outer, inner] = getPolygonPoints(shape);
+      return [
+        { id: 'radius', point: outer },
+        { id: 'inner-radius', point: inner }
+      ];
+    }
+  }
+}
+
+/**
+ * The shape with one of its handles dragged to the point
+ */
+export function moveShapeHandle(shape: ShapeParameters, handleId: string, point: Point): ShapeParameters {
+  switch (shape.kind) {
+    case 'rect': {
+      if (handleId === 'corner-radius') {
+        const radius = Math.min(Math.max(point.x - shape.x, 0), Math.min(shape.width, shape.height) / 2);
+        return { ...shape, rx: radius, ry: radius };
+      }
+      const width = Math.max(1, point.x - shape.x);
+      const height = Math.max(1, point.y - shape.y);
+      return { ...shape, width, height, rx: Math.min(shape.rx, width / 2), ry: Math.min(shape.ry, height / 2) };
+    }
+    case 'circle':
+      return { ...shape, r: Math.max(0.5, distance(point, { x: shape.cx, y: shape.cy })) };
+    case 'ellipse':
+      return handleId === 'rx'
+        ? { ...shape, rx: Math.max(0.5, Math.abs(point.x - shape.cx)) }
+        : { ...shape, ry: Math.max(0.5, Math.abs(point.y - shape.cy)) };
+    case 'line':
+      return handleId === 'start'
+        ? { ...shape, x1: point.x, y1: point.y }
+        : { ...shape, x2: point.x, y2: point.y };
+    case 'polygon': {
+      const index = Number(handleId.replace('point-', ''));
+      return { ...shape, points: shape.points.map((existing, i) => i === index ? point : existing) };
+    }
+    case 'regular-polygon':
+    case 'star': {
+      const center = { x: shape.cx, y: shape.cy };
+      const radius = Math.max(0.5, distance(point, center));
+      const angle = Math.atan2(point.y - center.y, point.x - center.x) * 180 / Math.PI;
+      if (shape.kind === 'star' && handleId === 'inner-radius') {
+        return { ...shape, innerRadius: radius };
+      }
+      return { ...shape, radius, rotation: angle };
+    }
+  }
+}
+
+/**
+ * Native SVG element for the shape: tag and attributes without the style
+ */
+export function getShapeElement(shape: ShapeParameters, formatNumber: (value: number) => string): { tag: string; attributes: string[] } {
+  switch (shape.kind) {
+    case 'rect':
+      return {
+        tag: 'rect',
+        attributes: [
+          `x="${formatNumber(shape.x)}"`,
+          `y="${formatNumber(shape.y)}"`,
+          `width="${formatNumber(shape.width)}"`,
+          `height="${formatNumber(shape.height)}"`,
+          ...(shape.rx > 0 && shape.ry > 0 ? [`rx="${formatNumber(shape.rx)}"`, `ry="${formatNumber(shape.ry)}"`] : [])
+        ]
+      };
+    case 'circle':
+      return { tag: 'circle', attributes: [`cx="${formatNumber(shape.cx)}"`, `cy="${formatNumber(shape.cy)}"`, `r="${formatNumber(shape.r)}"`] };
+    case 'ellipse':
+      return {
+        tag: 'ellipse',
+        attributes: [`cx="${formatNumber(shape.cx)}"`, `cy="${formatNumber(shape.cy)}"`, `rx="${formatNumber(shape.rx)}"`, `ry="${formatNumber(shape.ry)}"`]
+      };
+    case 'line':
+      return {
+        tag: 'line',
+        attributes: [`x1="${formatNumber(shape.x1)}"`, `y1="${formatNumber(shape.y1)}"`, `x2="${formatNumber(shape.x2)}"`, `y2="${formatNumber(shape.y2)}"`]
+      };
+    default:
+      return {
+        tag: 'polygon',
+        attributes: [`points="${getPolygonPoints(shape).map(point => `${formatNumber(point.x)},${formatNumber(point.y)}`).join(' ')}"`]
+      };
+  }
+}
+
+const readNumber = (element: Element, name: string): number | undefined => {
+  const value = parseFloat(element.getAttribute(name) || '');
+  return Number.isFinite(value) ? value : undefined;
+};
+
+/**
+ * Parameters of an imported <rect>, <circle>, <ellipse>, <line> or
+ * <polygon>, or null when the element draws nothing
+ */
+export function readShapeElement(element: Element): ShapeParameters | null {
+  switch (element.tagName.toLowerCase()) {
+    case 'rect': {
+      const width = readNumber(element, 'width') ?? 0;
+      const height = readNumber(element, 'height') ?? 0;
+      if (width <= 0 || height <= 0) return null;
+      // A missing radius takes the value of the other one
+      const rx = readNumber(element, 'rx') ?? readNumber(element, 'ry') ?? 0;
+      const ry = readNumber(element, 'ry') ?? readNumber(element, 'rx') ?? 0;
+      return {
+        kind: 'rect',
+        x: readNumber(element, 'x') ?? 0,
+        y: readNumber(element, 'y') ?? 0,
+        width,
+        height,
+        rx: Math.min(Math.max(rx, 0), width / 2),
+        ry: Math.min(Math.max(ry, 0), height / 2)
+      };
+    }
+    case 'circle': {
+      const r = readNumber(element, 'r') ?? 0;
+      return r > 0 ? { kind: 'circle', cx: readNumber(element, 'cx') ?? 0, cy: readNumber(element, 'cy') ?? 0, r } : null;
+    }
+    case 'ellipse': {
+      const rx = readNumber(element, 'rx') ?? 0;
+      const ry = readNumber(element, 'ry') ?? 0;
+      return rx > 0 && ry > 0 ? { kind: 'ellipse', cx: readNumber(element, 'cx') ?? 0, cy: readNumber(element, 'cy') ?? 0, rx, ry } : null;
+    }
+    case 'line':
+      return {
+        kind: 'line',
+        x1: readNumber(element, 'x1') ?? 0,
+        y1: readNumber(element, 'y1') ?? 0,
+        x2: readNumber(element, 'x2') ?? 0,
+        y2: readNumber(element, 'y2') ?? 0
+      };
+    case 'polygon': {
+      const values = (element.getAttribute('points') || '').trim().split(/[\s,]+/).map(Number);
+      const points: Point[] = [];
+      for (let i = 0; i + 1 < values.length; i += 2) {
+        if (!Number.isFinite(values[i]) || !Number.isFinite(values[i + 1])) return null;
+        points.push({ x: values[i], y: values[i + 1] });
+      }
+      return points.length >= 2 ? { kind: 'polygon', points } : null;
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Parameters an exported element carries in its editor metadata, when they
+ * still describe its geometry. Stars and regular polygons are written as
+ * <polygon>, so this is how they come back as what they were.
+ */
+export function readCarriedShapeParameters(element: Element, shape: ShapeParameters): ShapeParameters {
+  const value = element.getAttribute(SHAPE_PARAMETERS_ATTRIBUTE);
+  if (!value) return shape;
+  try {
+    return matchShapeToPath(JSON.parse(value) as ShapeParameters, [createShapeSubPath(shape)]) ?? shape;
+  } catch {
+    return shape;
+  }
+}
+
+/**
+ * Parameters a converted element passed on to its path, if they still
+ * describe the parsed subpaths
+ */
+export function readShapeParametersAttribute(element: Element, subPaths: SVGSubPath[]): ShapeParameters | null {
+  const value = element.getAttribute(SHAPE_PARAMETERS_ATTRIBUTE);
+  if (!value) return null;
+  try {
+    return matchShapeToPath(JSON.parse(value) as ShapeParameters, subPaths);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Text on the path, motion along it and animated path data need a <path>,
+ * so such shapes are exported as paths
+ */
+export function isPathElementRequired(
+  pathId: string,
+  textPaths: Array<{ pathRef: string }> = [],
+  animations: Array<{ targetElementId: string; attributeName?: string; mpath?: string }> = []
+): boolean {
+  return textPaths.some(textPath => textPath.pathRef === pathId) ||
+    animations.some(animation =>
+      (animation.targetElementId === pathId && animation.attributeName === 'd') ||
+      animation.mpath?.replace(/^#/, '') === pathId
+    );
+}
@@ -0,0 +1,421 @@
+import { Point, PathStyle, SVGSubPath } from '../types';
+import { generateId } from './id-utils';
+import {
+  CubicContour,
+  CubicSegment,
+  subPathToCubicContours,
+  cubicContoursToCommands,
+  createLineSegment,
+  createCubicSegment,
+  evaluateCubic,
+  cubicTangent,
+  reverseCubic,
+  splitCubic,
+  getCubicPortion,
+  getCubicLength,
+  getCubicParameterAtLength,
+  getCubicNearestParameter,
+  intersectCubicSegments
+} from './cubic-segment-utils';
+import { applyBooleanOperation } from './boolean-path-utils';
+
+/**
+ * Stroke geometry: offsetting cubic contours with proper joins, caps and dashes.
+ * Curves are offset by fitting cubics to the true offset, subdividing until the
+ * fit is within tolerance, so no curve gets flattened into a polyline.
+ */
+
+export type StrokeLinejoin = 'miter' | 'round' | 'bevel';
+export type StrokeLinecap = 'butt' | 'round' | 'square';
+
+export interface StrokeOutlineOptions {
+  width: number;
+  linejoin: StrokeLinejoin;
+  linecap: StrokeLinecap;
+  miterLimit: number;
+  dashArray: number[];
+  dashOffset: number;
+}
+
+const OFFSET_TOLERANCE = 0.01;
+const MAX_OFFSET_DEPTH = 8;
+const JOIN_EPSILON = 1e-6;
+
+const normalOf = (tangent: Point): Point => ({ x: -tangent.y, y: tangent.x });
+
+const addScaled = (point: Point, vector: Point, scale: number): Point => ({
+  x: point.x + vector.x * scale,
+  y: point.y + vector.y * scale
+});
+
+/**
+ * Parse an SVG stroke-dasharray value. Odd lists are repeated as the spec says;
+ * invalid or all-zero patterns disable dashing.
+ */
+export function parseDashArray(value?: string | number[]): number[] {
+  if (!value) return [];
+  const parts = Array.isArray(value)
+    ? value
+    : value.split(/[\s,]+/).filter(Boolean).map(part => parseFloat(part));
+  if (parts.length === 0 || parts.some(part => isNaN(part) || part < 0)) return [];
+  if (parts.every(part => part === 0)) return [];
+  return parts.length % 2 === 1 ? [...parts, ...parts] : parts;
+}
+
+export function getStrokeOutlineOptions(style: PathStyle): StrokeOutlineOptions {
+  return {
+    width: style.strokeWidth ?? 1,
+    linejoin: style.strokeLinejoin || 'miter',
+    linecap: style.strokeLinecap || 'butt',
+    miterLimit: style.strokeMiterlimit ?? 4,
+    dashArray: parseDashArray(style.strokeDasharray),
+    dashOffset: style.strokeDashoffset ?? 0
+  };
+}
+
+/**
+ * Circular arc around a center as cubic segments, at most a quarter turn each
+ */
+export function createCircularArcSegments(center: Point, from: Point, sweep: number): CubicSegment[] {
+  const radius = Math.hypot(from.x - center.x, from.y - center.y);
+  if (radius < JOIN_EPSILON || Math.abs(sweep) < JOIN_EPSILON) return [];
+
+  const count = Math.max(1, Math.ceil(Math.abs(sweep) / (Math.PI / 2) - 1e-9));
+  const step = sweep / count;
+  const kappa = (4 / 3) * Math.tan(step / 4);
+  const segments: CubicSegment[] = [];
+  let angle = Math.atan2(from.y - center.y, from.x - center.x);
+  let start = from;
+
+  for (let i = 0; i < count; i++) {
+    const nextAngle = angle + step;
+    const end = { x: center.x + radius * Math.cos(nextAngle), y: center.y + radius * Math.sin(nextAngle) };
+    segments.push(createCubicSegment(
+      start,
+      { x: start.x - kappa * radius * Math.sin(angle), y: start.y + kappa * radius * Math.cos(angle) },
+      { x: end.x + kappa * radius * Math.sin(nextAngle), y: end.y - kappa * radius * Math.cos(nextAngle) },
+      end
+    ));
+    angle = nextAngle;
+    start = end;
+  }
+
+  return segments;
+}
+
+/**
+ * Offset a single segment by a signed distance along its left normal
+ */
+export function offsetCubicSegment(segment: CubicSegment, distance: number, depth: number = 0): CubicSegment[] {
+  if (segment.isLine) {
+    const length = Math.hypot(segment.p3.x - segment.p0.x, segment.p3.y - segment.p0.y);
+    if (length < JOIN_EPSILON) return [];
+    const normal = normalOf(cubicTangent(segment, 0));
+    return [createLineSegment(addScaled(segment.p0, normal, distance), addScaled(segment.p3, normal, distance))];
+  }
+
+  const offsetPoint = (t: number): Point => addScaled(evaluateCubic(segment, t), normalOf(cubicTangent(segment, t)), distance);
+  const t0 = cubicTangent(segment, 0);
+  const t3 = cubicTangent(segment, 1);
+  const q0 = offsetPoint(0);
+  const q3 = offsetPoint(1);
+  const mid = offsetPoint(0.5);
+
+  // Handle lengths along the original end tangents so the fit passes through the offset midpoint:
+  // B(0.5) = (q0 + 3 (q0 + a t0) + 3 (q3 - b t3) + q3) / 8
+  const rx = (8 * mid.x - 4 * q0.x - 4 * q3.x) / 3;
+  const ry = (8 * mid.y - 4 * q0.y - 4 * q3.y) / 3;
+  const determinant = t3.x * t0.y - t0.x * t3.y;
+  let a: number;
+  let b: number;
+  if (Math.abs(determinant) > 1e-6) {
+    a = (t3.x * ry - rx * t3.y) / determinant;
+    b = (t0.x * ry - rx * t0.y) / determinant;
+  } else {
+    a = -1;
+    b = -1;
+  }
+  if (!(a >= 0 && b >= 0)) {
+    // Parallel end tangents: scale the original handles with the chord
+    const chord = Math.hypot(segment.p3.x - segment.p0.x, segment.p3.y - segment.p0.y);
+    const scale = chord > JOIN_EPSILON ? Math.hypot(q3.x - q0.x, q3.y - q0.y) / chord : 1;
+    a = Math.hypot(segment.p1.x - segment.p0.x, segment.p1.y - segment.p0.y) * scale;
+    b = Math.hypot(segment.p3.x - segment.p2.x, segment.p3.y - segment.p2.y) * scale;
+  }
+
+  const candidate = createCubicSegment(q0, addScaled(q0, t0, a), addScaled(q3, t3, -b), q3);
+
+  if (depth < MAX_OFFSET_DEPTH) {
+    const tolerance = Math.max(OFFSET_TOLERANCE, Math.abs(distance) * 1e-4);
+    const fits = [0.2, 0.4, 0.6, 0.8].every(t => {
+      const target = offsetPoint(t);
+      const nearest = evaluateCubic(candidate, getCubicNearestParameter(candidate, target));
+      return Math.hypot(nearest.x - target.x, nearest.y - target.y) <= tolerance;
+    });
+    if (!fits) {
+      const [left, right] = splitCubic(segment, 0.5);
+      return [...offsetCubicSegment(left, distance, depth + 1), ...offsetCubicSegment(right, distance, depth + 1)];
+    }
+  }
+
+  return [candidate];
+}
+
+/**
+ * Connect two offset pieces meeting around a vertex of the original contour
+ */
+const createJoin = (
+  from: Point,
+  to: Point,
+  vertex: Point,
+  tangentIn: Point,
+  tangentOut: Point,
+  distance: number,
+  linejoin: StrokeLinejoin,
+  miterLimit: number
+): CubicSegment[] => {
+  if (Math.hypot(to.x - from.x, to.y - from.y) < JOIN_EPSILON) return [];
+
+  const cross = tangentIn.x * tangentOut.y - tangentIn.y * tangentOut.x;
+  const dot = tangentIn.x * tangentOut.x + tangentIn.y * tangentOut.y;
+  const isOuter = cross * distance < 0 || (Math.abs(cross) < JOIN_EPSILON && dot < 0);
+
+  if (!isOuter) {
+    // Inner side: pivot through the vertex, the overlap is resolved when filling
+    return [createLineSegment(from, vertex), createLineSegment(vertex, to)];
+  }
+
+  if (linejoin === 'round') {
+    const startAngle = Math.atan2(from.y - vertex.y, from.x - vertex.x);
+    let sweep = Math.atan2(to.y - vertex.y, to.x - vertex.x) - startAngle;
+    while (sweep > Math.PI) sweep -= Math.PI * 2;
+    while (sweep < -Math.PI) sweep += Math.PI * 2;
+    // A full reversal could go either way: bulge along the incoming direction
+    if (Math.abs(Math.abs(sweep) - Math.PI) < 1e-6) {
+      const midAngle = startAngle + sweep / 2;
+      if (Math.cos(midAngle) * tangentIn.x + Math.sin(midAngle) * tangentIn.y < 0) {
+        sweep = -sweep;
+      }
+    }
+    return createCircularArcSegments(vertex, from, sweep);
+  }
+
+  if (linejoin === 'miter' && Math.abs(cross) > JOIN_EPSILON) {
+    // Intersection of the two offset tangent lines
+    const dx = to.x - from.x;
+    const dy = to.y - from.y;
+    const s = (dx * tangentOut.y - dy * tangentOut.x) / cross;
+    const miter = addScaled(from, tangentIn, s);
+    const ratio = Math.hypot(miter.x - vertex.x, miter.y - vertex.y) / Math.abs(distance);
+    if (s > 0 && ratio <= miterLimit) {
+      return [createLineSegment(from, miter), createLineSegment(miter, to)];
+    }
+  }
+
+  return [createLineSegment(from, to)];
+};
+
+/**
+ * Offset a chain of segments by a signed distance (positive to the left)
+ * and join the pieces with the given line join. Inner joins pivot through the
+ * original vertex, which fills correctly; a standalone parallel curve asks to
+ * trim them at the crossing instead.
+ */
+export function offsetSegmentChain(
+  segments: CubicSegment[],
+  distance: number,
+  closed: boolean,
+  linejoin: StrokeLinejoin,
+  miterLimit: number,
+  trimInnerJoins: boolean = false
+): CubicSegment[] {
+  const usable = segments.filter(segment =>
+    Math.hypot(segment.p3.x - segment.p0.x, segment.p3.y - segment.p0.y) > JOIN_EPSILON ||
+    Math.hypot(segment.p1.x - segment.p0.x, segment.p1.y - segment.p0.y) > JOIN_EPSILON ||
+    Math.hypot(segment.p2.x - segment.p0.x, segment.p2.y - segment.p0.y) > JOIN_EPSILON
+  );
+  const pieces = usable.map(segment => offsetCubicSegment(segment, distance));
+  const result: CubicSegment[] = [];
+
+  for (let i = 0; i < usable.length; i++) {
+    if (pieces[i].length === 0) continue;
+    result.push(...pieces[i]);
+
+    const hasNext = i < usable.length - 1 || closed;
+    if (!hasNext) continue;
+    const nextIndex = (i + 1) % usable.length;
+    const next = pieces[nextIndex];
+    if (next.length === 0) continue;
+
+    if (trimInnerJoins && nextIndex > i) {
+      const tangentIn = cubicTangent(usable[i], 1);
+      const tangentOut = cubicTangent(usable[nextIndex], 0);
+      const cross = tangentIn.x * tangentOut.y - tangentIn.y * tangentOut.x;
+      if (cross * distance > 0) {
+        const last = result[result.length - 1];
+        const crossing = intersectCubicSegments(last, next[0])
+          .filter(hit => hit.t1 > 1e-6 && hit.t2 < 1 - 1e-6)
+          .sort((a, b) => b.t1 - a.t1)[0];
+        if (crossing) {
+          result[result.length - 1] = getCubicPortion(last, 0, crossing.t1);
+          next[0] = getCubicPortion(next[0], crossing.t2, 1);
+          continue;
+        }
+        result.push(createLineSegment(last.p3, next[0].p0));
+        continue;
+      }
+    }
+
+    result.push(...createJoin(
+      result[result.length - 1].p3,
+      next[0].p0,
+      usable[i].p3,
+      cubicTangent(usable[i], 1),
+      cubicTangent(usable[nextIndex], 0),
+      distance,
+      linejoin,
+      miterLimit
+    ));
+  }
+
+  return result;
+}
+
+const createCap = (from: Point, to: Point, center: Point, direction: Point, halfWidth: number, linecap: StrokeLinecap): CubicSegment[] => {
+  if (linecap === 'round') {
+    const startAngle = Math.atan2(from.y - center.y, from.x - center.x);
+    const midAngle = startAngle + Math.PI / 2;
+    // Turn the half circle towards the cap direction
+    const sweep = Math.cos(midAngle) * direction.x + Math.sin(midAngle) * direction.y >= 0 ? Math.PI : -Math.PI;
+    return createCircularArcSegments(center, from, sweep);
+  }
+  if (linecap === 'square') {
+    const a = addScaled(from, direction, halfWidth);
+    const b = addScaled(to, direction, halfWidth);
+    return [createLineSegment(from, a), createLineSegment(a, b), createLineSegment(b, to)];
+  }
+  return [createLineSegment(from, to)];
+};
+
+const reverseChain = (segments: CubicSegment[]): CubicSegment[] =>
+  segments.slice().reverse().map(reverseCubic);
+
+/**
+ * Split a contour into its dashes. Each dash is returned as an open contour.
+ */
+export function dashContour(contour: CubicContour, dashArray: number[], dashOffset: number = 0): CubicContour[] {
+  const patternLength = dashArray.reduce((sum, value) => sum + value, 0);
+  if (dashArray.length === 0 || patternLength <= 0) return [contour];
+
+  // Locate the starting position inside the pattern
+  let position = ((dashOffset % patternLength) + patternLength) % patternLength;
+  let index = 0;
+  while (position >= dashArray[index]) {
+    position -= dashArray[index];
+    index = (index + 1) % dashArray.length;
+  }
+  let remaining = dashArray[index] - position;
+  const startsOn = index % 2 === 0;
+
+  const dashes: CubicContour[] = [];
+  let current: CubicSegment[] = [];
+
+  for (const segment of contour.segments) {
+    const length = getCubicLength(segment);
+    let consumed = 0;
+    while (consumed < length - 1e-9) {
+      const step = Math.min(remaining, length - consumed);
+      if (index % 2 === 0 && step > 1e-9) {
+        const from = getCubicParameterAtLength(segment, consumed, length);
+        const to = getCubicParameterAtLength(segment, consumed + step, length);
+        current.push(getCubicPortion(segment, from, to));
+      }
+      consumed += step;
+      remaining -= step;
+      if (remaining <= 1e-9) {
+        if (current.length > 0) {
+          dashes.push({ segments: current, closed: false });
+          current = [];
+        }
+        index = (index + 1) % dashArray.length;
+        remaining = dashArray[index];
+      }
+    }
+  }
+
+  if (current.length > 0) {
+    // On a closed contour the last dash continues into the first one
+    if (contour.closed && startsOn && dashes.length > 0) {
+      dashes[0] = { segments: [...current, ...dashes[0].segments], closed: false };
+    } else {
+      dashes.push({ segments: current, closed: false });
+    }
+  }
+
+  return dashes;
+}
+
+/**
+ * Outline of a single contour's stroke as closed contours. The outline winds
+ * consistently, so it fills correctly with the nonzero rule.
+ */
+export function outlineContour(contour: CubicContour, options: StrokeOutlineOptions): CubicContour[] {
+  const halfWidth = options.width / 2;
+  if (halfWidth <= 0 || contour.segments.length === 0) return [];
+
+  const left = offsetSegmentChain(contour.segments, halfWidth, contour.closed, options.linejoin, options.miterLimit);
+  const right = offsetSegmentChain(contour.segments, -halfWidth, contour.closed, options.linejoin, options.miterLimit);
+  if (left.length === 0 || right.length === 0) return [];
+
+  if (contour.closed) {
+    return [
+      { segments: left, closed: true },
+      { segments: reverseChain(right), closed: true }
+    ];
+  }
+
+  const first = contour.segments[0];
+  const last = contour.segments[contour.segments.length - 1];
+  const startTangent = cubicTangent(first, 0);
+  const endTangent = cubicTangent(last, 1);
+  const reversedRight = reverseChain(right);
+
+  return [{
+    segments: [
+      ...left,
+      ...createCap(left[left.length - 1].p3, reversedRight[0].p0, last.p3, endTangent, halfWidth, options.linecap),
+      ...reversedRight,
+      ...createCap(
+        reversedRight[reversedRight.length - 1].p3,
+        left[0].p0,
+        first.p0,
+        { x: -startTangent.x, y: -startTangent.y },
+        halfWidth,
+        options.linecap
+      )
+    ],
+    closed: true
+  }];
+}
+
+/**
+ * Convert the stroke of a set of subpaths into filled geometry. Overlaps from
+ * joins and tight curves are merged, so the result has no self-intersections.
+ */
+export function outlineStroke(subPaths: SVGSubPath[], options: StrokeOutlineOptions): SVGSubPath[] {
+  if (options.width <= 0) return [];
+
+  const contours = subPaths
+    .flatMap(subPath => subPathToCubicContours(subPath))
+    .flatMap(contour => dashContour(contour, options.dashArray, options.dashOffset))
+    .flatMap(contour => outlineContour(contour, options));
+  if (contours.length === 0) return [];
+
+  const rawSubPaths: SVGSubPath[] = contours.map(contour => ({
+    id: generateId(),
+    commands: cubicContoursToCommands([contour])
+  }));
+
+  const merged = applyBooleanOperation('union', [{ subPaths: rawSubPaths, fillRule: 'nonzero' }]);
+  return merged.length > 0 ? merged : rawSubPaths;
+}
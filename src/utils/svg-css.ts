@@ -0,0 +1,327 @@
+/**
+ * CSS support for SVG import and export. On import the rules of embedded
+ * <style> sheets are resolved onto the elements they match, so that style
+ * parsing only has to read attributes and inline styles. Matching works on
+ * plain element data (tag, attributes, parent) and needs no rendering or
+ * computed styles. On export repeated styles can become generated classes.
+ *
+ * Supported selectors: type, universal, class, id and attribute selectors,
+ * compound selectors and the descendant and child combinators. Rules with
+ * pseudo-classes or sibling combinators can't be resolved statically and
+ * are skipped, as are at-rules such as @media.
+ */
+
+export interface CSSDeclaration {
+  property: string;
+  value: string;
+  important: boolean;
+}
+
+interface AttributeCondition {
+  name: string;
+  operator?: '=' | '~=' | '|=' | '^=' | '$=' | '*=';
+  value?: string;
+}
+
+interface CompoundSelector {
+  tag?: string;
+  id?: string;
+  classes: string[];
+  attributes: AttributeCondition[];
+}
+
+interface ComplexSelector {
+  compounds: CompoundSelector[]; // Left to right
+  combinators: Array<' ' | '>'>; // combinators[i] joins compounds[i] and compounds[i + 1]
+  specificity: number;
+}
+
+export interface CSSRule {
+  selectors: ComplexSelector[];
+  declarations: CSSDeclaration[];
+}
+
+/**
+ * The element data the cascade needs; DOM elements satisfy it
+ */
+export interface CascadeElement {
+  tagName: string;
+  getAttribute(name: string): string | null;
+  parentElement: CascadeElement | null;
+}
+
+export interface StyleClass {
+  className: string;
+  declarations: Array<[string, string]>;
+}
+
+const STYLE_CLASS_PREFIX = 'cls-';
+
+/**
+ * Split on a separator outside quotes, parentheses and brackets
+ */
+const splitTopLevel = (text: string, separator: string): string[] => {
+  const parts: string[] = [];
+  let depth = 0;
+  let quote: string | null = null;
+  let start = 0;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quote) {
+      if (char === quote && text[i - 1] !== '\\') quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '(' || char === '[') {
+      depth++;
+    } else if (char === ')' || char === ']') {
+      depth = Math.max(0, depth - 1);
+    } else if (char === separator && depth === 0) {
+      parts.push(text.slice(start, i));
+      start = i + 1;
+    }
+  }
+  parts.push(text.slice(start));
+  return parts;
+};
+
+export function parseDeclarations(text: string): CSSDeclaration[] {
+  return splitTopLevel(text, ';').flatMap(declaration => {
+    const colonIndex = declaration.indexOf(':');
+    if (colonIndex === -1) return [];
+    const property = declaration.slice(0, colonIndex).trim().toLowerCase();
+    let value = declaration.slice(colonIndex + 1).trim();
+    const important = /!\s*important$/i.test(value);
+    if (important) value = value.replace(/!\s*important$/i, '').trim();
+    return property && value ? [{ property, value, important }] : [];
+  });
+}
+
+const unquote = (value: string): string => value.replace(/^(["'])([\s\S]*)\1$/, '$2');
+
+const parseCompound = (text: string): CompoundSelector | null => {
+  const compound: CompoundSelector = { classes: [], attributes: [] };
+  const pattern = /^(\*|[a-zA-Z][\w-]*)|([.#])([\w-]+)|\[\s*([\w:-]+)\s*(?:([~|^$*]?=)\s*("[^"]*"|'[^']*'|[^\]\s]+))?\s*\]/y;
+  let index = 0;
+  while (index < text.length) {
+    pattern.lastIndex = index;
+    const match = pattern.exec(text);
+    // Pseudo-classes, pseudo-elements and anything else unsupported
+    if (!match || (match[1] && index > 0)) return null;
+    if (match[1]) {
+      if (match[1] !== '*') compound.tag = match[1];
+    } else if (match[2] === '#') {
+      compound.id = match[3];
+    } else if (match[2] === '.') {
+      compound.classes.push(match[3]);
+    } else {
+      compound.attributes.push({
+        name: match[4],
+        operator: match[5] as AttributeCondition['operator'],
+        value: match[6] !== undefined ? unquote(match[6]) : undefined
+      });
+    }
+    index = pattern.lastIndex;
+  }
+  return index > 0 ? compound : null;
+};
+
+export function parseSelector(text: string): ComplexSelector | null {
+  const tokens = splitTopLevel(text.trim().replace(/\s*>\s*/g, ' > '), ' ').filter(Boolean);
+  const compounds: CompoundSelector[] = [];
+  const combinators: Array<' ' | '>'> = [];
+  let pending: ' ' | '>' | null = null;
+
+  for (const token of tokens) {
+    if (token === '>') {
+      if (compounds.length === 0 || pending === '>') return null;
+      pending = '>';
+      continue;
+    }
+    if (token === '+' || token === '~') return null;
+    const compound = parseCompound(token);
+    if (!compound) return null;
+    if (compounds.length > 0) combinators.push(pending || ' ');
+    compounds.push(compound);
+    pending = null;
+  }
+  if (compounds.length === 0 || pending) return null;
+
+  // Specificity as one number: ids, then classes and attributes, then types
+  const specificity = compounds.reduce((total, compound) =>
+    total + (compound.id ? 10000 : 0) + (compound.classes.length + compound.attributes.length) * 100 + (compound.tag ? 1 : 0),
+    0
+  );
+  return { compounds, combinators, specificity };
+}
+
+/**
+ * Rules of a style sheet in source order
+ */
+export function parseStyleSheet(css: string): CSSRule[] {
+  const text = css.replace(/\/\*[\s\S]*?\*\//g, '');
+  const rules: CSSRule[] = [];
+  let index = 0;
+
+  while (index < text.length) {
+    const open = text.indexOf('{', index);
+    if (open === -1) break;
+    const prelude = text.slice(index, open).trim();
+
+    // At-rules without a block (@import, @charset) end at a semicolon
+    if (prelude.startsWith('@') && prelude.includes(';')) {
+      index = text.indexOf(';', index) + 1;
+      continue;
+    }
+
+    // Find the matching closing brace, skipping nested blocks
+    let depth = 1;
+    let close = open + 1;
+    while (close < text.length && depth > 0) {
+      if (text[close] === '{') depth++;
+      else if (text[close] === '}') depth--;
+      close++;
+    }
+
+    if (!prelude.startsWith('@')) {
+      const selectors = splitTopLevel(prelude, ',')
+        .map(parseSelector)
+        .filter((selector): selector is ComplexSelector => selector !== null);
+      const declarations = parseDeclarations(text.slice(open + 1, close - 1));
+      if (selectors.length > 0 && declarations.length > 0) {
+        rules.push({ selectors, declarations });
+      }
+    }
+    index = close;
+  }
+
+  return rules;
+}
+
+const matchesAttribute = (element: CascadeElement, condition: AttributeCondition): boolean => {
+  const actual = element.getAttribute(condition.name);
+  if (actual === null) return false;
+  if (!condition.operator || condition.value === undefined) return true;
+  const expected = condition.value;
+  switch (condition.operator) {
+    case '=': return actual === expected;
+    case '~=': return actual.split(/\s+/).includes(expected);
+    case '|=': return actual === expected || actual.startsWith(`${expected}-`);
+    case '^=': return !!expected && actual.startsWith(expected);
+    case '$=': return !!expected && actual.endsWith(expected);
+    case '*=': return !!expected && actual.includes(expected);
+  }
+};
+
+const matchesCompound = (element: CascadeElement, compound: CompoundSelector): boolean => {
+  if (compound.tag && compound.tag.toLowerCase() !== element.tagName.toLowerCase()) return false;
+  if (compound.id && element.getAttribute('id') !== compound.id) return false;
+  if (compound.classes.length > 0) {
+    const classes = (element.getAttribute('class') || '').split(/\s+/);
+    if (!compound.classes.every(className => classes.includes(className))) return false;
+  }
+  return compound.attributes.every(condition => matchesAttribute(element, condition));
+};
+
+// Match compounds[0..index] ending at the element, right to left
+const matchesFrom = (element: CascadeElement, selector: ComplexSelector, index: number): boolean => {
+  if (!matchesCompound(element, selector.compounds[index])) return false;
+  if (index === 0) return true;
+
+  if (selector.combinators[index - 1] === '>') {
+    return !!element.parentElement && matchesFrom(element.parentElement, selector, index - 1);
+  }
+  for (let ancestor = element.parentElement; ancestor; ancestor = ancestor.parentElement) {
+    if (matchesFrom(ancestor, selector, index - 1)) return true;
+  }
+  return false;
+};
+
+export function matchesSelector(element: CascadeElement, selector: ComplexSelector): boolean {
+  return matchesFrom(element, selector, selector.compounds.length - 1);
+}
+
+/**
+ * Declarations that apply to the element, after the cascade: sheet rules
+ * by specificity and order, then the inline style, then !important rules.
+ * Presentation attributes rank below all of these and are left alone.
+ */
+export function getCascadedStyle(element: CascadeElement, rules: CSSRule[]): Map<string, string> {
+  const matched: Array<{ declaration: CSSDeclaration; specificity: number; order: number }> = [];
+  rules.forEach((rule, order) => {
+    const specificities = rule.selectors
+      .filter(selector => matchesSelector(element, selector))
+      .map(selector => selector.specificity);
+    if (specificities.length === 0) return;
+    const specificity = Math.max(...specificities);
+    rule.declarations.forEach(declaration => matched.push({ declaration, specificity, order }));
+  });
+
+  const inline = parseDeclarations(element.getAttribute('style') || '');
+  const ranked = [
+    ...matched.filter(item => !item.declaration.important).sort((a, b) => a.specificity - b.specificity || a.order - b.order).map(item => item.declaration),
+    ...inline.filter(declaration => !declaration.important),
+    ...matched.filter(item => item.declaration.important).sort((a, b) => a.specificity - b.specificity || a.order - b.order).map(item => item.declaration),
+    ...inline.filter(declaration => declaration.important)
+  ];
+
+  const style = new Map<string, string>();
+  ranked.forEach(declaration => style.set(declaration.property, declaration.value));
+  return style;
+}
+
+export const serializeDeclarations = (declarations: Iterable<[string, string]>): string =>
+  Array.from(declarations).map(([property, value]) => `${property}: ${value}`).join('; ');
+
+/**
+ * Apply the rules of every <style> element under the root to the elements
+ * they match by writing the result into their style attribute, then drop
+ * the sheets. Elements no rule matches keep their inline style as it is.
+ */
+export function resolveStyleSheets(root: Element): void {
+  const sheets = Array.from(root.getElementsByTagName('style'));
+  if (sheets.length === 0) return;
+
+  const rules = sheets.flatMap(sheet => parseStyleSheet(sheet.textContent || ''));
+  sheets.forEach(sheet => sheet.parentNode?.removeChild(sheet));
+  if (rules.length === 0) return;
+
+  [root, ...Array.from(root.getElementsByTagName('*'))].forEach(element => {
+    const hasMatch = rules.some(rule => rule.selectors.some(selector => matchesSelector(element, selector)));
+    if (!hasMatch) return;
+    element.setAttribute('style', serializeDeclarations(getCascadedStyle(element, rules)));
+  });
+}
+
+/**
+ * Classes for the styles that occur more than once, keyed by the
+ * serialized declarations
+ */
+export function createStyleClasses(styles: Array<Array<[string, string]>>): Map<string, StyleClass> {
+  const counts = new Map<string, { count: number; declarations: Array<[string, string]> }>();
+  styles.forEach(declarations => {
+    if (declarations.length === 0) return;
+    const key = serializeDeclarations(declarations);
+    const entry = counts.get(key);
+    if (entry) entry.count++;
+    else counts.set(key, { count: 1, declarations });
+  });
+
+  const classes = new Map<string, StyleClass>();
+  counts.forEach(({ count, declarations }, key) => {
+    if (count < 2) return;
+    classes.set(key, { className: `${STYLE_CLASS_PREFIX}${classes.size + 1}`, declarations });
+  });
+  return classes;
+}
+
+export function getStyleClass(classes: Map<string, StyleClass>, declarations: Array<[string, string]>): string | undefined {
+  return classes.get(serializeDeclarations(declarations))?.className;
+}
+
+export function renderStyleClasses(classes: Map<string, StyleClass>): string {
+  if (classes.size === 0) return '';
+  const rules = Array.from(classes.values()).map(styleClass =>
+    `    .${styleClass.className} { ${serializeDeclarations(styleClass.declarations)}; }`
+  );
+  return `  <style>\n${rules.join('\n')}\n  </style>\n`;
+}
@@ -0,0 +1,129 @@
+import { AnimationChain, GroupLockLevel, SVGGroup, SVGPath, SVGSubPath } from '../types';
+import { generateId } from './id-utils';
+import { SHAPE_PARAMETERS_ATTRIBUTE } from './shape-utils';
+
+/**
+ * Editor data carried inside exported SVG so that opening the file again
+ * restores what plain SVG can't express: subpath boundaries and locks,
+ * group lock levels and animation chains. Per-element data goes in
+ * data-sspe-* attributes, document-wide data in a namespaced <metadata>
+ * block. Browsers and other editors ignore both.
+ */
+
+export const EDITOR_METADATA_NAMESPACE = 'urn:sspe:editor-metadata';
+export const EDITOR_METADATA_VERSION = 1;
+
+export const EDITOR_METADATA_ATTRIBUTES = [
+  'data-name',
+  'data-sspe-subpaths',
+  'data-sspe-locked-subpaths',
+  'data-sspe-locked',
+  'data-sspe-lock-level',
+  SHAPE_PARAMETERS_ATTRIBUTE
+];
+
+export interface EditorMetadata {
+  version: number;
+  animationChains: AnimationChain[];
+}
+
+const GROUP_LOCK_LEVELS: GroupLockLevel[] = ['none', 'selection', 'editing', 'movement-sync', 'full'];
+
+const escapeXmlText = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+const escapeXmlAttribute = (text: string): string =>
+  escapeXmlText(text).replace(/"/g, '&quot;');
+
+/**
+ * Attributes for a <path>: command count of each subpath, so the editor can
+ * split the path data where it was split before, the locked ones and the
+ * parameters of a live shape
+ */
+export function getPathMetadataAttributes(path: SVGPath): string[] {
+  const lockedSubPaths = path.subPaths
+    .map((subPath, index) => subPath.locked ? index : -1)
+    .filter(index => index !== -1);
+  return [
+    path.subPaths.length > 1 ? `data-sspe-subpaths="${path.subPaths.map(subPath => subPath.commands.length).join(' ')}"` : '',
+    lockedSubPaths.length > 0 ? `data-sspe-locked-subpaths="${lockedSubPaths.join(' ')}"` : '',
+    path.locked ? 'data-sspe-locked="true"' : '',
+    path.shape ? `${SHAPE_PARAMETERS_ATTRIBUTE}="${escapeXmlAttribute(JSON.stringify(path.shape))}"` : ''
+  ].filter(Boolean);
+}
+
+export function getGroupMetadataAttributes(group: SVGGroup): string[] {
+  return [
+    group.lockLevel ? `data-sspe-lock-level="${group.lockLevel}"` : '',
+    group.locked ? 'data-sspe-locked="true"' : ''
+  ].filter(Boolean);
+}
+
+export function renderEditorMetadata(animationChains: AnimationChain[]): string {
+  const metadata: EditorMetadata = { version: EDITOR_METADATA_VERSION, animationChains };
+  return `  <metadata>\n    <sspe:editor xmlns:sspe="${EDITOR_METADATA_NAMESPACE}">${escapeXmlText(JSON.stringify(metadata))}</sspe:editor>\n  </metadata>\n`;
+}
+
+/**
+ * Read the <metadata> block written by renderEditorMetadata, if any
+ */
+export function readEditorMetadata(svgElement: Element): EditorMetadata | null {
+  const element = svgElement.getElementsByTagNameNS(EDITOR_METADATA_NAMESPACE, 'editor')[0];
+  if (!element?.textContent) return null;
+  try {
+    const metadata = JSON.parse(element.textContent);
+    if (typeof metadata?.version !== 'number' || metadata.version > EDITOR_METADATA_VERSION) return null;
+    return {
+      version: metadata.version,
+      animationChains: Array.isArray(metadata.animationChains) ? metadata.animationChains : []
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Re-split parsed subpaths along the recorded boundaries and restore their
+ * locks. The recorded split is ignored when it doesn't fit the path data,
+ * e.g. after the file was edited elsewhere.
+ */
+export function applySubPathMetadata(element: Element, subPaths: SVGSubPath[]): SVGSubPath[] {
+  let result = subPaths;
+
+  const counts = (element.getAttribute('data-sspe-subpaths') || '').split(/\s+/).filter(Boolean).map(Number);
+  const commands = subPaths.flatMap(subPath => subPath.commands);
+  if (
+    counts.length > 0 &&
+    counts.every(count => Number.isInteger(count) && count > 0) &&
+    counts.reduce((sum, count) => sum + count, 0) === commands.length
+  ) {
+    let start = 0;
+    result = counts.map(count => {
+      const subPath = { id: generateId(), commands: commands.slice(start, start + count) };
+      start += count;
+      return subPath;
+    });
+  }
+
+  const locked = new Set((element.getAttribute('data-sspe-locked-subpaths') || '').split(/\s+/).filter(Boolean).map(Number));
+  return locked.size > 0
+    ? result.map((subPath, index) => locked.has(index) ? { ...subPath, locked: true } : subPath)
+    : result;
+}
+
+export function isElementLocked(element: Element): boolean {
+  return element.getAttribute('data-sspe-locked') === 'true';
+}
+
+/**
+ * Lock settings of a <g>, or undefined when the file has none
+ */
+export function readGroupLockMetadata(element: Element): Pick<SVGGroup, 'locked' | 'lockLevel'> | undefined {
+  const lockLevel = element.getAttribute('data-sspe-lock-level') as GroupLockLevel | null;
+  const hasLevel = !!lockLevel && GROUP_LOCK_LEVELS.includes(lockLevel);
+  if (!hasLevel && !element.hasAttribute('data-sspe-locked')) return undefined;
+  return {
+    locked: isElementLocked(element),
+    ...(hasLevel ? { lockLevel: lockLevel! } : {})
+  };
+}
@@ -2,6 +2,18 @@ import { subPathToString } from './path-utils';
 import { FilterPrimitiveType, BoundingBox } from '../types';
 import { getPathBoundingBox, getTextBoundingBox, getImageBoundingBox, getGroupBoundingBox } from './bbox-utils';
 import { getAllElementsByZIndex, RenderableElement } from './z-index-manager';
+import { getPathMetadataAttributes, getGroupMetadataAttributes, renderEditorMetadata } from './svg-editor-metadata';
+import { createStyleClasses, getStyleClass, renderStyleClasses } from './svg-css';
+import { getLiveShape, getShapeElement, isPathElementRequired } from './shape-utils';
+import { getPathTransformAttribute } from './path-transform-utils';
+import { SVGDocumentParts, serializeSVGDocument } from './svg-serializer';
+
+export interface SVGExportOptions {
+  // Keep editor-only data (subpaths, locks, animation chains) so the file re-imports as it was
+  includeEditorMetadata?: boolean;
+  // Move path styles that repeat into generated classes in a <style> sheet
+  useStyleClasses?: boolean;
+}
 
 /**
  * Calculate the overall viewport that encompasses all visible elements
@@ -398,10 +410,11 @@ const primitiveToSVGString = (primitive: FilterPrimitiveType, index: number): st
 };
 
 /**
- * Generates a complete SVG string from the current editor state
- * This is the unified export function used across the application
+ * Renders the parts of the SVG document for the current editor state:
+ * viewBox, metadata, definitions and elements
  */
-export const generateSVGCode = (editorState: any): string => {
+export const generateSVGDocumentParts = (editorState: any, options: SVGExportOptions = {}): SVGDocumentParts => {
+  const { includeEditorMetadata = false, useStyleClasses = false } = options;
   const { 
     paths, 
     texts, 
@@ -420,6 +433,10 @@ export const generateSVGCode = (editorState: any): string => {
     calculateChainDelays 
   } = editorState;
 
+  // A partial export renders only some paths, while symbols and text on a path
+  // may still refer to any of them
+  const definitionPaths = editorState.definitionPaths ?? paths;
+
   // Calculate chain delays for proper animation timing
   const chainDelays = calculateChainDelays();
   
@@ -452,43 +469,66 @@ export const generateSVGCode = (editorState: any): string => {
     return viewBox;
   };
 
+  // Helper function to get the fill and stroke attributes of a path style
+  const getPathPaintAttributes = (style: any): Array<[string, string]> => {
+    const fillValue = convertStyleValue(style.fill);
+    const strokeValue = convertStyleValue(style.stroke);
+    const paint: Array<[string, string] | null> = [
+      ['fill', `${fillValue}`],
+      strokeValue !== 'none' ? ['stroke', `${strokeValue}`] : null,
+      style.strokeWidth ? ['stroke-width', formatNumber(style.strokeWidth)] : null,
+      style.strokeDasharray ? ['stroke-dasharray', `${style.strokeDasharray}`] : null,
+      style.strokeDashoffset !== undefined ? ['stroke-dashoffset', formatNumber(style.strokeDashoffset)] : null,
+      style.strokeLinecap ? ['stroke-linecap', style.strokeLinecap] : null,
+      style.strokeLinejoin ? ['stroke-linejoin', style.strokeLinejoin] : null,
+      style.fillRule ? ['fill-rule', style.fillRule] : null,
+      style.fillOpacity !== undefined && style.fillOpacity !== 1 ? ['fill-opacity', formatNumber(style.fillOpacity)] : null,
+      style.strokeOpacity !== undefined && style.strokeOpacity !== 1 ? ['stroke-opacity', formatNumber(style.strokeOpacity)] : null,
+    ];
+    return paint.filter((attribute): attribute is [string, string] => attribute !== null);
+  };
+
+  // Paint styles shared by several paths become classes
+  const styleClasses = useStyleClasses
+    ? createStyleClasses(paths.map((path: any) => getPathPaintAttributes(path.style)))
+    : null;
+
   // Helper function to render a single path element
   const renderPath = (path: any) => {
     const pathData = path.subPaths.map((subPath: any) => subPathToString(subPath, precision)).join(' ');
     const style = path.style;
     
-    const fillValue = convertStyleValue(style.fill);
-    const strokeValue = convertStyleValue(style.stroke);
+    const paint = getPathPaintAttributes(style);
+    const className = styleClasses ? getStyleClass(styleClasses, paint) : undefined;
+    
+    // Live shapes are written as their native element
+    const shape = isPathElementRequired(path.id, textPaths, animations) ? null : getLiveShape(path);
+    const shapeElement = shape ? getShapeElement(shape, formatNumber) : null;
+    const tag = shapeElement ? shapeElement.tag : 'path';
+    const transform = getPathTransformAttribute(path, formatNumber);
     
     const attributes = [
       `id="${path.id}"`,
-      `d="${pathData}"`,
+      ...(shapeElement ? shapeElement.attributes : [`d="${pathData}"`]),
+      transform ? `transform="${transform}"` : '',
       path.pathLength !== undefined ? `pathLength="${formatNumber(path.pathLength)}"` : '',
-      fillValue !== 'none' ? `fill="${fillValue}"` : 'fill="none"',
-      strokeValue !== 'none' ? `stroke="${strokeValue}"` : '',
-      style.strokeWidth ? `stroke-width="${formatNumber(style.strokeWidth)}"` : '',
-      style.strokeDasharray ? `stroke-dasharray="${style.strokeDasharray}"` : '',
-      style.strokeDashoffset !== undefined ? `stroke-dashoffset="${formatNumber(style.strokeDashoffset)}"` : '',
-      style.strokeLinecap ? `stroke-linecap="${style.strokeLinecap}"` : '',
-      style.strokeLinejoin ? `stroke-linejoin="${style.strokeLinejoin}"` : '',
-      style.fillRule ? `fill-rule="${style.fillRule}"` : '',
-      style.fillOpacity !== undefined && style.fillOpacity !== 1 ? `fill-opacity="${formatNumber(style.fillOpacity)}"` : '',
-      style.strokeOpacity !== undefined && style.strokeOpacity !== 1 ? `stroke-opacity="${formatNumber(style.strokeOpacity)}"` : '',
+      ...(className ? [`class="${className}"`] : paint.map(([name, value]) => `${name}="${value}"`)),
       style.markerStart ? `marker-start="${convertStyleValue(style.markerStart)}"` : '',
       style.markerMid ? `marker-mid="${convertStyleValue(style.markerMid)}"` : '',
       style.markerEnd ? `marker-end="${convertStyleValue(style.markerEnd)}"` : '',
       style.filter ? `filter="${convertStyleValue(style.filter)}"` : '',
       style.clipPath ? `clip-path="${convertStyleValue(style.clipPath)}"` : '',
       style.mask ? `mask="${convertStyleValue(style.mask)}"` : '',
+      ...(includeEditorMetadata ? getPathMetadataAttributes(path) : []),
     ].filter(Boolean).join(' ');
     
     // Get animations for this path
     const pathAnimations = renderAnimationsForElement(path.id, chainDelays);
     
     if (pathAnimations) {
-      return `<path ${attributes}>\n${pathAnimations}\n    </path>`;
+      return `<${tag} ${attributes}>\n${pathAnimations}\n    </${tag}>`;
     } else {
-      return `<path ${attributes} />`;
+      return `<${tag} ${attributes} />`;
     }
   };
 
@@ -682,6 +722,8 @@ export const generateSVGCode = (editorState: any): string => {
       }
       
       const commonProps = [
+        // Chains in the editor metadata refer to animations by id
+        includeEditorMetadata ? `id="${animation.id}"` : '',
         `dur="${animation.dur || '2s'}"`,
         beginValue !== '0s' ? `begin="${beginValue}"` : '',
         getAnimationProperty(animation, 'end') ? `end="${getAnimationProperty(animation, 'end')}"` : '',
@@ -981,20 +1023,7 @@ export const generateSVGCode = (editorState: any): string => {
                 if (!subPath.commands || !Array.isArray(subPath.commands)) {
                   return '';
                 }
-                return subPath.commands.map((cmd: any) => {
-                  switch (cmd.command) {
-                    case 'M':
-                      return `M ${cmd.x || 0} ${cmd.y || 0}`;
-                    case 'L':
-                      return `L ${cmd.x || 0} ${cmd.y || 0}`;
-                    case 'C':
-                      return `C ${cmd.x1 || 0} ${cmd.y1 || 0} ${cmd.x2 || 0} ${cmd.y2 || 0} ${cmd.x || 0} ${cmd.y || 0}`;
-                    case 'Z':
-                      return 'Z';
-                    default:
-                      return '';
-                  }
-                }).join(' ');
+                return subPathToString(subPath, precision);
               }).join(' ');
 
               if (!pathData || pathData.trim() === '') {
@@ -1011,26 +1040,13 @@ export const generateSVGCode = (editorState: any): string => {
               return `      <path ${pathAttrs} />`;
             } else if (child.id) {
               // Handle reference-based children - find the actual path data
-              const referencedPath = paths.find((path: any) => path.id === child.id);
+              const referencedPath = definitionPaths.find((path: any) => path.id === child.id);
               if (referencedPath) {
                 const pathData = referencedPath.subPaths.map((subPath: any) => {
                   if (!subPath.commands || !Array.isArray(subPath.commands)) {
                     return '';
                   }
-                  return subPath.commands.map((cmd: any) => {
-                    switch (cmd.command) {
-                      case 'M':
-                        return `M ${cmd.x || 0} ${cmd.y || 0}`;
-                      case 'L':
-                        return `L ${cmd.x || 0} ${cmd.y || 0}`;
-                      case 'C':
-                        return `C ${cmd.x1 || 0} ${cmd.y1 || 0} ${cmd.x2 || 0} ${cmd.y2 || 0} ${cmd.x || 0} ${cmd.y || 0}`;
-                      case 'Z':
-                        return 'Z';
-                      default:
-                        return '';
-                    }
-                  }).join(' ');
+                  return subPathToString(subPath, precision);
                 }).join(' ');
 
                 if (!pathData || pathData.trim() === '') {
@@ -1057,6 +1073,17 @@ export const generateSVGCode = (editorState: any): string => {
       allDefs.push(...symbolDefs);
     }
 
+    // Paths followed by text but left out of the export
+    const renderedPathIds = new Set(paths.map((path: any) => path.id));
+    const followedPaths = definitionPaths.filter((path: any) =>
+      !renderedPathIds.has(path.id) && textPaths.some((textPath: any) => textPath.pathRef === path.id)
+    );
+    followedPaths.forEach((path: any) => {
+      const pathData = path.subPaths.map((subPath: any) => subPathToString(subPath, precision)).join(' ');
+      const transform = getPathTransformAttribute(path, formatNumber);
+      allDefs.push(`    <path id="${path.id}" d="${pathData}"${transform ? ` transform="${transform}"` : ''} />`);
+    });
+
     // Add markers 
     if (allMarkers.length > 0) {
       const markerDefs = allMarkers.map((marker: any) => {
@@ -1152,6 +1179,7 @@ export const generateSVGCode = (editorState: any): string => {
       style.filter ? `filter="${convertStyleValue(style.filter)}"` : '',
       style.clipPath ? `clip-path="${convertStyleValue(style.clipPath)}"` : '',
       style.mask ? `mask="${convertStyleValue(style.mask)}"` : '',
+      ...(includeEditorMetadata ? getGroupMetadataAttributes(group) : []),
     ].filter(Boolean).join(' ');
 
     // Collect elements that are NOT in any group
@@ -1223,8 +1251,10 @@ ${childContent}
     }
   };
 
-  // Get all elements sorted by z-index for proper rendering order
-  const elementsByZIndex = getAllElementsByZIndex();
+  // Get all elements sorted by z-index for proper rendering order, limited to
+  // the ones passed in so that a part of the document can be exported
+  const exportedElementIds = new Set([...paths, ...texts, ...images, ...uses].map((element: any) => element.id));
+  const elementsByZIndex = getAllElementsByZIndex().filter(element => exportedElementIds.has(element.id));
   
   // Collect elements that are NOT in any group
   const elementsInGroups = new Set<string>();
@@ -1309,16 +1339,27 @@ ${childContent}
   // Calculate dynamic viewport based on all elements
   const viewport = calculateOverallViewport(editorState);
   
-  // Generate final SVG
+  // Generate the document sections
   const definitionsSection = generateDefinitions();
+  const metadataSection = includeEditorMetadata ? renderEditorMetadata(editorState.animationSync?.chains || []) : '';
+  const stylesSection = styleClasses ? renderStyleClasses(styleClasses) : '';
   
-  const finalSVG = `<svg xmlns="http://www.w3.org/2000/svg" viewBox="${formatNumber(viewport.x)} ${formatNumber(viewport.y)} ${formatNumber(viewport.width)} ${formatNumber(viewport.height)}">
-${definitionsSection}${allElements}
-</svg>`;
-
-  return finalSVG;
+  return {
+    viewBox: `${formatNumber(viewport.x)} ${formatNumber(viewport.y)} ${formatNumber(viewport.width)} ${formatNumber(viewport.height)}`,
+    metadata: metadataSection,
+    styles: stylesSection,
+    definitions: definitionsSection,
+    elements: allElements
+  };
 };
 
+/**
+ * Generates a complete SVG string from the current editor state
+ * This is the unified export function used across the application
+ */
+export const generateSVGCode = (editorState: any, options: SVGExportOptions = {}): string =>
+  serializeSVGDocument(generateSVGDocumentParts(editorState, options));
+
 /**
  * Downloads SVG content as a file
  */
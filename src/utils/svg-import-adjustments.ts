@@ -0,0 +1,324 @@
+import {
+  BoundingBox,
+  SVGCommand,
+  SVGGroup,
+  SVGImage,
+  SVGPath,
+  SVGSubPath,
+  SVGTextPath,
+  TextElementType
+} from '../types';
+import { getPathBoundingBox } from './bbox-utils';
+import { DRAWING_UNIT_MILLIMETERS, DrawingUnit } from './format-geometry-utils';
+import { transformSubPaths } from './path-transform-utils';
+import { matchShapeToPath } from './shape-utils';
+import {
+  IDENTITY_MATRIX,
+  TransformMatrix,
+  getAncestorTransforms,
+  matrixToString,
+  multiplyMatrices,
+  parseTransformString,
+  transformPoint
+} from './transform-utils';
+
+/**
+ * Optional clean-up of freshly imported SVG content: rescaling to a unit or
+ * size, moving to the origin, rounding coordinates and dropping elements that
+ * paint nothing. Every requested option is described in the returned warnings.
+ */
+
+export type ImportRescaleMode = 'none' | 'unit' | 'size';
+
+export interface SVGImportAdjustments {
+  rescale?: ImportRescaleMode;
+  targetUnit?: DrawingUnit; // 'unit': physical size of one canvas unit
+  targetSize?: { width: number; height: number }; // 'size': box the content is fitted into
+  moveToOrigin?: boolean;
+  precision?: number; // Decimals the coordinates are rounded to
+  removeInvisible?: boolean;
+}
+
+export interface ImportedContent {
+  paths: SVGPath[];
+  texts: TextElementType[];
+  groups: SVGGroup[];
+  images?: SVGImage[];
+  textPaths?: SVGTextPath[];
+}
+
+// Millimeters per absolute CSS length unit
+const LENGTH_UNIT_MILLIMETERS: Record<string, number> = {
+  ...DRAWING_UNIT_MILLIMETERS,
+  pt: 25.4 / 72,
+  pc: 25.4 / 6,
+  q: 0.25
+};
+
+const COORDINATE_KEYS = ['x', 'y', 'x1', 'y1', 'x2', 'y2', 'rx', 'ry'] as const;
+
+const formatFactor = (value: number): string => Number(value.toPrecision(6)).toString();
+
+/**
+ * Size of one user unit of an SVG root, from its width and viewBox.
+ * Widths without an absolute unit count as pixels.
+ */
+export function getSVGUserUnit(svgElement: Element | null): { unit: string; millimeters: number } {
+  const match = svgElement?.getAttribute('width')?.trim()
+    .match(/^([+-]?(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?)\s*(px|mm|cm|in|pt|pc|q)?$/i);
+  const width = match ? parseFloat(match[1]) : NaN;
+  if (!match || !(width > 0)) {
+    return { unit: 'px', millimeters: DRAWING_UNIT_MILLIMETERS.px };
+  }
+
+  const unit = (match[2] ?? 'px').toLowerCase();
+  const viewBox = svgElement?.getAttribute('viewBox')?.trim().split(/[\s,]+/).map(Number);
+  const userWidth = viewBox?.length === 4 && viewBox[2] > 0 ? viewBox[2] : width;
+  return { unit, millimeters: width * LENGTH_UNIT_MILLIMETERS[unit] / userWidth };
+}
+
+const getPointsBounds = (points: { x: number; y: number }[]): BoundingBox => {
+  const xs = points.map(point => point.x);
+  const ys = points.map(point => point.y);
+  const minX = Math.min(...xs);
+  const minY = Math.min(...ys);
+  return { x: minX, y: minY, width: Math.max(...xs) - minX, height: Math.max(...ys) - minY };
+};
+
+/**
+ * Bounds of the content as rendered, including the transforms of the
+ * elements and of the groups around them
+ */
+const getContentBounds = (content: ImportedContent): BoundingBox | null => {
+  const ancestors = getAncestorTransforms(content.groups);
+  const getMatrix = (id: string, transform?: string | TransformMatrix): TransformMatrix => {
+    const own = typeof transform === 'string' ? parseTransformString(transform) : transform ?? IDENTITY_MATRIX;
+    return multiplyMatrices(ancestors.get(id) ?? IDENTITY_MATRIX, own);
+  };
+
+  const boxes: BoundingBox[] = [
+    ...content.paths
+      .map(path => getPathBoundingBox({ ...path, transform: getMatrix(path.id, path.transform) }))
+      .filter((box): box is BoundingBox => !!box),
+    ...(content.images ?? []).map(image => {
+      const matrix = getMatrix(image.id, image.transform);
+      return getPointsBounds([
+        transformPoint(image.x, image.y, matrix),
+        transformPoint(image.x + image.width, image.y, matrix),
+        transformPoint(image.x, image.y + image.height, matrix),
+        transformPoint(image.x + image.width, image.y + image.height, matrix)
+      ]);
+    }),
+    ...content.texts.map(text => getPointsBounds([transformPoint(text.x, text.y, getMatrix(text.id, text.transform))]))
+  ];
+  if (boxes.length === 0) return null;
+
+  const minX = Math.min(...boxes.map(box => box.x));
+  const minY = Math.min(...boxes.map(box => box.y));
+  const maxX = Math.max(...boxes.map(box => box.x + box.width));
+  const maxY = Math.max(...boxes.map(box => box.y + box.height));
+  return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+};
+
+// Live shapes are refitted, or dropped when the new geometry no longer matches
+const withSubPaths = (path: SVGPath, subPaths: SVGSubPath[]): SVGPath => {
+  const { shape, ...rest } = path;
+  const fitted = shape ? matchShapeToPath(shape, subPaths) : null;
+  return { ...rest, subPaths, ...(fitted ? { shape: fitted } : {}) };
+};
+
+const hasVisibleStroke = (path: SVGPath): boolean => {
+  const { stroke, strokeWidth, strokeOpacity } = path.style;
+  return stroke !== undefined && stroke !== 'none' && stroke !== 'transparent' &&
+    (strokeWidth ?? 1) > 0 && strokeOpacity !== 0;
+};
+
+const hasVisibleFill = (path: SVGPath): boolean => {
+  const { fill, fillOpacity } = path.style;
+  return fill !== 'none' && fill !== 'transparent' && fillOpacity !== 0;
+};
+
+/**
+ * Whether a path paints nothing: hidden, fully transparent, or without
+ * area for its fill and length for its stroke
+ */
+const isInvisiblePath = (path: SVGPath): boolean => {
+  if (path.style.opacity === 0 || path.style.visibility === 'hidden') return true;
+  const box = getPathBoundingBox(path);
+  if (!box) return true;
+  if (hasVisibleFill(path) && box.width > 0 && box.height > 0) return false;
+  // Round and square caps paint even a zero-length stroke
+  const hasLength = box.width > 0 || box.height > 0;
+  const capped = path.style.strokeLinecap === 'round' || path.style.strokeLinecap === 'square';
+  return !(hasVisibleStroke(path) && (hasLength || capped));
+};
+
+const isEmptyText = (text: TextElementType): boolean =>
+  text.type === 'text'
+    ? text.content.trim() === ''
+    : text.spans.every(span => span.content.trim() === '');
+
+const removeInvisible = <T extends ImportedContent>(content: T, warnings: string[]): T => {
+  // Paths that carry a textPath are invisible on purpose
+  const referencedPaths = new Set((content.textPaths ?? []).map(textPath => textPath.pathRef));
+  const removed = new Set<string>([
+    ...content.paths.filter(path => !referencedPaths.has(path.id) && isInvisiblePath(path)).map(path => path.id),
+    ...content.texts.filter(isEmptyText).map(text => text.id),
+    ...(content.images ?? []).filter(image => image.width <= 0 || image.height <= 0 || image.style?.opacity === 0).map(image => image.id)
+  ]);
+
+  warnings.push(removed.size > 0
+    ? `Removed ${removed.size} invisible or zero-area element${removed.size === 1 ? '' : 's'}`
+    : 'No invisible or zero-area elements to remove');
+  if (removed.size === 0) return content;
+
+  return {
+    ...content,
+    paths: content.paths.filter(path => !removed.has(path.id)),
+    texts: content.texts.filter(text => !removed.has(text.id)),
+    groups: content.groups.map(group => ({
+      ...group,
+      children: group.children.filter(child => !removed.has(child.id))
+    })),
+    ...(content.images ? { images: content.images.filter(image => !removed.has(image.id)) } : {})
+  };
+};
+
+/**
+ * Apply a uniform scale and translation to every element. Groups and elements
+ * with their own transform get the matrix prepended so their local coordinates
+ * stay put; elements inside groups move along with their outermost group.
+ */
+const transformContent = <T extends ImportedContent>(content: T, matrix: TransformMatrix): T => {
+  const scale = matrix.a;
+  const mapPoint = (x: number, y: number) => transformPoint(x, y, matrix);
+  const prependTo = (transform?: string) => transform ? `${matrixToString(matrix)} ${transform}` : matrixToString(matrix);
+  const grouped = new Set(content.groups.flatMap(group => group.children.map(child => child.id)));
+
+  const groups = content.groups.map(group => grouped.has(group.id)
+    ? group
+    : { ...group, transform: prependTo(group.transform) });
+
+  const paths = content.paths.map(path => {
+    if (grouped.has(path.id)) return path;
+    if (path.transform) {
+      return { ...path, transform: multiplyMatrices(matrix, path.transform) };
+    }
+    const style = hasVisibleStroke(path)
+      ? { ...path.style, strokeWidth: (path.style.strokeWidth ?? 1) * scale }
+      : path.style;
+    return withSubPaths({ ...path, style }, transformSubPaths(path.subPaths, matrix));
+  });
+
+  const texts = content.texts.map((text): TextElementType => {
+    if (grouped.has(text.id)) return text;
+    if (text.transform) return { ...text, transform: prependTo(text.transform) };
+    const position = mapPoint(text.x, text.y);
+    const fontSize = text.fontSize !== undefined ? { fontSize: text.fontSize * scale } : {};
+    if (text.type === 'text') return { ...text, ...position, ...fontSize };
+    return {
+      ...text,
+      ...position,
+      ...fontSize,
+      spans: text.spans.map(span => ({
+        ...span,
+        ...(span.x !== undefined ? { x: mapPoint(span.x, 0).x } : {}),
+        ...(span.y !== undefined ? { y: mapPoint(0, span.y).y } : {}),
+        ...(span.dx !== undefined ? { dx: span.dx * scale } : {}),
+        ...(span.dy !== undefined ? { dy: span.dy * scale } : {})
+      }))
+    };
+  });
+
+  const images = content.images?.map(image => {
+    if (grouped.has(image.id)) return image;
+    return image.transform
+      ? { ...image, transform: prependTo(image.transform) }
+      : { ...image, ...mapPoint(image.x, image.y), width: image.width * scale, height: image.height * scale };
+  });
+
+  return { ...content, paths, texts, groups, ...(images ? { images } : {}) } as T;
+};
+
+const roundContent = <T extends ImportedContent>(content: T, precision: number): T => {
+  const round = (value: number) => Number(value.toFixed(precision));
+  const roundCommand = (command: SVGCommand): SVGCommand => {
+    const rounded = { ...command };
+    COORDINATE_KEYS.forEach(key => {
+      if (rounded[key] !== undefined) rounded[key] = round(rounded[key]!);
+    });
+    return rounded;
+  };
+
+  const paths = content.paths.map(path => withSubPaths(path, path.subPaths.map(subPath => ({
+    ...subPath,
+    commands: subPath.commands.map(roundCommand)
+  }))));
+  const texts = content.texts.map(text => ({ ...text, x: round(text.x), y: round(text.y) }));
+  const images = content.images?.map(image => ({
+    ...image,
+    x: round(image.x),
+    y: round(image.y),
+    width: round(image.width),
+    height: round(image.height)
+  }));
+
+  return { ...content, paths, texts, ...(images ? { images } : {}) } as T;
+};
+
+/**
+ * Apply the requested adjustments in order: removal, rescaling, moving to the
+ * origin and rounding. The root element supplies the document units.
+ */
+export function applyImportAdjustments<T extends ImportedContent>(
+  content: T,
+  adjustments: SVGImportAdjustments,
+  svgElement: Element | null = null
+): { content: T; warnings: string[] } {
+  const warnings: string[] = [];
+  let result = content;
+
+  if (adjustments.removeInvisible) {
+    result = removeInvisible(result, warnings);
+  }
+
+  const bounds = getContentBounds(result);
+  let scale = 1;
+  if (adjustments.rescale === 'unit' && adjustments.targetUnit) {
+    const source = getSVGUserUnit(svgElement);
+    scale = source.millimeters / DRAWING_UNIT_MILLIMETERS[adjustments.targetUnit];
+    warnings.push(`Converted user units of ${formatFactor(source.millimeters)} mm (from ${source.unit}) to ${adjustments.targetUnit} (scale ${formatFactor(scale)})`);
+  } else if (adjustments.rescale === 'size' && adjustments.targetSize) {
+    const { width, height } = adjustments.targetSize;
+    if (bounds && bounds.width + bounds.height > 0 && width > 0 && height > 0) {
+      scale = Math.min(
+        bounds.width > 0 ? width / bounds.width : Infinity,
+        bounds.height > 0 ? height / bounds.height : Infinity
+      );
+      warnings.push(`Scaled content to fit ${width} × ${height} (scale ${formatFactor(scale)})`);
+    } else {
+      warnings.push('Content has no size to scale to the target size');
+    }
+  }
+
+  let offset = { x: 0, y: 0 };
+  if (adjustments.moveToOrigin) {
+    if (bounds) {
+      offset = { x: -bounds.x * scale, y: -bounds.y * scale };
+      warnings.push(`Moved content to the origin by (${formatFactor(offset.x)}, ${formatFactor(offset.y)})`);
+    } else {
+      warnings.push('No content to move to the origin');
+    }
+  }
+
+  if (scale !== 1 || offset.x !== 0 || offset.y !== 0) {
+    result = transformContent(result, { a: scale, b: 0, c: 0, d: scale, e: offset.x, f: offset.y });
+  }
+
+  if (adjustments.precision !== undefined) {
+    result = roundContent(result, adjustments.precision);
+    warnings.push(`Rounded coordinates to ${adjustments.precision} decimal${adjustments.precision === 1 ? '' : 's'}`);
+  }
+
+  return { content: result, warnings };
+}
@@ -1,9 +1,12 @@
 import { SVGCommand, PathStyle, SVGCommandType, SVGPath, TextElement, MultilineTextElement, TextElementType, SVGGroup, SVGGroupChild, SVGFilter, FilterPrimitiveType, SVGTextPath, SVGAnimation, SVGImage, SVGSymbol, SVGUse } from '../types';
-import { parsePath, absolutize, normalize, serialize } from 'path-data-parser';
+import { parsePath, absolutize, serialize } from 'path-data-parser';
 import { generateId } from './id-utils';
 import { decomposeIntoSubPaths } from './subpath-utils';
+import { applySubPathMetadata, isElementLocked, readGroupLockMetadata, readEditorMetadata } from './svg-editor-metadata';
 import { convertRgbToHex, parseColorWithOpacity } from './color-utils';
-import { parseTransformString, transformPoint } from './transform-utils';
+import { readPathTransform } from './path-transform-utils';
+import { resolveStyleSheets } from './svg-css';
+import { SHAPE_PARAMETERS_ATTRIBUTE, readCarriedShapeParameters, readShapeElement, readShapeParametersAttribute, shapeToPathData } from './shape-utils';
 import { LinearGradient, RadialGradient, Pattern, GradientOrPattern } from '../types';
 
 /**
@@ -26,6 +29,7 @@ const ATTRIBUTES_TO_COPY = [
   'style',
   'class',
   'id',
+  'data-sspe-locked',
 ];
 
 /**
@@ -202,9 +206,19 @@ function convertShapesToPathsExcludingDefs(svgElement: Element, debugMode = fals
           break;
       }
 
+      // Primitives stay live shapes, so their path data comes from the parameters
+      const elementShape = readShapeElement(shape);
+      const shapeParameters = elementShape ? readCarriedShapeParameters(shape, elementShape) : null;
+      if (shapeParameters) {
+        d = shapeToPathData(shapeParameters);
+      }
+
       if (d && shape.parentNode) {
         const newPath = document.createElementNS(svgNS, 'path');
         newPath.setAttribute('d', d);
+        if (shapeParameters) {
+          newPath.setAttribute(SHAPE_PARAMETERS_ATTRIBUTE, JSON.stringify(shapeParameters));
+        }
 
         // Copy all relevant attributes
         const copiedAttributes: string[] = [];
@@ -371,30 +385,49 @@ function convertShapesToPaths(svgElement: Element, debugMode = false): void {
 
 /**
  * Enhanced function to parse a path data string into commands using path-data-parser
- * Now normalizes all commands to M, L, C, Z using path-data-parser normalize function
+ * Commands are absolutized but kept in their original form (arcs, quadratics and
+ * shorthand commands are preserved). H and V get both end point coordinates.
  */
 export function parsePathData(pathData: string): SVGCommand[] {
   const commands: SVGCommand[] = [];
   
   try {
-    // Use path-data-parser for robust parsing with normalization
+    // Use path-data-parser for robust parsing
     const parsed = parsePath(pathData);
     const absolutized = absolutize(parsed);
-    const normalized = normalize(absolutized); // This converts everything to M, L, C, Z
+
+    let currentX = 0;
+    let currentY = 0;
+    let subPathStartX = 0;
+    let subPathStartY = 0;
     
-    for (const segment of normalized) {
+    for (const segment of absolutized) {
       const command: Partial<SVGCommand> = {
         id: generateId(),
         command: segment.key as SVGCommandType,
       };
 
-      // Map values based on command type - now only M, L, C, Z
-      switch (segment.key.toUpperCase()) {
+      // Map values based on command type
+      switch (segment.key) {
         case 'M':
+          command.x = segment.data[0];
+          command.y = segment.data[1];
+          subPathStartX = command.x;
+          subPathStartY = command.y;
+          break;
         case 'L':
+        case 'T':
           command.x = segment.data[0];
           command.y = segment.data[1];
           break;
+        case 'H':
+          command.x = segment.data[0];
+          command.y = currentY;
+          break;
+        case 'V':
+          command.x = currentX;
+          command.y = segment.data[0];
+          break;
         case 'C':
           command.x1 = segment.data[0];
           command.y1 = segment.data[1];
@@ -403,15 +436,44 @@ export function parsePathData(pathData: string): SVGCommand[] {
           command.x = segment.data[4];
           command.y = segment.data[5];
           break;
+        case 'S':
+          command.x2 = segment.data[0];
+          command.y2 = segment.data[1];
+          command.x = segment.data[2];
+          command.y = segment.data[3];
+          break;
+        case 'Q':
+          command.x1 = segment.data[0];
+          command.y1 = segment.data[1];
+          command.x = segment.data[2];
+          command.y = segment.data[3];
+          break;
+        case 'A':
+          command.rx = segment.data[0];
+          command.ry = segment.data[1];
+          command.xAxisRotation = segment.data[2];
+          command.largeArcFlag = segment.data[3] ? 1 : 0;
+          command.sweepFlag = segment.data[4] ? 1 : 0;
+          command.x = segment.data[5];
+          command.y = segment.data[6];
+          break;
         case 'Z':
           // No additional values needed
           break;
         default:
-          // This should not happen with normalize, but skip if it does
-          console.warn(`Unexpected command after normalization: ${segment.key}`);
+          // absolutize only emits uppercase commands, skip anything else
+          console.warn(`Unexpected command after absolutize: ${segment.key}`);
           continue;
       }
 
+      if (segment.key === 'Z') {
+        currentX = subPathStartX;
+        currentY = subPathStartY;
+      } else {
+        currentX = command.x!;
+        currentY = command.y!;
+      }
+
       commands.push(command as SVGCommand);
     }
   } catch (error) {
@@ -796,6 +858,9 @@ export function processSvgContent(svgString: string, debugMode = false): { svgEl
     console.log('🎨 Processing SVG content...');
   }
 
+  // Apply <style> rules to the elements they match, since only inline styles are read later
+  resolveStyleSheets(svgElement);
+
   // Preserve defs section before converting shapes
   const defsElement = svgElement.querySelector('defs');
   let preservedDefs: Element | null = null;
@@ -822,7 +887,7 @@ export function processSvgContent(svgString: string, debugMode = false): { svgEl
       });
     }
     
-    let normalizedD = normalizePathWithTransform(pathNode);
+    let normalizedD = normalizePathData(pathNode);
     if (normalizedD) {
       normalizedD = roundPathValues(normalizedD, 3);
       pathNode.setAttribute('d', normalizedD);
@@ -910,7 +975,7 @@ export function parseSVGToSubPaths(svgString: string, useComputedStyles = false)
         // Always create the path if it has static commands OR animations
         if (commands.length > 0 || hasAnimatedD) {
           // Decompose the path into sub-paths, or create empty subpath for animated-only paths
-          const subPaths = commands.length > 0 ? decomposeIntoSubPaths(commands) : [
+          const subPaths = commands.length > 0 ? applySubPathMetadata(pathElement, decomposeIntoSubPaths(commands)) : [
             {
               id: generateId(),
               commands: [] // Empty commands for animated-only path
@@ -919,10 +984,17 @@ export function parseSVGToSubPaths(svgString: string, useComputedStyles = false)
           
           // console.log(`📐 Creating path with ${commands.length} static commands and ${hasAnimatedD ? 'animated' : 'no'} d attribute`);
           
+          // Shapes converted on import keep their parameters while the geometry matches them
+          const shape = readShapeParametersAttribute(pathElement, subPaths);
+          const transform = readPathTransform(pathElement.getAttribute('transform'));
+          
           paths.push({
             id: pathId,
             subPaths,
-            style
+            style,
+            ...(isElementLocked(pathElement) ? { locked: true } : {}),
+            ...(shape ? { shape } : {}),
+            ...(transform ? { transform } : {})
           });
         }
       } catch (error) {
@@ -938,14 +1010,13 @@ export function parseSVGToSubPaths(svgString: string, useComputedStyles = false)
 }
 
 /**
- * Get absolute path data from a path string, normalized to M, L, C, Z commands
+ * Get absolute path data from a path string (command types are preserved)
  */
 export function getAbsolutePathData(pathData: string): string {
   try {
     const parsed = parsePath(pathData);
     const absolutized = absolutize(parsed);
-    const normalized = normalize(absolutized); // Convert to M, L, C, Z only
-    return normalizeScientificNotation(serialize(normalized));
+    return normalizeScientificNotation(serialize(absolutized));
   } catch (error) {
     console.error('Error converting path data to absolute:', error);
     return pathData;
@@ -953,77 +1024,21 @@ export function getAbsolutePathData(pathData: string): string {
 }
 
 /**
- * Normalizes a path with transform attributes applied
+ * Normalizes path data to absolute commands. A transform attribute is left
+ * on the element and kept as the path's own matrix.
  * @param pathNode - SVG path element
  * @returns Normalized path string
  */
-function normalizePathWithTransform(pathNode: Element): string | null {
+function normalizePathData(pathNode: Element): string | null {
   const d = pathNode.getAttribute('d');
   if (!d) return d;
 
-  const transform = pathNode.getAttribute('transform');
-  if (!transform) {
-    // No transform, just normalize and return
-    try {
-      const parsed = parsePath(d);
-      const absolutized = absolutize(parsed);
-      const normalized = normalize(absolutized); // Convert to M, L, C, Z only
-      return normalizeScientificNotation(serialize(normalized)).replace(/,/g, ' ');
-    } catch (error) {
-      console.warn('Failed to normalize path without transform:', error);
-      return d;
-    }
-  }
-
   try {
-    const transformMatrix = parseTransformString(transform);
-    
-    // Parse the path
     const parsed = parsePath(d);
     const absolutized = absolutize(parsed);
-    const normalized = normalize(absolutized); // Convert to M, L, C, Z only
-    
-    // Apply transformation to each command
-    const transformedCommands = normalized.map(segment => {
-      const newSegment = { ...segment };
-      
-      // Transform coordinate pairs based on command type
-      switch (segment.key.toUpperCase()) {
-        case 'M':
-        case 'L':
-          if (segment.data.length >= 2) {
-            const transformed = transformPoint(segment.data[0], segment.data[1], transformMatrix);
-            newSegment.data = [transformed.x, transformed.y];
-          }
-          break;
-        case 'C':
-          if (segment.data.length >= 6) {
-            const cp1 = transformPoint(segment.data[0], segment.data[1], transformMatrix);
-            const cp2 = transformPoint(segment.data[2], segment.data[3], transformMatrix);
-            const end = transformPoint(segment.data[4], segment.data[5], transformMatrix);
-            newSegment.data = [cp1.x, cp1.y, cp2.x, cp2.y, end.x, end.y];
-          }
-          break;
-        case 'Z':
-          // No coordinates to transform
-          break;
-        default:
-          // Should not happen with normalize, but handle gracefully
-          console.warn(`Unexpected command in transform: ${segment.key}`);
-          break;
-      }
-      
-      return newSegment;
-    });
-    
-    const normalizedPath = normalizeScientificNotation(serialize(transformedCommands));
-    
-    // Remove the transform attribute since we've applied it
-    pathNode.removeAttribute('transform');
-    
-    return normalizedPath.replace(/,/g, ' ');
+    return normalizeScientificNotation(serialize(absolutized)).replace(/,/g, ' ');
   } catch (error) {
-    console.error('Error normalizing path with transform:', error);
+    console.warn('Failed to normalize path:', error);
     return d;
   }
 }
@@ -1053,8 +1068,7 @@ export async function processPathsInfo(
       try {
         const parsed = parsePath(originalD);
         const absolutized = absolutize(parsed);
-        const normalized = normalize(absolutized); // Convert to M, L, C, Z only
-        absoluteD = normalizeScientificNotation(serialize(normalized));
+        absoluteD = normalizeScientificNotation(serialize(absolutized));
       } catch (parseError) {
         console.error(
           `Error converting path data to absolute for index ${index}:`,
@@ -2160,7 +2174,8 @@ export function parseGroups(svgElement: Element, allPaths: SVGPath[], allTexts:
         children,
         visible: true,
         locked: false,
-        lockLevel: 'movement-sync' // Set movement-sync as default for imported groups
+        lockLevel: 'movement-sync', // Set movement-sync as default for imported groups
+        ...readGroupLockMetadata(groupElement) // Locks saved by this editor
       };
       
       return group;
@@ -2959,10 +2974,13 @@ export function parseCompleteSVG(svgString: string): {
     const imagesWithZIndex = assignZIndex(images, 1000);
     const usesWithZIndex = assignZIndex(uses, 1000);
     
-    // Auto-generate animation chains based on begin times
-    let animationChains = createAutoAnimationChains(animations);
+    // Chains saved by this editor, otherwise auto-generated from begin times
+    const animationIds = new Set(animations.map(animation => animation.id));
+    const savedChains = readEditorMetadata(svgElement)?.animationChains
+      .filter(chain => Array.isArray(chain.animations) && chain.animations.every(item => animationIds.has(item.animationId)));
+    let animationChains = savedChains && savedChains.length > 0 ? savedChains : createAutoAnimationChains(animations);
     
-    // If auto-chains were created, remove begin times from those animations to avoid conflicts
+    // Chained animations were exported with their chain timing as begin; remove it to avoid conflicts
     if (animationChains.length > 0) {
       console.log('🔧 Removing begin times from chained animations to prevent conflicts');
       const chainedAnimationIds = new Set<string>();
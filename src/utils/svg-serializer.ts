@@ -0,0 +1,149 @@
+/**
+ * Shared serialization for export targets. generateSVGCode assembles its
+ * document from SVGDocumentParts; component and data-URI exports parse that
+ * markup back into a small node tree and write it out again in their own
+ * dialect (plain SVG or JSX attribute names).
+ */
+
+export interface SVGDocumentParts {
+  viewBox: string;
+  metadata: string; // Rendered <metadata> section, or ''
+  styles: string; // Rendered <style> section, or ''
+  definitions: string; // Rendered <defs> section, or ''
+  elements: string;
+}
+
+export interface SVGMarkupElement {
+  tag: string;
+  attributes: Array<[string, string]>;
+  children: SVGMarkupNode[];
+}
+
+export type SVGMarkupNode = SVGMarkupElement | string;
+
+export type SVGMarkupDialect = 'svg' | 'jsx';
+
+export interface SVGSerializeOptions {
+  dialect?: SVGMarkupDialect;
+  indent?: string; // '' writes everything on one line
+  rootAttributes?: string[]; // Written verbatim on the root element, e.g. JSX expressions
+}
+
+export function serializeSVGDocument(parts: SVGDocumentParts): string {
+  return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="${parts.viewBox}">
+${parts.metadata}${parts.styles}${parts.definitions}${parts.elements}
+</svg>`;
+}
+
+const toMarkupNode = (node: Node): SVGMarkupNode | null => {
+  if (node.nodeType === Node.TEXT_NODE || node.nodeType === Node.CDATA_SECTION_NODE) {
+    return node.textContent || '';
+  }
+  if (node.nodeType !== Node.ELEMENT_NODE) return null;
+  const element = node as Element;
+  return {
+    tag: element.tagName,
+    attributes: Array.from(element.attributes).map(attribute => [attribute.name, attribute.value]),
+    children: Array.from(element.childNodes)
+      .map(toMarkupNode)
+      .filter((child): child is SVGMarkupNode => child !== null)
+  };
+};
+
+export function parseSVGMarkup(markup: string): SVGMarkupElement {
+  const document = new DOMParser().parseFromString(markup, 'image/svg+xml');
+  const root = document.documentElement;
+  if (root.querySelector('parsererror') || root.tagName === 'parsererror') {
+    throw new Error('The SVG markup could not be parsed');
+  }
+  return toMarkupNode(root) as SVGMarkupElement;
+}
+
+// Attributes React spells differently from SVG beyond the kebab-case rule
+const JSX_ATTRIBUTE_NAMES: Record<string, string> = {
+  class: 'className',
+  for: 'htmlFor',
+  'xlink:href': 'xlinkHref',
+  'xlink:title': 'xlinkTitle',
+  'xml:space': 'xmlSpace',
+  'xml:lang': 'xmlLang',
+  'xmlns:xlink': 'xmlnsXlink'
+};
+
+const camelCase = (name: string): string => name.replace(/[-:]([a-z])/g, (_, letter: string) => letter.toUpperCase());
+
+export const toJSXAttributeName = (name: string): string => {
+  if (JSX_ATTRIBUTE_NAMES[name]) return JSX_ATTRIBUTE_NAMES[name];
+  // data-* and aria-* keep their names in JSX
+  if (name.startsWith('data-') || name.startsWith('aria-')) return name;
+  return camelCase(name);
+};
+
+/**
+ * Inline style text as a JSX style object literal
+ */
+const toJSXStyle = (style: string): string => {
+  const entries = style
+    .split(';')
+    .map(declaration => declaration.split(':'))
+    .filter(([property, ...value]) => property?.trim() && value.join(':').trim())
+    .map(([property, ...value]) => {
+      const name = property.trim();
+      const key = name.startsWith('--') ? JSON.stringify(name) : camelCase(name);
+      return `${key}: ${JSON.stringify(value.join(':').trim())}`;
+    });
+  return `{{ ${entries.join(', ')} }}`;
+};
+
+const escapeXmlAttribute = (value: string): string =>
+  value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;');
+
+const escapeXmlText = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+const serializeAttribute = ([name, value]: [string, string], dialect: SVGMarkupDialect): string => {
+  if (dialect === 'svg') return `${name}="${escapeXmlAttribute(value)}"`;
+  const jsxName = toJSXAttributeName(name);
+  if (name === 'style') return `${jsxName}=${toJSXStyle(value)}`;
+  // JSX string attributes have no escapes; quotes and backslashes need an expression
+  return /["\\]/.test(value) ? `${jsxName}={${JSON.stringify(value)}}` : `${jsxName}="${value}"`;
+};
+
+const serializeText = (text: string, dialect: SVGMarkupDialect): string => {
+  if (dialect === 'svg') return escapeXmlText(text);
+  return /[{}<>]/.test(text) ? `{${JSON.stringify(text)}}` : text;
+};
+
+/**
+ * Write a node tree as markup. Whitespace-only text between elements is
+ * dropped and replaced by the indentation.
+ */
+export function serializeSVGMarkup(root: SVGMarkupElement, options: SVGSerializeOptions = {}): string {
+  const { dialect = 'svg', indent = '  ', rootAttributes = [] } = options;
+  const newline = indent ? '\n' : '';
+
+  const write = (node: SVGMarkupElement, depth: number, isRoot: boolean): string => {
+    const padding = indent.repeat(depth);
+    const attributes = [
+      ...node.attributes.map(attribute => serializeAttribute(attribute, dialect)),
+      ...(isRoot ? rootAttributes : [])
+    ];
+    const open = `${padding}<${node.tag}${attributes.length > 0 ? ' ' + attributes.join(' ') : ''}`;
+
+    const children = node.children.filter(child => typeof child !== 'string' || child.trim() !== '');
+    if (children.length === 0) return `${open} />`;
+
+    // Text content is written inline so that no whitespace is added to it
+    if (children.some(child => typeof child === 'string')) {
+      const content = children.map(child =>
+        typeof child === 'string' ? serializeText(child, dialect) : write(child, 0, false)
+      ).join('');
+      return `${open}>${content}</${node.tag}>`;
+    }
+
+    const content = children.map(child => write(child as SVGMarkupElement, depth + 1, false)).join(newline);
+    return `${open}>${newline}${content}${newline}${padding}</${node.tag}>`;
+  };
+
+  return write(root, 0, true);
+}
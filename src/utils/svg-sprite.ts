@@ -0,0 +1,323 @@
+import { EditorState, GradientOrPattern, PathStyle, Point, SVGGroup, SVGGroupChild, SVGPath, SVGSymbol, SVGUse } from '../types';
+import { generateGradientDef, generateGroupSVG } from './group-svg-utils';
+import { parseGradients, parseSVGToSubPaths, processSvgContent } from './svg-parser';
+import { subPathToString } from './path-utils';
+import { getPathTransformAttribute } from './path-transform-utils';
+import { getStyleValue } from './gradient-utils';
+import { SVGMarkupElement, parseSVGMarkup, serializeSVGMarkup } from './svg-serializer';
+import { createDefaultUse } from './svg-elements-utils';
+import { generateId } from './id-utils';
+
+/**
+ * SVG sprite sheets: one <svg> holding a <symbol> per icon, each with its
+ * own viewBox, which pages draw with <use href="sprite.svg#icon">.
+ */
+
+export interface SpriteEntry {
+  id: string;
+  viewBox: string;
+  defs: string;
+  content: string;
+}
+
+export interface SpriteSheet {
+  svg: string;
+  usage: string;
+}
+
+export interface ParsedSpriteSheet {
+  symbols: SVGSymbol[];
+  gradients: GradientOrPattern[]; // Paint servers the symbols refer to
+}
+
+export const DEFAULT_SPRITE_FILE_NAME = 'sprite.svg';
+
+const PREVIEW_SIZE = 100;
+const PREVIEW_GAP = 20;
+
+// Children created from a selection carry their path data instead of referencing a path.
+// Ones read from a sprite sheet also keep the paint and transform they were drawn with.
+export type EmbeddedPathChild = SVGGroupChild & Pick<SVGPath, 'subPaths'> & Partial<Pick<SVGPath, 'style' | 'transform'>>;
+
+export const isEmbeddedPath = (child: SVGGroupChild): child is EmbeddedPathChild =>
+  child.type === 'path' && Array.isArray((child as EmbeddedPathChild).subPaths);
+
+/**
+ * Presentation attributes an embedded path sets itself. Anything left out
+ * is inherited from the <use>.
+ */
+export function getEmbeddedPathAttributes(style: PathStyle = {}): Record<string, string> {
+  const attributes: Record<string, string | number | undefined> = {
+    fill: style.fill !== undefined ? getStyleValue(style.fill) : undefined,
+    'fill-opacity': style.fillOpacity,
+    'fill-rule': style.fillRule,
+    stroke: style.stroke !== undefined ? getStyleValue(style.stroke) : undefined,
+    'stroke-width': style.strokeWidth,
+    'stroke-opacity': style.strokeOpacity,
+    'stroke-dasharray': style.strokeDasharray,
+    'stroke-linecap': style.strokeLinecap,
+    'stroke-linejoin': style.strokeLinejoin,
+    opacity: style.opacity
+  };
+  return Object.fromEntries(
+    Object.entries(attributes)
+      .filter((entry): entry is [string, string | number] => entry[1] !== undefined)
+      .map(([name, value]) => [name, String(value)])
+  );
+}
+
+// Id of the gradient or pattern a fill or stroke paints with
+const getPaintServerId = (value: PathStyle['fill']): string | null => {
+  if (value && typeof value === 'object') return value.id;
+  return value?.match(/^url\(#([^)]+)\)$/)?.[1] ?? null;
+};
+
+const getReferencedPaintServers = (children: SVGGroupChild[]): Set<string> =>
+  new Set(children.filter(isEmbeddedPath).flatMap(child =>
+    [getPaintServerId(child.style?.fill), getPaintServerId(child.style?.stroke)].filter((id): id is string => !!id)
+  ));
+
+const toSymbolId = (name: string): string =>
+  name.trim().replace(/[^a-zA-Z0-9-_]+/g, '-').replace(/^[^a-zA-Z_]+/, '') || 'icon';
+
+const indent = (markup: string, prefix: string): string =>
+  markup.split('\n').filter(line => line.trim()).map(line => prefix + line.trim()).join('\n');
+
+/**
+ * Take the markup produced by generateGroupSVG apart again
+ */
+const splitGeneratedSVG = (svg: string): Omit<SpriteEntry, 'id'> => {
+  const viewBox = svg.match(/<svg\b[^>]*\sviewBox="([^"]+)"/)?.[1] || '0 0 100 100';
+  const body = svg.match(/<svg\b[^>]*>([\s\S]*)<\/svg>/)?.[1] || '';
+  const defs = body.match(/<defs>([\s\S]*?)<\/defs>/)?.[1] || '';
+  const content = body.replace(/<defs>[\s\S]*?<\/defs>/, '').replace(/<!--[\s\S]*?-->/g, '');
+  return { viewBox, defs: defs.trim(), content: content.trim() };
+};
+
+const generateElementsSVG = (state: EditorState, group: SVGGroup, padding: number): string =>
+  generateGroupSVG(
+    group,
+    state.paths,
+    state.texts,
+    [...state.groups.filter(candidate => candidate.id !== group.id), group],
+    state.images,
+    state.symbols,
+    state.uses,
+    state.gradients,
+    state.filters,
+    state.animations,
+    state.precision || 2,
+    padding
+  );
+
+/**
+ * A group cropped to its bounds
+ */
+export function getGroupSpriteEntry(state: EditorState, group: SVGGroup, padding: number = 0): SpriteEntry {
+  return {
+    id: toSymbolId(group.name || group.id),
+    ...splitGeneratedSVG(generateElementsSVG(state, group, padding))
+  };
+}
+
+/**
+ * A symbol keeps its own viewBox when it has one. Referenced children are
+ * drawn like group contents; embedded paths only carry the paint they set
+ * themselves so the rest comes from the <use>, as it does in the editor.
+ */
+export function getSymbolSpriteEntry(state: EditorState, symbol: SVGSymbol, padding: number = 0): SpriteEntry {
+  const precision = state.precision || 2;
+  const formatNumber = (value: number) => Number(value.toFixed(precision)).toString();
+  const embeddedPaths = symbol.children.filter(isEmbeddedPath).map(child => {
+    const pathData = child.subPaths.map(subPath => subPathToString(subPath, precision)).join(' ');
+    const transform = getPathTransformAttribute(child, formatNumber);
+    const attributes = Object.entries({
+      d: pathData,
+      ...(transform ? { transform } : {}),
+      ...getEmbeddedPathAttributes(child.style)
+    }).map(([name, value]) => `${name}="${value}"`);
+    return `<path ${attributes.join(' ')} />`;
+  });
+  const paintServers = getReferencedPaintServers(symbol.children);
+  const embeddedDefs = state.gradients.filter(gradient => paintServers.has(gradient.id)).map(generateGradientDef);
+
+  const referenced = symbol.children.filter(child => !isEmbeddedPath(child));
+  const generated = referenced.length > 0
+    ? splitGeneratedSVG(generateElementsSVG(state, { id: symbol.id, children: referenced, style: symbol.style }, padding))
+    : { viewBox: '0 0 100 100', defs: '', content: '' };
+
+  return {
+    id: symbol.id,
+    viewBox: symbol.viewBox || generated.viewBox,
+    defs: [...embeddedDefs, generated.defs].filter(Boolean).join('\n'),
+    content: [...embeddedPaths, generated.content].filter(Boolean).join('\n')
+  };
+}
+
+/**
+ * Symbol ids must be unique within the sheet; clashing ones get a suffix
+ */
+const withUniqueIds = (entries: SpriteEntry[]): SpriteEntry[] => {
+  const used = new Set<string>();
+  return entries.map(entry => {
+    let id = entry.id;
+    for (let suffix = 2; used.has(id); suffix++) {
+      id = `${entry.id}-${suffix}`;
+    }
+    used.add(id);
+    return { ...entry, id };
+  });
+};
+
+/**
+ * Entries that share a gradient or filter each bring its definition; the
+ * sheet keeps the first one of every id
+ */
+const mergeDefinitions = (defs: string[]): string[] => {
+  if (defs.length < 2) return defs;
+  const root = parseSVGMarkup(`<defs xmlns="http://www.w3.org/2000/svg">${defs.join('\n')}</defs>`);
+  const seen = new Set<string>();
+  return root.children
+    .filter((child): child is SVGMarkupElement => typeof child !== 'string')
+    .filter(child => {
+      const id = child.attributes.find(([name]) => name === 'id')?.[1];
+      if (!id) return true;
+      if (seen.has(id)) return false;
+      seen.add(id);
+      return true;
+    })
+    .map(child => serializeSVGMarkup(child));
+};
+
+export function generateSpriteSheet(
+  state: EditorState,
+  options: { groupIds: string[]; symbolIds: string[]; padding?: number; fileName?: string }
+): SpriteSheet {
+  const padding = options.padding ?? 0;
+  const entries = withUniqueIds([
+    ...state.groups
+      .filter(group => options.groupIds.includes(group.id))
+      .map(group => getGroupSpriteEntry(state, group, padding)),
+    ...state.symbols
+      .filter(symbol => options.symbolIds.includes(symbol.id))
+      .map(symbol => getSymbolSpriteEntry(state, symbol, padding))
+  ]);
+
+  const defs = mergeDefinitions(entries.map(entry => entry.defs).filter(Boolean));
+  const symbols = entries.map(entry =>
+    `  <symbol id="${entry.id}" viewBox="${entry.viewBox}">\n${indent(entry.content, '    ')}\n  </symbol>`
+  );
+  const svg = [
+    '<svg xmlns="http://www.w3.org/2000/svg" style="display: none">',
+    defs.length > 0 ? `  <defs>\n${indent(defs.join('\n'), '    ')}\n  </defs>` : '',
+    ...symbols,
+    '</svg>'
+  ].filter(Boolean).join('\n');
+
+  return { svg, usage: generateSpriteUsage(entries, options.fileName || DEFAULT_SPRITE_FILE_NAME) };
+}
+
+/**
+ * HTML showing how to draw each icon of the sheet
+ */
+export function generateSpriteUsage(entries: SpriteEntry[], fileName: string): string {
+  const lines = entries.map(entry => {
+    const [, , width, height] = entry.viewBox.split(/[\s,]+/).map(Number);
+    const size = width > 0 && height > 0 ? ` width="${Math.round(width)}" height="${Math.round(height)}"` : '';
+    return `<svg viewBox="${entry.viewBox}"${size}><use href="${fileName}#${entry.id}"></use></svg>`;
+  });
+  return [
+    `<!-- Reference ${fileName} from the same origin, or paste the sheet into the page and use href="#id" -->`,
+    ...lines
+  ].join('\n');
+}
+
+/**
+ * Turn each <symbol> of a sprite sheet into an editable symbol. Shapes are
+ * converted to paths, which are embedded like symbols created from a
+ * selection but keep their own paint and transform. Gradients and patterns
+ * the symbols paint with come along. Ids already used in the document are
+ * replaced.
+ */
+export function parseSpriteSheet(svgString: string, existingIds: Set<string> = new Set()): ParsedSpriteSheet {
+  const { svgElement } = processSvgContent(svgString);
+  const symbols: SVGSymbol[] = [];
+  const usedIds = new Set(existingIds);
+  const serializer = new XMLSerializer();
+
+  Array.from(svgElement.getElementsByTagName('symbol')).forEach(symbolElement => {
+    const content = Array.from(symbolElement.childNodes)
+      .filter(node => node.nodeName !== 'defs')
+      .map(node => serializer.serializeToString(node))
+      .join('');
+    const paths = parseSVGToSubPaths(`<svg xmlns="http://www.w3.org/2000/svg">${content}</svg>`);
+    if (paths.length === 0) return;
+
+    const sheetId = symbolElement.getAttribute('id');
+    const id = sheetId && !usedIds.has(sheetId) ? sheetId : generateId();
+    usedIds.add(id);
+    symbols.push({
+      id,
+      type: 'symbol',
+      viewBox: symbolElement.getAttribute('viewBox') || undefined,
+      preserveAspectRatio: symbolElement.getAttribute('preserveAspectRatio') || undefined,
+      children: paths.map((path): EmbeddedPathChild => ({
+        type: 'path',
+        id: `symbol-${generateId()}`,
+        subPaths: path.subPaths,
+        ...(Object.keys(path.style).length > 0 ? { style: path.style } : {}),
+        ...(path.transform ? { transform: path.transform } : {})
+      })),
+      locked: false
+    });
+  });
+
+  // Definitions may sit at the top of the sheet or inside each symbol
+  const referenced = getReferencedPaintServers(symbols.flatMap(symbol => symbol.children));
+  const definitions = Array.from(svgElement.getElementsByTagName('defs')).flatMap(defsElement => {
+    const holder = defsElement.ownerDocument.createElementNS('http://www.w3.org/2000/svg', 'svg');
+    holder.appendChild(defsElement.cloneNode(true));
+    return parseGradients(holder);
+  });
+  const renamed = new Map<string, string>();
+  const gradients = definitions
+    .filter((gradient, index) => referenced.has(gradient.id) && definitions.findIndex(other => other.id === gradient.id) === index)
+    .map(gradient => {
+      if (!usedIds.has(gradient.id)) {
+        usedIds.add(gradient.id);
+        return gradient;
+      }
+      const id = generateId();
+      renamed.set(gradient.id, id);
+      return { ...gradient, id };
+    });
+
+  const renamePaint = (value: PathStyle['fill']) => {
+    const serverId = getPaintServerId(value);
+    return serverId && renamed.has(serverId) ? `url(#${renamed.get(serverId)})` : value;
+  };
+  return {
+    symbols: renamed.size === 0 ? symbols : symbols.map(symbol => ({
+      ...symbol,
+      children: symbol.children.map(child => isEmbeddedPath(child) && child.style
+        ? { ...child, style: { ...child.style, fill: renamePaint(child.style.fill), stroke: renamePaint(child.style.stroke) } }
+        : child)
+    })),
+    gradients
+  };
+}
+
+/**
+ * An instance of each symbol, laid out in a grid from the given point
+ */
+export function createSpritePreviewUses(symbols: SVGSymbol[], origin: Point): SVGUse[] {
+  const columns = Math.max(1, Math.ceil(Math.sqrt(symbols.length)));
+  return symbols.map((symbol, index) => ({
+    ...createDefaultUse(
+      `#${symbol.id}`,
+      origin.x + (index % columns) * (PREVIEW_SIZE + PREVIEW_GAP),
+      origin.y + Math.floor(index / columns) * (PREVIEW_SIZE + PREVIEW_GAP)
+    ),
+    id: generateId()
+  }));
+}
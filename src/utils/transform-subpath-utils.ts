@@ -1,4 +1,6 @@
 import { SVGSubPath, SVGCommand, Point } from '../types';
+import { transformArcParameters } from './arc-utils';
+import { TransformMatrix } from './transform-utils';
 
 /**
  * Transform a subpath by scaling it around a center point
@@ -103,7 +105,7 @@ function scaleCommand(
     newCmd.y2 = scaledPoint.y;
   }
   
-  return newCmd;
+  return applyArcTransform(newCmd, { a: scaleX, b: 0, c: 0, d: scaleY, e: 0, f: 0 });
 }
 
 /**
@@ -137,7 +139,7 @@ function rotateCommand(
     newCmd.y2 = rotatedPoint.y;
   }
   
-  return newCmd;
+  return applyArcTransform(newCmd, { a: cos, b: sin, c: -sin, d: cos, e: 0, f: 0 });
 }
 
 /**
@@ -188,7 +190,7 @@ function mirrorCommandHorizontal(cmd: SVGCommand, center: Point): SVGCommand {
     newCmd.y2 = cmd.y2; // Y remains the same for horizontal mirror
   }
   
-  return newCmd;
+  return applyArcTransform(newCmd, { a: -1, b: 0, c: 0, d: 1, e: 0, f: 0 });
 }
 
 /**
@@ -220,7 +222,26 @@ function mirrorCommandVertical(cmd: SVGCommand, center: Point): SVGCommand {
     newCmd.y2 = center.y + (center.y - cmd.y2);
   }
   
-  return newCmd;
+  return applyArcTransform(newCmd, { a: 1, b: 0, c: 0, d: -1, e: 0, f: 0 });
+}
+
+/**
+ * Update the radii, rotation and sweep of an arc command for a linear transform
+ */
+function applyArcTransform(cmd: SVGCommand, matrix: TransformMatrix): SVGCommand {
+  if (cmd.command !== 'A' || cmd.rx === undefined || cmd.ry === undefined) {
+    return cmd;
+  }
+  
+  const arc = transformArcParameters({
+    rx: cmd.rx,
+    ry: cmd.ry,
+    xAxisRotation: cmd.xAxisRotation ?? 0,
+    largeArcFlag: cmd.largeArcFlag ? 1 : 0,
+    sweepFlag: cmd.sweepFlag ? 1 : 0
+  }, matrix);
+  
+  return { ...cmd, ...arc };
 }
 
 /**
@@ -2,7 +2,7 @@
  * Utility functions for SVG transform parsing and manipulation
  */
 
-import { ViewportState } from '../types';
+import { SVGGroup, ViewportState } from '../types';
 
 export interface TransformMatrix {
   a: number;
@@ -130,6 +130,31 @@ export function multiplyMatrices(m1: TransformMatrix, m2: TransformMatrix): Tran
   };
 }
 
+export const IDENTITY_MATRIX: TransformMatrix = { a: 1, b: 0, c: 0, d: 1, e: 0, f: 0 };
+
+/**
+ * Combined transform of the groups around each grouped element, outermost first
+ */
+export function getAncestorTransforms(groups: SVGGroup[]): Map<string, TransformMatrix> {
+  const parents = new Map<string, SVGGroup>();
+  groups.forEach(group => group.children.forEach(child => parents.set(child.id, group)));
+
+  const transforms = new Map<string, TransformMatrix>();
+  const resolve = (id: string, visited: Set<string> = new Set()): TransformMatrix => {
+    const cached = transforms.get(id);
+    if (cached) return cached;
+    const parent = parents.get(id);
+    if (!parent || visited.has(parent.id)) return IDENTITY_MATRIX;
+    visited.add(parent.id);
+    const own = parent.transform ? parseTransformString(parent.transform) : IDENTITY_MATRIX;
+    const matrix = multiplyMatrices(resolve(parent.id, visited), own);
+    transforms.set(id, matrix);
+    return matrix;
+  };
+  parents.forEach((_, id) => resolve(id));
+  return transforms;
+}
+
 /**
  * Apply a transformation matrix to a point
  */
@@ -147,6 +172,62 @@ export function matrixToString(matrix: TransformMatrix): string {
   return `matrix(${matrix.a},${matrix.b},${matrix.c},${matrix.d},${matrix.e},${matrix.f})`;
 }
 
+export interface DecomposedTransform {
+  translateX: number;
+  translateY: number;
+  rotation: number; // Degrees
+  scaleX: number;
+  scaleY: number; // Negative when the matrix mirrors
+  skewX: number; // Degrees
+}
+
+/**
+ * Check whether a matrix leaves every point in place
+ */
+export function isIdentityMatrix(matrix: TransformMatrix, tolerance = 1e-9): boolean {
+  return Math.abs(matrix.a - 1) <= tolerance &&
+    Math.abs(matrix.b) <= tolerance &&
+    Math.abs(matrix.c) <= tolerance &&
+    Math.abs(matrix.d - 1) <= tolerance &&
+    Math.abs(matrix.e) <= tolerance &&
+    Math.abs(matrix.f) <= tolerance;
+}
+
+/**
+ * Invert a transformation matrix, or null when it collapses the plane
+ */
+export function invertMatrix(matrix: TransformMatrix): TransformMatrix | null {
+  const determinant = matrix.a * matrix.d - matrix.b * matrix.c;
+  if (Math.abs(determinant) < 1e-12) return null;
+  return {
+    a: matrix.d / determinant,
+    b: -matrix.b / determinant,
+    c: -matrix.c / determinant,
+    d: matrix.a / determinant,
+    e: (matrix.c * matrix.f - matrix.d * matrix.e) / determinant,
+    f: (matrix.b * matrix.e - matrix.a * matrix.f) / determinant
+  };
+}
+
+/**
+ * Split a matrix into translate(tx,ty) rotate(rotation) skewX(skewX) scale(scaleX,scaleY)
+ */
+export function decomposeMatrix(matrix: TransformMatrix): DecomposedTransform {
+  const scaleX = Math.sqrt(matrix.a * matrix.a + matrix.b * matrix.b);
+  const determinant = matrix.a * matrix.d - matrix.b * matrix.c;
+  const scaleY = scaleX > 0 ? determinant / scaleX : 0;
+  const skew = determinant !== 0 ? Math.atan((matrix.a * matrix.c + matrix.b * matrix.d) / determinant) : 0;
+
+  return {
+    translateX: matrix.e,
+    translateY: matrix.f,
+    rotation: Math.atan2(matrix.b, matrix.a) * 180 / Math.PI,
+    scaleX,
+    scaleY,
+    skewX: skew * 180 / Math.PI
+  };
+}
+
 /**
  * Creates a safe transform string for SVG viewport
  * Validates viewport values and provides fallbacks for invalid values